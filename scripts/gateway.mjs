@@ -0,0 +1,142 @@
+// Local API gateway.
+//
+//   node scripts/gateway.mjs                                   # listens on http://localhost:4020
+//   node scripts/gateway.mjs --port 8080
+//   node scripts/gateway.mjs --base-url http://localhost:4010  # forward every call to the mock server
+//   node scripts/gateway.mjs --flush 10                        # record calls every 10 seconds
+//
+// Calls to http://localhost:4020/{apiId}/path are forwarded to the API's
+// base URL; APIs with apiKey authentication need a portal key in the
+// X-API-Key header. With SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set,
+// APIs and keys are read from Supabase and the calls are recorded there,
+// like the gateway edge function does. Otherwise the seeded local catalog
+// is used in memory, so only keyless APIs can be called and the stats are
+// printed instead. Calls are recorded in batches.
+import { createServer as createHttpServer } from "node:http";
+import { createServer } from "vite";
+
+const readOption = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const port = Number(readOption("port")) || 4020;
+const baseUrlOverride = readOption("base-url");
+const flushSeconds = Number(readOption("flush")) || 5;
+
+// Vite compiles the TypeScript modules shared with the app
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error",
+});
+
+const { handleGatewayRequest } = await vite.ssrLoadModule("/src/services/gateway/proxy.ts");
+const { createLocalRepository, createSupabaseRepository } = await vite.ssrLoadModule(
+  "/src/services/catalog/index.ts"
+);
+
+const createCatalog = async () => {
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+  if (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY) {
+    const { createClient } = await import("@supabase/supabase-js");
+    console.log(`Proxying the APIs of ${SUPABASE_URL}`);
+    return {
+      catalog: createSupabaseRepository(
+        createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+      ),
+      local: false,
+    };
+  }
+  console.log("Proxying the seeded local catalog (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to use Supabase)");
+  return { catalog: createLocalRepository({ storage: null }), local: true };
+};
+
+const { catalog, local } = await createCatalog();
+const apis = new Map((await catalog.listApis()).map((api) => [api.id, api]));
+
+let pending = [];
+
+const flush = async () => {
+  if (pending.length === 0) return;
+  const calls = pending;
+  pending = [];
+  try {
+    await catalog.recordApiCalls(calls);
+  } catch (error) {
+    console.error(`Could not record ${calls.length} calls`, error);
+    return;
+  }
+  console.log(`${calls.length} calls recorded at ${new Date().toISOString()}`);
+  if (local) {
+    const stats = await catalog.listStats();
+    new Set(calls.map((call) => call.api_id)).forEach((apiId) => {
+      const apiStats = stats.find((s) => s.api_id === apiId);
+      console.log(
+        `  ${apis.get(apiId)?.name ?? apiId}: ${apiStats?.total_calls} calls, ${apiStats?.last_week_calls} last week, ${apiStats?.response_time}ms`
+      );
+    });
+  }
+};
+
+const backend = {
+  findApi: (id) => catalog.getApi(id),
+  findKeyByHash: (keyHash) => catalog.findApiKeyByHash(keyHash),
+  recordCall: async (call) => {
+    pending.push(call);
+    const latency = `${call.latency_ms}ms`;
+    console.log(`${call.method.padEnd(7)} ${call.status} ${latency.padStart(7)}  ${apis.get(call.api_id)?.name ?? call.api_id} ${call.path}`);
+  },
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+// The gateway works on fetch Requests and Responses
+const toRequest = async (req) => {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+  });
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  return new Request(new URL(req.url, `http://localhost:${port}`), {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req) : undefined,
+  });
+};
+
+const server = createHttpServer(async (req, res) => {
+  try {
+    const response = await handleGatewayRequest(await toRequest(req), backend, { baseUrlOverride });
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    console.error(error);
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Gateway error" }));
+  }
+});
+
+const timer = setInterval(() => {
+  flush().catch((error) => console.error(error));
+}, flushSeconds * 1000);
+
+const shutdown = async () => {
+  clearInterval(timer);
+  server.close();
+  await flush();
+  await vite.close();
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(port, () => {
+  console.log(`Gateway listening on http://localhost:${port}/{apiId}/path`);
+});
@@ -0,0 +1,78 @@
+// Local mock server for the "Try it" console.
+//
+//   node scripts/mock-server.mjs            # listens on http://localhost:4010
+//   PORT=5000 node scripts/mock-server.mjs
+//
+// Every request is answered with a JSON echo of what was received, so the
+// console can be tested without external network. Point an API's base URL
+// (or the console's server field) at the mock server. Two query parameters
+// shape the response:
+//   __status=404   reply with that status code
+//   __delay=500    wait that many milliseconds before replying
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT) || 4010;
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const parseBody = (text) => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const server = createServer(async (req, res) => {
+  // The console runs on another origin, so answer CORS preflights and
+  // expose every response header
+  res.setHeader("Access-Control-Allow-Origin", req.headers.origin || "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    req.headers["access-control-request-headers"] || "*"
+  );
+  res.setHeader("Access-Control-Expose-Headers", "*");
+  res.setHeader("Vary", "Origin");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const status = Number(url.searchParams.get("__status")) || 200;
+  const delay = Number(url.searchParams.get("__delay")) || 0;
+  url.searchParams.delete("__status");
+  url.searchParams.delete("__delay");
+
+  const body = await readBody(req);
+  if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+  const payload = {
+    method: req.method,
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    headers: req.headers,
+    body: parseBody(body),
+    receivedAt: new Date().toISOString(),
+  };
+
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "X-Mock-Server": "api-vista-hub",
+  });
+  res.end(JSON.stringify(payload));
+  console.log(`${req.method} ${url.pathname} -> ${status}`);
+});
+
+server.listen(port, () => {
+  console.log(`Mock server listening on http://localhost:${port}`);
+});
@@ -0,0 +1,81 @@
+// Local runner for the health prober.
+//
+//   node scripts/probe-health.mjs                                   # probe once
+//   node scripts/probe-health.mjs --base-url http://localhost:4010  # against the mock server
+//   node scripts/probe-health.mjs --interval 60                     # every 60 seconds
+//
+// With SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set, the APIs are read from
+// Supabase and the checks are stored there, like the health-probe edge
+// function does. Otherwise the seeded local catalog is probed in memory.
+// --base-url sends every probe to that origin instead of the API's base URL.
+import { createServer } from "vite";
+
+const readOption = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const baseUrlOverride = readOption("base-url");
+const intervalSeconds = Number(readOption("interval")) || 0;
+
+// Vite compiles the TypeScript modules shared with the app
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error",
+});
+
+const { probeApis, toProbeTargets } = await vite.ssrLoadModule("/src/services/health/probe.ts");
+const { formatUptime } = await vite.ssrLoadModule("/src/services/health/summary.ts");
+const { createLocalRepository, createSupabaseRepository } = await vite.ssrLoadModule(
+  "/src/services/catalog/index.ts"
+);
+
+const createCatalog = async () => {
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+  if (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY) {
+    const { createClient } = await import("@supabase/supabase-js");
+    console.log(`Probing the APIs of ${SUPABASE_URL}`);
+    return createSupabaseRepository(
+      createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    );
+  }
+  console.log("Probing the seeded local catalog (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to use Supabase)");
+  return createLocalRepository({ storage: null });
+};
+
+const catalog = await createCatalog();
+
+const runOnce = async () => {
+  const apis = await catalog.listApis();
+  const targets = toProbeTargets(apis);
+  const results = await probeApis(targets, { baseUrlOverride });
+  await catalog.recordHealthChecks(results);
+
+  const stats = await catalog.listStats();
+  results.forEach((result) => {
+    const api = apis.find((a) => a.id === result.api_id);
+    const apiStats = stats.find((s) => s.api_id === result.api_id);
+    const detail = result.error || `HTTP ${result.status_code}`;
+    const latency = result.latency_ms === null ? "-" : `${result.latency_ms}ms`;
+    console.log(
+      `${result.status.padEnd(8)} ${latency.padStart(7)}  ${api?.name ?? result.api_id} (${detail}), uptime ${formatUptime(apiStats?.uptime)}`
+    );
+  });
+  console.log(`${results.length} of ${apis.length} APIs probed at ${new Date().toISOString()}`);
+};
+
+try {
+  await runOnce();
+  if (intervalSeconds > 0) {
+    setInterval(() => {
+      runOnce().catch((error) => console.error(error));
+    }, intervalSeconds * 1000);
+  } else {
+    await vite.close();
+  }
+} catch (error) {
+  console.error(error);
+  await vite.close();
+  process.exitCode = 1;
+}
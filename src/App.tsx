@@ -4,32 +4,59 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import AuthProvider from "./components/AuthProvider";
+import RequireAuth from "./components/RequireAuth";
 import Layout from "./components/Layout";
 import Dashboard from "./pages/Dashboard";
 import AddApi from "./pages/AddApi";
 import SearchApis from "./pages/SearchApis";
 import ViewApi from "./pages/ViewApi";
+import Status from "./pages/Status";
+import Incidents from "./pages/Incidents";
+import IncidentEditor from "./pages/IncidentEditor";
+import Notifications from "./pages/Notifications";
+import Categories from "./pages/Categories";
+import Team from "./pages/Team";
+import Applications from "./pages/Applications";
+import AccessRequests from "./pages/AccessRequests";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Layout />}>
-            <Route index element={<Dashboard />} />
-            <Route path="add" element={<AddApi />} />
-            <Route path="search" element={<SearchApis />} />
-            <Route path="view/:id" element={<ViewApi />} />
-            <Route path="*" element={<NotFound />} />
-          </Route>
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            {/* Public, outside the portal layout */}
+            <Route path="/status" element={<Status />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/" element={<Layout />}>
+              <Route index element={<Dashboard />} />
+              <Route path="add" element={<RequireAuth><AddApi /></RequireAuth>} />
+              <Route path="edit/:id" element={<RequireAuth><AddApi /></RequireAuth>} />
+              <Route path="edit/:id/new-version" element={<RequireAuth><AddApi newVersion /></RequireAuth>} />
+              <Route path="search" element={<SearchApis />} />
+              <Route path="view/:id" element={<ViewApi />} />
+              <Route path="view/:id/v/:version" element={<ViewApi />} />
+              <Route path="incidents" element={<Incidents />} />
+              <Route path="incidents/new" element={<RequireAuth><IncidentEditor /></RequireAuth>} />
+              <Route path="incidents/:id" element={<RequireAuth><IncidentEditor /></RequireAuth>} />
+              <Route path="notifications" element={<RequireAuth><Notifications /></RequireAuth>} />
+              <Route path="categories" element={<RequireAuth><Categories /></RequireAuth>} />
+              <Route path="teams/:id" element={<Team />} />
+              <Route path="applications" element={<RequireAuth><Applications /></RequireAuth>} />
+              <Route path="access-requests" element={<RequireAuth><AccessRequests /></RequireAuth>} />
+              <Route path="*" element={<NotFound />} />
+            </Route>
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
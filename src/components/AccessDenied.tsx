@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { ChevronLeft, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface AccessDeniedProps {
+  title?: string;
+  description?: string;
+  backTo?: string;
+  backLabel?: string;
+}
+
+// Shown instead of a page the signed-in user's roles do not allow
+const AccessDenied = ({
+  title = "No tienes permiso",
+  description = "Tu rol no permite realizar esta acción. Pide acceso a un administrador.",
+  backTo = "/",
+  backLabel = "Volver al inicio",
+}: AccessDeniedProps) => (
+  <div className="flex flex-col items-center justify-center h-[60vh]">
+    <div className="text-center max-w-md">
+      <ShieldAlert className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+      <h1 className="text-2xl font-bold mb-2">{title}</h1>
+      <p className="text-muted-foreground mb-6">{description}</p>
+      <Button asChild>
+        <Link to={backTo} className="flex items-center gap-2">
+          <ChevronLeft className="h-4 w-4" />
+          {backLabel}
+        </Link>
+      </Button>
+    </div>
+  </div>
+);
+
+export default AccessDenied;
@@ -0,0 +1,32 @@
+import { cn } from "@/lib/utils";
+import {
+  ACCESS_REQUEST_STATUS_LABELS,
+  API_KEY_STATUS_LABELS,
+  type ApiKeyStatus,
+} from "@/services/access/keys";
+import type { AccessRequestStatus } from "@/services/types";
+
+type AccessStatus = AccessRequestStatus | ApiKeyStatus;
+
+const STATUS_LABELS: Record<AccessStatus, string> = {
+  ...ACCESS_REQUEST_STATUS_LABELS,
+  ...API_KEY_STATUS_LABELS,
+};
+
+const STATUS_COLORS: Record<AccessStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  active: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  revoked: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  expired: "bg-muted text-muted-foreground",
+};
+
+// Status of an access request or of an API key
+const AccessStatusBadge = ({ status, className }: { status: AccessStatus; className?: string }) => (
+  <span className={cn("px-2 py-1 rounded text-xs font-medium", STATUS_COLORS[status], className)}>
+    {STATUS_LABELS[status]}
+  </span>
+);
+
+export default AccessStatusBadge;
@@ -0,0 +1,91 @@
+import { useId } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { Api, IncidentImpact } from "@/services/types";
+
+interface AffectedApisPickerProps {
+  apis: Api[];
+  value: IncidentImpact[];
+  onChange: (value: IncidentImpact[]) => void;
+}
+
+// Pick the APIs an incident affects and, optionally, which of their
+// endpoints. No endpoint picked means the whole API.
+const AffectedApisPicker = ({ apis, value, onChange }: AffectedApisPickerProps) => {
+  const idPrefix = useId();
+
+  const toggleApi = (apiId: string, checked: boolean) => {
+    onChange(
+      checked
+        ? [...value, { api_id: apiId, endpoint_ids: [] }]
+        : value.filter((impact) => impact.api_id !== apiId)
+    );
+  };
+
+  const toggleEndpoint = (apiId: string, endpointId: string, checked: boolean) => {
+    onChange(
+      value.map((impact) =>
+        impact.api_id !== apiId
+          ? impact
+          : {
+              ...impact,
+              endpoint_ids: checked
+                ? [...impact.endpoint_ids, endpointId]
+                : impact.endpoint_ids.filter((id) => id !== endpointId),
+            }
+      )
+    );
+  };
+
+  return (
+    <div className="border rounded-md divide-y">
+      {apis.map((api) => {
+        const impact = value.find((i) => i.api_id === api.id);
+        const apiCheckboxId = `${idPrefix}-${api.id}`;
+
+        return (
+          <div key={api.id} className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={apiCheckboxId}
+                checked={Boolean(impact)}
+                onCheckedChange={(checked) => toggleApi(api.id, checked === true)}
+              />
+              <Label htmlFor={apiCheckboxId} className="font-medium">
+                {api.name}
+              </Label>
+            </div>
+            {impact && (api.endpoints || []).length > 0 && (
+              <div className="ml-6 space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {impact.endpoint_ids.length === 0
+                    ? "Toda la API. Marca endpoints para acotar la incidencia."
+                    : "Solo los endpoints marcados."}
+                </p>
+                {(api.endpoints || []).map((endpoint) => {
+                  const endpointCheckboxId = `${idPrefix}-${endpoint.id}`;
+                  return (
+                    <div key={endpoint.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={endpointCheckboxId}
+                        checked={impact.endpoint_ids.includes(endpoint.id)}
+                        onCheckedChange={(checked) =>
+                          toggleEndpoint(api.id, endpoint.id, checked === true)
+                        }
+                      />
+                      <Label htmlFor={endpointCheckboxId} className="font-mono text-xs">
+                        {endpoint.method} {endpoint.path}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AffectedApisPicker;
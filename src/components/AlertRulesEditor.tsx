@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { BellRing, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import AlertStatusBadge from "@/components/AlertStatusBadge";
+import {
+  acknowledgeAlert,
+  createAlertRule,
+  deleteAlertRule,
+  fetchAlertRules,
+  fetchAlerts,
+  resolveAlert,
+  updateAlertRule,
+  type AlertMetric,
+  type AlertRule,
+  type Api,
+  type ApiAlert,
+} from "@/services/apiService";
+import {
+  ALERT_METRICS,
+  ALERT_METRIC_LABELS,
+  ALERT_METRIC_UNITS,
+  describeAlertCondition,
+  formatAlertValue,
+} from "@/services/alerts/evaluate";
+
+const WINDOWS = [
+  { label: "24 horas", days: 1 },
+  { label: "7 días", days: 7 },
+];
+
+// Suggested threshold for each metric when the form opens
+const DEFAULT_THRESHOLDS: Record<AlertMetric, number> = {
+  uptime: 99.5,
+  p95_latency: 500,
+  volume_drop: 30,
+};
+
+interface AlertRulesEditorProps {
+  api: Api;
+  // Only the API's owners and admins change its rules
+  canEdit: boolean;
+}
+
+// Alert rules of an API and the alerts they fired
+const AlertRulesEditor = ({ api, canEdit }: AlertRulesEditorProps) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<ApiAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [metric, setMetric] = useState<AlertMetric>("uptime");
+  const [threshold, setThreshold] = useState(String(DEFAULT_THRESHOLDS.uptime));
+  const [windowDays, setWindowDays] = useState("1");
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    const [rulesData, alertsData] = await Promise.all([
+      fetchAlertRules(api.id),
+      fetchAlerts({ apiId: api.id }),
+    ]);
+    setRules(rulesData);
+    setAlerts(alertsData);
+    setLoading(false);
+  }, [api.id]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleMetricChange = (value: string) => {
+    setMetric(value as AlertMetric);
+    setThreshold(String(DEFAULT_THRESHOLDS[value as AlertMetric]));
+  };
+
+  const handleAdd = async () => {
+    const value = Number(threshold);
+    if (!threshold || !(value > 0)) {
+      toast({
+        title: "Umbral no válido",
+        description: "El umbral debe ser un número mayor que cero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const rule = await createAlertRule({
+      api_id: api.id,
+      metric,
+      threshold: value,
+      window_days: Number(windowDays),
+      enabled: true,
+    });
+    setSaving(false);
+
+    if (rule) {
+      toast({ title: "Regla creada", description: describeAlertCondition(rule) });
+      loadData();
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    const updated = await updateAlertRule(rule.id, { enabled });
+    if (updated) {
+      setRules(rules.map((r) => (r.id === updated.id ? updated : r)));
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (await deleteAlertRule(rule.id)) {
+      toast({ title: "Regla eliminada", description: describeAlertCondition(rule) });
+      loadData();
+    }
+  };
+
+  const handleAlertAction = async (alert: ApiAlert, action: "acknowledge" | "resolve") => {
+    const updated = action === "acknowledge" ? await acknowledgeAlert(alert.id) : await resolveAlert(alert.id);
+    if (updated) {
+      setAlerts(alerts.map((a) => (a.id === updated.id ? updated : a)));
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Cargando alertas...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Reglas</CardTitle>
+          <CardDescription>
+            Se evalúan tras cada comprobación de salud y cada carga de uso. El uptime cuenta las
+            comprobaciones del periodo; la latencia y las llamadas, los días completos hasta ayer.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length > 0 ? (
+            <div className="border rounded-md divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center gap-3 p-3">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => handleToggle(rule, checked)}
+                    disabled={!canEdit}
+                    aria-label="Activar regla"
+                  />
+                  <span className={rule.enabled ? "text-sm" : "text-sm text-muted-foreground"}>
+                    {describeAlertCondition(rule)}
+                  </span>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-auto text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(rule)}
+                      aria-label="Eliminar regla"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Esta API no tiene reglas de alerta.</p>
+          )}
+
+          {canEdit && (
+            <div className="grid gap-3 sm:grid-cols-[1fr_140px_140px_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label>Métrica</Label>
+                <Select value={metric} onValueChange={handleMetricChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_METRICS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ALERT_METRIC_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Umbral ({ALERT_METRIC_UNITS[metric]})</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Periodo</Label>
+                <Select value={windowDays} onValueChange={setWindowDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WINDOWS.map(({ label, days }) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="button" onClick={handleAdd} disabled={saving} className="flex items-center gap-1">
+                <Plus className="h-4 w-4" />
+                {saving ? "Añadiendo..." : "Añadir regla"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-muted-foreground" />
+            Alertas disparadas
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {alerts.length > 0 ? (
+            alerts.map((alert) => (
+              <div key={alert.id} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+                <AlertStatusBadge status={alert.status} />
+                <div className="space-y-0.5">
+                  <p className="text-sm">{describeAlertCondition(alert)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Medido {formatAlertValue(alert.metric, alert.value)} ·{" "}
+                    {formatDistanceToNow(new Date(alert.fired_at), { addSuffix: true, locale: es })}
+                  </p>
+                </div>
+                {alert.status !== "resolved" && (
+                  <div className="ml-auto flex gap-2">
+                    {alert.status === "firing" && (
+                      <Button variant="outline" size="sm" onClick={() => handleAlertAction(alert, "acknowledge")}>
+                        Reconocer
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleAlertAction(alert, "resolve")}>
+                      Resolver
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">Ninguna regla ha disparado alertas todavía.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AlertRulesEditor;
@@ -0,0 +1,17 @@
+import { cn } from "@/lib/utils";
+import { ALERT_STATUS_LABELS } from "@/services/alerts/evaluate";
+import type { AlertStatus } from "@/services/types";
+
+const STATUS_COLORS: Record<AlertStatus, string> = {
+  firing: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  acknowledged: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  resolved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+};
+
+const AlertStatusBadge = ({ status, className }: { status: AlertStatus; className?: string }) => (
+  <span className={cn("px-2 py-1 rounded text-xs font-medium", STATUS_COLORS[status], className)}>
+    {ALERT_STATUS_LABELS[status]}
+  </span>
+);
+
+export default AlertStatusBadge;
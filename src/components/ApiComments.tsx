@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { MessageSquare, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { addComment, deleteComment, fetchComments, type Api, type ApiComment } from "@/services/apiService";
+
+const MAX_COMMENT_LENGTH = 2000;
+
+interface ApiCommentsProps {
+  api: Api;
+  // Owners and admins remove any comment; everyone else only their own
+  canEdit: boolean;
+}
+
+// Comments on an API. The API's owners and followers are notified of each
+// new one.
+const ApiComments = ({ api, canEdit }: ApiCommentsProps) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [comments, setComments] = useState<ApiComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadComments = useCallback(async () => {
+    setComments(await fetchComments(api.id));
+    setLoading(false);
+  }, [api.id]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    const comment = await addComment(api.id, body);
+    setSaving(false);
+
+    if (comment) {
+      setComments([...comments, comment]);
+      setBody("");
+    }
+  };
+
+  const handleDelete = async (comment: ApiComment) => {
+    if (await deleteComment(comment)) {
+      setComments(comments.filter((c) => c.id !== comment.id));
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Cargando comentarios...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {comments.length > 0 ? (
+        <div className="border rounded-md divide-y">
+          {comments.map((comment) => (
+            <div key={comment.id} className="p-3 space-y-1">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{comment.author || "Anónimo"}</span>
+                <span className="text-muted-foreground">
+                  {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true, locale: es })}
+                </span>
+                {(canEdit || comment.user_id === user?.id) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(comment)}
+                    aria-label="Eliminar comentario"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Nadie ha comentado esta API todavía.</p>
+      )}
+
+      {user ? (
+        <div className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Escribe un comentario. Los propietarios y seguidores de la API recibirán un aviso."
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={3}
+          />
+          <Button onClick={handleSubmit} disabled={saving || !body.trim()} className="flex items-center gap-1">
+            <MessageSquare className="h-4 w-4" />
+            Comentar
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          <Link
+            to={`/login?redirect=${encodeURIComponent(location.pathname + location.search)}`}
+            className="text-primary hover:underline"
+          >
+            Inicia sesión
+          </Link>{" "}
+          para comentar.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ApiComments;
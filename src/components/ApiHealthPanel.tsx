@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Activity } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import HealthStatusBadge from "@/components/HealthStatusBadge";
+import { fetchHealthChecks, type Api, type ApiHealthCheck, type Incident } from "@/services/apiService";
+import { DAY_MS, checksSince, formatUptime, summarizeChecks } from "@/services/health/summary";
+import { applyIncidentDowntime } from "@/services/incidents/impact";
+
+const WINDOWS = [
+  { label: "24 horas", days: 1 },
+  { label: "7 días", days: 7 },
+  { label: "30 días", days: 30 },
+];
+
+interface ApiHealthPanelProps {
+  api: Api;
+  // Checks taken during major incidents of the API count as down
+  incidents?: Incident[];
+}
+
+// Latest health check of an API and its uptime over rolling windows
+const ApiHealthPanel = ({ api, incidents = [] }: ApiHealthPanelProps) => {
+  const [probes, setProbes] = useState<ApiHealthCheck[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadChecks = async () => {
+      setLoading(true);
+      const since = new Date(Date.now() - 30 * DAY_MS).toISOString();
+      setProbes(await fetchHealthChecks({ apiId: api.id, since }));
+      setLoading(false);
+    };
+    loadChecks();
+  }, [api.id]);
+
+  const checks = useMemo(() => applyIncidentDowntime(probes, incidents), [probes, incidents]);
+  const latest = checks[0];
+  const now = Date.now();
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Activity className="h-4 w-4 text-muted-foreground" />
+          Estado
+          {latest && <HealthStatusBadge status={latest.status} className="ml-auto" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!api.health_path ? (
+          <p className="text-sm text-muted-foreground">
+            Esta API no tiene una ruta de salud configurada, por lo que no se monitoriza.
+          </p>
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Cargando comprobaciones...</p>
+        ) : !latest ? (
+          <p className="text-sm text-muted-foreground">
+            Todavía no hay comprobaciones de <code className="font-mono">{api.health_path}</code>.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Última comprobación de <code className="font-mono">{api.health_path}</code>{" "}
+              {formatDistanceToNow(new Date(latest.checked_at), { addSuffix: true, locale: es })}
+              {latest.latency_ms !== null && ` · ${latest.latency_ms}ms`}
+              {latest.error && ` · ${latest.error}`}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {WINDOWS.map(({ label, days }) => {
+                const summary = summarizeChecks(checksSince(checks, now - days * DAY_MS));
+                return (
+                  <div key={label} className="rounded-md border p-2">
+                    <div className="text-xs text-muted-foreground">Uptime {label}</div>
+                    <div className="font-semibold">{formatUptime(summary.uptime)}</div>
+                    <Badge variant="outline" className="text-[10px] mt-1">
+                      {summary.checks} comprobaciones
+                    </Badge>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiHealthPanel;
@@ -0,0 +1,46 @@
+import { Copy, KeyRound } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import type { IssuedApiKey } from "@/services/apiService";
+
+// A newly issued key. Only its hash is stored, so this is the one chance
+// to copy it.
+const ApiKeySecret = ({ issued }: { issued: IssuedApiKey }) => {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(issued.secret);
+      toast({ title: "Copiada", description: "La clave se copió al portapapeles." });
+    } catch {
+      toast({
+        title: "Error",
+        description: "No se pudo copiar la clave.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Alert>
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>Copia tu clave ahora</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>No volverás a verla: solo guardamos una huella de la clave.</p>
+        <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+          <code className="flex-1 break-all text-xs">{issued.secret}</code>
+          <Button type="button" variant="ghost" size="sm" onClick={handleCopy}>
+            <Copy className="h-3 w-3 mr-1" />
+            Copiar
+          </Button>
+        </div>
+        {issued.key.expires_at && (
+          <p className="text-xs text-muted-foreground">
+            Caduca el {new Date(issued.key.expires_at).toLocaleDateString("es")}.
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ApiKeySecret;
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import VersionStatusBadge from "@/components/VersionStatusBadge";
+import { cn } from "@/lib/utils";
+import { setApiVersionStatus, type ApiVersion } from "@/services/apiService";
+import { VERSION_STATUS_LABELS, versionPath } from "@/services/versions/history";
+
+interface ApiVersionListProps {
+  apiId: string;
+  versions: ApiVersion[];
+  // The version shown on the page
+  viewing: string;
+  canEdit: boolean;
+  onChange: (version: ApiVersion) => void;
+}
+
+// Every version of an API, newest first. Owners can deprecate older
+// versions or support them again.
+const ApiVersionList = ({ apiId, versions, viewing, canEdit, onChange }: ApiVersionListProps) => {
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const handleStatus = async (version: ApiVersion) => {
+    const status = version.status === "deprecated" ? "supported" : "deprecated";
+    setSavingId(version.id);
+    const saved = await setApiVersionStatus(version, status);
+    setSavingId(null);
+
+    if (saved) {
+      onChange(saved);
+      toast({
+        title: "Versión actualizada",
+        description: `${saved.version} está ahora ${VERSION_STATUS_LABELS[status].toLowerCase()}.`,
+      });
+    }
+  };
+
+  return (
+    <div className="not-prose divide-y rounded-md border">
+      {versions.map((version) => (
+        <div
+          key={version.id}
+          className={cn(
+            "flex flex-wrap items-center justify-between gap-2 px-3 py-2",
+            version.version === viewing && "bg-muted/50"
+          )}
+        >
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Link to={versionPath(apiId, version)} className="font-mono font-medium hover:underline">
+              {version.version}
+            </Link>
+            <VersionStatusBadge status={version.status} />
+            <span className="text-xs text-muted-foreground">
+              Publicada el {new Date(version.created_at).toLocaleDateString("es")} · {version.base_url}
+            </span>
+          </div>
+          {canEdit && version.status !== "current" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleStatus(version)}
+              disabled={savingId === version.id}
+            >
+              {savingId === version.id && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {version.status === "deprecated" ? "Marcar como soportada" : "Marcar como obsoleta"}
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ApiVersionList;
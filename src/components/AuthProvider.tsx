@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { AuthContext, type AuthContextValue } from "@/hooks/use-auth";
+import { auth, type AuthUser } from "@/services/auth";
+import { fetchTeamApiIds, fetchUserRoles } from "@/services/apiService";
+import type { UserRole } from "@/services/types";
+
+// Reads the stored session once and keeps the signed-in user and their
+// roles up to date for the whole app
+const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [teamApiIds, setTeamApiIds] = useState<string[]>([]);
+  // Whose roles are loaded, so a new user's pages wait for theirs
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
+  // Bumped by each role fetch; a fetch that finishes after a newer one
+  // started, for instance for the previous user, is dropped
+  const rolesRequest = useRef(0);
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthChange(setUser);
+    auth
+      .getUser()
+      .then(setUser)
+      .catch((error) => console.error("Error reading the session:", error))
+      .finally(() => setSessionLoading(false));
+    return unsubscribe;
+  }, []);
+
+  const refreshRoles = useCallback(async () => {
+    const request = ++rolesRequest.current;
+    const [fetchedRoles, fetchedTeamApiIds] = user
+      ? await Promise.all([fetchUserRoles(), fetchTeamApiIds()])
+      : [[], []];
+    if (request !== rolesRequest.current) return;
+    setRoles(fetchedRoles);
+    setTeamApiIds(fetchedTeamApiIds);
+    setRolesUserId(user?.id ?? null);
+  }, [user]);
+
+  useEffect(() => {
+    refreshRoles();
+  }, [refreshRoles]);
+
+  const loading = sessionLoading || (user !== null && rolesUserId !== user.id);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      user,
+      roles,
+      teamApiIds,
+      loading,
+      refreshRoles,
+      signInWithPassword: (email, password) => auth.signInWithPassword(email, password),
+      signUp: (input) => auth.signUp(input),
+      sendMagicLink: (email, redirectTo) => auth.sendMagicLink(email, redirectTo),
+      signOut: () => auth.signOut(),
+    }),
+    [user, roles, teamApiIds, loading, refreshRoles]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
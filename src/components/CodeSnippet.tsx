@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { useSnippetLanguage } from "@/hooks/use-snippet-language";
+import {
+  SNIPPET_LANGUAGES,
+  buildSnippetRequest,
+  generateSnippet,
+  type SnippetLanguage,
+} from "@/services/requests/snippets";
+import { deprecationHeaders } from "@/services/lifecycle/states";
+import type { Api, ApiEndpoint } from "@/services/types";
+
+interface CodeSnippetProps {
+  api: Api;
+  endpoint: Pick<ApiEndpoint, "method" | "path"> & Partial<Pick<ApiEndpoint, "parameters" | "request_body">>;
+}
+
+// Example code calling an endpoint, in the language the user picked last
+const CodeSnippet = ({ api, endpoint }: CodeSnippetProps) => {
+  const [language, setLanguage] = useSnippetLanguage();
+
+  const code = useMemo(
+    () => generateSnippet(language, buildSnippetRequest(api, endpoint), deprecationHeaders(api)),
+    [language, api, endpoint]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Copiado", description: "El código se copió al portapapeles." });
+    } catch {
+      toast({
+        title: "Error",
+        description: "No se pudo copiar el código.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-md border bg-muted/50">
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <Select value={language} onValueChange={(value) => setLanguage(value as SnippetLanguage)}>
+          <SelectTrigger className="h-8 w-[200px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SNIPPET_LANGUAGES.map((option) => (
+              <SelectItem key={option.id} value={option.id} className="text-xs">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="ghost" size="sm" onClick={handleCopy}>
+          <Copy className="h-3 w-3 mr-1" />
+          Copiar
+        </Button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs">
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeSnippet;
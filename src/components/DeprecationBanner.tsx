@@ -0,0 +1,59 @@
+import { Link } from "react-router-dom";
+import { Archive, Hourglass } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { daysUntilSunset } from "@/services/lifecycle/states";
+import type { Api } from "@/services/types";
+
+interface DeprecationBannerProps {
+  api: Pick<Api, "name" | "lifecycle" | "sunset_at">;
+  // The API that replaces it, when known
+  successor: Pick<Api, "id" | "name"> | null;
+}
+
+// Top of the page of a deprecated API: how many days it has left and
+// where to migrate. Retired APIs point to their successor only.
+const DeprecationBanner = ({ api, successor }: DeprecationBannerProps) => {
+  if (api.lifecycle !== "deprecated" && api.lifecycle !== "retired") return null;
+
+  const migrate = successor && (
+    <>
+      Migra a{" "}
+      <Link to={`/view/${successor.id}`} className="font-medium underline">
+        {successor.name}
+      </Link>
+      .
+    </>
+  );
+
+  if (api.lifecycle === "retired") {
+    return (
+      <Alert className="border-red-500/50 bg-red-50 dark:bg-red-900/10">
+        <Archive className="h-4 w-4" />
+        <AlertTitle>{api.name} está retirada y ya no responde</AlertTitle>
+        {migrate && <AlertDescription>{migrate}</AlertDescription>}
+      </Alert>
+    );
+  }
+
+  const days = api.sunset_at ? daysUntilSunset(api.sunset_at) : null;
+  const sunset = api.sunset_at ? new Date(api.sunset_at).toLocaleDateString("es") : null;
+
+  return (
+    <Alert className="border-yellow-500/50 bg-yellow-50 dark:bg-yellow-900/10">
+      <Hourglass className="h-4 w-4" />
+      <AlertTitle>
+        {days === null
+          ? `${api.name} está deprecada`
+          : days === 0
+            ? `${api.name} ha pasado su fecha de retirada`
+            : `${api.name} está deprecada: ${days === 1 ? "queda 1 día" : `quedan ${days} días`}`}
+      </AlertTitle>
+      <AlertDescription>
+        {sunset && <>Dejará de funcionar el {sunset}. </>}
+        {migrate}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DeprecationBanner;
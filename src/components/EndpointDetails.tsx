@@ -0,0 +1,115 @@
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import type { ApiEndpoint, MediaContent } from "@/services/types";
+
+const formatJson = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+const ContentList = ({ content }: { content: MediaContent[] }) => (
+  <div className="space-y-3">
+    {content.map((item) => (
+      <div key={item.content_type} className="space-y-2">
+        <Badge variant="outline" className="font-mono">{item.content_type}</Badge>
+        {item.schema && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Esquema</p>
+            <pre className="bg-muted rounded p-3 text-xs overflow-x-auto">{formatJson(item.schema)}</pre>
+          </div>
+        )}
+        {item.example !== undefined && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Ejemplo</p>
+            <pre className="bg-muted rounded p-3 text-xs overflow-x-auto">{formatJson(item.example)}</pre>
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+// Parameters, request body and responses of an endpoint, folded into
+// expandable sections. Sections without data are left out.
+const EndpointDetails = ({ endpoint }: { endpoint: ApiEndpoint }) => {
+  const { parameters, request_body, responses } = endpoint;
+
+  if (parameters.length === 0 && !request_body && responses.length === 0) {
+    return null;
+  }
+
+  return (
+    <Accordion type="multiple" className="mt-2">
+      {parameters.length > 0 && (
+        <AccordionItem value="parameters">
+          <AccordionTrigger className="text-sm py-2">
+            Parámetros ({parameters.length})
+          </AccordionTrigger>
+          <AccordionContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="py-1 pr-4 font-medium">Nombre</th>
+                  <th className="py-1 pr-4 font-medium">Ubicación</th>
+                  <th className="py-1 pr-4 font-medium">Tipo</th>
+                  <th className="py-1 font-medium">Descripción</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parameters.map((parameter) => (
+                  <tr key={`${parameter.in}-${parameter.name}`} className="border-t">
+                    <td className="py-2 pr-4">
+                      <code className="font-mono">{parameter.name}</code>
+                      {parameter.required && <span className="text-red-500 ml-1">*</span>}
+                    </td>
+                    <td className="py-2 pr-4">{parameter.in}</td>
+                    <td className="py-2 pr-4">{parameter.type}</td>
+                    <td className="py-2 text-muted-foreground">{parameter.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </AccordionContent>
+        </AccordionItem>
+      )}
+
+      {request_body && (
+        <AccordionItem value="request-body">
+          <AccordionTrigger className="text-sm py-2">
+            Cuerpo de la petición{request_body.required ? " (requerido)" : ""}
+          </AccordionTrigger>
+          <AccordionContent className="space-y-2">
+            {request_body.description && (
+              <p className="text-sm text-muted-foreground">{request_body.description}</p>
+            )}
+            <ContentList content={request_body.content} />
+          </AccordionContent>
+        </AccordionItem>
+      )}
+
+      {responses.length > 0 && (
+        <AccordionItem value="responses" className="border-b-0">
+          <AccordionTrigger className="text-sm py-2">
+            Respuestas ({responses.length})
+          </AccordionTrigger>
+          <AccordionContent className="space-y-4">
+            {responses.map((response) => (
+              <div key={response.status} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="font-mono">{response.status}</Badge>
+                  <span className="text-sm text-muted-foreground">{response.description}</span>
+                </div>
+                <ContentList content={response.content} />
+              </div>
+            ))}
+          </AccordionContent>
+        </AccordionItem>
+      )}
+    </Accordion>
+  );
+};
+
+export default EndpointDetails;
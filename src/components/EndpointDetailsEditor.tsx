@@ -0,0 +1,353 @@
+import { useId } from "react";
+import { PlusCircle, X } from "lucide-react";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  emptyContentDraft,
+  type ContentDraft,
+  type EndpointDraft,
+  type ResponseDraft,
+} from "@/lib/endpointDrafts";
+import { isResponseStatus, normalizeResponseStatus } from "@/services/specs/types";
+import type { EndpointParameter, ParameterLocation, ParameterType } from "@/services/types";
+
+const PARAMETER_LOCATIONS: ParameterLocation[] = ["path", "query", "header"];
+const PARAMETER_TYPES: ParameterType[] = ["string", "integer", "number", "boolean", "array", "object"];
+
+interface ContentListEditorProps {
+  content: ContentDraft[];
+  onChange: (content: ContentDraft[]) => void;
+}
+
+// Media types of a request or response body, each with a schema and example
+const ContentListEditor = ({ content, onChange }: ContentListEditorProps) => {
+  const update = (index: number, field: keyof ContentDraft, value: string) => {
+    onChange(content.map((c, i) => (i === index ? { ...c, [field]: value } : c)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {content.map((item, index) => (
+        <div key={index} className="border rounded-md p-3 space-y-2 relative">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="absolute top-1 right-1 h-7 w-7"
+            onClick={() => onChange(content.filter((_, i) => i !== index))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+          <div className="pr-8">
+            <Label className="text-xs">Content type</Label>
+            <Input
+              value={item.content_type}
+              onChange={(e) => update(index, "content_type", e.target.value)}
+              placeholder="application/json"
+              className="mt-1"
+            />
+          </div>
+          <div className="grid gap-2 md:grid-cols-2">
+            <div>
+              <Label className="text-xs">JSON Schema</Label>
+              <Textarea
+                value={item.schema}
+                onChange={(e) => update(index, "schema", e.target.value)}
+                placeholder={'{\n  "type": "object",\n  "properties": {}\n}'}
+                className="mt-1 font-mono text-xs min-h-[120px]"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Example</Label>
+              <Textarea
+                value={item.example}
+                onChange={(e) => update(index, "example", e.target.value)}
+                placeholder={'{\n  "id": "123"\n}'}
+                className="mt-1 font-mono text-xs min-h-[120px]"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...content, emptyContentDraft()])}
+      >
+        <PlusCircle className="h-4 w-4 mr-2" />
+        Add content type
+      </Button>
+    </div>
+  );
+};
+
+interface EndpointDetailsEditorProps {
+  endpoint: EndpointDraft;
+  onChange: (endpoint: EndpointDraft) => void;
+}
+
+// Parameters, request body and responses of one endpoint in the AddApi form
+const EndpointDetailsEditor = ({ endpoint, onChange }: EndpointDetailsEditorProps) => {
+  // Several editors share the page, so checkbox ids need a unique prefix
+  const idPrefix = useId();
+
+  const updateParameter = (index: number, changes: Partial<EndpointParameter>) => {
+    onChange({
+      ...endpoint,
+      parameters: endpoint.parameters.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const updateResponse = (index: number, changes: Partial<ResponseDraft>) => {
+    onChange({
+      ...endpoint,
+      responses: endpoint.responses.map((r, i) => (i === index ? { ...r, ...changes } : r)),
+    });
+  };
+
+  return (
+    <Accordion type="multiple" className="w-full">
+      <AccordionItem value="parameters">
+        <AccordionTrigger className="text-sm py-3">
+          Parameters ({endpoint.parameters.length})
+        </AccordionTrigger>
+        <AccordionContent className="space-y-3">
+          {endpoint.parameters.map((parameter, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                className="col-span-3"
+                value={parameter.name}
+                onChange={(e) => updateParameter(index, { name: e.target.value })}
+                placeholder="name"
+              />
+              <Select
+                value={parameter.in}
+                onValueChange={(value) => updateParameter(index, { in: value as ParameterLocation })}
+              >
+                <SelectTrigger className="col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PARAMETER_LOCATIONS.map((location) => (
+                    <SelectItem key={location} value={location}>{location}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={parameter.type}
+                onValueChange={(value) => updateParameter(index, { type: value as ParameterType })}
+              >
+                <SelectTrigger className="col-span-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PARAMETER_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="col-span-1 flex items-center gap-1">
+                <Checkbox
+                  id={`${idPrefix}-required-${index}`}
+                  checked={parameter.in === "path" || parameter.required}
+                  disabled={parameter.in === "path"}
+                  onCheckedChange={(checked) => updateParameter(index, { required: checked === true })}
+                />
+                <Label htmlFor={`${idPrefix}-required-${index}`} className="text-xs">Req.</Label>
+              </div>
+              <Input
+                className="col-span-3"
+                value={parameter.description || ""}
+                onChange={(e) => updateParameter(index, { description: e.target.value })}
+                placeholder="Description"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="col-span-1"
+                onClick={() =>
+                  onChange({ ...endpoint, parameters: endpoint.parameters.filter((_, i) => i !== index) })
+                }
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...endpoint,
+                parameters: [
+                  ...endpoint.parameters,
+                  { name: "", in: "query", type: "string", required: false },
+                ],
+              })
+            }
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add parameter
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Path parameters are added automatically for each {"{placeholder}"} in the path.
+          </p>
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="request-body">
+        <AccordionTrigger className="text-sm py-3">
+          Request body {endpoint.request_body ? `(${endpoint.request_body.content.length})` : "(none)"}
+        </AccordionTrigger>
+        <AccordionContent className="space-y-3">
+          {endpoint.request_body ? (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`${idPrefix}-body-required`}
+                    checked={endpoint.request_body.required}
+                    onCheckedChange={(checked) =>
+                      onChange({
+                        ...endpoint,
+                        request_body: { ...endpoint.request_body, required: checked === true },
+                      })
+                    }
+                  />
+                  <Label htmlFor={`${idPrefix}-body-required`} className="text-xs">Required</Label>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange({ ...endpoint, request_body: null })}
+                >
+                  Remove body
+                </Button>
+              </div>
+              <Input
+                value={endpoint.request_body.description}
+                onChange={(e) =>
+                  onChange({
+                    ...endpoint,
+                    request_body: { ...endpoint.request_body, description: e.target.value },
+                  })
+                }
+                placeholder="Body description"
+              />
+              <ContentListEditor
+                content={endpoint.request_body.content}
+                onChange={(content) =>
+                  onChange({ ...endpoint, request_body: { ...endpoint.request_body, content } })
+                }
+              />
+            </>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                onChange({
+                  ...endpoint,
+                  request_body: { required: true, description: "", content: [emptyContentDraft()] },
+                })
+              }
+            >
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Add request body
+            </Button>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+
+      <AccordionItem value="responses" className="border-b-0">
+        <AccordionTrigger className="text-sm py-3">
+          Responses ({endpoint.responses.length})
+        </AccordionTrigger>
+        <AccordionContent className="space-y-4">
+          {endpoint.responses.map((response, index) => {
+            const invalidStatus =
+              Boolean(response.status.trim()) && !isResponseStatus(normalizeResponseStatus(response.status));
+            return (
+              <div key={index} className="border rounded-md p-3 space-y-3 relative">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="absolute top-1 right-1 h-7 w-7"
+                  onClick={() =>
+                    onChange({ ...endpoint, responses: endpoint.responses.filter((_, i) => i !== index) })
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+                <div className="grid grid-cols-4 gap-2 pr-8">
+                  <Input
+                    value={response.status}
+                    onChange={(e) => updateResponse(index, { status: e.target.value })}
+                    placeholder="200"
+                    aria-invalid={invalidStatus}
+                    className={cn(invalidStatus && "border-destructive focus-visible:ring-destructive")}
+                  />
+                  <Input
+                    className="col-span-3"
+                    value={response.description}
+                    onChange={(e) => updateResponse(index, { description: e.target.value })}
+                    placeholder="Successful response"
+                  />
+                </div>
+                {invalidStatus && (
+                  <p className="text-xs text-destructive">
+                    Use a status code such as 200, a range such as 4XX or "default".
+                  </p>
+                )}
+                <ContentListEditor
+                  content={response.content}
+                  onChange={(content) => updateResponse(index, { content })}
+                />
+              </div>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...endpoint,
+                responses: [
+                  ...endpoint.responses,
+                  {
+                    status: endpoint.responses.length === 0 ? "200" : "",
+                    description: "",
+                    content: [],
+                  },
+                ],
+              })
+            }
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add response
+          </Button>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default EndpointDetailsEditor;
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Bell, BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { fetchFollows, followApi, unfollowApi, type Api } from "@/services/apiService";
+
+// Follow an API to be notified of its new versions, deprecations and
+// alerts. Visitors who have not signed in are sent to /login first.
+const FollowApiButton = ({ api }: { api: Api }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [following, setFollowing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadFollows = async () => {
+      const follows = await fetchFollows();
+      setFollowing(follows.some((follow) => follow.api_id === api.id));
+    };
+    loadFollows();
+  }, [api.id, user]);
+
+  const handleClick = async () => {
+    setSaving(true);
+    const saved = following ? await unfollowApi(api.id) : await followApi(api.id);
+    setSaving(false);
+
+    if (saved) {
+      setFollowing(!following);
+      toast({
+        title: following ? "Has dejado de seguir la API" : "Sigues la API",
+        description: following
+          ? `Ya no recibirás avisos de ${api.name}.`
+          : `Te avisaremos de las novedades de ${api.name}.`,
+      });
+    }
+  };
+
+  if (!user) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <Link to={`/login?redirect=${redirect}`} className="flex items-center gap-1">
+          <Bell className="h-4 w-4" />
+          Seguir
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      variant={following ? "secondary" : "outline"}
+      size="sm"
+      className="flex items-center gap-1"
+      onClick={handleClick}
+      disabled={saving}
+    >
+      {following ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+      {following ? "Dejar de seguir" : "Seguir"}
+    </Button>
+  );
+};
+
+export default FollowApiButton;
@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils";
+import { HEALTH_STATUS_LABELS } from "@/services/health/summary";
+import type { HealthStatus } from "@/services/types";
+
+const STATUS_COLORS: Record<HealthStatus, string> = {
+  up: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  degraded: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  down: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+// Result of a health check; APIs without checks show "Sin datos"
+const HealthStatusBadge = ({ status, className }: { status: HealthStatus | null; className?: string }) => (
+  <span
+    className={cn(
+      "px-2 py-1 rounded text-xs font-medium",
+      status ? STATUS_COLORS[status] : "bg-muted text-muted-foreground",
+      className
+    )}
+  >
+    {status ? HEALTH_STATUS_LABELS[status] : "Sin datos"}
+  </span>
+);
+
+export default HealthStatusBadge;
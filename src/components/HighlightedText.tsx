@@ -0,0 +1,18 @@
+import type { HighlightSegment } from "@/services/apiService";
+
+// Text with the parts a search matched marked
+const HighlightedText = ({ segments, className }: { segments: HighlightSegment[]; className?: string }) => (
+  <span className={className}>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/30">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </span>
+);
+
+export default HighlightedText;
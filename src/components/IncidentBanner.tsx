@@ -0,0 +1,63 @@
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import IncidentSeverityBadge from "@/components/IncidentSeverityBadge";
+import { cn } from "@/lib/utils";
+import { INCIDENT_STATUS_LABELS, affectedEndpointIds } from "@/services/incidents/impact";
+import type { Api, Incident } from "@/services/types";
+
+interface IncidentBannerProps {
+  api: Api;
+  // Open incidents affecting the API
+  incidents: Incident[];
+}
+
+// Open incidents at the top of an API page, with their latest update
+const IncidentBanner = ({ api, incidents }: IncidentBannerProps) => (
+  <div className="space-y-3">
+    {incidents.map((incident) => {
+      const latest = incident.updates[0];
+      const endpoints = (api.endpoints || []).filter((endpoint) =>
+        affectedEndpointIds(incident, api.id).includes(endpoint.id)
+      );
+
+      return (
+        <Alert
+          key={incident.id}
+          className={cn(
+            incident.severity === "minor"
+              ? "border-yellow-500/50 bg-yellow-50 dark:bg-yellow-900/10"
+              : "border-red-500/50 bg-red-50 dark:bg-red-900/10"
+          )}
+        >
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle className="flex flex-wrap items-center gap-2">
+            <Link to={`/incidents/${incident.id}`} className="hover:underline">
+              {incident.title}
+            </Link>
+            <IncidentSeverityBadge severity={incident.severity} />
+          </AlertTitle>
+          <AlertDescription className="space-y-1">
+            {latest && (
+              <p>
+                <span className="font-medium">{INCIDENT_STATUS_LABELS[latest.status]}:</span>{" "}
+                {latest.message}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Desde {formatDistanceToNow(new Date(incident.started_at), { addSuffix: true, locale: es })}
+              {" · "}
+              {endpoints.length > 0
+                ? `Afecta a ${endpoints.map((endpoint) => `${endpoint.method} ${endpoint.path}`).join(", ")}`
+                : "Afecta a toda la API"}
+            </p>
+          </AlertDescription>
+        </Alert>
+      );
+    })}
+  </div>
+);
+
+export default IncidentBanner;
@@ -0,0 +1,32 @@
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { INCIDENT_SEVERITIES } from "@/services/incidents/impact";
+import type { Incident } from "@/services/types";
+
+// Marks an API card while incidents affecting the API are open. Colored by
+// the worst severity; renders nothing without incidents.
+const IncidentFlag = ({ incidents, className }: { incidents: Incident[]; className?: string }) => {
+  if (incidents.length === 0) return null;
+
+  const worst = incidents.reduce((a, b) =>
+    INCIDENT_SEVERITIES.indexOf(b.severity) > INCIDENT_SEVERITIES.indexOf(a.severity) ? b : a
+  );
+
+  return (
+    <span
+      title={incidents.map((incident) => incident.title).join("\n")}
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium",
+        worst.severity === "minor"
+          ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400"
+          : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+        className
+      )}
+    >
+      <AlertTriangle className="h-3 w-3" />
+      {incidents.length === 1 ? "Incidencia activa" : `${incidents.length} incidencias activas`}
+    </span>
+  );
+};
+
+export default IncidentFlag;
@@ -0,0 +1,17 @@
+import { cn } from "@/lib/utils";
+import { INCIDENT_SEVERITY_LABELS } from "@/services/incidents/impact";
+import type { IncidentSeverity } from "@/services/types";
+
+const SEVERITY_COLORS: Record<IncidentSeverity, string> = {
+  minor: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  major: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  critical: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const IncidentSeverityBadge = ({ severity, className }: { severity: IncidentSeverity; className?: string }) => (
+  <span className={cn("px-2 py-1 rounded text-xs font-medium", SEVERITY_COLORS[severity], className)}>
+    {INCIDENT_SEVERITY_LABELS[severity]}
+  </span>
+);
+
+export default IncidentSeverityBadge;
@@ -0,0 +1,65 @@
+import { Link } from "react-router-dom";
+import { format, formatDistanceStrict } from "date-fns";
+import { es } from "date-fns/locale";
+import IncidentSeverityBadge from "@/components/IncidentSeverityBadge";
+import { cn } from "@/lib/utils";
+import { INCIDENT_STATUS_LABELS } from "@/services/incidents/impact";
+import type { Incident, IncidentUpdate } from "@/services/types";
+
+const formatTime = (value: string) => format(new Date(value), "d MMM yyyy, HH:mm", { locale: es });
+
+// Status updates of one incident, newest first
+export const IncidentUpdates = ({ updates }: { updates: IncidentUpdate[] }) => (
+  <ol className="relative border-l border-border ml-2 space-y-4">
+    {updates.map((update, index) => (
+      <li key={update.id} className="ml-4">
+        <span
+          className={cn(
+            "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+            index === 0 ? "bg-primary" : "bg-muted-foreground/40"
+          )}
+        />
+        <p className="text-sm">
+          <span className="font-medium">{INCIDENT_STATUS_LABELS[update.status]}</span>
+          <span className="text-muted-foreground"> · {formatTime(update.created_at)}</span>
+        </p>
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{update.message}</p>
+      </li>
+    ))}
+  </ol>
+);
+
+// Incident history: every incident with its updates
+const IncidentTimeline = ({ incidents }: { incidents: Incident[] }) => {
+  if (incidents.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No se ha registrado ninguna incidencia.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {incidents.map((incident) => (
+        <div key={incident.id} className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link to={`/incidents/${incident.id}`} className="font-medium hover:underline">
+              {incident.title}
+            </Link>
+            <IncidentSeverityBadge severity={incident.severity} />
+            <span className="text-xs text-muted-foreground">
+              {formatTime(incident.started_at)}
+              {incident.resolved_at
+                ? ` · duró ${formatDistanceStrict(new Date(incident.resolved_at), new Date(incident.started_at), { locale: es })}`
+                : " · en curso"}
+            </span>
+          </div>
+          <IncidentUpdates updates={incident.updates} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IncidentTimeline;
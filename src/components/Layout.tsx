@@ -5,16 +5,32 @@ import {
   LayoutDashboard, 
   PlusCircle, 
   Search, 
+  Activity,
+  AlertTriangle,
+  Tags,
+  KeyRound,
+  Inbox,
   MenuIcon, 
   Moon, 
-  Sun, 
-  Bell 
+  Sun
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useEffect, useState } from "react";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import NotificationsBell from "@/components/NotificationsBell";
+import ProfileMenu from "@/components/ProfileMenu";
+import { usePermissions } from "@/hooks/use-permissions";
 
-const navItems = [
+type Permissions = ReturnType<typeof usePermissions>;
+
+interface NavItem {
+  title: string;
+  path: string;
+  icon: JSX.Element;
+  // Hidden from users who cannot take the action
+  allowed?: (permissions: Permissions) => boolean;
+}
+
+const navItems: NavItem[] = [
   {
     title: "Dashboard",
     path: "/",
@@ -24,16 +40,46 @@ const navItems = [
     title: "Agregar API",
     path: "/add",
     icon: <PlusCircle className="h-5 w-5" />,
+    allowed: (permissions) => permissions.canCreateApis,
   },
   {
     title: "Buscar APIs",
     path: "/search",
     icon: <Search className="h-5 w-5" />,
   },
+  {
+    title: "Incidencias",
+    path: "/incidents",
+    icon: <AlertTriangle className="h-5 w-5" />,
+  },
+  {
+    title: "Estado",
+    path: "/status",
+    icon: <Activity className="h-5 w-5" />,
+  },
+  {
+    title: "Mis aplicaciones",
+    path: "/applications",
+    icon: <KeyRound className="h-5 w-5" />,
+    allowed: (permissions) => permissions.canRequestAccess,
+  },
+  {
+    title: "Solicitudes de acceso",
+    path: "/access-requests",
+    icon: <Inbox className="h-5 w-5" />,
+    allowed: (permissions) => permissions.canReviewAccess,
+  },
+  {
+    title: "Categorías",
+    path: "/categories",
+    icon: <Tags className="h-5 w-5" />,
+    allowed: (permissions) => permissions.canManageCategories,
+  },
 ];
 
 const Layout = () => {
   const location = useLocation();
+  const permissions = usePermissions();
   const [theme, setTheme] = useState<"light" | "dark">("light");
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
 
@@ -88,13 +134,8 @@ const Layout = () => {
             >
               {theme === "light" ? <Moon className="h-5 w-5" /> : <Sun className="h-5 w-5" />}
             </Button>
-            <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-foreground">
-              <Bell className="h-5 w-5" />
-            </Button>
-            <Avatar className="h-8 w-8">
-              <AvatarImage src="https://github.com/shadcn.png" alt="User" />
-              <AvatarFallback>US</AvatarFallback>
-            </Avatar>
+            <NotificationsBell />
+            <ProfileMenu />
           </div>
         </div>
       </header>
@@ -108,7 +149,7 @@ const Layout = () => {
           )}
         >
           <nav className="flex flex-col gap-2 p-4">
-            {navItems.map((item) => (
+            {navItems.filter((item) => !item.allowed || item.allowed(permissions)).map((item) => (
               <Link 
                 key={item.path}
                 to={item.path}
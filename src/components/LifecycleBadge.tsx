@@ -0,0 +1,22 @@
+import { cn } from "@/lib/utils";
+import { LIFECYCLE_DESCRIPTIONS, LIFECYCLE_LABELS } from "@/services/lifecycle/states";
+import type { ApiLifecycle } from "@/services/types";
+
+const LIFECYCLE_COLORS: Record<ApiLifecycle, string> = {
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-800/50 dark:text-gray-300",
+  beta: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  stable: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  deprecated: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  retired: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const LifecycleBadge = ({ lifecycle, className }: { lifecycle: ApiLifecycle; className?: string }) => (
+  <span
+    className={cn("px-2 py-1 rounded text-xs font-medium", LIFECYCLE_COLORS[lifecycle], className)}
+    title={LIFECYCLE_DESCRIPTIONS[lifecycle]}
+  >
+    {LIFECYCLE_LABELS[lifecycle]}
+  </span>
+);
+
+export default LifecycleBadge;
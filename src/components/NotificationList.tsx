@@ -0,0 +1,59 @@
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { describeNotification, NOTIFICATION_TYPE_LABELS } from "@/services/notifications/events";
+import type { Api, UserNotification } from "@/services/types";
+
+interface NotificationListProps {
+  notifications: UserNotification[];
+  apis: Api[];
+  // Called when a notification is opened, before navigating to its page
+  onOpen: (notification: UserNotification) => void;
+  className?: string;
+}
+
+// Notifications newest first; unread ones are marked with a dot
+const NotificationList = ({ notifications, apis, onOpen, className }: NotificationListProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className={cn("divide-y", className)}>
+      {notifications.map((notification) => {
+        const api = apis.find((a) => a.id === notification.api_id);
+        const text = describeNotification(notification, api?.name);
+
+        return (
+          <button
+            key={notification.id}
+            type="button"
+            onClick={() => {
+              onOpen(notification);
+              if (text.link) navigate(text.link);
+            }}
+            className="flex w-full items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50"
+          >
+            <span
+              className={cn(
+                "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                notification.read_at ? "bg-transparent" : "bg-primary"
+              )}
+            />
+            <span className="space-y-0.5">
+              <span className={cn("block text-sm", !notification.read_at && "font-medium")}>
+                {text.title}
+              </span>
+              {text.body && <span className="block text-sm text-muted-foreground">{text.body}</span>}
+              <span className="block text-xs text-muted-foreground">
+                {NOTIFICATION_TYPE_LABELS[notification.type]} ·{" "}
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: es })}
+              </span>
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NotificationList;
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AlertStatusBadge from "@/components/AlertStatusBadge";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import NotificationList from "@/components/NotificationList";
+import {
+  acknowledgeAlert,
+  fetchAlerts,
+  fetchApis,
+  fetchNotifications,
+  markNotificationsRead,
+  resolveAlert,
+  type Api,
+  type ApiAlert,
+  type UserNotification,
+} from "@/services/apiService";
+import { describeAlertCondition, formatAlertValue } from "@/services/alerts/evaluate";
+
+// Notifications shown in the popover; the rest are on /notifications
+const RECENT_NOTIFICATIONS = 20;
+
+// Check for new notifications and alerts every minute
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Header bell with the current user's latest notifications and the open
+// alerts of every API. The badge counts unread notifications plus alerts
+// nobody has acknowledged yet.
+const NotificationsBell = () => {
+  const { user } = useAuth();
+  const permissions = usePermissions();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [alerts, setAlerts] = useState<ApiAlert[]>([]);
+  const [apis, setApis] = useState<Api[]>([]);
+
+  const loadData = useCallback(async () => {
+    const [notificationsData, alertsData, apisData] = await Promise.all([
+      fetchNotifications({ limit: RECENT_NOTIFICATIONS }),
+      fetchAlerts({ open: true }),
+      fetchApis(),
+    ]);
+    setNotifications(notificationsData);
+    setAlerts(alertsData);
+    setApis(apisData);
+  }, []);
+
+  // Reload when the user signs in or out
+  useEffect(() => {
+    loadData();
+    const timer = setInterval(loadData, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadData, user]);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) loadData();
+  };
+
+  const markRead = async (ids?: string[]) => {
+    if (await markNotificationsRead(ids)) {
+      const now = new Date().toISOString();
+      setNotifications(
+        notifications.map((n) => (!ids || ids.includes(n.id) ? { ...n, read_at: n.read_at || now } : n))
+      );
+    }
+  };
+
+  const handleOpenNotification = (notification: UserNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    setOpen(false);
+  };
+
+  const handleAlertAction = async (alert: ApiAlert, action: "acknowledge" | "resolve") => {
+    const updated = action === "acknowledge" ? await acknowledgeAlert(alert.id) : await resolveAlert(alert.id);
+    if (!updated) return;
+    setAlerts(
+      updated.status === "resolved"
+        ? alerts.filter((a) => a.id !== updated.id)
+        : alerts.map((a) => (a.id === updated.id ? updated : a))
+    );
+  };
+
+  const unread = notifications.filter((n) => !n.read_at).length;
+  const firing = alerts.filter((alert) => alert.status === "firing").length;
+  const apiName = (id: string) => apis.find((api) => api.id === id)?.name || id;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative text-muted-foreground hover:text-foreground"
+          aria-label="Notificaciones"
+        >
+          <Bell className="h-5 w-5" />
+          {unread + firing > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unread + firing}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <Tabs defaultValue="notifications">
+          <div className="flex items-center justify-between border-b px-2 py-2">
+            <TabsList>
+              <TabsTrigger value="notifications">
+                Notificaciones{unread > 0 && ` (${unread})`}
+              </TabsTrigger>
+              <TabsTrigger value="alerts">
+                Alertas{alerts.length > 0 && ` (${alerts.length})`}
+              </TabsTrigger>
+            </TabsList>
+            {unread > 0 && (
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => markRead()}>
+                Marcar todas como leídas
+              </Button>
+            )}
+          </div>
+
+          <TabsContent value="notifications" className="mt-0">
+            {notifications.length > 0 ? (
+              <NotificationList
+                notifications={notifications}
+                apis={apis}
+                onOpen={handleOpenNotification}
+                className="max-h-96 overflow-y-auto"
+              />
+            ) : (
+              <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+                No tienes notificaciones. Sigue una API para enterarte de sus cambios.
+              </p>
+            )}
+            <div className="border-t px-4 py-2 text-center">
+              <Link
+                to="/notifications"
+                onClick={() => setOpen(false)}
+                className="text-sm text-primary hover:underline"
+              >
+                Ver todas y preferencias
+              </Link>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="alerts" className="mt-0">
+            {alerts.length > 0 ? (
+              <div className="max-h-96 overflow-y-auto divide-y">
+                {alerts.map((alert) => (
+                  <div key={alert.id} className="space-y-2 px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <Link
+                        to={`/view/${alert.api_id}`}
+                        onClick={() => setOpen(false)}
+                        className="font-medium text-sm hover:underline"
+                      >
+                        {apiName(alert.api_id)}
+                      </Link>
+                      <AlertStatusBadge status={alert.status} className="ml-auto" />
+                    </div>
+                    <p className="text-sm">{describeAlertCondition(alert)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Medido {formatAlertValue(alert.metric, alert.value)} ·{" "}
+                      {formatDistanceToNow(new Date(alert.fired_at), { addSuffix: true, locale: es })}
+                    </p>
+                    {permissions.canEditApi({ id: alert.api_id }) && (
+                      <div className="flex justify-end gap-2">
+                        {alert.status === "firing" && (
+                          <Button variant="outline" size="sm" onClick={() => handleAlertAction(alert, "acknowledge")}>
+                            Reconocer
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => handleAlertAction(alert, "resolve")}>
+                          Resolver
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+                No hay alertas abiertas.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationsBell;
@@ -0,0 +1,97 @@
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Bell, LogIn, LogOut } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ROLE_LABELS } from "@/services/auth/permissions";
+
+// "Ana Pérez" -> "AP"; falls back to the email
+const initials = (name: string | null, email: string) =>
+  (name || email)
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+// Avatar of the signed-in user with their account actions, or a sign-in
+// button for visitors
+const ProfileMenu = () => {
+  const { user, loading, signOut } = useAuth();
+  const { role } = usePermissions();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  if (loading) {
+    return <div className="h-8 w-8 rounded-full bg-muted" />;
+  }
+
+  if (!user) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <Link to={`/login?redirect=${redirect}`} className="flex items-center gap-1">
+          <LogIn className="h-4 w-4" />
+          Iniciar sesión
+        </Link>
+      </Button>
+    );
+  }
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo cerrar la sesión",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button type="button" className="rounded-full" aria-label="Mi cuenta">
+          <Avatar className="h-8 w-8">
+            {user.avatar_url && <AvatarImage src={user.avatar_url} alt={user.name || user.email} />}
+            <AvatarFallback>{initials(user.name, user.email)}</AvatarFallback>
+          </Avatar>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          {user.name && <p className="text-sm font-medium">{user.name}</p>}
+          <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+          <p className="text-xs text-muted-foreground mt-1">{ROLE_LABELS[role]}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/notifications" className="flex items-center gap-2">
+            <Bell className="h-4 w-4" />
+            Notificaciones
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleSignOut} className="flex items-center gap-2">
+          <LogOut className="h-4 w-4" />
+          Cerrar sesión
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ProfileMenu;
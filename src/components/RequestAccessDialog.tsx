@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { KeyRound } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import ApiKeySecret from "@/components/ApiKeySecret";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  createApplication,
+  fetchAccessRequests,
+  fetchApplications,
+  issueApiKey,
+  requestAccess,
+  type AccessRequest,
+  type Api,
+  type Application,
+  type IssuedApiKey,
+} from "@/services/apiService";
+import { KEY_EXPIRY_OPTIONS, expiryFromDays } from "@/services/access/keys";
+
+const NEW_APPLICATION = "new";
+const NO_EXPIRY = "never";
+
+// "Request access" for apiKey APIs: pick or register an application and
+// ask for access. When the API approves requests automatically the first
+// key is issued and shown straight away.
+const RequestAccessDialog = ({ api }: { api: Api }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [applicationId, setApplicationId] = useState(NEW_APPLICATION);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [message, setMessage] = useState("");
+  const [expiry, setExpiry] = useState(NO_EXPIRY);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ request: AccessRequest; issued: IssuedApiKey | null } | null>(null);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    const loadData = async () => {
+      const [applicationsData, requestsData] = await Promise.all([
+        fetchApplications(),
+        fetchAccessRequests({ apiId: api.id, userId: user.id }),
+      ]);
+      setApplications(applicationsData);
+      setRequests(requestsData);
+      setApplicationId(applicationsData[0]?.id ?? NEW_APPLICATION);
+    };
+    loadData();
+  }, [open, user, api.id]);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setResult(null);
+      setName("");
+      setDescription("");
+      setMessage("");
+      setExpiry(NO_EXPIRY);
+    }
+  };
+
+  const existing = requests.find((request) => request.application_id === applicationId);
+  const creating = applicationId === NEW_APPLICATION;
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    const application = creating
+      ? await createApplication({ name: name.trim(), description: description.trim() || null })
+      : applications.find((a) => a.id === applicationId);
+    if (!application) {
+      setSaving(false);
+      return;
+    }
+
+    const request = await requestAccess(api.id, application.id, message.trim());
+    const issued =
+      request?.status === "approved"
+        ? await issueApiKey({
+            application_id: application.id,
+            api_id: api.id,
+            expires_at: expiryFromDays(expiry === NO_EXPIRY ? null : Number(expiry)),
+          })
+        : null;
+    setSaving(false);
+    if (request) setResult({ request, issued });
+  };
+
+  if (!user) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <Link to={`/login?redirect=${redirect}`} className="flex items-center gap-1">
+          <KeyRound className="h-4 w-4" />
+          Solicitar acceso
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <KeyRound className="h-4 w-4" />
+          Solicitar acceso
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Solicitar acceso a {api.name}</DialogTitle>
+          <DialogDescription>
+            Las claves se emiten para una aplicación. Gestiónalas después en Mis aplicaciones.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            {result.request.status === "pending" && (
+              <p className="text-sm">
+                Solicitud enviada. Los propietarios de la API la revisarán y te avisaremos de su decisión.
+              </p>
+            )}
+            {result.issued && <ApiKeySecret issued={result.issued} />}
+            {result.request.status === "approved" && !result.issued && (
+              <p className="text-sm">
+                Esta aplicación ya tiene acceso. Crea o rota sus claves desde Mis aplicaciones.
+              </p>
+            )}
+            <DialogFooter>
+              <Button variant="outline" asChild>
+                <Link to="/applications">Ir a Mis aplicaciones</Link>
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Cerrar</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Aplicación</Label>
+              <Select value={applicationId} onValueChange={setApplicationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {applications.map((application) => (
+                    <SelectItem key={application.id} value={application.id}>
+                      {application.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NEW_APPLICATION}>Nueva aplicación…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {creating && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="application-name">Nombre de la aplicación</Label>
+                  <Input
+                    id="application-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="p. ej. App de reservas"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="application-description">Descripción</Label>
+                  <Textarea
+                    id="application-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
+            {existing?.status === "pending" && (
+              <p className="text-sm text-muted-foreground">Esta aplicación ya tiene una solicitud pendiente.</p>
+            )}
+            {existing?.status === "approved" && (
+              <p className="text-sm text-muted-foreground">
+                Esta aplicación ya tiene acceso; gestiona sus claves en Mis aplicaciones.
+              </p>
+            )}
+
+            {!existing || existing.status === "rejected" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="access-message">¿Para qué necesitas acceso?</Label>
+                  <Textarea
+                    id="access-message"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Los propietarios de la API verán este mensaje"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Caducidad de la clave</Label>
+                  <Select value={expiry} onValueChange={setExpiry}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {KEY_EXPIRY_OPTIONS.map((option) => (
+                        <SelectItem key={option.label} value={option.days === null ? NO_EXPIRY : String(option.days)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Si la API aprueba el acceso automáticamente, recibirás la clave al momento.
+                  </p>
+                </div>
+                <DialogFooter>
+                  <Button onClick={handleSubmit} disabled={saving || (creating && !name.trim())}>
+                    {saving ? "Enviando..." : "Solicitar acceso"}
+                  </Button>
+                </DialogFooter>
+              </>
+            ) : (
+              <DialogFooter>
+                <Button variant="outline" asChild>
+                  <Link to="/applications">Ir a Mis aplicaciones</Link>
+                </Button>
+              </DialogFooter>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestAccessDialog;
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  applySuggestion,
+  completeSearchQuery,
+  type QueryError,
+  type QuerySuggestion,
+  type QueryVocabulary,
+} from "@/services/search/query";
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  vocabulary: QueryVocabulary;
+  // Problems found parsing the value
+  errors: QueryError[];
+  placeholder?: string;
+}
+
+// Search box for the field:value syntax, suggesting field names and values
+// as they are typed. Arrows pick a suggestion, Enter or Tab takes it and
+// Escape hides the list.
+const SearchQueryInput = ({ value, onChange, vocabulary, errors, placeholder }: SearchQueryInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Null while the input is not focused
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const completion = useMemo(
+    () => (cursor === null || dismissed ? null : completeSearchQuery(value, cursor, vocabulary)),
+    [value, cursor, dismissed, vocabulary]
+  );
+
+  useEffect(() => {
+    setSelected(0);
+  }, [completion]);
+
+  const trackCursor = () => setCursor(inputRef.current?.selectionStart ?? null);
+
+  const accept = (suggestion: QuerySuggestion) => {
+    if (!completion) return;
+    const next = applySuggestion(value, completion, suggestion);
+    onChange(next.value);
+    setCursor(next.cursor);
+    // Once the new value is rendered
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(next.cursor, next.cursor));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!completion) return;
+    const count = completion.suggestions.length;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      setSelected((selected + (event.key === "ArrowDown" ? 1 : count - 1)) % count);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      accept(completion.suggestions[selected]);
+    } else if (event.key === "Escape") {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          placeholder={placeholder}
+          className={cn("pl-10", errors.length > 0 && "border-destructive focus-visible:ring-destructive")}
+          value={value}
+          role="combobox"
+          aria-expanded={Boolean(completion)}
+          aria-invalid={errors.length > 0}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart);
+            setDismissed(false);
+          }}
+          onSelect={trackCursor}
+          onFocus={trackCursor}
+          onBlur={() => setCursor(null)}
+          onKeyDown={handleKeyDown}
+        />
+        {completion && (
+          <ul
+            role="listbox"
+            className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {completion.suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                role="option"
+                aria-selected={index === selected}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-sm",
+                  index === selected && "bg-accent text-accent-foreground"
+                )}
+                // Keeps the focus in the input
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(suggestion);
+                }}
+                onMouseEnter={() => setSelected(index)}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="text-xs text-muted-foreground">{suggestion.description}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {errors.length > 0 && (
+        <ul className="space-y-0.5 text-sm text-destructive">
+          {errors.map((error) => (
+            <li key={error.start}>
+              <code className="font-mono">{value.slice(error.start, error.end)}</code>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
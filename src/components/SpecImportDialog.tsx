@@ -0,0 +1,230 @@
+import { useState, type ChangeEvent } from "react";
+import { AlertCircle, FileUp, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { importSpec } from "@/services/specs/importSpec";
+import { diffImport, type ImportDiff, type ImportTarget } from "@/services/specs/importDiff";
+import type { ImportedApi } from "@/services/specs/types";
+
+interface SpecImportDialogProps {
+  // Current form values, used to show what the import would change
+  current: ImportTarget;
+  onApply: (imported: ImportedApi) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  description: "Description",
+  version: "Version",
+  base_url: "Base URL",
+  auth_type: "Auth type",
+  auth_description: "Auth description",
+  tags: "Tags",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  added: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  removed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  changed: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+const SpecImportDialog = ({ current, onApply }: SpecImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<ImportedApi | null>(null);
+  const [diff, setDiff] = useState<ImportDiff | null>(null);
+
+  const reset = () => {
+    setSource("");
+    setError(null);
+    setImported(null);
+    setDiff(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSource(await file.text());
+    setImported(null);
+    setError(null);
+    e.target.value = "";
+  };
+
+  const handlePreview = () => {
+    try {
+      const result = importSpec(source);
+      setImported(result);
+      setDiff(diffImport(current, result));
+      setError(null);
+    } catch (err) {
+      setImported(null);
+      setDiff(null);
+      setError(err instanceof Error ? err.message : "The document could not be read");
+    }
+  };
+
+  const handleApply = () => {
+    if (!imported) return;
+    onApply(imported);
+    handleOpenChange(false);
+  };
+
+  const changedFields = diff?.fields.filter(f => f.changed) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import spec
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from OpenAPI or Postman</DialogTitle>
+          <DialogDescription>
+            Paste or upload an OpenAPI 3.0/3.1 document (JSON or YAML) or a
+            Postman Collection v2.1. Nothing is saved until you submit the form.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!imported ? (
+          <div className="space-y-4">
+            <Textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={"openapi: 3.1.0\ninfo:\n  title: Payments API\n  version: 1.0.0\npaths: {}"}
+              className="min-h-[280px] font-mono text-xs"
+            />
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="secondary" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload file
+                  <input
+                    type="file"
+                    accept=".json,.yaml,.yml,application/json,application/yaml"
+                    className="hidden"
+                    onChange={handleFile}
+                  />
+                </label>
+              </Button>
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>The document could not be imported</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {imported.warnings.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Review before applying</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {imported.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">
+                Fields ({changedFields.length} changed)
+              </h4>
+              <div className="border rounded-md divide-y text-sm">
+                {diff?.fields.map((field) => (
+                  <div key={field.field} className="grid grid-cols-[140px_1fr] gap-2 p-2">
+                    <span className="font-medium">{FIELD_LABELS[field.field]}</span>
+                    {field.changed ? (
+                      <div className="space-y-1 break-words">
+                        {field.before && (
+                          <div className="text-red-700 dark:text-red-400 line-through">{field.before}</div>
+                        )}
+                        <div className="text-green-700 dark:text-green-400">{field.after || "—"}</div>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground break-words">{field.after || "—"}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">
+                Endpoints ({imported.endpoints.length})
+              </h4>
+              <div className="border rounded-md divide-y text-sm max-h-[300px] overflow-y-auto">
+                {diff?.endpoints.map((endpoint) => (
+                  <div
+                    key={`${endpoint.status}-${endpoint.method}-${endpoint.path}`}
+                    className="flex items-start gap-2 p-2"
+                  >
+                    <Badge variant="outline" className={cn("text-xs capitalize", STATUS_STYLES[endpoint.status])}>
+                      {endpoint.status}
+                    </Badge>
+                    <span className="font-mono text-xs font-semibold w-16 shrink-0">{endpoint.method}</span>
+                    <div className="min-w-0">
+                      <code className="font-mono text-xs break-all">{endpoint.path}</code>
+                      <p className="text-xs text-muted-foreground">
+                        {endpoint.after ?? endpoint.before}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+                {diff?.endpoints.length === 0 && (
+                  <div className="p-4 text-center text-muted-foreground">No endpoints</div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {imported ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => setImported(null)}>
+                Back
+              </Button>
+              <Button type="button" onClick={handleApply}>
+                Apply to form
+              </Button>
+            </>
+          ) : (
+            <Button type="button" onClick={handlePreview} disabled={!source.trim()}>
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpecImportDialog;
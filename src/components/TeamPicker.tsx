@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { createTeam, fetchTeams, type TeamRecord } from "@/services/apiService";
+
+interface TeamPickerProps {
+  value: string;
+  onChange: (teamId: string) => void;
+}
+
+// Select for the team that owns an API, with a dialog to add a team on the
+// spot. Whoever adds the team becomes its first member.
+const TeamPicker = ({ value, onChange }: TeamPickerProps) => {
+  const { user } = useAuth();
+  const permissions = usePermissions();
+  const [teams, setTeams] = useState<TeamRecord[]>([]);
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadTeams = async () => {
+      setTeams(await fetchTeams());
+    };
+    loadTeams();
+  }, []);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    const team = await createTeam({
+      name: name.trim(),
+      description: description.trim() || null,
+      members: user ? [{ user_id: user.id, name: user.name || user.email, email: user.email }] : [],
+    });
+    setSaving(false);
+    if (team) {
+      const { members, ...record } = team;
+      setTeams([...teams, record].sort((a, b) => a.name.localeCompare(b.name)));
+      onChange(team.id);
+      setOpen(false);
+      setName("");
+      setDescription("");
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select onValueChange={onChange} value={value}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select a team" />
+        </SelectTrigger>
+        <SelectContent>
+          {teams.map((team) => (
+            <SelectItem key={team.id} value={team.id}>
+              {team.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {permissions.canCreateTeams && (
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button type="button" variant="outline" size="icon" aria-label="New team">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New team</DialogTitle>
+              <DialogDescription>
+                You will be its first member. Add contact channels and the on-call rotation from the team page.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-team-name">Name</Label>
+                <Input
+                  id="new-team-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Payments"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-team-description">Description</Label>
+                <Textarea
+                  id="new-team-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What the team works on"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" onClick={handleCreate} disabled={!name.trim() || saving}>
+                {saving ? "Creating..." : "Create team"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default TeamPicker;
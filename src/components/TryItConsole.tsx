@@ -0,0 +1,291 @@
+import { useRef, useState } from "react";
+import { Loader2, PlusCircle, Send, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  buildRequest,
+  methodAllowsBody,
+  type KeyValue,
+} from "@/services/requests/buildRequest";
+import { sendRequest, type ConsoleResponse } from "@/services/requests/sendRequest";
+import { getAuthPlacement } from "@/services/specs/auth";
+import { getPathParameters } from "@/services/specs/paths";
+import type { Api, ApiEndpoint } from "@/services/types";
+
+const emptyPair = (): KeyValue => ({ key: "", value: "", enabled: true });
+
+const exampleText = (example: unknown) =>
+  example === undefined ? "" : typeof example === "string" ? example : JSON.stringify(example, null, 2);
+
+const statusColor = (status: number) => {
+  if (status >= 500) return "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400";
+  if (status >= 400) return "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400";
+  return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400";
+};
+
+interface KeyValueEditorProps {
+  pairs: KeyValue[];
+  onChange: (pairs: KeyValue[]) => void;
+  keyPlaceholder: string;
+}
+
+const KeyValueEditor = ({ pairs, onChange, keyPlaceholder }: KeyValueEditorProps) => {
+  const update = (index: number, changes: Partial<KeyValue>) =>
+    onChange(pairs.map((pair, i) => (i === index ? { ...pair, ...changes } : pair)));
+
+  return (
+    <div className="space-y-2">
+      {pairs.map((pair, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Checkbox
+            checked={pair.enabled}
+            onCheckedChange={(checked) => update(index, { enabled: checked === true })}
+          />
+          <Input
+            value={pair.key}
+            onChange={(e) => update(index, { key: e.target.value })}
+            placeholder={keyPlaceholder}
+            className="font-mono text-xs"
+          />
+          <Input
+            value={pair.value}
+            onChange={(e) => update(index, { value: e.target.value })}
+            placeholder="valor"
+            className="font-mono text-xs"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(pairs.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...pairs, emptyPair()])}>
+        <PlusCircle className="h-4 w-4 mr-2" />
+        Añadir
+      </Button>
+    </div>
+  );
+};
+
+interface TryItConsoleProps {
+  api: Api;
+  endpoint: ApiEndpoint;
+}
+
+// Build and send a request to one endpoint, then show what came back
+const TryItConsole = ({ api, endpoint }: TryItConsoleProps) => {
+  const parameters = endpoint.parameters || [];
+  const pathNames = getPathParameters(endpoint.path);
+  const bodyContent = endpoint.request_body?.content[0];
+  const placement = getAuthPlacement(api);
+
+  const [baseUrl, setBaseUrl] = useState(api.base_url);
+  const [pathParams, setPathParams] = useState<Record<string, string>>(
+    Object.fromEntries(pathNames.map((name) => [name, ""]))
+  );
+  const [query, setQuery] = useState<KeyValue[]>(
+    parameters
+      .filter((p) => p.in === "query")
+      .map((p) => ({ key: p.name, value: "", enabled: p.required }))
+  );
+  const [headers, setHeaders] = useState<KeyValue[]>(
+    parameters
+      .filter((p) => p.in === "header")
+      .map((p) => ({ key: p.name, value: "", enabled: p.required }))
+  );
+  const [body, setBody] = useState(exampleText(bodyContent?.example));
+  const [credential, setCredential] = useState("");
+  const [sending, setSending] = useState(false);
+  const [response, setResponse] = useState<ConsoleResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const allowsBody = methodAllowsBody(endpoint.method);
+
+  const handleSend = async () => {
+    setError(null);
+    setResponse(null);
+
+    const missing = pathNames.filter((name) => !pathParams[name]?.trim());
+    if (missing.length > 0) {
+      setError(`Faltan parámetros de ruta: ${missing.join(", ")}`);
+      return;
+    }
+
+    let request;
+    try {
+      request = buildRequest(api, {
+        baseUrl,
+        method: endpoint.method,
+        path: endpoint.path,
+        pathParams,
+        query,
+        headers,
+        body: allowsBody ? body : "",
+        contentType: bodyContent?.content_type || "application/json",
+        credential,
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSending(true);
+    try {
+      setResponse(await sendRequest(request, { signal: controller.signal }));
+    } catch (e) {
+      if (!(e instanceof DOMException && e.name === "AbortError")) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      setSending(false);
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4 mt-4">
+      <div>
+        <Label className="text-xs">Servidor</Label>
+        <Input
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          className="mt-1 font-mono text-xs"
+          placeholder="http://localhost:4010"
+        />
+      </div>
+
+      {pathNames.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Parámetros de ruta</p>
+          {pathNames.map((name) => (
+            <div key={name} className="grid grid-cols-3 items-center gap-2">
+              <Label className="font-mono text-xs">{name}</Label>
+              <Input
+                className="col-span-2 font-mono text-xs"
+                value={pathParams[name] || ""}
+                onChange={(e) => setPathParams({ ...pathParams, [name]: e.target.value })}
+                placeholder={parameters.find((p) => p.in === "path" && p.name === name)?.type || "string"}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {placement.kind !== "none" && (
+        <div>
+          <Label className="text-xs">
+            {placement.kind === "bearer"
+              ? "Token (header Authorization: Bearer)"
+              : `API Key (${placement.kind === "query" ? "parámetro" : placement.kind} ${placement.name})`}
+          </Label>
+          <Input
+            type="password"
+            value={credential}
+            onChange={(e) => setCredential(e.target.value)}
+            className="mt-1 font-mono text-xs"
+            autoComplete="off"
+          />
+          {placement.kind === "cookie" && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Los navegadores no permiten fijar cookies desde fetch; la credencial puede no enviarse.
+            </p>
+          )}
+        </div>
+      )}
+
+      <Tabs defaultValue={allowsBody && endpoint.request_body ? "body" : "query"}>
+        <TabsList>
+          <TabsTrigger value="query">Query ({query.length})</TabsTrigger>
+          <TabsTrigger value="headers">Headers ({headers.length})</TabsTrigger>
+          {allowsBody && <TabsTrigger value="body">Body</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="query">
+          <KeyValueEditor pairs={query} onChange={setQuery} keyPlaceholder="parámetro" />
+        </TabsContent>
+        <TabsContent value="headers">
+          <KeyValueEditor pairs={headers} onChange={setHeaders} keyPlaceholder="header" />
+        </TabsContent>
+        {allowsBody && (
+          <TabsContent value="body" className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {bodyContent?.content_type || "application/json"}
+            </p>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="font-mono text-xs min-h-[140px]"
+              placeholder={'{\n  "key": "value"\n}'}
+            />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <div className="flex gap-2">
+        <Button type="button" onClick={handleSend} disabled={sending}>
+          {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+          Enviar
+        </Button>
+        {sending && (
+          <Button type="button" variant="outline" onClick={() => abortRef.current?.abort()}>
+            Cancelar
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-900 dark:bg-red-900/20 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {response && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-2 py-1 rounded text-xs font-medium ${statusColor(response.status)}`}>
+              {response.status} {response.statusText}
+            </span>
+            <Badge variant="outline">{response.durationMs} ms</Badge>
+            <Badge variant="outline">{response.sizeBytes} B</Badge>
+          </div>
+          <Tabs defaultValue="body">
+            <TabsList>
+              <TabsTrigger value="body">Respuesta</TabsTrigger>
+              <TabsTrigger value="headers">Headers ({response.headers.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="body">
+              <pre className="bg-muted rounded p-3 text-xs overflow-auto max-h-96">
+                {response.prettyBody || "(sin contenido)"}
+              </pre>
+            </TabsContent>
+            <TabsContent value="headers">
+              <table className="w-full text-xs font-mono">
+                <tbody>
+                  {response.headers.map(([name, value]) => (
+                    <tr key={name} className="border-t">
+                      <td className="py-1 pr-4 align-top text-muted-foreground">{name}</td>
+                      <td className="py-1 break-all">{value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </TabsContent>
+          </Tabs>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TryItConsole;
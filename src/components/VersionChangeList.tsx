@@ -0,0 +1,63 @@
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { ChangeKind, VersionChange } from "@/services/versions/diff";
+import type { DiffLanguage } from "@/services/versions/messages";
+
+// In the language of the page showing the list, like the change messages
+const LABELS: Record<DiffLanguage, { kinds: Record<ChangeKind, string>; none: string; breaking: string }> = {
+  en: {
+    kinds: { added: "Added", removed: "Removed", modified: "Modified" },
+    none: "No changes.",
+    breaking: "Breaking",
+  },
+  es: {
+    kinds: { added: "Añadido", removed: "Eliminado", modified: "Modificado" },
+    none: "Sin cambios.",
+    breaking: "Incompatible",
+  },
+};
+
+const KIND_COLORS: Record<ChangeKind, string> = {
+  added: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  removed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  modified: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+};
+
+// Changes between two versions, breaking ones first
+const VersionChangeList = ({
+  changes,
+  language = "es",
+}: {
+  changes: VersionChange[];
+  language?: DiffLanguage;
+}) => {
+  const labels = LABELS[language];
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">{labels.none}</p>;
+  }
+
+  const sorted = [...changes].sort((a, b) => Number(b.breaking) - Number(a.breaking));
+
+  return (
+    <ul className="space-y-2">
+      {sorted.map((change, index) => (
+        <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className={cn("px-2 py-0.5 rounded text-xs font-medium", KIND_COLORS[change.kind])}>
+            {labels.kinds[change.kind]}
+          </span>
+          {change.endpoint && <code className="font-mono text-xs">{change.endpoint}</code>}
+          <span>{change.message}</span>
+          {change.breaking && (
+            <Badge variant="destructive" className="gap-1 text-xs">
+              <AlertTriangle className="h-3 w-3" />
+              {labels.breaking}
+            </Badge>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default VersionChangeList;
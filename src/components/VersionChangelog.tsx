@@ -0,0 +1,49 @@
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import VersionChangeList from "@/components/VersionChangeList";
+import type { VersionDiff } from "@/services/versions/diff";
+
+// What changed from each version of an API to the next, newest first
+const VersionChangelog = ({ changelog }: { changelog: VersionDiff[] }) => {
+  if (changelog.length === 0) {
+    return (
+      <div className="text-center p-8 border border-dashed rounded-lg">
+        <History className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium">Sin cambios todavía</h3>
+        <p className="text-muted-foreground">
+          El registro de cambios aparecerá cuando se publique una nueva versión.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {changelog.map((diff) => (
+        <Card key={`${diff.from}-${diff.to}`}>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+              <span className="font-mono">
+                {diff.from} → {diff.to}
+              </span>
+              {diff.breaking ? (
+                <Badge variant="destructive">Cambios incompatibles</Badge>
+              ) : (
+                <Badge variant="outline">Compatible</Badge>
+              )}
+              {diff.overridden && (
+                <Badge variant="secondary">Publicada por decisión del propietario</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <VersionChangeList changes={diff.changes} language="es" />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default VersionChangelog;
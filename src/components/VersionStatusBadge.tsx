@@ -0,0 +1,17 @@
+import { cn } from "@/lib/utils";
+import { VERSION_STATUS_LABELS } from "@/services/versions/history";
+import type { ApiVersionStatus } from "@/services/types";
+
+const STATUS_COLORS: Record<ApiVersionStatus, string> = {
+  current: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  supported: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  deprecated: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+};
+
+const VersionStatusBadge = ({ status, className }: { status: ApiVersionStatus; className?: string }) => (
+  <span className={cn("px-2 py-1 rounded text-xs font-medium", STATUS_COLORS[status], className)}>
+    {VERSION_STATUS_LABELS[status]}
+  </span>
+);
+
+export default VersionStatusBadge;
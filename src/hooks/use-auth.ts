@@ -0,0 +1,31 @@
+import * as React from "react"
+import type { AuthUser, SignUpInput } from "@/services/auth"
+import type { UserRole } from "@/services/types"
+
+export interface AuthContextValue {
+  user: AuthUser | null
+  // The user's roles; empty for visitors, who are viewers
+  roles: UserRole[]
+  // APIs owned by the user's teams, which they edit like owners
+  teamApiIds: string[]
+  // True until the stored session and the user's roles have been read
+  loading: boolean
+  // Reads the roles and team APIs again, e.g. after creating an API, which
+  // makes the user its owner
+  refreshRoles: () => Promise<void>
+  signInWithPassword: (email: string, password: string) => Promise<AuthUser>
+  signUp: (input: SignUpInput) => Promise<AuthUser | null>
+  sendMagicLink: (email: string, redirectTo: string) => Promise<void>
+  signOut: () => Promise<void>
+}
+
+export const AuthContext = React.createContext<AuthContextValue | null>(null)
+
+// The session shared by AuthProvider
+export function useAuth() {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used inside AuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+import { useAuth } from "@/hooks/use-auth"
+import {
+  canCreateApis,
+  canCreateTeams,
+  canDeclareIncidents,
+  canEditApi,
+  canEditIncident,
+  canEditTeam,
+  canManageCategories,
+  canManageTeamMembers,
+  canReviewAccess,
+  primaryRole,
+} from "@/services/auth/permissions"
+import type { ApiRecord, IncidentImpact, TeamMember, TeamRecord } from "@/services/types"
+
+// What the signed-in user may do, to hide the actions they cannot take.
+// The catalog enforces the same rules on write.
+export function usePermissions() {
+  const { user, roles, teamApiIds } = useAuth()
+
+  return React.useMemo(
+    () => ({
+      role: primaryRole(roles),
+      canCreateApis: canCreateApis(roles),
+      canEditApi: (api: Pick<ApiRecord, "id">) => canEditApi(roles, api, teamApiIds),
+      canManageCategories: canManageCategories(roles),
+      canCreateTeams: canCreateTeams(roles),
+      canEditTeam: (team: Pick<TeamRecord, "created_by">, members: Pick<TeamMember, "user_id">[]) =>
+        canEditTeam(roles, user?.id ?? null, team, members),
+      canManageTeamMembers: (team: Pick<TeamRecord, "created_by">) =>
+        canManageTeamMembers(roles, user?.id ?? null, team),
+      // Any signed-in user can register applications and request API keys
+      canRequestAccess: user !== null,
+      canReviewAccess: canReviewAccess(roles, teamApiIds),
+      canDeclareIncidents: canDeclareIncidents(roles, teamApiIds),
+      canEditIncident: (affected: Pick<IncidentImpact, "api_id">[]) =>
+        canEditIncident(roles, affected, teamApiIds),
+    }),
+    [user, roles, teamApiIds]
+  )
+}
@@ -0,0 +1,46 @@
+import * as React from "react"
+import {
+  DEFAULT_SNIPPET_LANGUAGE,
+  isSnippetLanguage,
+  type SnippetLanguage,
+} from "@/services/requests/snippets"
+
+const STORAGE_KEY = "api-vista-hub:snippet-language"
+// Lets every snippet on the page follow a change made in one of them
+const CHANGE_EVENT = "snippet-language-change"
+
+const readLanguage = (): SnippetLanguage => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return isSnippetLanguage(stored) ? stored : DEFAULT_SNIPPET_LANGUAGE
+  } catch {
+    return DEFAULT_SNIPPET_LANGUAGE
+  }
+}
+
+// The snippet language picked last, remembered across pages and visits
+export function useSnippetLanguage() {
+  const [language, setLanguageState] = React.useState<SnippetLanguage>(readLanguage)
+
+  React.useEffect(() => {
+    const onChange = () => setLanguageState(readLanguage())
+    window.addEventListener(CHANGE_EVENT, onChange)
+    window.addEventListener("storage", onChange)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, onChange)
+      window.removeEventListener("storage", onChange)
+    }
+  }, [])
+
+  const setLanguage = React.useCallback((next: SnippetLanguage) => {
+    setLanguageState(next)
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next)
+      window.dispatchEvent(new Event(CHANGE_EVENT))
+    } catch {
+      // Storage can be unavailable (private mode); keep the choice in memory
+    }
+  }, [])
+
+  return [language, setLanguage] as const
+}
@@ -9,6 +9,239 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      access_requests: {
+        Row: {
+          api_id: string
+          application_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          message: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          api_id: string
+          application_id: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          message?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          api_id?: string
+          application_id?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          id?: string
+          message?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_requests_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_requests_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          api_id: string
+          created_at: string
+          enabled: boolean
+          id: string
+          metric: string
+          threshold: number
+          updated_at: string
+          window_days: number
+        }
+        Insert: {
+          api_id: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          metric: string
+          threshold: number
+          updated_at?: string
+          window_days?: number
+        }
+        Update: {
+          api_id?: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          metric?: string
+          threshold?: number
+          updated_at?: string
+          window_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alerts: {
+        Row: {
+          acknowledged_at: string | null
+          api_id: string
+          fired_at: string
+          id: string
+          metric: string
+          resolved_at: string | null
+          rule_id: string
+          status: string
+          threshold: number
+          value: number
+          window_days: number
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          api_id: string
+          fired_at?: string
+          id?: string
+          metric: string
+          resolved_at?: string | null
+          rule_id: string
+          status?: string
+          threshold: number
+          value: number
+          window_days: number
+        }
+        Update: {
+          acknowledged_at?: string | null
+          api_id?: string
+          fired_at?: string
+          id?: string
+          metric?: string
+          resolved_at?: string | null
+          rule_id?: string
+          status?: string
+          threshold?: number
+          value?: number
+          window_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_access_settings: {
+        Row: {
+          api_id: string
+          auto_approve: boolean
+          updated_at: string
+        }
+        Insert: {
+          api_id: string
+          auto_approve?: boolean
+          updated_at?: string
+        }
+        Update: {
+          api_id?: string
+          auto_approve?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_access_settings_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_calls: {
+        Row: {
+          api_id: string
+          application_id: string | null
+          called_at: string
+          id: string
+          key_id: string | null
+          latency_ms: number
+          method: string
+          path: string
+          status: number
+        }
+        Insert: {
+          api_id: string
+          application_id?: string | null
+          called_at?: string
+          id?: string
+          key_id?: string | null
+          latency_ms: number
+          method: string
+          path: string
+          status: number
+        }
+        Update: {
+          api_id?: string
+          application_id?: string | null
+          called_at?: string
+          id?: string
+          key_id?: string | null
+          latency_ms?: number
+          method?: string
+          path?: string
+          status?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_calls_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_calls_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_calls_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_categories: {
         Row: {
           color: string
@@ -30,6 +263,41 @@ export type Database = {
         }
         Relationships: []
       }
+      api_comments: {
+        Row: {
+          api_id: string
+          author: string
+          body: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          api_id: string
+          author?: string
+          body: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Update: {
+          api_id?: string
+          author?: string
+          body?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_comments_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_endpoints: {
         Row: {
           api_id: string
@@ -37,7 +305,11 @@ export type Database = {
           description: string
           id: string
           method: string
+          parameters: Json
           path: string
+          request_body: Json | null
+          responses: Json
+          version_id: string
         }
         Insert: {
           api_id: string
@@ -45,7 +317,11 @@ export type Database = {
           description: string
           id?: string
           method: string
+          parameters?: Json
           path: string
+          request_body?: Json | null
+          responses?: Json
+          version_id?: string
         }
         Update: {
           api_id?: string
@@ -53,7 +329,11 @@ export type Database = {
           description?: string
           id?: string
           method?: string
+          parameters?: Json
           path?: string
+          request_body?: Json | null
+          responses?: Json
+          version_id?: string
         }
         Relationships: [
           {
@@ -63,39 +343,72 @@ export type Database = {
             referencedRelation: "apis"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "api_endpoints_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "api_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      api_stats: {
+      api_follows: {
+        Row: {
+          api_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          api_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          api_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_follows_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_health_checks: {
         Row: {
           api_id: string
+          checked_at: string
+          error: string | null
           id: string
-          last_week_calls: number
-          response_time: number
-          total_calls: number
-          updated_at: string
-          uptime: number
+          latency_ms: number | null
+          status: string
+          status_code: number | null
         }
         Insert: {
           api_id: string
+          checked_at?: string
+          error?: string | null
           id?: string
-          last_week_calls?: number
-          response_time?: number
-          total_calls?: number
-          updated_at?: string
-          uptime?: number
+          latency_ms?: number | null
+          status: string
+          status_code?: number | null
         }
         Update: {
           api_id?: string
+          checked_at?: string
+          error?: string | null
           id?: string
-          last_week_calls?: number
-          response_time?: number
-          total_calls?: number
-          updated_at?: string
-          uptime?: number
+          latency_ms?: number | null
+          status?: string
+          status_code?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "api_stats_api_id_fkey"
+            foreignKeyName: "api_health_checks_api_id_fkey"
             columns: ["api_id"]
             isOneToOne: false
             referencedRelation: "apis"
@@ -103,68 +416,826 @@ export type Database = {
           },
         ]
       }
-      apis: {
+      api_keys: {
         Row: {
-          auth_description: string | null
-          auth_type: string
-          base_url: string
-          category_id: string
+          api_id: string
+          application_id: string
           created_at: string
-          description: string
-          documentation_url: string | null
+          expires_at: string | null
           id: string
-          name: string
-          owner: string
-          tags: string[]
-          updated_at: string
-          version: string
+          key_hash: string
+          last_used_at: string | null
+          prefix: string
+          revoked_at: string | null
         }
         Insert: {
-          auth_description?: string | null
-          auth_type?: string
-          base_url: string
-          category_id: string
+          api_id: string
+          application_id: string
           created_at?: string
-          description: string
-          documentation_url?: string | null
+          expires_at?: string | null
           id?: string
-          name: string
-          owner: string
-          tags?: string[]
-          updated_at?: string
-          version?: string
+          key_hash: string
+          last_used_at?: string | null
+          prefix: string
+          revoked_at?: string | null
         }
         Update: {
-          auth_description?: string | null
-          auth_type?: string
-          base_url?: string
-          category_id?: string
+          api_id?: string
+          application_id?: string
           created_at?: string
-          description?: string
-          documentation_url?: string | null
+          expires_at?: string | null
           id?: string
-          name?: string
-          owner?: string
-          tags?: string[]
-          updated_at?: string
-          version?: string
+          key_hash?: string
+          last_used_at?: string | null
+          prefix?: string
+          revoked_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "apis_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "api_keys_api_id_fkey"
+            columns: ["api_id"]
             isOneToOne: false
-            referencedRelation: "api_categories"
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_keys_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      api_search_documents: {
+        Row: {
+          api_id: string
+          document: unknown
+          updated_at: string
+        }
+        Insert: {
+          api_id: string
+          document: unknown
+          updated_at?: string
+        }
+        Update: {
+          api_id?: string
+          document?: unknown
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_search_documents_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: true
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_stats: {
+        Row: {
+          api_id: string
+          id: string
+          last_week_calls: number
+          response_time: number | null
+          total_calls: number
+          updated_at: string
+          uptime: number | null
+        }
+        Insert: {
+          api_id: string
+          id?: string
+          last_week_calls?: number
+          response_time?: number | null
+          total_calls?: number
+          updated_at?: string
+          uptime?: number | null
+        }
+        Update: {
+          api_id?: string
+          id?: string
+          last_week_calls?: number
+          response_time?: number | null
+          total_calls?: number
+          updated_at?: string
+          uptime?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_stats_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_usage_daily: {
+        Row: {
+          api_id: string
+          avg_latency_ms: number
+          calls: number
+          day: string
+          errors: number
+          id: string
+          p95_latency_ms: number
+          unique_consumers: number
+          updated_at: string
+        }
+        Insert: {
+          api_id: string
+          avg_latency_ms?: number
+          calls?: number
+          day: string
+          errors?: number
+          id?: string
+          p95_latency_ms?: number
+          unique_consumers?: number
+          updated_at?: string
+        }
+        Update: {
+          api_id?: string
+          avg_latency_ms?: number
+          calls?: number
+          day?: string
+          errors?: number
+          id?: string
+          p95_latency_ms?: number
+          unique_consumers?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_usage_daily_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_versions: {
+        Row: {
+          api_id: string
+          auth_description: string | null
+          auth_type: string
+          base_url: string
+          breaking_allowed: boolean
+          created_at: string
+          id: string
+          status: string
+          version: string
+        }
+        Insert: {
+          api_id: string
+          auth_description?: string | null
+          auth_type?: string
+          base_url: string
+          breaking_allowed?: boolean
+          created_at?: string
+          id?: string
+          status?: string
+          version: string
+        }
+        Update: {
+          api_id?: string
+          auth_description?: string | null
+          auth_type?: string
+          base_url?: string
+          breaking_allowed?: boolean
+          created_at?: string
+          id?: string
+          status?: string
+          version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_versions_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      apis: {
+        Row: {
+          auth_description: string | null
+          auth_type: string
+          base_url: string
+          category_id: string
+          created_at: string
+          created_by: string | null
+          deprecated_at: string | null
+          description: string
+          documentation_url: string | null
+          health_path: string | null
+          id: string
+          lifecycle: string
+          name: string
+          successor_id: string | null
+          sunset_at: string | null
+          tags: string[]
+          team_id: string
+          updated_at: string
+          version: string
+        }
+        Insert: {
+          auth_description?: string | null
+          auth_type?: string
+          base_url: string
+          category_id: string
+          created_at?: string
+          created_by?: string | null
+          deprecated_at?: string | null
+          description: string
+          documentation_url?: string | null
+          health_path?: string | null
+          id?: string
+          lifecycle?: string
+          name: string
+          successor_id?: string | null
+          sunset_at?: string | null
+          tags?: string[]
+          team_id: string
+          updated_at?: string
+          version?: string
+        }
+        Update: {
+          auth_description?: string | null
+          auth_type?: string
+          base_url?: string
+          category_id?: string
+          created_at?: string
+          created_by?: string | null
+          deprecated_at?: string | null
+          description?: string
+          documentation_url?: string | null
+          health_path?: string | null
+          id?: string
+          lifecycle?: string
+          name?: string
+          successor_id?: string | null
+          sunset_at?: string | null
+          tags?: string[]
+          team_id?: string
+          updated_at?: string
+          version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "apis_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "api_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "apis_successor_id_fkey"
+            columns: ["successor_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "apis_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      applications: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      incident_apis: {
+        Row: {
+          api_id: string
+          endpoint_ids: string[]
+          incident_id: string
+        }
+        Insert: {
+          api_id: string
+          endpoint_ids?: string[]
+          incident_id: string
+        }
+        Update: {
+          api_id?: string
+          endpoint_ids?: string[]
+          incident_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_apis_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_apis_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_updates: {
+        Row: {
+          created_at: string
+          id: string
+          incident_id: string
+          message: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          incident_id: string
+          message: string
+          status: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          incident_id?: string
+          message?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_updates_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incidents: {
+        Row: {
+          created_at: string
+          id: string
+          resolved_at: string | null
+          severity: string
+          started_at: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          resolved_at?: string | null
+          severity: string
+          started_at?: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          resolved_at?: string | null
+          severity?: string
+          started_at?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          enabled: boolean
+          type: string
+          user_id: string
+        }
+        Insert: {
+          enabled?: boolean
+          type: string
+          user_id: string
+        }
+        Update: {
+          enabled?: boolean
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          api_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          api_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          api_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          role: string | null
+          team_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          role?: string | null
+          team_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          role?: string | null
+          team_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          contact_channels: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          on_call_rotation: string | null
+          updated_at: string
+        }
+        Insert: {
+          contact_channels?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          on_call_rotation?: string | null
+          updated_at?: string
+        }
+        Update: {
+          contact_channels?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          on_call_rotation?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          api_id: string | null
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          api_id?: string | null
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          api_id?: string | null
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      api_health_daily: {
+        Row: {
+          api_id: string
+          avg_latency_ms: number | null
+          checks: number
+          day: string
+          up_checks: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_health_checks_api_id_fkey"
+            columns: ["api_id"]
+            isOneToOne: false
+            referencedRelation: "apis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      api_as_json: {
+        Args: { p_api_id: string }
+        Returns: Json
+      }
+      api_health_status: {
+        Args: { p_since: string }
+        Returns: Json
+      }
+      can_edit_affected_apis: {
+        Args: { p_affected: Json }
+        Returns: boolean
+      }
+      can_edit_api: {
+        Args: { p_api_id: string }
+        Returns: boolean
+      }
+      can_edit_incident: {
+        Args: { p_incident_id: string }
+        Returns: boolean
+      }
+      can_manage_team_members: {
+        Args: { p_team_id: string }
+        Returns: boolean
+      }
+      create_api: {
+        Args: { payload: Json }
+        Returns: Json
+      }
+      create_incident: {
+        Args: { payload: Json }
+        Returns: Json
+      }
+      create_team: {
+        Args: { payload: Json }
+        Returns: Json
+      }
+      decide_access_request: {
+        Args: { p_request_id: string; p_decision: string }
+        Returns: {
+          api_id: string
+          application_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          message: string | null
+          status: string
+          user_id: string
+        }
+      }
+      evaluate_alert_rules: {
+        Args: { p_api_id?: string }
+        Returns: {
+          acknowledged_at: string | null
+          api_id: string
+          fired_at: string
+          id: string
+          metric: string
+          resolved_at: string | null
+          rule_id: string
+          status: string
+          threshold: number
+          value: number
+          window_days: number
+        }[]
+      }
+      has_role: {
+        Args: { p_role: string }
+        Returns: boolean
+      }
+      incident_as_json: {
+        Args: { p_incident_id: string }
+        Returns: Json
+      }
+      incident_downtime: {
+        Args: { p_api_id: string; p_at: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { p_team_id: string }
+        Returns: boolean
+      }
+      issue_api_key: {
+        Args: { p_application_id: string; p_api_id: string; p_expires_at?: string }
+        Returns: Json
+      }
+      list_api_tags: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      measure_alert_rule: {
+        Args: { p_api_id: string; p_metric: string; p_window_days: number }
+        Returns: number
+      }
+      notify_api_followers: {
+        Args: { p_api_id: string; p_type: string; p_data: Json }
+        Returns: undefined
+      }
+      notify_user: {
+        Args: { p_user_id: string; p_api_id: string; p_type: string; p_data: Json }
+        Returns: undefined
+      }
+      publish_api_version: {
+        Args: { p_api_id: string; payload: Json }
+        Returns: Json
+      }
+      record_api_calls: {
+        Args: { p_calls: Json }
+        Returns: number
+      }
+      refresh_api_health_stats: {
+        Args: { p_api_id?: string }
+        Returns: undefined
+      }
+      refresh_api_search_document: {
+        Args: { p_api_id: string }
+        Returns: undefined
+      }
+      request_api_access: {
+        Args: { p_api_id: string; p_application_id: string; p_message?: string }
+        Returns: {
+          api_id: string
+          application_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          id: string
+          message: string | null
+          status: string
+          user_id: string
+        }
+      }
+      revoke_api_key: {
+        Args: { p_key_id: string }
+        Returns: {
+          api_id: string
+          application_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          key_hash: string
+          last_used_at: string | null
+          prefix: string
+          revoked_at: string | null
+        }
+      }
+      revoke_api_key_as_owner: {
+        Args: { p_key_id: string }
+        Returns: {
+          api_id: string
+          application_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          key_hash: string
+          last_used_at: string | null
+          prefix: string
+          revoked_at: string | null
+        }
+      }
+      rotate_api_key: {
+        Args: { p_key_id: string }
+        Returns: Json
+      }
+      search_apis: {
+        Args: { p_filters?: Json; p_limit?: number; p_offset?: number; p_query: string }
+        Returns: Json
+      }
+      search_filter_list: {
+        Args: { p_filters: Json; p_key: string }
+        Returns: string[]
+      }
+      search_text: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      set_alert_status: {
+        Args: { p_alert_id: string; p_status: string }
+        Returns: {
+          acknowledged_at: string | null
+          api_id: string
+          fired_at: string
+          id: string
+          metric: string
+          resolved_at: string | null
+          rule_id: string
+          status: string
+          threshold: number
+          value: number
+          window_days: number
+        }
+      }
+      set_api_version_status: {
+        Args: { p_version_id: string; p_status: string }
+        Returns: {
+          api_id: string
+          auth_description: string | null
+          auth_type: string
+          base_url: string
+          breaking_allowed: boolean
+          created_at: string
+          id: string
+          status: string
+          version: string
+        }
+      }
+      set_incident_apis: {
+        Args: { p_incident_id: string; affected: Json }
+        Returns: undefined
+      }
+      team_as_json: {
+        Args: { p_team_id: string }
+        Returns: Json
+      }
+      update_api: {
+        Args: { p_api_id: string; payload: Json }
+        Returns: Json
+      }
+      update_incident: {
+        Args: { p_incident_id: string; payload: Json }
+        Returns: Json
+      }
+      update_team: {
+        Args: { p_team_id: string; payload: Json }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
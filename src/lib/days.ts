@@ -0,0 +1,15 @@
+// Calendar days as YYYY-MM-DD strings in UTC, the format of `date` columns
+
+export function toDay(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+export function addDays(day: string, amount: number) {
+  const date = new Date(`${day}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + amount)
+  return toDay(date)
+}
+
+export function today() {
+  return toDay(new Date())
+}
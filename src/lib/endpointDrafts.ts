@@ -0,0 +1,166 @@
+import type {
+  EndpointInput,
+  EndpointParameter,
+  MediaContent,
+} from "@/services/types";
+import { getPathParameters } from "@/services/specs/paths";
+import { isResponseStatus, normalizeResponseStatus } from "@/services/specs/types";
+
+// Editable form of an endpoint: schemas and examples are kept as the text
+// typed by the user until the form is submitted
+
+export interface ContentDraft {
+  content_type: string;
+  schema: string;
+  example: string;
+}
+
+export interface RequestBodyDraft {
+  required: boolean;
+  description: string;
+  content: ContentDraft[];
+}
+
+export interface ResponseDraft {
+  status: string;
+  description: string;
+  content: ContentDraft[];
+}
+
+export interface EndpointDraft {
+  id?: string;
+  path: string;
+  method: string;
+  description: string;
+  parameters: EndpointParameter[];
+  request_body: RequestBodyDraft | null;
+  responses: ResponseDraft[];
+}
+
+export const emptyContentDraft = (): ContentDraft => ({
+  content_type: "application/json",
+  schema: "",
+  example: "",
+});
+
+export const emptyEndpointDraft = (): EndpointDraft => ({
+  path: "",
+  method: "GET",
+  description: "",
+  parameters: [],
+  request_body: null,
+  responses: [],
+});
+
+const toText = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+};
+
+const toContentDraft = (content: MediaContent): ContentDraft => ({
+  content_type: content.content_type,
+  schema: toText(content.schema),
+  example: toText(content.example),
+});
+
+export const toEndpointDraft = (endpoint: EndpointInput & { id?: string }): EndpointDraft => ({
+  id: endpoint.id,
+  path: endpoint.path,
+  method: endpoint.method,
+  description: endpoint.description,
+  parameters: (endpoint.parameters || []).map(p => ({ ...p })),
+  request_body: endpoint.request_body
+    ? {
+        required: endpoint.request_body.required,
+        description: endpoint.request_body.description || "",
+        content: endpoint.request_body.content.map(toContentDraft),
+      }
+    : null,
+  responses: (endpoint.responses || []).map(response => ({
+    status: response.status,
+    description: response.description,
+    content: response.content.map(toContentDraft),
+  })),
+});
+
+const fromContentDraft = (draft: ContentDraft, where: string): MediaContent => {
+  const content: MediaContent = { content_type: draft.content_type.trim() || "application/json" };
+
+  if (draft.schema.trim()) {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(draft.schema);
+    } catch {
+      throw new Error(`The schema of ${where} (${content.content_type}) is not valid JSON`);
+    }
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+      throw new Error(`The schema of ${where} (${content.content_type}) must be a JSON object`);
+    }
+    content.schema = schema as MediaContent["schema"];
+  }
+
+  if (draft.example.trim()) {
+    // Examples that are not JSON are kept as plain text
+    try {
+      content.example = JSON.parse(draft.example);
+    } catch {
+      content.example = draft.example;
+    }
+  }
+
+  return content;
+};
+
+// Turn a draft back into an endpoint. Path parameters are kept in step
+// with the {placeholders} of the path. Throws with a readable message when
+// a schema cannot be parsed or a response status is not one OpenAPI takes.
+export const fromEndpointDraft = (draft: EndpointDraft): EndpointInput & { id?: string } => {
+  const label = `${draft.method} ${draft.path}`;
+  const templateNames = getPathParameters(draft.path);
+
+  const parameters: EndpointParameter[] = draft.parameters
+    .filter(p => p.name.trim())
+    .filter(p => p.in !== "path" || templateNames.includes(p.name.trim()))
+    .map(p => ({
+      ...p,
+      name: p.name.trim(),
+      required: p.in === "path" ? true : p.required,
+      description: p.description?.trim() || undefined,
+    }));
+  templateNames
+    .filter(name => !parameters.some(p => p.in === "path" && p.name === name))
+    .forEach(name => parameters.push({ name, in: "path", type: "string", required: true }));
+
+  return {
+    id: draft.id,
+    path: draft.path,
+    method: draft.method,
+    description: draft.description,
+    parameters,
+    request_body: draft.request_body
+      ? {
+          required: draft.request_body.required,
+          description: draft.request_body.description.trim() || undefined,
+          content: draft.request_body.content.map(c => fromContentDraft(c, `the ${label} request body`)),
+        }
+      : null,
+    responses: draft.responses
+      .filter(r => r.status.trim())
+      .map(response => {
+        const status = normalizeResponseStatus(response.status);
+        if (!isResponseStatus(status)) {
+          throw new Error(
+            `The ${label} response status "${response.status.trim()}" must be a code such as 200, a range such as 4XX or "default"`
+          );
+        }
+        if (draft.responses.filter(r => normalizeResponseStatus(r.status) === status).length > 1) {
+          throw new Error(`${label} has more than one ${status} response`);
+        }
+        return {
+          status,
+          description: response.description,
+          content: response.content.map(c => fromContentDraft(c, `the ${label} ${status} response`)),
+        };
+      }),
+  };
+};
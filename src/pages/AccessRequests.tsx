@@ -0,0 +1,270 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Check, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/use-toast";
+import AccessDenied from "@/components/AccessDenied";
+import AccessStatusBadge from "@/components/AccessStatusBadge";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  decideAccessRequest,
+  fetchAccessRequests,
+  fetchAccessSettings,
+  fetchApis,
+  fetchApiKeys,
+  fetchApplicationsById,
+  revokeApiKeyAsOwner,
+  setAutoApprove,
+  AccessDecision,
+  AccessRequest,
+  Api,
+  ApiAccessSettings,
+  ApiKey,
+  Application,
+} from "@/services/apiService";
+import { getKeyStatus } from "@/services/access/keys";
+
+// Decisions listed under the queue
+const RECENT_DECISIONS = 20;
+
+const timeAgo = (value: string) => formatDistanceToNow(new Date(value), { addSuffix: true, locale: es });
+
+// Approval queue for the owners of apiKey APIs: approve or reject access
+// requests, withdraw access granted before or revoke one of its keys, and
+// choose which APIs approve requests automatically
+const AccessRequests = () => {
+  const { user } = useAuth();
+  const permissions = usePermissions();
+  const [apis, setApis] = useState<Api[]>([]);
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [settings, setSettings] = useState<ApiAccessSettings[]>([]);
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      const [apisData, requestsData, settingsData, keysData] = await Promise.all([
+        fetchApis(),
+        fetchAccessRequests(),
+        fetchAccessSettings(),
+        fetchApiKeys(),
+      ]);
+      setApis(apisData);
+      setRequests(requestsData);
+      setSettings(settingsData);
+      setKeys(keysData);
+      setApplications(await fetchApplicationsById([...new Set(requestsData.map((r) => r.application_id))]));
+      setLoading(false);
+    };
+    loadData();
+  }, [user]);
+
+  const handleDecision = async (request: AccessRequest, decision: AccessDecision) => {
+    const decided = await decideAccessRequest(request, decision);
+    if (decided) {
+      toast({
+        title: decision === "approved" ? "Acceso aprobado" : "Acceso rechazado",
+        description: "Avisaremos al solicitante.",
+      });
+      setRequests(requests.map((r) => (r.id === decided.id ? decided : r)));
+      // Rejecting revokes the application's keys
+      if (decision === "rejected") setKeys(await fetchApiKeys());
+    }
+  };
+
+  const handleRevokeKey = async (key: ApiKey) => {
+    const revoked = await revokeApiKeyAsOwner(key);
+    if (revoked) {
+      toast({ title: "Clave revocada", description: `${revoked.prefix}… ya no funciona. El acceso sigue aprobado.` });
+      setKeys(keys.map((k) => (k.id === revoked.id ? revoked : k)));
+    }
+  };
+
+  const handleAutoApprove = async (apiId: string, autoApprove: boolean) => {
+    const saved = await setAutoApprove(apiId, autoApprove);
+    if (saved) {
+      setSettings([...settings.filter((s) => s.api_id !== apiId), saved]);
+    }
+  };
+
+  if (!permissions.canReviewAccess) {
+    return (
+      <AccessDenied description="Solo los propietarios de una API y los administradores revisan sus solicitudes de acceso." />
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando solicitudes...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const ownApis = apis.filter((api) => api.auth_type === "apiKey" && permissions.canEditApi(api));
+  const ownRequests = requests.filter((r) => permissions.canEditApi({ id: r.api_id }));
+  const pending = ownRequests.filter((r) => r.status === "pending");
+  const decided = ownRequests
+    .filter((r) => r.status !== "pending")
+    .sort((a, b) => (b.decided_at || "").localeCompare(a.decided_at || ""))
+    .slice(0, RECENT_DECISIONS);
+  const apiName = (id: string) => apis.find((api) => api.id === id)?.name || id;
+  const application = (id: string) => applications.find((a) => a.id === id);
+  const activeKeys = (request: AccessRequest) =>
+    keys.filter(
+      (k) => k.application_id === request.application_id && k.api_id === request.api_id && getKeyStatus(k) === "active"
+    );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Solicitudes de acceso</h1>
+        <p className="text-muted-foreground">Decide quién puede usar tus APIs</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Pendientes ({pending.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {pending.length > 0 ? (
+                <div className="divide-y border-t">
+                  {pending.map((request) => (
+                    <div key={request.id} className="flex flex-wrap items-start gap-4 px-6 py-4">
+                      <div className="flex-1 space-y-1">
+                        <p className="text-sm">
+                          <span className="font-medium">{application(request.application_id)?.name || "Aplicación"}</span>
+                          {" pide acceso a "}
+                          <Link to={`/view/${request.api_id}`} className="font-medium hover:underline">
+                            {apiName(request.api_id)}
+                          </Link>
+                        </p>
+                        {application(request.application_id)?.description && (
+                          <p className="text-xs text-muted-foreground">
+                            {application(request.application_id)?.description}
+                          </p>
+                        )}
+                        {request.message && <p className="text-sm italic">"{request.message}"</p>}
+                        <p className="text-xs text-muted-foreground">{timeAgo(request.created_at)}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => handleDecision(request, "approved")} className="flex items-center gap-1">
+                          <Check className="h-4 w-4" />
+                          Aprobar
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDecision(request, "rejected")}
+                          className="flex items-center gap-1"
+                        >
+                          <X className="h-4 w-4" />
+                          Rechazar
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="px-6 pb-6 text-sm text-muted-foreground">No hay solicitudes pendientes.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Decisiones recientes</CardTitle>
+              <CardDescription>
+                Retirar un acceso revoca todas las claves de la aplicación; también puedes revocar una sola.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {decided.length > 0 ? (
+                <div className="divide-y border-t">
+                  {decided.map((request) => (
+                    <div key={request.id} className="flex flex-wrap items-center gap-3 px-6 py-3 text-sm">
+                      <AccessStatusBadge status={request.status} />
+                      <span className="flex-1">
+                        {application(request.application_id)?.name || "Aplicación"} ·{" "}
+                        <Link to={`/view/${request.api_id}`} className="hover:underline">
+                          {apiName(request.api_id)}
+                        </Link>
+                      </span>
+                      {request.decided_at && (
+                        <span className="text-xs text-muted-foreground">
+                          {request.decided_by ? timeAgo(request.decided_at) : "Aprobada automáticamente"}
+                        </span>
+                      )}
+                      {request.status === "approved" && (
+                        <Button variant="ghost" size="sm" onClick={() => handleDecision(request, "rejected")}>
+                          Retirar acceso
+                        </Button>
+                      )}
+                      {request.status === "approved" && activeKeys(request).length > 0 && (
+                        <div className="w-full space-y-1">
+                          {activeKeys(request).map((key) => (
+                            <div key={key.id} className="flex items-center gap-3 text-xs text-muted-foreground">
+                              <code>{key.prefix}…</code>
+                              <span>{key.last_used_at ? `Usada ${timeAgo(key.last_used_at)}` : "Sin usar"}</span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="ml-auto h-7"
+                                onClick={() => handleRevokeKey(key)}
+                              >
+                                Revocar clave
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="px-6 pb-6 text-sm text-muted-foreground">Todavía no has decidido ninguna solicitud.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Aprobación automática</CardTitle>
+            <CardDescription>Las APIs activadas aprueban las solicitudes nuevas sin pasar por la cola.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {ownApis.map((api) => (
+              <div key={api.id} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`auto-approve-${api.id}`}>{api.name}</Label>
+                <Switch
+                  id={`auto-approve-${api.id}`}
+                  checked={settings.some((s) => s.api_id === api.id && s.auto_approve)}
+                  onCheckedChange={(checked) => handleAutoApprove(api.id, checked)}
+                />
+              </div>
+            ))}
+            {ownApis.length === 0 && (
+              <p className="text-sm text-muted-foreground">No gestionas ninguna API con autenticación por API key.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AccessRequests;
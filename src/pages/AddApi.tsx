@@ -2,44 +2,111 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { useNavigate } from "react-router-dom";
-import { X, PlusCircle } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { X, PlusCircle, Loader2, AlertTriangle } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { createApi, fetchApiCategories, ApiCategory } from "@/services/apiService";
+import {
+  createApi,
+  updateApi,
+  publishApiVersion,
+  fetchApiById,
+  fetchApiCategories,
+  fetchApis,
+  Api,
+  ApiCategory,
+} from "@/services/apiService";
+import AccessDenied from "@/components/AccessDenied";
+import SpecImportDialog from "@/components/SpecImportDialog";
+import EndpointDetailsEditor from "@/components/EndpointDetailsEditor";
+import TeamPicker from "@/components/TeamPicker";
+import VersionChangeList from "@/components/VersionChangeList";
+import {
+  emptyEndpointDraft,
+  fromEndpointDraft,
+  toEndpointDraft,
+  type EndpointDraft,
+} from "@/lib/endpointDrafts";
+import type { ImportedApi } from "@/services/specs/types";
+import { blocksPublishing, diffVersions } from "@/services/versions/diff";
+import { isRetired } from "@/services/lifecycle/states";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 
 // Validation schema for the form
 const formSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   version: z.string().default("v1"),
-  owner: z.string().min(3, "Owner name is required"),
+  team_id: z.string().min(1, "Team is required"),
   base_url: z.string().url("Must be a valid URL"),
   documentation_url: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  health_path: z.string().regex(/^\/\S*$/, "Must start with / and contain no spaces").optional().or(z.literal("")),
   category_id: z.string().min(1, "Category is required"),
   auth_type: z.enum(["apiKey", "oauth2", "none"]).default("none"),
   auth_description: z.string().optional().or(z.literal("")),
+  lifecycle: z.enum(["draft", "beta", "stable", "deprecated", "retired"]).default("stable"),
+  sunset_at: z.string().optional().or(z.literal("")),
+  successor_id: z.string().optional().or(z.literal("")),
+}).superRefine((values, ctx) => {
+  // Same rule as the apis_deprecation_check constraint
+  if (values.lifecycle !== "deprecated") return;
+  if (!values.sunset_at) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sunset_at"], message: "Deprecated APIs need a sunset date" });
+  }
+  if (!values.successor_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["successor_id"], message: "Deprecated APIs need a successor" });
+  }
 });
 
+const LIFECYCLE_OPTIONS = [
+  { value: "draft", label: "Draft" },
+  { value: "beta", label: "Beta" },
+  { value: "stable", label: "Stable" },
+  { value: "deprecated", label: "Deprecated" },
+  { value: "retired", label: "Retired" },
+] as const;
+
 type FormValues = z.infer<typeof formSchema>;
 
-const AddApi = () => {
+interface AddApiProps {
+  // Publish a new version of the API instead of editing it
+  newVersion?: boolean;
+}
+
+const AddApi = ({ newVersion = false }: AddApiProps) => {
   const navigate = useNavigate();
+  // When an id is present the form edits that API instead of creating one
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id) && !newVersion;
+  const { refreshRoles } = useAuth();
+  const permissions = usePermissions();
+  // Editors and admins add APIs; owners and admins edit them and publish
+  // their versions
+  const allowed = id ? permissions.canEditApi({ id }) : permissions.canCreateApis;
+  const [loadingApi, setLoadingApi] = useState(Boolean(id));
+  // The API as of its current version, when publishing a new one
+  const [previous, setPrevious] = useState<Api | null>(null);
+  // The owner accepts breaking changes under the same major version
+  const [allowBreaking, setAllowBreaking] = useState(false);
   const [categories, setCategories] = useState<ApiCategory[]>([]);
+  // APIs that can replace this one when it is deprecated
+  const [successors, setSuccessors] = useState<Api[]>([]);
   const [loading, setLoading] = useState(false);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
   
   // Endpoints state
-  const [endpoints, setEndpoints] = useState<{path: string; method: string; description: string}[]>([
-    { path: "", method: "GET", description: "" }
-  ]);
+  const [endpoints, setEndpoints] = useState<EndpointDraft[]>([emptyEndpointDraft()]);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -47,12 +114,16 @@ const AddApi = () => {
       name: "",
       description: "",
       version: "v1",
-      owner: "",
+      team_id: "",
       base_url: "",
       documentation_url: "",
+      health_path: "",
       category_id: "",
       auth_type: "none",
       auth_description: "",
+      lifecycle: "stable",
+      sunset_at: "",
+      successor_id: "",
     },
   });
   
@@ -65,6 +136,53 @@ const AddApi = () => {
     loadCategories();
   }, []);
 
+  useEffect(() => {
+    const loadSuccessors = async () => {
+      const data = await fetchApis();
+      setSuccessors(data.filter((api) => api.id !== id && !isRetired(api)));
+    };
+    loadSuccessors();
+  }, [id]);
+
+  // Pre-fill the form with the API being edited
+  useEffect(() => {
+    if (!id) return;
+
+    const loadApi = async () => {
+      setLoadingApi(true);
+      const api = await fetchApiById(id);
+      if (api) {
+        form.reset({
+          name: api.name,
+          description: api.description,
+          // A new version needs a new name
+          version: newVersion ? "" : api.version,
+          team_id: api.team_id,
+          base_url: api.base_url,
+          documentation_url: api.documentation_url || "",
+          health_path: api.health_path || "",
+          category_id: api.category_id,
+          auth_type: api.auth_type,
+          auth_description: api.auth_description || "",
+          lifecycle: api.lifecycle,
+          // The date input takes YYYY-MM-DD
+          sunset_at: api.sunset_at?.slice(0, 10) || "",
+          successor_id: api.successor_id || "",
+        });
+        setTags(api.tags);
+        setPrevious(api);
+        // A new version starts from copies of the current endpoints
+        setEndpoints(
+          (api.endpoints || []).map((endpoint) =>
+            newVersion ? { ...toEndpointDraft(endpoint), id: undefined } : toEndpointDraft(endpoint)
+          )
+        );
+      }
+      setLoadingApi(false);
+    };
+    loadApi();
+  }, [id, newVersion, form]);
+
   const handleAddTag = () => {
     if (tagInput.trim() && !tags.includes(tagInput.trim())) {
       setTags([...tags, tagInput.trim()]);
@@ -77,7 +195,7 @@ const AddApi = () => {
   };
 
   const handleAddEndpoint = () => {
-    setEndpoints([...endpoints, { path: "", method: "GET", description: "" }]);
+    setEndpoints([...endpoints, emptyEndpointDraft()]);
   };
 
   const handleRemoveEndpoint = (index: number) => {
@@ -90,15 +208,83 @@ const AddApi = () => {
     setEndpoints(updatedEndpoints);
   };
 
+  const handleEndpointDetailsChange = (index: number, endpoint: EndpointDraft) => {
+    setEndpoints(endpoints.map((e, i) => (i === index ? endpoint : e)));
+  };
+
+  // Fill the form from an imported spec, keeping the ids of endpoints that
+  // already exist so editing updates them in place
+  const handleImport = (imported: ImportedApi) => {
+    const options = { shouldValidate: true, shouldDirty: true };
+    form.setValue("name", imported.name, options);
+    form.setValue("description", imported.description, options);
+    form.setValue("version", imported.version, options);
+    form.setValue("base_url", imported.base_url, options);
+    form.setValue("auth_type", imported.auth_type, options);
+    form.setValue("auth_description", imported.auth_description, options);
+    setTags(imported.tags);
+    setEndpoints(
+      imported.endpoints.map((endpoint) => ({
+        ...toEndpointDraft(endpoint),
+        id: endpoints.find(
+          (e) => e.id && e.method === endpoint.method && e.path === endpoint.path
+        )?.id,
+      }))
+    );
+    toast({
+      title: "Spec imported",
+      description: `${imported.endpoints.length} endpoints loaded. Review the form and save.`,
+    });
+  };
+
+  const formValues = form.watch();
+
+  // What consumers of the current version will notice. Endpoints whose
+  // schemas do not parse yet are compared without their details.
+  const versionDiff = newVersion && previous
+    ? diffVersions(
+        { ...previous, endpoints: previous.endpoints || [] },
+        {
+          version: formValues.version,
+          base_url: formValues.base_url,
+          auth_type: formValues.auth_type,
+          endpoints: endpoints
+            .filter(endpoint => endpoint.path.trim() !== "")
+            .map(endpoint => {
+              try {
+                return fromEndpointDraft(endpoint);
+              } catch {
+                return { path: endpoint.path, method: endpoint.method, description: endpoint.description };
+              }
+            }),
+        },
+        "en"
+      )
+    : null;
+  const breakingBlocked = versionDiff ? blocksPublishing(versionDiff) : false;
+
   const onSubmit = async (values: FormValues) => {
+    if (newVersion && !values.version.trim()) {
+      form.setError("version", { message: "Version is required" });
+      return;
+    }
+    if (breakingBlocked && !allowBreaking) {
+      toast({
+        title: "Breaking changes",
+        description: "Publish them as a new major version, or confirm them below.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       // Validate endpoints
-      const validEndpoints = endpoints.filter(endpoint => 
+      const validDrafts = endpoints.filter(endpoint => 
         endpoint.path.trim() !== "" && endpoint.description.trim() !== ""
       );
       
-      if (validEndpoints.length === 0) {
+      if (validDrafts.length === 0) {
         toast({
           title: "Error",
           description: "At least one valid endpoint is required",
@@ -107,40 +293,85 @@ const AddApi = () => {
         setLoading(false);
         return;
       }
+
+      // Schemas are typed as JSON text, so they may fail to parse
+      let validEndpoints;
+      try {
+        validEndpoints = validDrafts.map(fromEndpointDraft);
+      } catch (error) {
+        toast({
+          title: "Invalid endpoint",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+        setLoading(false);
+        return;
+      }
       
-      // Create API object with all required fields
-      const newApi = {
+      // Build the API object with all required fields
+      const apiData = {
         ...values,
         // Ensure all required fields are present
         name: values.name,
         description: values.description,
         version: values.version || "v1",
-        owner: values.owner,
+        team_id: values.team_id,
         base_url: values.base_url,
         documentation_url: values.documentation_url || null,
+        health_path: values.health_path || null,
         category_id: values.category_id,
         tags: tags,
         auth_type: values.auth_type as 'apiKey' | 'oauth2' | 'none',
         auth_description: values.auth_description || null,
+        lifecycle: values.lifecycle,
+        // Retired APIs keep pointing to their successor
+        sunset_at: values.lifecycle === "deprecated" || values.lifecycle === "retired"
+          ? (values.sunset_at ? new Date(values.sunset_at).toISOString() : null)
+          : null,
+        successor_id: values.lifecycle === "deprecated" || values.lifecycle === "retired"
+          ? values.successor_id || null
+          : null,
         endpoints: validEndpoints,
       };
       
-      const result = await createApi(newApi);
+      if (newVersion) {
+        const published = await publishApiVersion(id, {
+          version: apiData.version,
+          base_url: apiData.base_url,
+          auth_type: apiData.auth_type,
+          auth_description: apiData.auth_description,
+          endpoints: validEndpoints,
+        }, { allowBreaking });
+        if (published) {
+          toast({
+            title: "Success",
+            description: `Version ${published.version} published`,
+          });
+          navigate(`/view/${published.id}`);
+        }
+        return;
+      }
+
+      const result = isEditing
+        ? await updateApi(id, apiData)
+        : await createApi(apiData);
       
       if (result) {
+        // Creating the API made the user its owner
+        if (!isEditing) await refreshRoles();
         toast({
           title: "Success",
-          description: "API created successfully",
+          description: isEditing ? "API updated successfully" : "API created successfully",
         });
         navigate(`/view/${result.id}`);
       } else {
-        throw new Error("Failed to create API");
+        throw new Error(isEditing ? "Failed to update API" : "Failed to create API");
       }
     } catch (error) {
-      console.error("Error creating API:", error);
+      console.error(isEditing ? "Error updating API:" : "Error creating API:", error);
       toast({
         title: "Error",
-        description: "Failed to create API",
+        description: isEditing ? "Failed to update API" : "Failed to create API",
         variant: "destructive",
       });
     } finally {
@@ -148,161 +379,326 @@ const AddApi = () => {
     }
   };
 
+  if (!allowed) {
+    return (
+      <AccessDenied
+        title={
+          newVersion
+            ? "You cannot publish versions of this API"
+            : isEditing ? "You cannot edit this API" : "You cannot add APIs"
+        }
+        description={
+          id
+            ? "Only the API's owners and admins can edit it."
+            : "Adding APIs needs the editor role. Ask an admin for access."
+        }
+        backTo={id ? `/view/${id}` : "/"}
+        backLabel={id ? "Back to the API" : "Back to the dashboard"}
+      />
+    );
+  }
+
+  if (loadingApi) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Loading API...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="container max-w-3xl mx-auto py-6 space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold tracking-tight">Add New API</h1>
-        <p className="text-muted-foreground">
-          Fill out the form to add a new API to the catalog.
-        </p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">
+            {newVersion ? "Publish New Version" : isEditing ? "Edit API" : "Add New API"}
+          </h1>
+          <p className="text-muted-foreground">
+            {newVersion
+              ? `${formValues.name} ${previous?.version} stays available as a supported version. The endpoints start as a copy of it.`
+              : isEditing
+                ? "Update the API details, authentication and endpoints."
+                : "Fill out the form to add a new API to the catalog."}
+          </p>
+        </div>
+        <SpecImportDialog
+          current={{
+            name: formValues.name,
+            description: formValues.description,
+            version: formValues.version,
+            base_url: formValues.base_url,
+            auth_type: formValues.auth_type,
+            auth_description: formValues.auth_description || "",
+            tags,
+            endpoints: endpoints.map(({ path, method, description }) => ({
+              path,
+              method,
+              description,
+            })),
+          }}
+          onApply={handleImport}
+        />
       </div>
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Basic Information</CardTitle>
-              <CardDescription>
-                General information about the API.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <FormField
-                control={form.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>API Name</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Payment Processing API" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="description"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Description</FormLabel>
-                    <FormControl>
-                      <Textarea
-                        placeholder="A comprehensive API for handling payment processing..."
-                        className="min-h-[100px]"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <div className="grid grid-cols-2 gap-4">
+          {newVersion ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Version</CardTitle>
+                <CardDescription>
+                  The name, description, team, category and tags are shared by every version.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
                 <FormField
                   control={form.control}
                   name="version"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Version</FormLabel>
+                      <FormLabel>New Version</FormLabel>
                       <FormControl>
-                        <Input placeholder="v1" {...field} />
+                        <Input placeholder="v2.0.0" {...field} />
                       </FormControl>
+                      <FormDescription>
+                        The current version is {previous?.version}.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Basic Information</CardTitle>
+                <CardDescription>
+                  General information about the API.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
                 <FormField
                   control={form.control}
-                  name="owner"
+                  name="name"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>API Owner</FormLabel>
+                      <FormLabel>API Name</FormLabel>
                       <FormControl>
-                        <Input placeholder="Organization or developer" {...field} />
+                        <Input placeholder="Payment Processing API" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
 
-              <FormField
-                control={form.control}
-                name="category_id"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Category</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
                       <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a category" />
-                        </SelectTrigger>
+                        <Textarea
+                          placeholder="A comprehensive API for handling payment processing..."
+                          className="min-h-[100px]"
+                          {...field}
+                        />
                       </FormControl>
-                      <SelectContent>
-                        {categories.map((category) => (
-                          <SelectItem key={category.id} value={category.id}>
-                            {category.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              <div>
-                <FormLabel>Tags</FormLabel>
-                <div className="flex flex-wrap gap-2 mt-2">
-                  {tags.map((tag) => (
-                    <div
-                      key={tag}
-                      className="bg-secondary text-secondary-foreground px-3 py-1 rounded-full flex items-center gap-1"
-                    >
-                      <span>{tag}</span>
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveTag(tag)}
-                        className="text-secondary-foreground/70 hover:text-secondary-foreground"
-                      >
-                        <X className="h-3 w-3" />
-                      </button>
-                    </div>
-                  ))}
-                </div>
-                <div className="flex mt-2">
-                  <Input
-                    value={tagInput}
-                    onChange={(e) => setTagInput(e.target.value)}
-                    placeholder="Add a tag"
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") {
-                        e.preventDefault();
-                        handleAddTag();
-                      }
-                    }}
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="version"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Version</FormLabel>
+                        <FormControl>
+                          <Input placeholder="v1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="team_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Owning team</FormLabel>
+                        <TeamPicker value={field.value} onChange={field.onChange} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  <Button
-                    type="button"
-                    variant="secondary"
-                    className="ml-2"
-                    onClick={handleAddTag}
-                  >
-                    Add
-                  </Button>
                 </div>
-                <FormDescription>
-                  Press Enter or click Add to add a tag
-                </FormDescription>
-              </div>
-            </CardContent>
-          </Card>
+
+                <FormField
+                  control={form.control}
+                  name="category_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={category.id}>
+                              {category.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div>
+                  <FormLabel>Tags</FormLabel>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {tags.map((tag) => (
+                      <div
+                        key={tag}
+                        className="bg-secondary text-secondary-foreground px-3 py-1 rounded-full flex items-center gap-1"
+                      >
+                        <span>{tag}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveTag(tag)}
+                          className="text-secondary-foreground/70 hover:text-secondary-foreground"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex mt-2">
+                    <Input
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      placeholder="Add a tag"
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          handleAddTag();
+                        }
+                      }}
+                    />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      className="ml-2"
+                      onClick={handleAddTag}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                  <FormDescription>
+                    Press Enter or click Add to add a tag
+                  </FormDescription>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {!newVersion && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Lifecycle</CardTitle>
+                <CardDescription>
+                  Where the API is in its life. Retired APIs are hidden from search by default.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="lifecycle"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LIFECYCLE_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {(formValues.lifecycle === "deprecated" || formValues.lifecycle === "retired") && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="sunset_at"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Sunset Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            When the API stops answering. Followers are notified.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="successor_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Successor</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select the API replacing it" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {successors.map((api) => (
+                                <SelectItem key={api.id} value={api.id}>
+                                  {api.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
           <Card>
             <CardHeader>
@@ -329,22 +725,43 @@ const AddApi = () => {
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="documentation_url"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Documentation URL (Optional)</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="https://docs.example.com"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!newVersion && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="documentation_url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Documentation URL (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="https://docs.example.com"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="health_path"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Health Check Path (Optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="/health" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Appended to the base URL and probed periodically to track uptime and response time.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -364,7 +781,7 @@ const AddApi = () => {
                     <FormLabel>Authentication Type</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -482,6 +899,11 @@ const AddApi = () => {
                       placeholder="Get user details by ID"
                     />
                   </div>
+
+                  <EndpointDetailsEditor
+                    endpoint={endpoint}
+                    onChange={(updated) => handleEndpointDetailsChange(index, updated)}
+                  />
                 </div>
               ))}
               {endpoints.length === 0 && (
@@ -493,6 +915,39 @@ const AddApi = () => {
             </CardContent>
           </Card>
 
+          {versionDiff && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Changes from {versionDiff.from}</CardTitle>
+                <CardDescription>
+                  What consumers of {versionDiff.from} will notice in the new version.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <VersionChangeList changes={versionDiff.changes} language="en" />
+                {breakingBlocked && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Breaking changes under the same major version</AlertTitle>
+                    <AlertDescription className="space-y-3">
+                      <p>
+                        Publish them as a new major version, or confirm that clients of {versionDiff.from} may break.
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="allow-breaking"
+                          checked={allowBreaking}
+                          onCheckedChange={(checked) => setAllowBreaking(checked === true)}
+                        />
+                        <Label htmlFor="allow-breaking">Publish the breaking changes anyway</Label>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <CardFooter className="flex justify-between border rounded-lg p-6">
             <Button
               type="button"
@@ -502,7 +957,11 @@ const AddApi = () => {
               Cancel
             </Button>
             <Button type="submit" disabled={loading}>
-              {loading ? "Creating..." : "Create API"}
+              {newVersion
+                ? loading ? "Publishing..." : "Publish Version"
+                : isEditing
+                  ? loading ? "Saving..." : "Save Changes"
+                  : loading ? "Creating..." : "Create API"}
             </Button>
           </CardFooter>
         </form>
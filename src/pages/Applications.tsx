@@ -0,0 +1,321 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { KeyRound, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import AccessStatusBadge from "@/components/AccessStatusBadge";
+import ApiKeySecret from "@/components/ApiKeySecret";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  createApplication,
+  fetchAccessRequests,
+  fetchApiKeys,
+  fetchApis,
+  fetchApplications,
+  issueApiKey,
+  revokeApiKey,
+  rotateApiKey,
+  AccessRequest,
+  Api,
+  ApiKey,
+  Application,
+  IssuedApiKey,
+} from "@/services/apiService";
+import { KEY_EXPIRY_OPTIONS, expiryFromDays, getKeyStatus } from "@/services/access/keys";
+
+const NO_EXPIRY = "never";
+
+const formatDate = (value: string | null, empty: string) =>
+  value ? new Date(value).toLocaleDateString("es") : empty;
+
+// The keys an application holds for one API, with the actions on them
+const AccessKeys = ({
+  request,
+  keys,
+  onIssued,
+  onRevoked,
+}: {
+  request: AccessRequest;
+  keys: ApiKey[];
+  onIssued: (issued: IssuedApiKey, replaced?: ApiKey) => void;
+  onRevoked: (key: ApiKey) => void;
+}) => {
+  const [expiry, setExpiry] = useState(NO_EXPIRY);
+  const [saving, setSaving] = useState(false);
+
+  const handleIssue = async () => {
+    setSaving(true);
+    const issued = await issueApiKey({
+      application_id: request.application_id,
+      api_id: request.api_id,
+      expires_at: expiryFromDays(expiry === NO_EXPIRY ? null : Number(expiry)),
+    });
+    setSaving(false);
+    if (issued) onIssued(issued);
+  };
+
+  const handleRotate = async (key: ApiKey) => {
+    const issued = await rotateApiKey(key.id);
+    if (issued) onIssued(issued, key);
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    const revoked = await revokeApiKey(key.id);
+    if (revoked) {
+      toast({ title: "Clave revocada", description: `${revoked.prefix}… ya no funciona.` });
+      onRevoked(revoked);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {keys.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Clave</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead>Creada</TableHead>
+              <TableHead>Caduca</TableHead>
+              <TableHead>Último uso</TableHead>
+              <TableHead className="text-right">Acciones</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.map((key) => {
+              const status = getKeyStatus(key);
+              return (
+                <TableRow key={key.id}>
+                  <TableCell>
+                    <code className="text-xs">{key.prefix}…</code>
+                  </TableCell>
+                  <TableCell>
+                    <AccessStatusBadge status={status} />
+                  </TableCell>
+                  <TableCell>{formatDate(key.created_at, "")}</TableCell>
+                  <TableCell>{formatDate(key.expires_at, "Nunca")}</TableCell>
+                  <TableCell>
+                    {key.last_used_at
+                      ? formatDistanceToNow(new Date(key.last_used_at), { addSuffix: true, locale: es })
+                      : "Nunca"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {status !== "revoked" && (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRotate(key)}
+                          title="Rotar: revoca esta clave y emite otra con la misma duración"
+                          aria-label="Rotar clave"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        {status === "active" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-destructive"
+                            onClick={() => handleRevoke(key)}
+                            aria-label="Revocar clave"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground">Todavía no hay claves para esta API.</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KEY_EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.label} value={option.days === null ? NO_EXPIRY : String(option.days)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleIssue} disabled={saving} className="flex items-center gap-1">
+          <KeyRound className="h-4 w-4" />
+          Nueva clave
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// The signed-in user's applications, their access to each API and their
+// keys
+const Applications = () => {
+  const { user } = useAuth();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [apis, setApis] = useState<Api[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [issued, setIssued] = useState<IssuedApiKey | null>(null);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadData = async () => {
+      setLoading(true);
+      const [applicationsData, requestsData, apisData] = await Promise.all([
+        fetchApplications(),
+        fetchAccessRequests({ userId: user.id }),
+        fetchApis(),
+      ]);
+      setApplications(applicationsData);
+      setRequests(requestsData);
+      setApis(apisData);
+      setKeys(await fetchApiKeys({ applicationIds: applicationsData.map((a) => a.id) }));
+      setLoading(false);
+    };
+    loadData();
+  }, [user]);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    const application = await createApplication({ name: name.trim() });
+    setSaving(false);
+    if (application) {
+      setApplications([...applications, application].sort((a, b) => a.name.localeCompare(b.name)));
+      setName("");
+    }
+  };
+
+  const handleIssued = (key: IssuedApiKey, replaced?: ApiKey) => {
+    const now = new Date().toISOString();
+    setKeys([key.key, ...keys.map((k) => (k.id === replaced?.id ? { ...k, revoked_at: now } : k))]);
+    setIssued(key);
+  };
+
+  const apiName = (id: string) => apis.find((api) => api.id === id)?.name || id;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando aplicaciones...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Mis aplicaciones</h1>
+        <p className="text-muted-foreground">
+          Tus aplicaciones, las APIs a las que tienen acceso y sus claves
+        </p>
+      </div>
+
+      {applications.map((application) => {
+        const applicationRequests = requests.filter((r) => r.application_id === application.id);
+        return (
+          <Card key={application.id}>
+            <CardHeader>
+              <CardTitle className="text-lg">{application.name}</CardTitle>
+              {application.description && <CardDescription>{application.description}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {applicationRequests.map((request) => (
+                <div key={request.id} className="space-y-3 border-t pt-4 first:border-t-0 first:pt-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link to={`/view/${request.api_id}`} className="font-medium hover:underline">
+                      {apiName(request.api_id)}
+                    </Link>
+                    <AccessStatusBadge status={request.status} />
+                  </div>
+                  {request.status === "approved" && (
+                    <AccessKeys
+                      request={request}
+                      keys={keys.filter(
+                        (k) => k.application_id === request.application_id && k.api_id === request.api_id
+                      )}
+                      onIssued={handleIssued}
+                      onRevoked={(revoked) => setKeys(keys.map((k) => (k.id === revoked.id ? revoked : k)))}
+                    />
+                  )}
+                  {request.status === "pending" && (
+                    <p className="text-sm text-muted-foreground">
+                      Esperando a los propietarios de la API. Te avisaremos de su decisión.
+                    </p>
+                  )}
+                  {request.status === "rejected" && (
+                    <p className="text-sm text-muted-foreground">
+                      Solicitud rechazada. Puedes volver a pedir acceso desde la página de la API.
+                    </p>
+                  )}
+                </div>
+              ))}
+              {applicationRequests.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Pide acceso a una API con autenticación por API key desde su página.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Nueva aplicación</CardTitle>
+          <CardDescription>También puedes crearla al solicitar acceso a una API.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 sm:grid-cols-[1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="new-application-name">Nombre</Label>
+              <Input
+                id="new-application-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="p. ej. App de reservas"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={!name.trim() || saving} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              {saving ? "Creando..." : "Crear aplicación"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={issued !== null} onOpenChange={(open) => !open && setIssued(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nueva clave de {issued && apiName(issued.key.api_id)}</DialogTitle>
+          </DialogHeader>
+          {issued && <ApiKeySecret issued={issued} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Applications;
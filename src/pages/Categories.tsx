@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/use-toast";
+import AccessDenied from "@/components/AccessDenied";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  createCategory,
+  deleteCategory,
+  fetchApiCategories,
+  fetchApis,
+  updateCategory,
+  Api,
+  ApiCategory,
+} from "@/services/apiService";
+
+const DEFAULT_COLOR = "#60A5FA";
+
+const CategoryRow = ({
+  category,
+  apiCount,
+  onSaved,
+  onDeleted,
+}: {
+  category: ApiCategory;
+  apiCount: number;
+  onSaved: (category: ApiCategory) => void;
+  onDeleted: (id: string) => void;
+}) => {
+  const [name, setName] = useState(category.name);
+  const [color, setColor] = useState(category.color);
+  const [saving, setSaving] = useState(false);
+  const changed = name !== category.name || color !== category.color;
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await updateCategory(category.id, { name: name.trim(), color });
+    setSaving(false);
+    if (saved) onSaved(saved);
+  };
+
+  const handleDelete = async () => {
+    if (await deleteCategory(category.id)) {
+      toast({ title: "Categoría eliminada", description: category.name });
+      onDeleted(category.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3">
+      <Input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        className="h-9 w-12 p-1"
+        aria-label="Color"
+      />
+      <Input value={name} onChange={(e) => setName(e.target.value)} className="max-w-xs" aria-label="Nombre" />
+      <span className="text-sm text-muted-foreground">
+        {apiCount === 1 ? "1 API" : `${apiCount} APIs`}
+      </span>
+      <div className="ml-auto flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSave}
+          disabled={!changed || !name.trim() || saving}
+          className="flex items-center gap-1"
+        >
+          <Save className="h-4 w-4" />
+          Guardar
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground hover:text-destructive"
+          onClick={handleDelete}
+          disabled={apiCount > 0}
+          title={apiCount > 0 ? "Mueve sus APIs a otra categoría antes de eliminarla" : undefined}
+          aria-label="Eliminar categoría"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Admins add, rename, recolor and remove the catalog's categories
+const Categories = () => {
+  const permissions = usePermissions();
+  const [categories, setCategories] = useState<ApiCategory[]>([]);
+  const [apis, setApis] = useState<Api[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      const [categoriesData, apisData] = await Promise.all([fetchApiCategories(), fetchApis()]);
+      setCategories(categoriesData);
+      setApis(apisData);
+      setLoading(false);
+    };
+    loadData();
+  }, []);
+
+  const handleAdd = async () => {
+    setSaving(true);
+    const category = await createCategory({ name: name.trim(), color });
+    setSaving(false);
+    if (category) {
+      toast({ title: "Categoría creada", description: category.name });
+      setCategories([...categories, category]);
+      setName("");
+      setColor(DEFAULT_COLOR);
+    }
+  };
+
+  if (!permissions.canManageCategories) {
+    return <AccessDenied description="Solo los administradores gestionan las categorías." />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando categorías...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Categorías</h1>
+        <p className="text-muted-foreground">Organiza el catálogo de APIs</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Categorías del catálogo</CardTitle>
+          <CardDescription>
+            Solo se pueden eliminar las categorías sin APIs.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="border rounded-md divide-y">
+            {categories.map((category) => (
+              <CategoryRow
+                key={category.id}
+                category={category}
+                apiCount={apis.filter((api) => api.category_id === category.id).length}
+                onSaved={(saved) => setCategories(categories.map((c) => (c.id === saved.id ? saved : c)))}
+                onDeleted={(id) => setCategories(categories.filter((c) => c.id !== id))}
+              />
+            ))}
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-[auto_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="new-category-color">Color</Label>
+              <Input
+                id="new-category-color"
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="h-10 w-14 p-1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-category-name">Nombre</Label>
+              <Input
+                id="new-category-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="p. ej. Logística"
+              />
+            </div>
+            <Button
+              type="button"
+              onClick={handleAdd}
+              disabled={!name.trim() || saving}
+              className="flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              {saving ? "Añadiendo..." : "Añadir categoría"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Categories;
@@ -1,7 +1,7 @@
 
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowUp, Users, Database, BarChart3, ArrowRight, Loader2 } from "lucide-react";
+import { ArrowUp, ArrowDown, Users, Database, BarChart3, ArrowRight, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Link } from "react-router-dom";
@@ -12,38 +12,73 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip as RechartsTooltip,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
 import { Badge } from "@/components/ui/badge";
-import { fetchApis, getDashboardMetrics } from "@/services/apiService";
-import { Api } from "@/services/apiService";
+import { fetchApis, fetchIncidents, getDashboardMetrics } from "@/services/apiService";
+import { Api, DashboardMetrics, Incident, TimeRange } from "@/services/apiService";
+import { formatUptime } from "@/services/health/summary";
+import { affectsApi } from "@/services/incidents/impact";
+import { isRetired } from "@/services/lifecycle/states";
+import IncidentFlag from "@/components/IncidentFlag";
+import LifecycleBadge from "@/components/LifecycleBadge";
+
+const RANGE_LABELS: Record<TimeRange, { chart: string; period: string; previous: string }> = {
+  week: { chart: "Llamadas por Día", period: "Últimos 7 días", previous: "la semana anterior" },
+  month: { chart: "Llamadas por Día", period: "Últimos 30 días", previous: "el mes anterior" },
+  year: { chart: "Llamadas por Mes", period: "Últimos 12 meses", previous: "el año anterior" },
+};
 
 const Dashboard = () => {
-  const [timeRange, setTimeRange] = useState<"week" | "month" | "year">("month");
+  const [timeRange, setTimeRange] = useState<TimeRange>("month");
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
   const [apis, setApis] = useState<Api[]>([]);
-  const [metrics, setMetrics] = useState<any>(null);
+  const [activeIncidents, setActiveIncidents] = useState<Incident[]>([]);
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
+
+  // Fetch the APIs and their open incidents on mount
+  useEffect(() => {
+    const loadApis = async () => {
+      const [apisData, incidentsData] = await Promise.all([
+        fetchApis(),
+        fetchIncidents({ active: true }),
+      ]);
+      setApis(apisData);
+      setActiveIncidents(incidentsData);
+    };
 
-  // Fetch data on mount
+    loadApis();
+  }, []);
+
+  // Re-aggregate the metrics whenever the time range changes
   useEffect(() => {
-    const loadData = async () => {
+    let cancelled = false;
+
+    const loadMetrics = async () => {
       try {
-        setLoading(true);
-        const [apisData, metricsData] = await Promise.all([
-          fetchApis(),
-          getDashboardMetrics(),
-        ]);
-        setApis(apisData);
-        setMetrics(metricsData);
+        setRefreshing(true);
+        const metricsData = await getDashboardMetrics(timeRange);
+        if (!cancelled) setMetrics(metricsData);
       } catch (error) {
         console.error("Error loading dashboard data:", error);
       } finally {
-        setLoading(false);
+        if (!cancelled) {
+          setRefreshing(false);
+          setLoading(false);
+        }
       }
     };
 
-    loadData();
-  }, []);
+    loadMetrics();
+    return () => {
+      cancelled = true;
+    };
+  }, [timeRange]);
+
+  const rangeLabels = RANGE_LABELS[timeRange];
+  const callsChange = metrics?.callsChange ?? null;
 
   // Formato para números grandes
   const formatNumber = (num: number) => {
@@ -77,6 +112,7 @@ const Dashboard = () => {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          {refreshing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
           <Button
             variant={timeRange === "week" ? "default" : "outline"}
             size="sm"
@@ -130,11 +166,26 @@ const Dashboard = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">
-              {formatNumber(metrics?.totalApiCalls || 0)}
+            <div className="flex items-center justify-between">
+              <div className="text-2xl font-bold">
+                {formatNumber(metrics?.usage.calls || 0)}
+              </div>
+              {callsChange !== null && (
+                <div
+                  className={`flex items-center gap-1 text-sm px-2 py-0.5 rounded-full ${
+                    callsChange >= 0
+                      ? "text-green-600 bg-green-100 dark:bg-green-900/30 dark:text-green-400"
+                      : "text-red-600 bg-red-100 dark:bg-red-900/30 dark:text-red-400"
+                  }`}
+                >
+                  {callsChange >= 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                  <span>{Math.abs(callsChange)}%</span>
+                </div>
+              )}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              +15% desde el mes anterior
+              {rangeLabels.period}
+              {callsChange !== null && ` · frente a ${rangeLabels.previous}`}
             </p>
           </CardContent>
         </Card>
@@ -148,14 +199,14 @@ const Dashboard = () => {
           <CardContent>
             <div className="flex items-center justify-between">
               <div className="text-2xl font-bold">
-                {metrics?.activeUsers || 0}
+                {formatNumber(metrics?.usage.avgDailyConsumers || 0)}
               </div>
               <div className="flex items-center">
                 <Users className="h-4 w-4 text-muted-foreground" />
               </div>
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Activos en los últimos 30 días
+              Consumidores únicos por día (promedio)
             </p>
           </CardContent>
         </Card>
@@ -167,9 +218,9 @@ const Dashboard = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">135ms</div>
+            <div className="text-2xl font-bold">{metrics?.usage.avgLatencyMs || 0}ms</div>
             <p className="text-xs text-muted-foreground mt-1">
-              Promedio general de todas las APIs
+              p95 {metrics?.usage.p95LatencyMs || 0}ms · {(metrics?.usage.errorRate || 0).toFixed(2)}% errores
             </p>
           </CardContent>
         </Card>
@@ -181,30 +232,39 @@ const Dashboard = () => {
         <Card className="md:col-span-4">
           <CardHeader>
             <CardTitle className="text-lg font-semibold">
-              Llamadas a APIs por Mes
+              {rangeLabels.chart}
             </CardTitle>
+            <p className="text-sm text-muted-foreground">{rangeLabels.period}</p>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={metrics?.apiCallsOverTime || []}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
+                  <XAxis dataKey="label" minTickGap={16} />
                   <YAxis
                     tickFormatter={(value) => formatNumber(value)}
                     width={40}
                   />
                   <RechartsTooltip
-                    formatter={(value) => [
+                    formatter={(value, name) => [
                       formatNumber(value as number),
-                      "Llamadas",
+                      name,
                     ]}
                   />
+                  <Legend />
                   <Bar
                     dataKey="calls"
+                    name="Llamadas"
                     fill="hsl(var(--primary))"
                     radius={[4, 4, 0, 0]}
                   />
+                  <Bar
+                    dataKey="errors"
+                    name="Errores"
+                    fill="hsl(var(--destructive))"
+                    radius={[4, 4, 0, 0]}
+                  />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -220,7 +280,7 @@ const Dashboard = () => {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {metrics?.popularCategories?.map((category: any) => (
+              {metrics?.popularCategories?.map((category) => (
                 <div key={category.name} className="space-y-1">
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">{category.name}</span>
@@ -254,7 +314,7 @@ const Dashboard = () => {
         </div>
 
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {apis.slice(0, 3).map((api) => (
+          {apis.filter((api) => !isRetired(api)).slice(0, 3).map((api) => (
             <Card key={api.id} className="api-card api-card-hover">
               <CardHeader className="pb-2">
                 <div className="flex items-start justify-between">
@@ -272,6 +332,10 @@ const Dashboard = () => {
                 </div>
               </CardHeader>
               <CardContent className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <LifecycleBadge lifecycle={api.lifecycle} />
+                  <IncidentFlag incidents={activeIncidents.filter((incident) => affectsApi(incident, api.id))} />
+                </div>
                 <p className="text-sm text-muted-foreground line-clamp-2">
                   {api.description}
                 </p>
@@ -291,7 +355,7 @@ const Dashboard = () => {
                   </div>
                   <div>
                     <span className="font-medium text-green-600">
-                      {api.stats?.uptime || 99.9}% uptime
+                      {formatUptime(api.stats?.uptime)} uptime
                     </span>
                   </div>
                 </div>
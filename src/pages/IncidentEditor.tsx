@@ -0,0 +1,428 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ChevronLeft, Loader2 } from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  createIncident,
+  fetchApis,
+  fetchIncidentById,
+  updateIncident,
+  Api,
+  Incident,
+  IncidentImpact,
+  IncidentStatus,
+} from "@/services/apiService";
+import {
+  INCIDENT_SEVERITIES,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUSES,
+  INCIDENT_STATUS_LABELS,
+} from "@/services/incidents/impact";
+import AccessDenied from "@/components/AccessDenied";
+import AffectedApisPicker from "@/components/AffectedApisPicker";
+import IncidentSeverityBadge from "@/components/IncidentSeverityBadge";
+import { IncidentUpdates } from "@/components/IncidentTimeline";
+import { usePermissions } from "@/hooks/use-permissions";
+
+const formSchema = z.object({
+  title: z.string().trim().min(5, "El título debe tener al menos 5 caracteres"),
+  severity: z.enum(["minor", "major", "critical"]),
+  // Value of a datetime-local input, in local time
+  started_at: z.string().min(1, "Indica cuándo empezó"),
+  status: z.enum(["investigating", "identified", "monitoring", "resolved"]),
+  message: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+const fromLocalInput = (value: string) => new Date(value).toISOString();
+
+// Post a status update on an existing incident's timeline
+const UpdateComposer = ({
+  incident,
+  onPosted,
+}: {
+  incident: Incident;
+  onPosted: (incident: Incident) => void;
+}) => {
+  const [status, setStatus] = useState<IncidentStatus>(incident.status);
+  const [message, setMessage] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  const handlePost = async () => {
+    if (!message.trim()) {
+      toast({
+        title: "Falta el mensaje",
+        description: "Describe el estado de la incidencia.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPosting(true);
+    const updated = await updateIncident(incident.id, { update: { status, message: message.trim() } });
+    setPosting(false);
+
+    if (updated) {
+      setMessage("");
+      onPosted(updated);
+      toast({ title: "Actualización publicada" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-[200px_1fr]">
+        <div className="space-y-2">
+          <Label>Estado</Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as IncidentStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INCIDENT_STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {INCIDENT_STATUS_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Mensaje</Label>
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Hemos aplicado una corrección y seguimos observando."
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" onClick={handlePost} disabled={posting}>
+          {posting ? "Publicando..." : "Publicar actualización"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const IncidentEditor = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const isEditing = Boolean(id);
+  const navigate = useNavigate();
+  const permissions = usePermissions();
+  const [apis, setApis] = useState<Api[]>([]);
+  const [incident, setIncident] = useState<Incident | null>(null);
+  const [affected, setAffected] = useState<IncidentImpact[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingIncident, setLoadingIncident] = useState(isEditing);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      title: "",
+      severity: "major",
+      started_at: toLocalInput(new Date().toISOString()),
+      status: "investigating",
+      message: "",
+    },
+  });
+
+  // Load the APIs to pick from, and preselect the one the page was opened
+  // from
+  useEffect(() => {
+    const loadApis = async () => {
+      setApis(await fetchApis());
+    };
+    loadApis();
+
+    const apiId = searchParams.get("api");
+    if (!id && apiId) setAffected([{ api_id: apiId, endpoint_ids: [] }]);
+  }, [id, searchParams]);
+
+  // Pre-fill the form with the incident being edited
+  useEffect(() => {
+    if (!id) return;
+
+    const loadIncident = async () => {
+      setLoadingIncident(true);
+      const data = await fetchIncidentById(id);
+      if (data) {
+        setIncident(data);
+        setAffected(data.affected);
+        form.reset({
+          title: data.title,
+          severity: data.severity,
+          started_at: toLocalInput(data.started_at),
+          status: data.status,
+          message: "",
+        });
+      }
+      setLoadingIncident(false);
+    };
+    loadIncident();
+  }, [id, form]);
+
+  const onSubmit = async (values: FormValues) => {
+    if (affected.length === 0) {
+      toast({
+        title: "Sin APIs afectadas",
+        description: "Marca al menos una API afectada.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!isEditing && !values.message.trim()) {
+      form.setError("message", { message: "Describe qué está pasando" });
+      return;
+    }
+
+    setLoading(true);
+    const fields = {
+      title: values.title,
+      severity: values.severity,
+      started_at: fromLocalInput(values.started_at),
+      affected,
+    };
+    const result = id
+      ? await updateIncident(id, fields)
+      : await createIncident({ ...fields, status: values.status, message: values.message.trim() });
+    setLoading(false);
+
+    if (result) {
+      toast({
+        title: isEditing ? "Incidencia actualizada" : "Incidencia declarada",
+        description: result.title,
+      });
+      if (isEditing) {
+        setIncident(result);
+      } else {
+        navigate(`/incidents/${result.id}`);
+      }
+    }
+  };
+
+  if (loadingIncident) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando incidencia...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isEditing && !incident) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+        <h1 className="text-2xl font-bold mb-2">Incidencia no encontrada</h1>
+        <Button asChild>
+          <Link to="/incidents">Volver a las incidencias</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (incident ? !permissions.canEditIncident(incident.affected) : !permissions.canDeclareIncidents) {
+    return (
+      <AccessDenied
+        description="Solo los propietarios de todas las APIs afectadas y los administradores gestionan una incidencia."
+        backTo="/incidents"
+        backLabel="Volver a las incidencias"
+      />
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto py-6 space-y-6">
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Button variant="ghost" size="sm" asChild className="p-0">
+          <Link to="/incidents">
+            <ChevronLeft className="h-4 w-4" />
+            <span>Incidencias</span>
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight flex flex-wrap items-center gap-2">
+          {incident ? incident.title : "Declarar incidencia"}
+          {incident && <IncidentSeverityBadge severity={incident.severity} />}
+        </h1>
+        <p className="text-muted-foreground">
+          {incident
+            ? `${INCIDENT_STATUS_LABELS[incident.status]} · actualiza el estado o corrige los datos de la incidencia.`
+            : "Informa de un problema con una o varias APIs del catálogo."}
+        </p>
+      </div>
+
+      {incident && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Línea de tiempo</CardTitle>
+            <CardDescription>
+              Cada actualización cambia el estado de la incidencia. Al resolverla se registra la hora de fin.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <UpdateComposer incident={incident} onPosted={setIncident} />
+            <IncidentUpdates updates={incident.updates} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Datos de la incidencia</CardTitle>
+              <CardDescription>
+                Las incidencias mayores y críticas cuentan como caída en el uptime de las APIs afectadas.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Título</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Errores al procesar pagos" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="severity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Severidad</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {INCIDENT_SEVERITIES.map((severity) => (
+                            <SelectItem key={severity} value={severity}>
+                              {INCIDENT_SEVERITY_LABELS[severity]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="started_at"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Inicio</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {!isEditing && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Estado</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {INCIDENT_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {INCIDENT_STATUS_LABELS[status]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="message"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Primera actualización</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Los cobros con tarjeta devuelven errores. Estamos investigando."
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              <div className="space-y-2">
+                <FormLabel>APIs afectadas</FormLabel>
+                <AffectedApisPicker
+                  apis={apis.filter((api) => permissions.canEditApi(api))}
+                  value={affected}
+                  onChange={setAffected}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <CardFooter className="flex justify-between border rounded-lg p-6">
+            <Button type="button" variant="outline" onClick={() => navigate(-1)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {isEditing
+                ? loading ? "Guardando..." : "Guardar cambios"
+                : loading ? "Declarando..." : "Declarar incidencia"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default IncidentEditor;
@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceStrict } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertTriangle, CheckCircle, Loader2, PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import IncidentSeverityBadge from "@/components/IncidentSeverityBadge";
+import { fetchApis, fetchIncidents, Api, Incident } from "@/services/apiService";
+import { INCIDENT_STATUS_LABELS, isIncidentActive } from "@/services/incidents/impact";
+import { usePermissions } from "@/hooks/use-permissions";
+
+const IncidentRow = ({ incident, apis }: { incident: Incident; apis: Api[] }) => {
+  const apiNames = incident.affected.map(
+    (impact) => apis.find((api) => api.id === impact.api_id)?.name || impact.api_id
+  );
+
+  return (
+    <Link
+      to={`/incidents/${incident.id}`}
+      className="block rounded-md border p-4 transition-colors hover:bg-muted/50"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{incident.title}</span>
+        <IncidentSeverityBadge severity={incident.severity} />
+        <span className="ml-auto text-xs text-muted-foreground">
+          {INCIDENT_STATUS_LABELS[incident.status]}
+        </span>
+      </div>
+      {incident.updates[0] && (
+        <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+          {incident.updates[0].message}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">
+        {apiNames.join(", ")} · {format(new Date(incident.started_at), "d MMM yyyy, HH:mm", { locale: es })}
+        {incident.resolved_at &&
+          ` · duró ${formatDistanceStrict(new Date(incident.resolved_at), new Date(incident.started_at), { locale: es })}`}
+      </p>
+    </Link>
+  );
+};
+
+const Incidents = () => {
+  const permissions = usePermissions();
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [apis, setApis] = useState<Api[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      const [incidentsData, apisData] = await Promise.all([fetchIncidents(), fetchApis()]);
+      setIncidents(incidentsData);
+      setApis(apisData);
+      setLoading(false);
+    };
+    loadData();
+  }, []);
+
+  const active = incidents.filter(isIncidentActive);
+  const resolved = incidents.filter((incident) => !isIncidentActive(incident));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando incidencias...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Incidencias</h1>
+          <p className="text-muted-foreground">
+            Problemas declarados en las APIs del catálogo
+          </p>
+        </div>
+        {permissions.canDeclareIncidents && (
+          <Button asChild>
+            <Link to="/incidents/new" className="flex items-center gap-1">
+              <PlusCircle className="h-4 w-4" />
+              Declarar incidencia
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Activas
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {active.length > 0 ? (
+            active.map((incident) => <IncidentRow key={incident.id} incident={incident} apis={apis} />)
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              No hay incidencias abiertas.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Historial</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {resolved.length > 0 ? (
+            resolved.map((incident) => <IncidentRow key={incident.id} incident={incident} apis={apis} />)
+          ) : (
+            <p className="text-sm text-muted-foreground">Todavía no hay incidencias resueltas.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Incidents;
@@ -0,0 +1,192 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+// Only paths inside the portal, so the page cannot be used to send users
+// to another site
+const safeRedirect = (value: string | null) =>
+  value && value.startsWith("/") && !value.startsWith("//") ? value : "/";
+
+const showError = (title: string, error: unknown) => {
+  toast({
+    title,
+    description: error instanceof Error ? error.message : "Inténtalo de nuevo.",
+    variant: "destructive",
+  });
+};
+
+const Login = () => {
+  const { user, signInWithPassword, signUp, sendMagicLink } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirect = safeRedirect(searchParams.get("redirect"));
+  const [mode, setMode] = useState<"signIn" | "signUp">("signIn");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  // Signed in, by any method: go where the visitor was heading
+  useEffect(() => {
+    if (user) navigate(redirect, { replace: true });
+  }, [user, redirect, navigate]);
+
+  const handlePassword = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      if (mode === "signIn") {
+        await signInWithPassword(email, password);
+      } else if (!(await signUp({ email, password, name }))) {
+        toast({
+          title: "Confirma tu correo",
+          description: `Te hemos enviado un enlace a ${email} para activar la cuenta.`,
+        });
+      }
+    } catch (error) {
+      showError(mode === "signIn" ? "No se pudo iniciar sesión" : "No se pudo crear la cuenta", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleMagicLink = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      await sendMagicLink(email, `${window.location.origin}${redirect}`);
+      setLinkSentTo(email);
+    } catch (error) {
+      showError("No se pudo enviar el enlace", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b border-border bg-background">
+        <div className="container max-w-4xl flex h-16 items-center px-4">
+          <Link to="/" className="flex items-center gap-2">
+            <div className="bg-primary text-primary-foreground p-1 rounded-md">
+              <div className="font-bold text-xl">AM</div>
+            </div>
+            <span className="font-bold text-xl">API Marketplace</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container max-w-md px-4 py-12">
+        <Card>
+          <CardHeader>
+            <CardTitle>{mode === "signIn" ? "Iniciar sesión" : "Crear cuenta"}</CardTitle>
+            <CardDescription>
+              Necesitas una cuenta para publicar y editar APIs.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="password">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="password">Contraseña</TabsTrigger>
+                <TabsTrigger value="magicLink">Enlace mágico</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="password">
+                <form onSubmit={handlePassword} className="space-y-4 pt-4">
+                  {mode === "signUp" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Nombre</Label>
+                      <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Correo electrónico</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      autoComplete="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Contraseña</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={submitting}>
+                    {mode === "signIn"
+                      ? submitting ? "Entrando..." : "Iniciar sesión"
+                      : submitting ? "Creando cuenta..." : "Crear cuenta"}
+                  </Button>
+                  <p className="text-center text-sm text-muted-foreground">
+                    {mode === "signIn" ? "¿No tienes cuenta?" : "¿Ya tienes cuenta?"}{" "}
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => setMode(mode === "signIn" ? "signUp" : "signIn")}
+                    >
+                      {mode === "signIn" ? "Regístrate" : "Inicia sesión"}
+                    </button>
+                  </p>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="magicLink">
+                {linkSentTo ? (
+                  <div className="flex flex-col items-center gap-2 pt-6 text-center">
+                    <Mail className="h-8 w-8 text-primary" />
+                    <p className="font-medium">Revisa tu correo</p>
+                    <p className="text-sm text-muted-foreground">
+                      Hemos enviado un enlace de acceso a {linkSentTo}.
+                    </p>
+                    <Button variant="link" onClick={() => setLinkSentTo(null)}>
+                      Usar otro correo
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleMagicLink} className="space-y-4 pt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="magic-email">Correo electrónico</Label>
+                      <Input
+                        id="magic-email"
+                        type="email"
+                        autoComplete="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={submitting}>
+                      {submitting ? "Enviando..." : "Enviar enlace"}
+                    </Button>
+                    <p className="text-center text-xs text-muted-foreground">
+                      Te enviaremos un enlace para entrar sin contraseña. Si no tienes cuenta, se crea al usarlo.
+                    </p>
+                  </form>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import NotificationList from "@/components/NotificationList";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  fetchApis,
+  fetchFollows,
+  fetchNotificationPreferences,
+  fetchNotifications,
+  markNotificationsRead,
+  setNotificationPreference,
+  Api,
+  ApiFollow,
+  NotificationPreference,
+  NotificationType,
+  UserNotification,
+} from "@/services/apiService";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_DESCRIPTIONS,
+  NOTIFICATION_TYPE_LABELS,
+  isNotificationEnabled,
+} from "@/services/notifications/events";
+
+const Notifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [follows, setFollows] = useState<ApiFollow[]>([]);
+  const [apis, setApis] = useState<Api[]>([]);
+  const [filter, setFilter] = useState<"all" | "unread">("all");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      const [notificationsData, preferencesData, followsData, apisData] = await Promise.all([
+        fetchNotifications(),
+        fetchNotificationPreferences(),
+        fetchFollows(),
+        fetchApis(),
+      ]);
+      setNotifications(notificationsData);
+      setPreferences(preferencesData);
+      setFollows(followsData);
+      setApis(apisData);
+      setLoading(false);
+    };
+    loadData();
+  }, [user]);
+
+  const markRead = async (ids?: string[]) => {
+    if (await markNotificationsRead(ids)) {
+      const now = new Date().toISOString();
+      setNotifications(
+        notifications.map((n) => (!ids || ids.includes(n.id) ? { ...n, read_at: n.read_at || now } : n))
+      );
+    }
+  };
+
+  const handlePreferenceChange = async (type: NotificationType, enabled: boolean) => {
+    const saved = await setNotificationPreference(type, enabled);
+    if (saved) {
+      setPreferences([...preferences.filter((p) => p.type !== type), saved]);
+    }
+  };
+
+  const unread = notifications.filter((n) => !n.read_at);
+  const shown = filter === "unread" ? unread : notifications;
+  const followedApis = apis.filter((api) => follows.some((follow) => follow.api_id === api.id));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando notificaciones...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Notificaciones</h1>
+          <p className="text-muted-foreground">
+            Novedades de las APIs que sigues y de tus solicitudes
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => markRead()} disabled={unread.length === 0}>
+          <CheckCheck className="h-4 w-4 mr-1" />
+          Marcar todas como leídas
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Bell className="h-5 w-5 text-muted-foreground" />
+              Bandeja
+            </CardTitle>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as "all" | "unread")}>
+              <TabsList>
+                <TabsTrigger value="all">Todas</TabsTrigger>
+                <TabsTrigger value="unread">Sin leer ({unread.length})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent className="p-0">
+            {shown.length > 0 ? (
+              <NotificationList
+                notifications={shown}
+                apis={apis}
+                onOpen={(notification) => !notification.read_at && markRead([notification.id])}
+                className="border-t"
+              />
+            ) : (
+              <p className="px-6 pb-6 text-sm text-muted-foreground">
+                {filter === "unread" ? "Lo has leído todo." : "Todavía no tienes notificaciones."}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Preferencias</CardTitle>
+              <CardDescription>Elige qué avisos quieres recibir.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {NOTIFICATION_TYPES.map((type) => (
+                <div key={type} className="flex items-start justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`notification-${type}`}>{NOTIFICATION_TYPE_LABELS[type]}</Label>
+                    <p className="text-xs text-muted-foreground">{NOTIFICATION_TYPE_DESCRIPTIONS[type]}</p>
+                  </div>
+                  <Switch
+                    id={`notification-${type}`}
+                    checked={isNotificationEnabled(preferences, type)}
+                    onCheckedChange={(checked) => handlePreferenceChange(type, checked)}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">APIs que sigues</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {followedApis.length > 0 ? (
+                followedApis.map((api) => (
+                  <Link key={api.id} to={`/view/${api.id}`} className="block text-sm hover:underline">
+                    {api.name}
+                  </Link>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No sigues ninguna API. Pulsa "Seguir" en la página de una API.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
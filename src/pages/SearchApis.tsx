@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Link } from "react-router-dom";
 import {
   Card,
@@ -7,7 +7,6 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -26,119 +25,249 @@ import {
   Code,
   X,
   Loader2,
+  Activity,
+  ChevronLeft,
+  ChevronRight,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { fetchApis, fetchApiCategories, ApiCategory, Api } from "@/services/apiService";
+import { cn } from "@/lib/utils";
+import {
+  searchApis,
+  fetchApiTags,
+  fetchApiCategories,
+  fetchIncidents,
+  fetchTeams,
+  ApiCategory,
+  ApiHighlights,
+  ApiLifecycle,
+  ApiSearchFilters,
+  ApiSearchResults,
+  ApiSearchSort,
+  AuthType,
+  Incident,
+} from "@/services/apiService";
+import { formatUptime } from "@/services/health/summary";
+import { affectsApi } from "@/services/incidents/impact";
+import { LIFECYCLES, LIFECYCLE_LABELS } from "@/services/lifecycle/states";
+import {
+  clauseLabel,
+  parseSearchQuery,
+  removeClause,
+  replaceClause,
+  type QueryClause,
+  type QueryVocabulary,
+} from "@/services/search/query";
+import IncidentFlag from "@/components/IncidentFlag";
+import LifecycleBadge from "@/components/LifecycleBadge";
+import HighlightedText from "@/components/HighlightedText";
+import SearchQueryInput from "@/components/SearchQueryInput";
 
+// Everything but showRetired and sortBy comes from the clauses of the
+// search query; the selects edit those clauses
 interface Filters {
   category: string;
   authType: string;
-  sortBy: "name" | "date" | "popularity" | "rating";
+  lifecycle: "all" | ApiLifecycle;
+  tags: string[];
+  excludedTags: string[];
+  owner: string | null;
+  excludedOwners: string[];
+  methods: string[];
+  excludedMethods: string[];
+  minCalls: number | null;
+  maxCalls: number | null;
+  // Retired APIs are hidden unless asked for or filtered by
+  showRetired: boolean;
+  sortBy: ApiSearchSort;
+}
+
+const DEFAULT_FILTERS: Filters = {
+  category: "all",
+  authType: "all",
+  lifecycle: "all",
+  tags: [],
+  excludedTags: [],
+  owner: null,
+  excludedOwners: [],
+  methods: [],
+  excludedMethods: [],
+  minCalls: null,
+  maxCalls: null,
+  showRetired: false,
+  sortBy: "relevance",
+};
+
+const NO_VOCABULARY: QueryVocabulary = { tags: [], owners: [], categories: [] };
+
+// A chip under the search box; the clauses are removed from the query
+interface ActiveFilter {
+  label: string;
+  clause?: QueryClause;
 }
 
+// Wait for the user to stop typing before searching
+const SEARCH_DELAY_MS = 250;
+
+// The filters the query's clauses ask for, keeping showRetired and sortBy
+const applyClauses = (filters: Filters, clauses: QueryClause[], categories: ApiCategory[]): Filters => {
+  const next: Filters = { ...DEFAULT_FILTERS, showRetired: filters.showRetired, sortBy: filters.sortBy };
+  const values = (field: QueryClause["field"], negated: boolean) =>
+    clauses.filter((clause) => clause.field === field && clause.negated === negated).map((clause) => clause.value);
+
+  clauses.forEach((clause) => {
+    if (clause.negated) return;
+    if (clause.field === "category") {
+      const category = categories.find((c) => c.name.toLowerCase() === clause.value.toLowerCase());
+      if (category) next.category = category.id;
+    } else if (clause.field === "auth") {
+      next.authType = clause.value;
+    } else if (clause.field === "status") {
+      next.lifecycle = clause.value as ApiLifecycle;
+    } else if (clause.field === "owner") {
+      next.owner = clause.value;
+    } else if (clause.field === "calls" && clause.count !== undefined) {
+      // Calls are whole numbers, so > and < move the bound by one
+      const { operator, count } = clause;
+      if (operator !== "<" && operator !== "<=") {
+        const min = operator === ">" ? count + 1 : count;
+        next.minCalls = Math.max(next.minCalls ?? 0, min);
+      }
+      if (operator !== ">" && operator !== ">=") {
+        const max = operator === "<" ? count - 1 : count;
+        next.maxCalls = Math.min(next.maxCalls ?? max, max);
+      }
+    }
+  });
+
+  next.tags = values("tag", false);
+  next.excludedTags = values("tag", true);
+  next.excludedOwners = values("owner", true);
+  next.methods = values("method", false);
+  next.excludedMethods = values("method", true);
+  return next;
+};
+
+const toSearchFilters = (filters: Filters): ApiSearchFilters => ({
+  categoryId: filters.category === "all" ? undefined : filters.category,
+  authType: filters.authType === "all" ? undefined : (filters.authType as AuthType),
+  lifecycle: filters.lifecycle === "all" ? undefined : filters.lifecycle,
+  includeRetired: filters.showRetired,
+  tags: filters.tags,
+  excludedTags: filters.excludedTags,
+  owner: filters.owner ?? undefined,
+  excludedOwners: filters.excludedOwners,
+  methods: filters.methods,
+  excludedMethods: filters.excludedMethods,
+  minCalls: filters.minCalls ?? undefined,
+  maxCalls: filters.maxCalls ?? undefined,
+  sortBy: filters.sortBy,
+});
+
+// Fields other than the name and description where the query matched
+const MatchedFields = ({ highlights, className }: { highlights: ApiHighlights; className?: string }) => {
+  if (highlights.others.length === 0) return null;
+
+  return (
+    <ul className={cn("space-y-0.5 text-xs text-muted-foreground", className)}>
+      {highlights.others.map((other, index) => (
+        <li key={index} className="truncate">
+          <span className="font-medium">{other.label}:</span>{" "}
+          <HighlightedText segments={other.segments} />
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 const SearchApis = () => {
   const [searchQuery, setSearchQuery] = useState("");
-  const [filters, setFilters] = useState<Filters>({
-    category: "all",
-    authType: "all",
-    sortBy: "popularity",
-  });
-  const [activeFilters, setActiveFilters] = useState<string[]>([]);
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [page, setPage] = useState(1);
+  const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([]);
   const [displayMode, setDisplayMode] = useState<"grid" | "list">("grid");
-  const [apis, setApis] = useState<Api[]>([]);
-  const [filteredApis, setFilteredApis] = useState<Api[]>([]);
+  const [search, setSearch] = useState<ApiSearchResults | null>(null);
   const [categories, setCategories] = useState<ApiCategory[]>([]);
+  const [activeIncidents, setActiveIncidents] = useState<Incident[]>([]);
+  const [vocabulary, setVocabulary] = useState<QueryVocabulary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
   
-  // Fetch APIs and categories on mount
+  // Fetch categories, open incidents and what the search box suggests on mount
   useEffect(() => {
     const loadData = async () => {
-      setLoading(true);
       try {
-        const [apisData, categoriesData] = await Promise.all([
-          fetchApis(),
+        const [categoriesData, incidentsData, tagsData, teamsData] = await Promise.all([
           fetchApiCategories(),
+          fetchIncidents({ active: true }),
+          fetchApiTags(),
+          fetchTeams(),
         ]);
-        setApis(apisData);
-        setFilteredApis(apisData);
         setCategories(categoriesData);
+        setActiveIncidents(incidentsData);
+        setVocabulary({
+          tags: tagsData,
+          owners: teamsData.map((team) => team.name).sort((a, b) => a.localeCompare(b)),
+          categories: categoriesData.map((category) => category.name),
+        });
       } catch (error) {
         console.error("Error loading data:", error);
-      } finally {
-        setLoading(false);
       }
     };
     
     loadData();
   }, []);
-  
-  // Aplicar filtros cuando cambian
+
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(searchQuery, vocabulary ?? undefined),
+    [searchQuery, vocabulary]
+  );
+
+  // The query's clauses become the filters
   useEffect(() => {
-    if (apis.length === 0) return;
-    
-    let results = [...apis];
-    
-    // Filtrado por búsqueda
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      results = results.filter(
-        (api) =>
-          api.name.toLowerCase().includes(query) ||
-          api.description.toLowerCase().includes(query) ||
-          api.tags.some((tag) => tag.toLowerCase().includes(query))
-      );
-    }
-    
-    // Filtrado por categoría
-    if (filters.category !== "all") {
-      results = results.filter((api) => api.category_id === filters.category);
-    }
-    
-    // Filtrado por tipo de autenticación
-    if (filters.authType !== "all") {
-      results = results.filter((api) => api.auth_type === filters.authType);
-    }
-    
-    // Ordenamiento
-    switch (filters.sortBy) {
-      case "name":
-        results.sort((a, b) => a.name.localeCompare(b.name));
-        break;
-      case "date":
-        results.sort(
-          (a, b) =>
-            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
-        break;
-      case "popularity":
-        results.sort((a, b) => (b.stats?.total_calls || 0) - (a.stats?.total_calls || 0));
-        break;
-      case "rating":
-        results.sort((a, b) => (b.stats?.uptime || 0) - (a.stats?.uptime || 0));
-        break;
-    }
-    
-    setFilteredApis(results);
-    
-    // Actualizar filtros activos para mostrarlos como chips
-    const active: string[] = [];
-    if (filters.category !== "all") {
-      const category = categories.find((c) => c.id === filters.category);
-      if (category) active.push(`Categoría: ${category.name}`);
-    }
-    if (filters.authType !== "all") {
-      const authTypes: Record<string, string> = {
-        apiKey: "API Key",
-        oauth2: "OAuth 2.0",
-        none: "Sin autenticación",
-      };
-      active.push(`Auth: ${authTypes[filters.authType]}`);
+    setFilters((current) => applyClauses(current, parsedQuery.clauses, categories));
+  }, [parsedQuery, categories]);
+
+  // A new query or filter starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [searchQuery, filters]);
+
+  // Search when the query, the filters or the page change
+  useEffect(() => {
+    let cancelled = false;
+    setSearching(true);
+
+    const timer = setTimeout(async () => {
+      const results = await searchApis(parsedQuery.text, toSearchFilters(filters), page);
+      if (cancelled) return;
+      setSearch(results);
+      setSearching(false);
+      setLoading(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [parsedQuery.text, filters, page]);
+
+  // Show the active filters as chips
+  useEffect(() => {
+    const active: ActiveFilter[] = parsedQuery.clauses.map((clause) => ({
+      label: clauseLabel(clause),
+      clause,
+    }));
+    if (filters.lifecycle === "all" && filters.showRetired) {
+      active.push({ label: "Incluye retiradas" });
     }
     setActiveFilters(active);
-  }, [searchQuery, filters, apis, categories]);
+  }, [parsedQuery, filters.lifecycle, filters.showRetired]);
 
-  // Formatea el número de llamadas
+  const results = search?.results || [];
+  const hiddenRetired = search?.hiddenRetired || 0;
+
+  // Format the number of calls
   const formatCalls = (calls: number) => {
     if (calls >= 1000000) {
       return `${(calls / 1000000).toFixed(1)}M`;
@@ -148,22 +277,18 @@ const SearchApis = () => {
     return calls.toString();
   };
 
-  // Resetea todos los filtros
+  // Reset every filter
   const resetFilters = () => {
-    setFilters({
-      category: "all",
-      authType: "all",
-      sortBy: "popularity",
-    });
+    setFilters(DEFAULT_FILTERS);
     setSearchQuery("");
   };
 
-  // Quita un filtro específico
-  const removeFilter = (filter: string) => {
-    if (filter.startsWith("Categoría:")) {
-      setFilters({ ...filters, category: "all" });
-    } else if (filter.startsWith("Auth:")) {
-      setFilters({ ...filters, authType: "all" });
+  // Remove one filter
+  const removeFilter = (filter: ActiveFilter) => {
+    if (filter.clause) {
+      setSearchQuery(removeClause(searchQuery, filter.clause));
+    } else {
+      setFilters({ ...filters, showRetired: false });
     }
   };
 
@@ -187,24 +312,28 @@ const SearchApis = () => {
         </p>
       </div>
 
-      {/* Barra de búsqueda y filtros */}
+      {/* Search box and filters */}
       <div className="mb-6 space-y-4">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Buscar APIs por nombre, descripción o etiquetas"
-            className="pl-10"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-        </div>
+        <SearchQueryInput
+          placeholder="Buscar APIs, o filtrar con tag:, owner:, method:, calls:>1000…"
+          value={searchQuery}
+          onChange={setSearchQuery}
+          vocabulary={vocabulary ?? NO_VOCABULARY}
+          errors={parsedQuery.errors}
+        />
 
         <div className="flex flex-col sm:flex-row gap-3">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 flex-grow">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 flex-grow">
             <Select
               value={filters.category}
               onValueChange={(value) =>
-                setFilters({ ...filters, category: value })
+                setSearchQuery(
+                  replaceClause(
+                    searchQuery,
+                    "category",
+                    categories.find((category) => category.id === value)?.name ?? null
+                  )
+                )
               }
             >
               <SelectTrigger>
@@ -226,7 +355,7 @@ const SearchApis = () => {
             <Select
               value={filters.authType}
               onValueChange={(value) =>
-                setFilters({ ...filters, authType: value as any })
+                setSearchQuery(replaceClause(searchQuery, "auth", value === "all" ? null : value))
               }
             >
               <SelectTrigger>
@@ -243,10 +372,32 @@ const SearchApis = () => {
               </SelectContent>
             </Select>
 
+            <Select
+              value={filters.lifecycle}
+              onValueChange={(value) =>
+                setSearchQuery(replaceClause(searchQuery, "status", value === "all" ? null : value))
+              }
+            >
+              <SelectTrigger>
+                <div className="flex items-center">
+                  <Activity className="mr-2 h-4 w-4" />
+                  <span>Estado</span>
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos los estados</SelectItem>
+                {LIFECYCLES.map((lifecycle) => (
+                  <SelectItem key={lifecycle} value={lifecycle}>
+                    {LIFECYCLE_LABELS[lifecycle]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             <Select
               value={filters.sortBy}
               onValueChange={(value) =>
-                setFilters({ ...filters, sortBy: value as any })
+                setFilters({ ...filters, sortBy: value as ApiSearchSort })
               }
             >
               <SelectTrigger>
@@ -256,10 +407,11 @@ const SearchApis = () => {
                 </div>
               </SelectTrigger>
               <SelectContent>
+                <SelectItem value="relevance">Relevancia</SelectItem>
                 <SelectItem value="popularity">Popularidad</SelectItem>
                 <SelectItem value="date">Más recientes</SelectItem>
                 <SelectItem value="name">Alfabético</SelectItem>
-                <SelectItem value="rating">Mayor uptime</SelectItem>
+                <SelectItem value="uptime">Mayor uptime</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -290,12 +442,12 @@ const SearchApis = () => {
           </div>
         </div>
 
-        {/* Filtros activos */}
+        {/* Active filters */}
         {activeFilters.length > 0 && (
           <div className="flex flex-wrap gap-2 pt-2">
             {activeFilters.map((filter) => (
-              <Badge key={filter} variant="outline" className="pl-2">
-                {filter}
+              <Badge key={filter.clause?.start ?? filter.label} variant="outline" className="pl-2">
+                {filter.label}
                 <Button
                   variant="ghost"
                   size="icon"
@@ -310,11 +462,24 @@ const SearchApis = () => {
         )}
       </div>
 
-      {/* Resultados de la búsqueda */}
+      {/* Search results */}
       <div className="mb-2 flex items-center justify-between">
-        <h2 className="text-lg font-semibold">
-          {filteredApis.length} APIs encontradas
-        </h2>
+        <div className="flex flex-wrap items-baseline gap-x-3">
+          <h2 className="text-lg font-semibold">
+            {search?.total ?? 0} APIs encontradas
+          </h2>
+          {searching && <Loader2 className="h-4 w-4 animate-spin self-center text-muted-foreground" />}
+          {hiddenRetired > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-muted-foreground"
+              onClick={() => setFilters({ ...filters, showRetired: true })}
+            >
+              Mostrar {hiddenRetired} {hiddenRetired === 1 ? "retirada" : "retiradas"}
+            </Button>
+          )}
+        </div>
         <div className="flex sm:hidden gap-2">
           <Button
             variant={displayMode === "grid" ? "default" : "outline"}
@@ -333,7 +498,7 @@ const SearchApis = () => {
         </div>
       </div>
 
-      {filteredApis.length === 0 ? (
+      {results.length === 0 ? (
         <div className="text-center py-12">
           <div className="text-muted-foreground mb-4">
             <Search className="mx-auto h-12 w-12" />
@@ -348,12 +513,12 @@ const SearchApis = () => {
         </div>
       ) : displayMode === "grid" ? (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {filteredApis.map((api) => (
+          {results.map(({ api, highlights }) => (
             <Card key={api.id} className="api-card api-card-hover">
               <CardHeader className="pb-2">
                 <div className="flex items-start justify-between">
                   <CardTitle className="text-lg font-semibold">
-                    {api.name}
+                    <HighlightedText segments={highlights.name} />
                   </CardTitle>
                   {api.category && (
                     <Badge
@@ -366,9 +531,14 @@ const SearchApis = () => {
                 </div>
               </CardHeader>
               <CardContent className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <LifecycleBadge lifecycle={api.lifecycle} />
+                  <IncidentFlag incidents={activeIncidents.filter((incident) => affectsApi(incident, api.id))} />
+                </div>
                 <p className="text-sm text-muted-foreground line-clamp-2">
-                  {api.description}
+                  <HighlightedText segments={highlights.description} />
                 </p>
+                <MatchedFields highlights={highlights} />
 
                 <div className="flex flex-wrap gap-1 mt-2">
                   {api.tags.map((tag) => (
@@ -385,7 +555,7 @@ const SearchApis = () => {
                   </div>
                   <div>
                     <span className="font-medium text-green-600">
-                      {api.stats?.uptime || 99.9}% uptime
+                      {formatUptime(api.stats?.uptime)} uptime
                     </span>
                   </div>
                 </div>
@@ -399,12 +569,14 @@ const SearchApis = () => {
         </div>
       ) : (
         <div className="space-y-2">
-          {filteredApis.map((api) => (
+          {results.map(({ api, highlights }) => (
             <Card key={api.id} className="api-card">
               <div className="flex flex-col sm:flex-row sm:items-center p-4">
                 <div className="flex-grow">
                   <div className="flex items-start gap-2 mb-2">
-                    <h3 className="font-semibold text-lg">{api.name}</h3>
+                    <h3 className="font-semibold text-lg">
+                      <HighlightedText segments={highlights.name} />
+                    </h3>
                     {api.category && (
                       <Badge
                         style={{ backgroundColor: api.category.color }}
@@ -413,10 +585,13 @@ const SearchApis = () => {
                         {api.category.name}
                       </Badge>
                     )}
+                    <LifecycleBadge lifecycle={api.lifecycle} />
+                    <IncidentFlag incidents={activeIncidents.filter((incident) => affectsApi(incident, api.id))} />
                   </div>
                   <p className="text-sm text-muted-foreground mb-2">
-                    {api.description}
+                    <HighlightedText segments={highlights.description} />
                   </p>
+                  <MatchedFields highlights={highlights} className="mb-2" />
                   <div className="flex flex-wrap gap-1 mb-2">
                     {api.tags.map((tag) => (
                       <Badge key={tag} variant="outline" className="text-xs">
@@ -431,7 +606,7 @@ const SearchApis = () => {
                     </span>
                     <Separator orientation="vertical" className="h-3" />
                     <span className="text-green-600">
-                      {api.stats?.uptime || 99.9}% uptime
+                      {formatUptime(api.stats?.uptime)} uptime
                     </span>
                     <Separator orientation="vertical" className="h-3" />
                     <span>
@@ -449,6 +624,27 @@ const SearchApis = () => {
           ))}
         </div>
       )}
+
+      {search && search.pageCount > 1 && (
+        <div className="mt-6 flex items-center justify-center gap-3">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Anterior
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Página {page} de {search.pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= search.pageCount}
+            onClick={() => setPage(page + 1)}
+          >
+            Siguiente
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertTriangle, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { Line, LineChart, ResponsiveContainer, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import HealthStatusBadge from "@/components/HealthStatusBadge";
+import IncidentFlag from "@/components/IncidentFlag";
+import IncidentSeverityBadge from "@/components/IncidentSeverityBadge";
+import { cn } from "@/lib/utils";
+import {
+  getStatusOverview,
+  type ApiStatusSummary,
+  type Incident,
+  type StatusDay,
+  type StatusOverview,
+} from "@/services/apiService";
+import { HEALTH_STATUS_LABELS, formatUptime } from "@/services/health/summary";
+import { INCIDENT_STATUS_LABELS, affectsApi } from "@/services/incidents/impact";
+
+// Refresh the page data every minute
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const barColor = (uptime: number | null) => {
+  if (uptime === null) return "bg-muted";
+  if (uptime >= 99.9) return "bg-green-500";
+  if (uptime >= 95) return "bg-amber-500";
+  return "bg-red-500";
+};
+
+// Read a YYYY-MM-DD day as a local date so labels do not shift by timezone
+const formatDay = (day: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  return format(new Date(year, month - 1, date), "d MMM yyyy", { locale: es });
+};
+
+const UptimeBars = ({ days }: { days: StatusDay[] }) => (
+  <div className="flex h-8 items-stretch gap-px">
+    {days.map((day) => (
+      <Tooltip key={day.day}>
+        <TooltipTrigger asChild>
+          <div className={cn("flex-1 rounded-sm", barColor(day.uptime))} />
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="font-medium">{formatDay(day.day)}</p>
+          <p className="text-xs text-muted-foreground">
+            {day.checks > 0
+              ? `${formatUptime(day.uptime)} uptime · ${day.checks} comprobaciones`
+              : "Sin comprobaciones"}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    ))}
+  </div>
+);
+
+// Average latency per day, without axes
+const LatencySparkline = ({ days }: { days: StatusDay[] }) => (
+  <div className="h-8 w-32">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={days}>
+        <YAxis hide domain={["dataMin", "dataMax"]} />
+        <Line
+          type="monotone"
+          dataKey="avgLatencyMs"
+          stroke="hsl(var(--primary))"
+          strokeWidth={1.5}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+interface ApiStatusRowProps {
+  api: ApiStatusSummary;
+  days: number;
+  // Open incidents affecting the API
+  incidents: Incident[];
+}
+
+const ApiStatusRow = ({ api, days, incidents }: ApiStatusRowProps) => (
+  <div className="space-y-2 py-4">
+    <div className="flex flex-wrap items-center gap-2">
+      <Link to={`/view/${api.id}`} className="font-medium hover:underline">
+        {api.name}
+      </Link>
+      {api.category && (
+        <Badge style={{ backgroundColor: api.category.color }} className="text-white text-xs">
+          {api.category.name}
+        </Badge>
+      )}
+      <IncidentFlag incidents={incidents} />
+      <div className="ml-auto flex items-center gap-3">
+        {api.monitored && <LatencySparkline days={api.days} />}
+        <span className="text-xs text-muted-foreground w-16 text-right">
+          {api.responseTime !== null ? `${api.responseTime}ms` : "—"}
+        </span>
+        <HealthStatusBadge status={api.monitored ? api.status : null} />
+      </div>
+    </div>
+    {api.monitored ? (
+      <>
+        <UptimeBars days={api.days} />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Hace {days} días</span>
+          <span>{formatUptime(api.uptime)} uptime en 30 días</span>
+          <span>Hoy</span>
+        </div>
+      </>
+    ) : (
+      <p className="text-xs text-muted-foreground">Esta API no se monitoriza.</p>
+    )}
+  </div>
+);
+
+// Public status page, outside the portal layout so it can be shared with
+// partners
+const Status = () => {
+  const [overview, setOverview] = useState<StatusOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    const loadOverview = async () => {
+      const data = await getStatusOverview();
+      setOverview(data);
+      setUpdatedAt(new Date());
+      setLoading(false);
+    };
+    loadOverview();
+    const timer = setInterval(loadOverview, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const incidents = overview?.incidents || [];
+  const outages = overview?.outages || [];
+  const troubledApis = new Set([
+    ...incidents.flatMap((incident) => incident.affected.map((impact) => impact.api_id)),
+    ...outages.map((outage) => outage.apiId),
+  ]);
+  const operational = troubledApis.size === 0;
+  const apiName = (id: string) => overview?.apis.find((api) => api.id === id)?.name || id;
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b border-border bg-background">
+        <div className="container max-w-4xl flex h-16 items-center justify-between px-4">
+          <Link to="/" className="flex items-center gap-2">
+            <div className="bg-primary text-primary-foreground p-1 rounded-md">
+              <div className="font-bold text-xl">AM</div>
+            </div>
+            <span className="font-bold text-xl">Estado de las APIs</span>
+          </Link>
+          {updatedAt && (
+            <span className="text-xs text-muted-foreground">
+              Actualizado {format(updatedAt, "HH:mm")}
+            </span>
+          )}
+        </div>
+      </header>
+
+      <main className="container max-w-4xl px-4 py-8 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center h-[40vh]">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !overview ? (
+          <Card>
+            <CardContent className="py-10 text-center text-muted-foreground">
+              No se pudo cargar el estado de las APIs.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card
+              className={cn(
+                "border-0 text-white",
+                operational ? "bg-green-600" : "bg-amber-600"
+              )}
+            >
+              <CardContent className="flex items-center gap-3 py-5">
+                {operational ? (
+                  <CheckCircle className="h-6 w-6" />
+                ) : (
+                  <AlertTriangle className="h-6 w-6" />
+                )}
+                <span className="text-lg font-semibold">
+                  {operational
+                    ? "Todas las APIs funcionan con normalidad"
+                    : `${troubledApis.size} ${troubledApis.size === 1 ? "API con problemas" : "APIs con problemas"}`}
+                </span>
+              </CardContent>
+            </Card>
+
+            {(incidents.length > 0 || outages.length > 0) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Incidencias activas</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {incidents.map((incident) => (
+                    <div key={incident.id} className="flex items-start gap-3">
+                      <AlertTriangle
+                        className={cn(
+                          "h-5 w-5 mt-0.5 shrink-0",
+                          incident.severity === "minor" ? "text-amber-500" : "text-red-500"
+                        )}
+                      />
+                      <div className="space-y-1">
+                        <p className="font-medium flex flex-wrap items-center gap-2">
+                          {incident.title}
+                          <IncidentSeverityBadge severity={incident.severity} />
+                        </p>
+                        {incident.updates[0] && (
+                          <p className="text-sm">
+                            <span className="font-medium">{INCIDENT_STATUS_LABELS[incident.status]}:</span>{" "}
+                            {incident.updates[0].message}
+                          </p>
+                        )}
+                        <p className="text-sm text-muted-foreground">
+                          {incident.affected.map((impact) => apiName(impact.api_id)).join(", ")}
+                          {" · "}
+                          Desde {formatDistanceToNow(new Date(incident.started_at), { addSuffix: true, locale: es })}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  {outages.map((outage) => (
+                    <div key={outage.apiId} className="flex items-start gap-3">
+                      <XCircle
+                        className={cn(
+                          "h-5 w-5 mt-0.5 shrink-0",
+                          outage.status === "down" ? "text-red-500" : "text-amber-500"
+                        )}
+                      />
+                      <div>
+                        <p className="font-medium">
+                          {outage.apiName}: {HEALTH_STATUS_LABELS[outage.status].toLowerCase()}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Detectado por las comprobaciones · desde{" "}
+                          {formatDistanceToNow(new Date(outage.since), { addSuffix: true, locale: es })}
+                          {outage.error && ` · ${outage.error}`}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">APIs</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Uptime diario de los últimos {overview.days} días y latencia media.
+                </p>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {overview.apis.length > 0 ? (
+                  overview.apis.map((api) => (
+                    <ApiStatusRow
+                      key={api.id}
+                      api={api}
+                      days={overview.days}
+                      incidents={incidents.filter((incident) => affectsApi(incident, api.id))}
+                    />
+                  ))
+                ) : (
+                  <p className="py-6 text-center text-muted-foreground">
+                    El catálogo no tiene APIs todavía.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Status;
@@ -0,0 +1,489 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, Pencil, Phone, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  getTeamOverview,
+  updateTeam,
+  Team as TeamData,
+  TeamChannel,
+  TeamChannelType,
+  TeamMember,
+  TeamOverview,
+} from "@/services/apiService";
+import { formatUptime } from "@/services/health/summary";
+
+const CHANNEL_LABELS: Record<TeamChannelType, string> = {
+  email: "Email",
+  slack: "Slack",
+  url: "Web",
+  phone: "Teléfono",
+};
+
+type MemberDraft = Pick<TeamMember, "name" | "email" | "role"> & Partial<Pick<TeamMember, "id" | "user_id">>;
+
+const channelHref = (channel: TeamChannel) => {
+  switch (channel.type) {
+    case "email":
+      return `mailto:${channel.value}`;
+    case "phone":
+      return `tel:${channel.value}`;
+    case "url":
+      return channel.value;
+    default:
+      return null;
+  }
+};
+
+const formatNumber = (num: number) => {
+  if (num >= 1000000) {
+    return `${(num / 1000000).toFixed(1)}M`;
+  } else if (num >= 1000) {
+    return `${(num / 1000).toFixed(1)}K`;
+  }
+  return num.toString();
+};
+
+interface TeamEditDialogProps {
+  team: TeamData;
+  // Only the team's creator and admins change its members
+  canManageMembers: boolean;
+  onSaved: (team: TeamData) => void;
+}
+
+// Edits the team's details, contact channels and members. Saving replaces
+// both lists.
+const TeamEditDialog = ({ team, canManageMembers, onSaved }: TeamEditDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(team.name);
+  const [description, setDescription] = useState(team.description || "");
+  const [onCall, setOnCall] = useState(team.on_call_rotation || "");
+  const [channels, setChannels] = useState<TeamChannel[]>(team.contact_channels);
+  const [members, setMembers] = useState<MemberDraft[]>(team.members || []);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setName(team.name);
+      setDescription(team.description || "");
+      setOnCall(team.on_call_rotation || "");
+      setChannels(team.contact_channels);
+      setMembers(team.members || []);
+    }
+  };
+
+  const updateChannel = (index: number, changes: Partial<TeamChannel>) =>
+    setChannels(channels.map((channel, i) => (i === index ? { ...channel, ...changes } : channel)));
+
+  const updateMember = (index: number, changes: Partial<MemberDraft>) =>
+    setMembers(members.map((member, i) => (i === index ? { ...member, ...changes } : member)));
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await updateTeam(team.id, {
+      name: name.trim(),
+      description: description.trim() || null,
+      on_call_rotation: onCall.trim() || null,
+      contact_channels: channels
+        .map((channel) => ({ ...channel, value: channel.value.trim() }))
+        .filter((channel) => channel.value),
+      members: canManageMembers
+        ? members
+            .filter((member) => member.name.trim())
+            .map((member) => ({
+              ...member,
+              name: member.name.trim(),
+              email: member.email?.trim() || null,
+              role: member.role?.trim() || null,
+            }))
+        : undefined,
+    });
+    setSaving(false);
+    if (saved) {
+      toast({ title: "Equipo actualizado", description: saved.name });
+      onSaved(saved);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-1">
+          <Pencil className="h-4 w-4" />
+          Editar equipo
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Editar equipo</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="team-name">Nombre</Label>
+            <Input id="team-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="team-description">Descripción</Label>
+            <Textarea id="team-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="team-on-call">Guardia</Label>
+            <Input
+              id="team-on-call"
+              value={onCall}
+              onChange={(e) => setOnCall(e.target.value)}
+              placeholder="Enlace al calendario de guardias o cómo avisar a quien está de guardia"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Canales de contacto</Label>
+            {channels.map((channel, index) => (
+              <div key={index} className="flex gap-2">
+                <Select
+                  value={channel.type}
+                  onValueChange={(value) => updateChannel(index, { type: value as TeamChannelType })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CHANNEL_LABELS).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={channel.value}
+                  onChange={(e) => updateChannel(index, { value: e.target.value })}
+                  aria-label="Valor"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setChannels(channels.filter((_, i) => i !== index))}
+                  aria-label="Quitar canal"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setChannels([...channels, { type: "email", value: "" }])}
+              className="flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Añadir canal
+            </Button>
+          </div>
+
+          {canManageMembers ? (
+            <div className="space-y-2">
+              <Label>Miembros</Label>
+              {members.map((member, index) => (
+                <div key={member.id || index} className="grid gap-2 sm:grid-cols-[1fr_1fr_1fr_auto]">
+                  <Input
+                    value={member.name}
+                    onChange={(e) => updateMember(index, { name: e.target.value })}
+                    placeholder="Nombre"
+                    aria-label="Nombre"
+                  />
+                  <Input
+                    value={member.email || ""}
+                    onChange={(e) => updateMember(index, { email: e.target.value })}
+                    placeholder="Email"
+                    aria-label="Email"
+                  />
+                  <Input
+                    value={member.role || ""}
+                    onChange={(e) => updateMember(index, { role: e.target.value })}
+                    placeholder="Rol, p. ej. Tech lead"
+                    aria-label="Rol"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setMembers(members.filter((_, i) => i !== index))}
+                    aria-label="Quitar miembro"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setMembers([...members, { name: "", email: null, role: null }])}
+                className="flex items-center gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Añadir miembro
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Solo quien creó el equipo y los administradores pueden cambiar sus miembros.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!name.trim() || saving}>
+            {saving ? "Guardando..." : "Guardar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// A team with its contacts, members and the APIs it owns
+const Team = () => {
+  const { id } = useParams<{ id: string }>();
+  const permissions = usePermissions();
+  const [overview, setOverview] = useState<TeamOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!id) return;
+      setLoading(true);
+      setOverview(await getTeamOverview(id));
+      setLoading(false);
+    };
+    loadData();
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary mb-4" />
+          <p className="text-muted-foreground">Cargando equipo...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <h2 className="text-2xl font-bold mb-2">Equipo no encontrado</h2>
+        <p className="text-muted-foreground mb-6">El equipo que buscas no existe o ha sido eliminado.</p>
+        <Button asChild>
+          <Link to="/search">Volver al catálogo</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { team, apis } = overview;
+  const members = team.members || [];
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/search" className="flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Volver al catálogo
+        </Link>
+      </Button>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{team.name}</h1>
+          {team.description && <p className="text-muted-foreground">{team.description}</p>}
+        </div>
+        {permissions.canEditTeam(team, members) && (
+          <TeamEditDialog
+            team={team}
+            canManageMembers={permissions.canManageTeamMembers(team)}
+            onSaved={(saved) => setOverview({ ...overview, team: saved })}
+          />
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">APIs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{apis.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Llamadas totales</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatNumber(overview.totalCalls)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatNumber(overview.lastWeekCalls)} en la última semana
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Disponibilidad media</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatUptime(overview.avgUptime)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {overview.avgResponseTime !== null
+                ? `${overview.avgResponseTime} ms de respuesta media`
+                : "Sin comprobaciones de salud"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Tasa de error</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{overview.usage.errorRate}%</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatNumber(overview.usage.calls)} llamadas en los últimos 30 días
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">APIs del equipo</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {apis.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>API</TableHead>
+                    <TableHead>Categoría</TableHead>
+                    <TableHead className="text-right">Llamadas</TableHead>
+                    <TableHead className="text-right">Disponibilidad</TableHead>
+                    <TableHead className="text-right">Respuesta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {apis.map((api) => (
+                    <TableRow key={api.id}>
+                      <TableCell>
+                        <Link to={`/view/${api.id}`} className="font-medium hover:underline">
+                          {api.name}
+                        </Link>
+                        <span className="ml-2 text-xs text-muted-foreground">v{api.version}</span>
+                      </TableCell>
+                      <TableCell>
+                        {api.category && (
+                          <Badge
+                            variant="outline"
+                            style={{ borderColor: api.category.color, color: api.category.color }}
+                          >
+                            {api.category.name}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(api.stats?.total_calls || 0)}</TableCell>
+                      <TableCell className="text-right">{formatUptime(api.stats?.uptime)}</TableCell>
+                      <TableCell className="text-right">
+                        {api.stats?.response_time != null ? `${api.stats.response_time} ms` : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">Este equipo todavía no tiene APIs.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Contacto</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {team.contact_channels.length > 0 ? (
+                team.contact_channels.map((channel, index) => {
+                  const href = channelHref(channel);
+                  return (
+                    <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">{CHANNEL_LABELS[channel.type]}</span>
+                      {href ? (
+                        <a href={href} className="truncate hover:underline">
+                          {channel.value}
+                        </a>
+                      ) : (
+                        <span className="truncate">{channel.value}</span>
+                      )}
+                    </div>
+                  );
+                })
+              ) : (
+                <p className="text-sm text-muted-foreground">Sin canales de contacto.</p>
+              )}
+              <div className="border-t pt-3">
+                <p className="text-sm font-medium flex items-center gap-1">
+                  <Phone className="h-4 w-4 text-muted-foreground" />
+                  Guardia
+                </p>
+                <p className="text-sm text-muted-foreground break-words">
+                  {team.on_call_rotation || "Sin guardia definida."}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Miembros</CardTitle>
+              <CardDescription>
+                {members.length === 1 ? "1 persona" : `${members.length} personas`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {members.map((member) => (
+                <div key={member.id} className="text-sm">
+                  <p className="font-medium">{member.name}</p>
+                  <p className="text-muted-foreground">
+                    {[member.role, member.email].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+              ))}
+              {members.length === 0 && (
+                <p className="text-sm text-muted-foreground">Este equipo no tiene miembros.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Team;
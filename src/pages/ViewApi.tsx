@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { useParams } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -8,15 +8,67 @@ import {
   Tabs, TabsContent, TabsList, TabsTrigger 
 } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/use-toast";
 import { 
   AlertCircle, ArrowUpRight, Clock, Database, Globe, 
   BookOpen, Code, CheckCircle, XCircle, 
-  Loader2, ChevronLeft
+  Loader2, ChevronLeft, Pencil, Trash2, Download, Play, History, GitBranchPlus
 } from "lucide-react";
 import { Link } from "react-router-dom";
-import { fetchApiById, Api, ApiEndpoint } from "@/services/apiService";
+import {
+  fetchApiById, fetchApiVersions, fetchChangelog, fetchIncidents, deleteApi,
+  Api, ApiEndpoint, ApiVersion, Incident, VersionDiff
+} from "@/services/apiService";
+import { exportOpenApi } from "@/services/specs/openapiExport";
+import { exportPostmanCollection } from "@/services/specs/postman";
+import { downloadFile, slugify } from "@/lib/download";
+import EndpointDetails from "@/components/EndpointDetails";
+import TryItConsole from "@/components/TryItConsole";
+import CodeSnippet from "@/components/CodeSnippet";
+import ApiHealthPanel from "@/components/ApiHealthPanel";
+import IncidentBanner from "@/components/IncidentBanner";
+import DeprecationBanner from "@/components/DeprecationBanner";
+import LifecycleBadge from "@/components/LifecycleBadge";
+import IncidentTimeline from "@/components/IncidentTimeline";
+import AlertRulesEditor from "@/components/AlertRulesEditor";
+import ApiComments from "@/components/ApiComments";
+import FollowApiButton from "@/components/FollowApiButton";
+import RequestAccessDialog from "@/components/RequestAccessDialog";
+import ApiVersionList from "@/components/ApiVersionList";
+import VersionChangelog from "@/components/VersionChangelog";
+import { usePermissions } from "@/hooks/use-permissions";
+import { isIncidentActive } from "@/services/incidents/impact";
+import { formatUptime } from "@/services/health/summary";
+import { VERSION_STATUS_LABELS, versionPath } from "@/services/versions/history";
+
+// Used for snippets when an API documents no endpoints
+const ROOT_ENDPOINT = { method: "GET", path: "/" };
+
+const EndpointCard = ({ api, endpoint }: { api: Api; endpoint: ApiEndpoint }) => {
+  const [tryingIt, setTryingIt] = useState(false);
+  const [showingCode, setShowingCode] = useState(false);
 
-const EndpointCard = ({ endpoint }: { endpoint: ApiEndpoint }) => {
   const methodColors = {
     GET: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
     POST: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
@@ -39,19 +91,50 @@ const EndpointCard = ({ endpoint }: { endpoint: ApiEndpoint }) => {
           <code className="font-mono text-sm bg-muted px-2 py-1 rounded">
             {endpoint.path}
           </code>
+          <Button
+            variant={showingCode ? "secondary" : "outline"}
+            size="sm"
+            className="ml-auto"
+            onClick={() => setShowingCode(!showingCode)}
+          >
+            <Code className="h-3 w-3 mr-1" />
+            Código
+          </Button>
+          <Button
+            variant={tryingIt ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setTryingIt(!tryingIt)}
+          >
+            <Play className="h-3 w-3 mr-1" />
+            Probar
+          </Button>
         </div>
         <p className="text-sm text-muted-foreground">
           {endpoint.description}
         </p>
+        <EndpointDetails endpoint={endpoint} />
+        {showingCode && (
+          <div className="mt-4">
+            <CodeSnippet api={api} endpoint={endpoint} />
+          </div>
+        )}
+        {tryingIt && <TryItConsole api={api} endpoint={endpoint} />}
       </CardContent>
     </Card>
   );
 };
 
 const ViewApi = () => {
-  const { id } = useParams<{ id: string }>();
+  const { id, version } = useParams<{ id: string; version?: string }>();
+  const navigate = useNavigate();
+  const permissions = usePermissions();
   const [api, setApi] = useState<Api | null>(null);
+  const [successor, setSuccessor] = useState<Api | null>(null);
+  const [versions, setVersions] = useState<ApiVersion[]>([]);
+  const [changelog, setChangelog] = useState<VersionDiff[]>([]);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [deleting, setDeleting] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<string>("documentation");
 
   useEffect(() => {
@@ -60,8 +143,16 @@ const ViewApi = () => {
       
       setLoading(true);
       try {
-        const apiData = await fetchApiById(id);
+        const [apiData, versionsData, changelogData, incidentsData] = await Promise.all([
+          fetchApiById(id, version),
+          fetchApiVersions(id),
+          fetchChangelog(id),
+          fetchIncidents({ apiId: id }),
+        ]);
         setApi(apiData);
+        setVersions(versionsData);
+        setChangelog(changelogData);
+        setIncidents(incidentsData);
       } catch (error) {
         console.error("Error loading API:", error);
       } finally {
@@ -70,7 +161,70 @@ const ViewApi = () => {
     };
 
     loadApi();
-  }, [id]);
+  }, [id, version]);
+
+  // The API that replaces this one, for the deprecation banner
+  const successorId = api?.successor_id;
+  useEffect(() => {
+    if (!successorId) {
+      setSuccessor(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchApiById(successorId).then((data) => {
+      if (!cancelled) setSuccessor(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [successorId]);
+
+  const handleDelete = async () => {
+    if (!api) return;
+
+    setDeleting(true);
+    const deleted = await deleteApi(api.id);
+    setDeleting(false);
+
+    if (deleted) {
+      toast({
+        title: "API eliminada",
+        description: `${api.name} se eliminó del catálogo.`,
+      });
+      navigate("/search");
+    }
+  };
+
+  const handleVersionChange = (name: string) => {
+    const selected = versions.find((v) => v.version === name);
+    if (selected && api) navigate(versionPath(api.id, selected));
+  };
+
+  const handleVersionUpdated = (updated: ApiVersion) => {
+    setVersions((current) => current.map((v) => (v.id === updated.id ? updated : v)));
+  };
+
+  const handleExportOpenApi = (format: "json" | "yaml") => {
+    if (!api) return;
+
+    const filename = `${slugify(api.name)}-${slugify(api.version)}.openapi.${format}`;
+    downloadFile(
+      filename,
+      exportOpenApi(api, format),
+      format === "json" ? "application/json" : "application/yaml"
+    );
+  };
+
+  const handleExportPostman = () => {
+    if (!api) return;
+
+    downloadFile(
+      `${slugify(api.name)}-${slugify(api.version)}.postman_collection.json`,
+      exportPostmanCollection(api),
+      "application/json"
+    );
+  };
 
   // Format numbers for display
   const formatNumber = (num: number) => {
@@ -98,9 +252,13 @@ const ViewApi = () => {
       <div className="flex flex-col items-center justify-center h-[60vh]">
         <div className="text-center">
           <AlertCircle className="h-16 w-16 text-destructive mx-auto mb-4" />
-          <h1 className="text-2xl font-bold mb-2">API no encontrada</h1>
+          <h1 className="text-2xl font-bold mb-2">
+            {version ? "Versión no encontrada" : "API no encontrada"}
+          </h1>
           <p className="text-muted-foreground mb-6">
-            No pudimos encontrar la API que buscas.
+            {version
+              ? `La API no tiene una versión ${version}.`
+              : "No pudimos encontrar la API que buscas."}
           </p>
           <Button asChild>
             <Link to="/search" className="flex items-center gap-2">
@@ -113,6 +271,13 @@ const ViewApi = () => {
     );
   }
 
+  // The Authentication tab shows how to call the first endpoint
+  const snippetEndpoint = api.endpoints?.[0];
+  const activeIncidents = incidents.filter(isIncidentActive);
+  const canEdit = permissions.canEditApi(api);
+  const viewingVersion = versions.find((v) => v.version === api.version);
+  const currentVersion = versions.find((v) => v.status === "current");
+
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Header with back button */}
@@ -125,13 +290,49 @@ const ViewApi = () => {
         </Button>
       </div>
 
+      <DeprecationBanner api={api} successor={successor} />
+
+      {activeIncidents.length > 0 && <IncidentBanner api={api} incidents={activeIncidents} />}
+
+      {viewingVersion && currentVersion && viewingVersion.status !== "current" && (
+        <Alert className="border-yellow-500/50 bg-yellow-50 dark:bg-yellow-900/10">
+          <History className="h-4 w-4" />
+          <AlertTitle>
+            Estás viendo la versión {viewingVersion.version} ({VERSION_STATUS_LABELS[viewingVersion.status].toLowerCase()})
+          </AlertTitle>
+          <AlertDescription>
+            La versión actual es{" "}
+            <Link to={versionPath(api.id, currentVersion)} className="font-medium underline">
+              {currentVersion.version}
+            </Link>
+            .
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* API Header */}
       <div>
         <div className="flex flex-wrap items-start justify-between gap-4 mb-2">
           <div>
             <h1 className="text-2xl font-bold tracking-tight">{api.name}</h1>
             <div className="flex flex-wrap gap-2 mt-2 items-center">
-              <Badge variant="outline" className="text-xs">v{api.version}</Badge>
+              {versions.length > 1 ? (
+                <Select value={api.version} onValueChange={handleVersionChange}>
+                  <SelectTrigger className="h-7 w-auto gap-2 text-xs" aria-label="Versión">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((v) => (
+                      <SelectItem key={v.id} value={v.version}>
+                        {v.version} · {VERSION_STATUS_LABELS[v.status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="outline" className="text-xs">v{api.version}</Badge>
+              )}
+              <LifecycleBadge lifecycle={api.lifecycle} />
               {api.category && (
                 <Badge style={{ backgroundColor: api.category.color }} className="text-white">
                   {api.category.name}
@@ -139,12 +340,88 @@ const ViewApi = () => {
               )}
               
               <span className="text-sm text-muted-foreground ml-1">
-                por {api.owner}
+                por{" "}
+                <Link to={`/teams/${api.team_id}`} className="hover:underline">
+                  {api.team?.name || "equipo desconocido"}
+                </Link>
               </span>
             </div>
           </div>
           
           <div className="flex flex-wrap gap-2">
+            <FollowApiButton api={api} />
+
+            {api.auth_type === "apiKey" && <RequestAccessDialog api={api} />}
+
+            {canEdit && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/edit/${api.id}`} className="flex items-center gap-1">
+                  <Pencil className="h-4 w-4" />
+                  Editar
+                </Link>
+              </Button>
+            )}
+
+            {canEdit && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/edit/${api.id}/new-version`} className="flex items-center gap-1">
+                  <GitBranchPlus className="h-4 w-4" />
+                  Nueva versión
+                </Link>
+              </Button>
+            )}
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="flex items-center gap-1">
+                  <Download className="h-4 w-4" />
+                  Exportar
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>OpenAPI 3.1</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => handleExportOpenApi("json")}>
+                  Descargar JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExportOpenApi("yaml")}>
+                  Descargar YAML
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Postman</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={handleExportPostman}>
+                  Colección v2.1
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            {canEdit && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="flex items-center gap-1 text-destructive" disabled={deleting}>
+                    {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    Eliminar
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>¿Eliminar {api.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Se eliminarán la API, sus estadísticas y sus {api.endpoints?.length || 0} endpoints. Esta acción no se puede deshacer.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleDelete}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Eliminar
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+
             <Button variant="outline" size="sm" asChild>
               <a href={api.base_url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1">
                 <Globe className="h-4 w-4" />
@@ -209,7 +486,7 @@ const ViewApi = () => {
               <CheckCircle className="h-4 w-4 text-green-500" />
             </div>
             <div className="text-2xl font-bold mt-1 text-green-600">
-              {api.stats?.uptime || 99.9}%
+              {formatUptime(api.stats?.uptime)}
             </div>
           </CardContent>
         </Card>
@@ -221,12 +498,14 @@ const ViewApi = () => {
               <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
             </div>
             <div className="text-2xl font-bold mt-1">
-              {api.stats?.response_time || 0}ms
+              {api.stats?.response_time != null ? `${api.stats.response_time}ms` : "Sin datos"}
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <ApiHealthPanel api={api} incidents={incidents} />
+
       {/* API Content Tabs */}
       <Tabs 
         defaultValue="documentation" 
@@ -238,6 +517,12 @@ const ViewApi = () => {
           <TabsTrigger value="documentation">Documentación</TabsTrigger>
           <TabsTrigger value="endpoints">Endpoints</TabsTrigger>
           <TabsTrigger value="authentication">Autenticación</TabsTrigger>
+          <TabsTrigger value="changelog">Cambios</TabsTrigger>
+          <TabsTrigger value="incidents">
+            Incidencias{incidents.length > 0 && ` (${incidents.length})`}
+          </TabsTrigger>
+          <TabsTrigger value="alerts">Alertas</TabsTrigger>
+          <TabsTrigger value="comments">Comentarios</TabsTrigger>
         </TabsList>
         
         <TabsContent value="documentation" className="space-y-4 mt-6">
@@ -250,16 +535,26 @@ const ViewApi = () => {
             <h3>Descripción</h3>
             <p>{api.description}</p>
             
-            <h3>Propietario</h3>
-            <p>{api.owner}</p>
+            <h3>Equipo propietario</h3>
+            <p>
+              <Link to={`/teams/${api.team_id}`}>{api.team?.name || "Equipo desconocido"}</Link>
+              {api.team?.description && <> · {api.team.description}</>}
+            </p>
             
             <Separator className="my-6" />
             
             <h3>Versiones</h3>
-            <div className="flex gap-2">
+            {versions.length > 0 ? (
+              <ApiVersionList
+                apiId={api.id}
+                versions={versions}
+                viewing={api.version}
+                canEdit={canEdit}
+                onChange={handleVersionUpdated}
+              />
+            ) : (
               <Badge>v{api.version}</Badge>
-              <Badge variant="outline">Actual</Badge>
-            </div>
+            )}
             
             {api.documentation_url && (
               <>
@@ -299,7 +594,7 @@ const ViewApi = () => {
               
               <div>
                 {api.endpoints.map((endpoint) => (
-                  <EndpointCard key={endpoint.id} endpoint={endpoint} />
+                  <EndpointCard key={endpoint.id} api={api} endpoint={endpoint} />
                 ))}
               </div>
             </>
@@ -348,21 +643,17 @@ const ViewApi = () => {
             {api.auth_type !== 'none' && (
               <>
                 <h3>Instrucciones</h3>
-                {api.auth_type === 'apiKey' ? (
-                  <div className="bg-muted rounded-md p-4 mb-4">
-                    <h4 className="text-sm font-semibold mb-2">Ejemplo de uso con API Key</h4>
-                    <pre className="bg-muted-foreground/10 p-2 rounded overflow-x-auto text-xs">
-                      <code>curl -H "X-API-Key: your_api_key_here" {api.base_url}/endpoint</code>
-                    </pre>
-                  </div>
-                ) : (
-                  <div className="bg-muted rounded-md p-4 mb-4">
-                    <h4 className="text-sm font-semibold mb-2">Ejemplo de uso con OAuth 2.0</h4>
-                    <pre className="bg-muted-foreground/10 p-2 rounded overflow-x-auto text-xs">
-                      <code>curl -H "Authorization: Bearer your_access_token" {api.base_url}/endpoint</code>
-                    </pre>
-                  </div>
-                )}
+                <div className="not-prose mb-4">
+                  <h4 className="text-sm font-semibold mb-2">
+                    {api.auth_type === 'apiKey' ? "Ejemplo de uso con API Key" : "Ejemplo de uso con OAuth 2.0"}
+                    {snippetEndpoint && (
+                      <span className="font-normal text-muted-foreground">
+                        {" "}({snippetEndpoint.method} {snippetEndpoint.path})
+                      </span>
+                    )}
+                  </h4>
+                  <CodeSnippet api={api} endpoint={snippetEndpoint || ROOT_ENDPOINT} />
+                </div>
               </>
             )}
             
@@ -382,6 +673,39 @@ const ViewApi = () => {
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="changelog" className="space-y-4 mt-6">
+          <div className="mb-4">
+            <h3 className="text-lg font-medium mb-1">Registro de cambios</h3>
+            <p className="text-sm text-muted-foreground">
+              Qué cambió en cada versión respecto a la anterior. Los cambios incompatibles pueden romper a quienes usan la versión anterior.
+            </p>
+          </div>
+          <VersionChangelog changelog={changelog} />
+        </TabsContent>
+        
+        <TabsContent value="incidents" className="space-y-4 mt-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium">Historial de incidencias</h3>
+            {canEdit && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={`/incidents/new?api=${api.id}`} className="flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4" />
+                  Declarar incidencia
+                </Link>
+              </Button>
+            )}
+          </div>
+          <IncidentTimeline incidents={incidents} />
+        </TabsContent>
+
+        <TabsContent value="alerts" className="space-y-4 mt-6">
+          <AlertRulesEditor api={api} canEdit={canEdit} />
+        </TabsContent>
+
+        <TabsContent value="comments" className="space-y-4 mt-6">
+          <ApiComments api={api} canEdit={canEdit} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,9 @@
+// Key hashing shared with the gateway (supabase/functions/gateway and
+// scripts/gateway.mjs). It has no imports so every runtime can load it.
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+
+// Hex SHA-256, like encode(digest(key, 'sha256'), 'hex') in the database
+export const hashApiKey = async (secret: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret))));
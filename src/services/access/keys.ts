@@ -0,0 +1,62 @@
+import { DAY_MS } from "@/services/health/summary";
+import { toHex } from "@/services/access/hash";
+import type { AccessRequestStatus, ApiKey } from "@/services/types";
+
+// Every key starts with this, so leaked keys are easy to spot
+export const API_KEY_PREFIX = "avk_";
+
+// Characters of a key kept in the clear, prefix included
+const VISIBLE_LENGTH = 12;
+
+const KEY_BYTES = 24;
+
+export type ApiKeyStatus = "active" | "expired" | "revoked";
+
+export const ACCESS_REQUEST_STATUS_LABELS: Record<AccessRequestStatus, string> = {
+  pending: "Pendiente",
+  approved: "Aprobada",
+  rejected: "Rechazada",
+};
+
+export const API_KEY_STATUS_LABELS: Record<ApiKeyStatus, string> = {
+  active: "Activa",
+  expired: "Caducada",
+  revoked: "Revocada",
+};
+
+// Same format as the issue_api_key database function
+export const generateApiKey = () => {
+  const bytes = new Uint8Array(KEY_BYTES);
+  crypto.getRandomValues(bytes);
+  return `${API_KEY_PREFIX}${toHex(bytes)}`;
+};
+
+export const keyPrefix = (secret: string) => secret.slice(0, VISIBLE_LENGTH);
+
+export { hashApiKey } from "@/services/access/hash";
+
+export const getKeyStatus = (
+  key: Pick<ApiKey, "expires_at" | "revoked_at">,
+  now = Date.now()
+): ApiKeyStatus => {
+  if (key.revoked_at) return "revoked";
+  if (key.expires_at && Date.parse(key.expires_at) <= now) return "expired";
+  return "active";
+};
+
+// A rotated key lasts as long as the key it replaces did
+export const rotatedExpiry = (key: Pick<ApiKey, "created_at" | "expires_at">, now = Date.now()) =>
+  key.expires_at
+    ? new Date(now + Date.parse(key.expires_at) - Date.parse(key.created_at)).toISOString()
+    : null;
+
+// Lifetimes offered when issuing a key; null never expires
+export const KEY_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: "Sin caducidad" },
+  { days: 30, label: "30 días" },
+  { days: 90, label: "90 días" },
+  { days: 365, label: "1 año" },
+];
+
+export const expiryFromDays = (days: number | null, now = Date.now()) =>
+  days === null ? null : new Date(now + days * DAY_MS).toISOString();
@@ -0,0 +1,146 @@
+import { addDays, toDay } from "@/lib/days";
+import { checksSince, DAY_MS, summarizeChecks } from "@/services/health/summary";
+import { summarizeUsage } from "@/services/usage/aggregate";
+import type {
+  AlertMetric,
+  AlertRule,
+  AlertStatus,
+  ApiAlert,
+  ApiHealthCheck,
+  ApiUsageDaily,
+} from "@/services/types";
+
+type RuleCondition = Pick<AlertRule, "metric" | "threshold" | "window_days">;
+
+export const ALERT_METRICS: AlertMetric[] = ["uptime", "p95_latency", "volume_drop"];
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  uptime: "Uptime",
+  p95_latency: "Latencia p95",
+  volume_drop: "Caída de llamadas",
+};
+
+// Unit of the threshold and the measured value
+export const ALERT_METRIC_UNITS: Record<AlertMetric, string> = {
+  uptime: "%",
+  p95_latency: "ms",
+  volume_drop: "%",
+};
+
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  firing: "Activa",
+  acknowledged: "Reconocida",
+  resolved: "Resuelta",
+};
+
+export interface AlertData {
+  // Health checks with incident downtime applied
+  checks: Pick<ApiHealthCheck, "api_id" | "checked_at" | "status" | "latency_ms">[];
+  usage: ApiUsageDaily[];
+}
+
+const formatWindow = (days: number) => (days === 1 ? "24 h" : `${days} días`);
+
+export const formatAlertValue = (metric: AlertMetric, value: number) =>
+  `${value}${ALERT_METRIC_UNITS[metric] === "ms" ? " ms" : ALERT_METRIC_UNITS[metric]}`;
+
+// "Uptime por debajo de 99.5% en 24 h"
+export const describeAlertCondition = ({ metric, threshold, window_days }: RuleCondition) => {
+  const limit = formatAlertValue(metric, threshold);
+  switch (metric) {
+    case "uptime":
+      return `Uptime por debajo de ${limit} en ${formatWindow(window_days)}`;
+    case "p95_latency":
+      return `Latencia p95 por encima de ${limit} en ${formatWindow(window_days)}`;
+    case "volume_drop":
+      return `Caída de llamadas del ${limit} o más respecto a los ${formatWindow(window_days)} anteriores`;
+  }
+};
+
+// Measure a rule's metric for its API, or null without data to judge.
+// Like the evaluate_alert_rules database function.
+export const measureAlertRule = (
+  rule: RuleCondition & Pick<AlertRule, "api_id">,
+  data: AlertData,
+  now = new Date()
+): number | null => {
+  const yesterday = addDays(toDay(now), -1);
+  const from = addDays(yesterday, -(rule.window_days - 1));
+  const usageBetween = (first: string, last: string) =>
+    data.usage.filter(row => row.api_id === rule.api_id && row.day >= first && row.day <= last);
+
+  switch (rule.metric) {
+    case "uptime": {
+      const checks = data.checks.filter(check => check.api_id === rule.api_id);
+      return summarizeChecks(checksSince(checks, now.getTime() - rule.window_days * DAY_MS)).uptime;
+    }
+    case "p95_latency": {
+      const summary = summarizeUsage(usageBetween(from, yesterday));
+      return summary.calls > 0 ? summary.p95LatencyMs : null;
+    }
+    case "volume_drop": {
+      const current = summarizeUsage(usageBetween(from, yesterday)).calls;
+      const previous = summarizeUsage(
+        usageBetween(addDays(from, -rule.window_days), addDays(from, -1))
+      ).calls;
+      return previous > 0 ? Math.round(((previous - current) / previous) * 1000) / 10 : null;
+    }
+  }
+};
+
+export const isRuleBreached = (rule: RuleCondition, value: number | null) => {
+  if (value === null) return false;
+  switch (rule.metric) {
+    case "uptime":
+      return value < rule.threshold;
+    case "p95_latency":
+      return value > rule.threshold;
+    case "volume_drop":
+      return value >= rule.threshold;
+  }
+};
+
+export interface AlertChanges {
+  fired: Omit<ApiAlert, "id">[];
+  // Ids of open alerts whose condition cleared
+  cleared: string[];
+}
+
+// Fire an alert for each enabled rule that is breached and has no open
+// alert, and clear the open alerts of rules measured back within their
+// threshold. Rules without data to judge are left as they are.
+export const planAlertChanges = (
+  rules: AlertRule[],
+  openAlerts: ApiAlert[],
+  data: AlertData,
+  now = new Date()
+): AlertChanges => {
+  const changes: AlertChanges = { fired: [], cleared: [] };
+
+  rules
+    .filter(rule => rule.enabled)
+    .forEach(rule => {
+      const value = measureAlertRule(rule, data, now);
+      const open = openAlerts.find(alert => alert.rule_id === rule.id);
+      const breached = isRuleBreached(rule, value);
+
+      if (breached && !open) {
+        changes.fired.push({
+          rule_id: rule.id,
+          api_id: rule.api_id,
+          metric: rule.metric,
+          threshold: rule.threshold,
+          window_days: rule.window_days,
+          value: value as number,
+          status: "firing",
+          fired_at: now.toISOString(),
+          acknowledged_at: null,
+          resolved_at: null,
+        });
+      } else if (!breached && value !== null && open) {
+        changes.cleared.push(open.id);
+      }
+    });
+
+  return changes;
+};
@@ -1,141 +1,473 @@
-
-import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/components/ui/use-toast";
+import { addDays, today } from "@/lib/days";
+import { catalog } from "@/services/catalog";
+import { auth } from "@/services/auth";
+import {
+  canCreateApis,
+  canEditIncident,
+  canCreateTeams,
+  canEditApi,
+  canEditTeam,
+  canManageCategories,
+  canManageTeamMembers,
+} from "@/services/auth/permissions";
+import {
+  STATUS_PAGE_DAYS,
+  buildStatusDays,
+  type StatusDay,
+  type DetectedOutage,
+} from "@/services/health/status";
+import { findVersion } from "@/services/versions/history";
+import { blocksPublishing, buildChangelog, diffVersions, type VersionDiff } from "@/services/versions/diff";
+import { searchTerms } from "@/services/search/ranking";
+import { searchHighlights, type ApiHighlights } from "@/services/search/highlight";
+import {
+  buildUsageSeries,
+  getRangeBounds,
+  percentChange,
+  summarizeUsage,
+  type TimeRange,
+  type UsagePoint,
+  type UsageSummary,
+} from "@/services/usage/aggregate";
+import type {
+  AccessDecision,
+  AccessRequest,
+  AccessRequestQuery,
+  AlertQuery,
+  AlertRule,
+  AlertRulePatch,
+  Api,
+  ApiAccessSettings,
+  ApiAlert,
+  ApiCategory,
+  ApiComment,
+  ApiEndpoint,
+  ApiFollow,
+  ApiHealthCheck,
+  ApiHealthDaily,
+  ApiKey,
+  ApiKeyQuery,
+  ApiRecord,
+  ApiSearchFilters,
+  ApiStats,
+  ApiUsageDaily,
+  ApiVersion,
+  ApiVersionStatus,
+  Application,
+  CreateApiInput,
+  CreateIncidentInput,
+  CreateTeamInput,
+  HealthQuery,
+  HealthStatus,
+  Incident,
+  IncidentApi,
+  IncidentQuery,
+  IncidentRecord,
+  IncidentUpdate,
+  IssuedApiKey,
+  NewAlertRule,
+  NewApiCategory,
+  NewApiKey,
+  NotificationPreference,
+  NotificationQuery,
+  NotificationType,
+  PublishVersionInput,
+  Team,
+  TeamRecord,
+  UpdateApiInput,
+  UpdateIncidentInput,
+  UpdateTeamInput,
+  UsageQuery,
+  UserNotification,
+  UserRole,
+} from "@/services/types";
 
-// Types for the data structure from Supabase
-export interface ApiCategory {
-  id: string;
-  name: string;
-  color: string;
-}
+export type {
+  AccessDecision,
+  AccessRequest,
+  AccessRequestStatus,
+  AlertMetric,
+  AlertQuery,
+  AlertRule,
+  AlertRulePatch,
+  AlertStatus,
+  Api,
+  ApiAccessSettings,
+  ApiAlert,
+  ApiCategory,
+  ApiComment,
+  ApiEndpoint,
+  ApiFollow,
+  ApiHealthCheck,
+  ApiHealthDaily,
+  ApiKey,
+  ApiLifecycle,
+  ApiSearchFilters,
+  ApiSearchSort,
+  ApiStats,
+  ApiUsageDaily,
+  ApiVersion,
+  ApiVersionStatus,
+  AppRole,
+  Application,
+  AuthType,
+  CreateApiInput,
+  CreateIncidentInput,
+  CreateTeamInput,
+  HealthQuery,
+  HealthStatus,
+  Incident,
+  IncidentImpact,
+  IncidentSeverity,
+  IncidentStatus,
+  IncidentUpdate,
+  IssuedApiKey,
+  NewAlertRule,
+  NewApiCategory,
+  NotificationPreference,
+  NotificationQuery,
+  NotificationType,
+  PublishVersionInput,
+  Team,
+  TeamChannel,
+  TeamChannelType,
+  TeamMember,
+  TeamRecord,
+  UpdateApiInput,
+  UpdateIncidentInput,
+  UpdateTeamInput,
+  UsageQuery,
+  UserNotification,
+  UserRole,
+} from "@/services/types";
+export type { TimeRange, UsagePoint, UsageSummary } from "@/services/usage/aggregate";
+export type { StatusDay, DetectedOutage } from "@/services/health/status";
+export type { VersionChange, VersionDiff } from "@/services/versions/diff";
+export type { ApiHighlights, HighlightSegment, SearchHighlight } from "@/services/search/highlight";
 
-export interface ApiStats {
-  id: string;
-  api_id: string;
-  total_calls: number;
-  last_week_calls: number;
-  uptime: number;
-  response_time: number;
-  updated_at: string;
-}
+// Attach the related rows to an API record
+const assembleApi = (
+  api: ApiRecord,
+  category: ApiCategory | undefined,
+  team: TeamRecord | undefined,
+  stats: ApiStats | undefined,
+  endpoints: ApiEndpoint[]
+): Api => ({
+  ...api,
+  category,
+  team,
+  stats,
+  endpoints,
+});
 
-export interface ApiEndpoint {
-  id: string;
-  api_id: string;
-  path: string;
-  method: string;
-  description: string;
-  created_at: string;
-}
+// Attach the affected APIs and the updates to an incident record
+const assembleIncident = (
+  incident: IncidentRecord,
+  impacts: IncidentApi[],
+  updates: IncidentUpdate[]
+): Incident => ({
+  ...incident,
+  affected: impacts
+    .filter(impact => impact.incident_id === incident.id)
+    .map(({ api_id, endpoint_ids }) => ({ api_id, endpoint_ids })),
+  updates: updates.filter(update => update.incident_id === incident.id),
+});
 
-export interface Api {
-  id: string;
-  name: string;
-  description: string;
-  version: string;
-  owner: string;
-  base_url: string;
-  documentation_url: string | null;
-  category_id: string;
-  tags: string[];
-  auth_type: 'apiKey' | 'oauth2' | 'none';
-  auth_description: string | null;
-  created_at: string;
-  updated_at: string;
-  // These fields are not directly from the table but will be populated
-  category?: ApiCategory;
-  stats?: ApiStats;
-  endpoints?: ApiEndpoint[];
-}
+// The signed-in user's roles; visitors who have not signed in have none.
+// Throws like the repository.
+const listCurrentRoles = async (): Promise<UserRole[]> => {
+  const user = await auth.getUser();
+  return user ? catalog.listUserRoles(user.id) : [];
+};
+
+// APIs owned by the signed-in user's teams, which they edit like owners.
+// Throws like the repository.
+const listCurrentTeamApiIds = async (): Promise<string[]> => {
+  const user = await auth.getUser();
+  return user ? catalog.listTeamApiIds(user.id) : [];
+};
+
+// Whether the signed-in user edits the API: admins, its owners and the
+// members of its team
+const canEditCurrentApi = async (apiId: string) => {
+  const [roles, teamApiIds] = await Promise.all([listCurrentRoles(), listCurrentTeamApiIds()]);
+  return canEditApi(roles, { id: apiId }, teamApiIds);
+};
+
+// Checked before writing so the local backend follows the same rules as
+// the Supabase policies, with a clearer message
+const assertAllowed = (allowed: boolean, message: string) => {
+  if (!allowed) {
+    throw new Error(message);
+  }
+};
+
+// Fetch the signed-in user's roles
+export const fetchUserRoles = async (): Promise<UserRole[]> => {
+  try {
+    return await listCurrentRoles();
+  } catch (error) {
+    console.error('Error fetching user roles:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to fetch your permissions",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Fetch the APIs owned by the signed-in user's teams
+export const fetchTeamApiIds = async (): Promise<string[]> => {
+  try {
+    return await listCurrentTeamApiIds();
+  } catch (error) {
+    console.error('Error fetching team APIs:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to fetch your permissions",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
 
 // Fetch all API categories
 export const fetchApiCategories = async (): Promise<ApiCategory[]> => {
   try {
-    const { data, error } = await supabase
-      .from('api_categories')
-      .select('*');
-    
-    if (error) {
-      toast({
-        title: "Error fetching categories",
-        description: error.message,
-        variant: "destructive",
-      });
-      return [];
-    }
-    
-    return data;
+    return await catalog.listCategories();
   } catch (error) {
     console.error('Error fetching API categories:', error);
+    toast({
+      title: "Error fetching categories",
+      description: error instanceof Error ? error.message : "Failed to fetch API categories",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Categories are managed by admins
+export const createCategory = async (input: NewApiCategory): Promise<ApiCategory | null> => {
+  try {
+    assertAllowed(canManageCategories(await listCurrentRoles()), "Only admins can manage categories");
+    return await catalog.createCategory(input);
+  } catch (error) {
+    console.error('Error creating category:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to create category",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export const updateCategory = async (
+  id: string,
+  patch: Partial<NewApiCategory>
+): Promise<ApiCategory | null> => {
+  try {
+    assertAllowed(canManageCategories(await listCurrentRoles()), "Only admins can manage categories");
+    return await catalog.updateCategory(id, patch);
+  } catch (error) {
+    console.error(`Error updating category with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update category",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export const deleteCategory = async (id: string): Promise<boolean> => {
+  try {
+    assertAllowed(canManageCategories(await listCurrentRoles()), "Only admins can manage categories");
+    await catalog.deleteCategory(id);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting category with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to delete category",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+// Fetch all teams, by name
+export const fetchTeams = async (): Promise<TeamRecord[]> => {
+  try {
+    return await catalog.listTeams();
+  } catch (error) {
+    console.error('Error fetching teams:', error);
     toast({
       title: "Error",
-      description: "Failed to fetch API categories",
+      description: "Failed to fetch teams",
       variant: "destructive",
     });
     return [];
   }
 };
 
-// Fetch all APIs with related data (category, stats, endpoints)
-export const fetchApis = async (): Promise<Api[]> => {
+// Create a team, with its first members, recorded as created by the
+// signed-in user. Needs the editor or admin role.
+export const createTeam = async (input: CreateTeamInput): Promise<Team | null> => {
   try {
-    // First, fetch all APIs
-    const { data: apisData, error: apisError } = await supabase
-      .from('apis')
-      .select('*');
-    
-    if (apisError) {
-      throw new Error(apisError.message);
+    const user = await auth.getUser();
+    assertAllowed(
+      canCreateTeams(user ? await catalog.listUserRoles(user.id) : []),
+      "You need the editor role to add teams"
+    );
+    return await catalog.createTeam({ ...input, created_by: user?.id ?? null });
+  } catch (error) {
+    console.error('Error creating team:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to create team",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Update a team and its members. Its members, creator and admins edit the
+// details; only the creator and admins change the members.
+export const updateTeam = async (id: string, input: UpdateTeamInput): Promise<Team | null> => {
+  try {
+    const [user, team, members] = await Promise.all([
+      auth.getUser(),
+      catalog.getTeam(id),
+      catalog.listTeamMembers(id),
+    ]);
+    if (!team) {
+      throw new Error(`Team ${id} does not exist`);
+    }
+    const roles = user ? await catalog.listUserRoles(user.id) : [];
+    assertAllowed(
+      canEditTeam(roles, user?.id ?? null, team, members),
+      "Only the team's members, its creator and admins can edit it"
+    );
+    assertAllowed(
+      !input.members || canManageTeamMembers(roles, user?.id ?? null, team),
+      "Only the team's creator and admins can change its members"
+    );
+    return await catalog.updateTeam(id, input);
+  } catch (error) {
+    console.error(`Error updating team with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update team",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export interface TeamOverview {
+  team: Team;
+  apis: Api[];
+  totalCalls: number;
+  lastWeekCalls: number;
+  // Averages over the team's probed APIs; null when none has been probed
+  avgUptime: number | null;
+  avgResponseTime: number | null;
+  // Usage of all the team's APIs over the last 30 days
+  usage: UsageSummary;
+}
+
+const TEAM_USAGE_DAYS = 30;
+
+// Mean of the known values, to `decimals` places
+const average = (values: (number | null | undefined)[], decimals = 0) => {
+  const known = values.filter((value): value is number => value != null);
+  if (known.length === 0) return null;
+  const factor = 10 ** decimals;
+  return Math.round((known.reduce((sum, value) => sum + value, 0) / known.length) * factor) / factor;
+};
+
+// A team with its members, its APIs and their combined stats
+export const getTeamOverview = async (id: string): Promise<TeamOverview | null> => {
+  try {
+    const team = await catalog.getTeam(id);
+    if (!team) {
+      return null;
     }
+
+    const lastDay = today();
+    const [members, allApis, usageRows] = await Promise.all([
+      catalog.listTeamMembers(id),
+      fetchApis(),
+      catalog.listUsage({ from: addDays(lastDay, -(TEAM_USAGE_DAYS - 1)), to: lastDay }),
+    ]);
+    const apis = allApis.filter(api => api.team_id === id);
+    const apiIds = new Set(apis.map(api => api.id));
+
+    return {
+      team: { ...team, members },
+      apis,
+      totalCalls: apis.reduce((sum, api) => sum + (api.stats?.total_calls || 0), 0),
+      lastWeekCalls: apis.reduce((sum, api) => sum + (api.stats?.last_week_calls || 0), 0),
+      avgUptime: average(apis.map(api => api.stats?.uptime), 2),
+      avgResponseTime: average(apis.map(api => api.stats?.response_time)),
+      usage: summarizeUsage(usageRows.filter(row => apiIds.has(row.api_id))),
+    };
+  } catch (error) {
+    console.error(`Error loading team with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: `Failed to load team with ID ${id}`,
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Fetch all APIs with related data (category, stats, endpoints of the
+// current version)
+export const fetchApis = async (): Promise<Api[]> => {
+  try {
+    const apisData = await catalog.listApis();
     
-    if (!apisData || apisData.length === 0) {
+    if (apisData.length === 0) {
       return [];
     }
     
-    // Fetch all categories
-    const { data: categoriesData } = await supabase
-      .from('api_categories')
-      .select('*');
-    
-    // Create a map for quick lookup
-    const categoriesMap = categoriesData ? 
-      Object.fromEntries(categoriesData.map(cat => [cat.id, cat])) : {};
-    
-    // Fetch all stats
-    const { data: statsData } = await supabase
-      .from('api_stats')
-      .select('*');
+    const [categoriesData, teamsData, statsData, endpointsData, versionsData] = await Promise.all([
+      catalog.listCategories(),
+      catalog.listTeams(),
+      catalog.listStats(),
+      catalog.listEndpoints(),
+      catalog.listApiVersions(),
+    ]);
     
-    // Create a map for quick lookup
-    const statsMap = statsData ? 
-      Object.fromEntries(statsData.map(stat => [stat.api_id, stat])) : {};
-    
-    // Fetch all endpoints
-    const { data: endpointsData } = await supabase
-      .from('api_endpoints')
-      .select('*');
+    // Create maps for quick lookup
+    const categoriesMap = Object.fromEntries(categoriesData.map(cat => [cat.id, cat]));
+    const teamsMap = Object.fromEntries(teamsData.map(team => [team.id, team]));
+    const statsMap = Object.fromEntries(statsData.map(stat => [stat.api_id, stat]));
+    const currentVersionIds = new Set(
+      versionsData.filter(version => version.status === 'current').map(version => version.id)
+    );
     
     // Group endpoints by api_id
     const endpointsMap: Record<string, ApiEndpoint[]> = {};
-    if (endpointsData) {
-      endpointsData.forEach(endpoint => {
-        if (!endpointsMap[endpoint.api_id]) {
-          endpointsMap[endpoint.api_id] = [];
-        }
-        endpointsMap[endpoint.api_id].push(endpoint as ApiEndpoint);
-      });
-    }
-    
-    // Combine all data and ensure correct types
-    const apis = apisData.map(api => ({
-      ...api,
-      auth_type: (api.auth_type as 'apiKey' | 'oauth2' | 'none') || 'none',
-      category: categoriesMap[api.category_id],
-      stats: statsMap[api.id],
-      endpoints: endpointsMap[api.id] || []
-    })) as Api[];
+    endpointsData.filter(endpoint => currentVersionIds.has(endpoint.version_id)).forEach(endpoint => {
+      if (!endpointsMap[endpoint.api_id]) {
+        endpointsMap[endpoint.api_id] = [];
+      }
+      endpointsMap[endpoint.api_id].push(endpoint);
+    });
     
-    return apis;
+    return apisData.map(api => assembleApi(
+      api,
+      categoriesMap[api.category_id],
+      teamsMap[api.team_id],
+      statsMap[api.id],
+      endpointsMap[api.id] || []
+    ));
   } catch (error) {
     console.error('Error fetching APIs:', error);
     toast({
@@ -147,52 +479,109 @@ export const fetchApis = async (): Promise<Api[]> => {
   }
 };
 
-// Fetch a single API by ID
-export const fetchApiById = async (id: string): Promise<Api | null> => {
+export const SEARCH_PAGE_SIZE = 12;
+
+export interface ApiSearchResult {
+  api: Api;
+  rank: number;
+  // Why the API matched, with the matching text marked
+  highlights: ApiHighlights;
+}
+
+export interface ApiSearchResults {
+  results: ApiSearchResult[];
+  total: number;
+  // Retired APIs that matched but were left out
+  hiddenRetired: number;
+  page: number;
+  pageCount: number;
+}
+
+// Full-text search over names, tags, teams, descriptions, endpoints and
+// authentication, ranked by relevance unless the filters sort otherwise.
+// Pages start at 1.
+export const searchApis = async (
+  query: string,
+  filters: ApiSearchFilters = {},
+  page = 1
+): Promise<ApiSearchResults | null> => {
   try {
-    // Fetch the API
-    const { data: api, error: apiError } = await supabase
-      .from('apis')
-      .select('*')
-      .eq('id', id)
-      .single();
-    
-    if (apiError) {
-      throw new Error(apiError.message);
-    }
+    const terms = searchTerms(query);
+    const found = await catalog.searchApis(query, filters, {
+      offset: (page - 1) * SEARCH_PAGE_SIZE,
+      limit: SEARCH_PAGE_SIZE,
+    });
+    return {
+      results: found.results.map(({ api, rank }) => ({ api, rank, highlights: searchHighlights(api, terms) })),
+      total: found.total,
+      hiddenRetired: found.hiddenRetired,
+      page,
+      pageCount: Math.max(1, Math.ceil(found.total / SEARCH_PAGE_SIZE)),
+    };
+  } catch (error) {
+    console.error('Error searching APIs:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to search APIs",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Every tag in use, without loading the APIs
+export const fetchApiTags = async (): Promise<string[]> => {
+  try {
+    return await catalog.listTags();
+  } catch (error) {
+    console.error('Error fetching API tags:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to fetch API tags",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Fetch a single API by ID, as documented in its current version or in
+// the given one. Returns null when either does not exist.
+export const fetchApiById = async (id: string, version?: string): Promise<Api | null> => {
+  try {
+    const api = await catalog.getApi(id);
     
     if (!api) {
       return null;
     }
     
-    // Fetch the category
-    const { data: category } = await supabase
-      .from('api_categories')
-      .select('*')
-      .eq('id', api.category_id)
-      .single();
+    const [category, team, stats, endpoints, versions] = await Promise.all([
+      catalog.getCategory(api.category_id),
+      catalog.getTeam(api.team_id),
+      catalog.listStats(api.id),
+      catalog.listEndpoints(api.id),
+      catalog.listApiVersions(api.id),
+    ]);
     
-    // Fetch the stats
-    const { data: stats } = await supabase
-      .from('api_stats')
-      .select('*')
-      .eq('api_id', api.id)
-      .maybeSingle();
-    
-    // Fetch the endpoints
-    const { data: endpoints } = await supabase
-      .from('api_endpoints')
-      .select('*')
-      .eq('api_id', api.id);
+    const documented = version
+      ? findVersion(versions, version)
+      : versions.find(v => v.status === 'current');
+    if (!documented) {
+      return null;
+    }
     
-    // Combine all data and ensure correct types
-    return {
-      ...api,
-      auth_type: (api.auth_type as 'apiKey' | 'oauth2' | 'none') || 'none',
-      category,
-      stats,
-      endpoints: endpoints || []
-    } as Api;
+    return assembleApi(
+      {
+        ...api,
+        version: documented.version,
+        base_url: documented.base_url,
+        auth_type: documented.auth_type,
+        auth_description: documented.auth_description,
+      },
+      category ?? undefined,
+      team ?? undefined,
+      stats[0],
+      endpoints.filter(endpoint => endpoint.version_id === documented.id)
+    );
   } catch (error) {
     console.error(`Error fetching API with ID ${id}:`, error);
     toast({
@@ -204,163 +593,1026 @@ export const fetchApiById = async (id: string): Promise<Api | null> => {
   }
 };
 
-// Create a new API and its related data
-export const createApi = async (
-  apiData: Omit<Api, 'id' | 'created_at' | 'updated_at' | 'category' | 'stats' | 'endpoints'> & {
-    stats?: Omit<ApiStats, 'id' | 'api_id' | 'updated_at'>;
-    endpoints?: Omit<ApiEndpoint, 'id' | 'api_id' | 'created_at'>[];
-  }
-): Promise<Api | null> => {
+// Create a new API and its related data in a single transaction, recorded
+// as created, and owned, by the signed-in user. Needs the editor or admin
+// role.
+export const createApi = async (apiData: CreateApiInput): Promise<Api | null> => {
   try {
-    // Start a transaction
-    const { data: api, error: apiError } = await supabase
-      .from('apis')
-      .insert({
-        name: apiData.name,
-        description: apiData.description,
-        base_url: apiData.base_url,
-        version: apiData.version,
-        documentation_url: apiData.documentation_url,
-        owner: apiData.owner,
-        category_id: apiData.category_id,
-        tags: apiData.tags,
-        auth_type: apiData.auth_type,
-        auth_description: apiData.auth_description,
-      })
-      .select()
-      .single();
-    
-    if (apiError) {
-      throw new Error(apiError.message);
-    }
-    
-    // Create stats
-    if (apiData.stats) {
-      const { error: statsError } = await supabase
-        .from('api_stats')
-        .insert({
-          api_id: api.id,
-          total_calls: apiData.stats.total_calls,
-          last_week_calls: apiData.stats.last_week_calls,
-          uptime: apiData.stats.uptime,
-          response_time: apiData.stats.response_time,
-        });
-      
-      if (statsError) {
-        throw new Error(statsError.message);
-      }
-    } else {
-      // Create default stats
-      const { error: statsError } = await supabase
-        .from('api_stats')
-        .insert({
-          api_id: api.id,
-        });
-      
-      if (statsError) {
-        throw new Error(statsError.message);
-      }
-    }
-    
-    // Create endpoints
-    if (apiData.endpoints && apiData.endpoints.length > 0) {
-      const endpoints = apiData.endpoints.map(endpoint => ({
-        api_id: api.id,
-        path: endpoint.path,
-        method: endpoint.method,
-        description: endpoint.description,
-      }));
-      
-      const { error: endpointsError } = await supabase
-        .from('api_endpoints')
-        .insert(endpoints);
-      
-      if (endpointsError) {
-        throw new Error(endpointsError.message);
-      }
-    }
-    
-    // Return the newly created API with all related data
-    return await fetchApiById(api.id);
+    const user = await auth.getUser();
+    assertAllowed(
+      canCreateApis(user ? await catalog.listUserRoles(user.id) : []),
+      "You need the editor role to add APIs"
+    );
+    return await catalog.createApi({ ...apiData, created_by: user?.id ?? null });
   } catch (error) {
     console.error('Error creating API:', error);
     toast({
       title: "Error",
-      description: "Failed to create API",
+      description: error instanceof Error ? error.message : "Failed to create API",
       variant: "destructive",
     });
     return null;
   }
 };
 
-// Dashboard metrics calculation
-export const getDashboardMetrics = async () => {
+// Update an API together with its stats and endpoints in a single
+// transaction. Only the API's owners and admins can.
+export const updateApi = async (id: string, apiData: UpdateApiInput): Promise<Api | null> => {
   try {
-    // Fetch all APIs with their related data
-    const apis = await fetchApis();
-    
-    // Calculate metrics
-    const totalApis = apis.length;
-    const totalApiCalls = apis.reduce((sum, api) => sum + (api.stats?.total_calls || 0), 0);
-    
-    // Calculate APIs created in the last month
-    const oneMonthAgo = new Date();
-    oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-    const newApisLastMonth = apis.filter(api => 
-      new Date(api.created_at) > oneMonthAgo
-    ).length;
-    
-    // Calculate popular categories
-    const categoryCounts: Record<string, { name: string, count: number }> = {};
-    apis.forEach(api => {
-      if (api.category) {
-        if (!categoryCounts[api.category.id]) {
-          categoryCounts[api.category.id] = { name: api.category.name, count: 0 };
+    assertAllowed(await canEditCurrentApi(id), "You cannot edit this API");
+    return await catalog.updateApi(id, apiData);
+  } catch (error) {
+    console.error(`Error updating API with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update API",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Versions of an API, newest first
+export const fetchApiVersions = async (apiId: string): Promise<ApiVersion[]> => {
+  try {
+    return await catalog.listApiVersions(apiId);
+  } catch (error) {
+    console.error(`Error fetching versions of API ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch API versions",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Publish a new version of an API, which becomes the current one. Its
+// endpoints are copied from the previous version unless given. Only the
+// API's owners and admins can, and breaking changes need a new major
+// version unless allowBreaking is set; the version records that override.
+export const publishApiVersion = async (
+  apiId: string,
+  input: PublishVersionInput,
+  { allowBreaking = false }: { allowBreaking?: boolean } = {}
+): Promise<Api | null> => {
+  try {
+    assertAllowed(await canEditCurrentApi(apiId), "You cannot publish versions of this API");
+    const [versions, endpoints] = await Promise.all([
+      catalog.listApiVersions(apiId),
+      catalog.listEndpoints(apiId),
+    ]);
+    const current = versions.find(version => version.status === 'current');
+    let overridden = false;
+    if (current) {
+      const currentEndpoints = endpoints.filter(endpoint => endpoint.version_id === current.id);
+      const diff = diffVersions(
+        { ...current, endpoints: currentEndpoints },
+        {
+          version: input.version,
+          base_url: input.base_url || current.base_url,
+          auth_type: input.auth_type || current.auth_type,
+          endpoints: input.endpoints ?? currentEndpoints,
         }
-        categoryCounts[api.category.id].count++;
+      );
+      overridden = blocksPublishing(diff);
+      if (overridden && !allowBreaking) {
+        throw new Error(
+          `${diff.changes.filter(change => change.breaking).length} breaking changes need a new major version`
+        );
       }
+    }
+    return await catalog.publishApiVersion(apiId, { ...input, allow_breaking: overridden });
+  } catch (error) {
+    console.error(`Error publishing a version of API ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to publish version",
+      variant: "destructive",
     });
-    
-    const popularCategories = Object.values(categoryCounts)
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5)
-      .map(({ name, count }) => ({
-        name,
-        percentage: Math.round((count / totalApis) * 100)
-      }));
-    
-    // Sort APIs by total calls to get top APIs
-    const topApis = [...apis]
-      .sort((a, b) => (b.stats?.total_calls || 0) - (a.stats?.total_calls || 0))
-      .slice(0, 3)
-      .map(api => ({
-        id: api.id,
-        name: api.name,
-        calls: api.stats?.total_calls || 0,
-        uptime: api.stats?.uptime || 99.9,
-      }));
-    
-    // Mock data for API calls over time (this would typically come from a time-series table)
-    const months = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun'];
-    const apiCallsOverTime = months.map((month, index) => ({
-      month,
-      calls: 800000 + index * 150000 + Math.floor(Math.random() * 100000)
-    }));
-    
-    return {
-      totalApis,
-      totalApiCalls,
-      newApisLastMonth,
-      activeUsers: Math.floor(Math.random() * 1000) + 1000, // Mock data for active users
-      popularCategories,
-      apiCallsOverTime,
-      topApis,
-    };
+    return null;
+  }
+};
+
+// What changed from each version of an API to the next, newest first
+export const fetchChangelog = async (apiId: string): Promise<VersionDiff[]> => {
+  try {
+    const [versions, endpoints] = await Promise.all([
+      catalog.listApiVersions(apiId),
+      catalog.listEndpoints(apiId),
+    ]);
+    return buildChangelog(versions, endpoints);
   } catch (error) {
-    console.error('Error calculating dashboard metrics:', error);
+    console.error(`Error fetching the changelog of API ${apiId}:`, error);
     toast({
       title: "Error",
-      description: "Failed to calculate dashboard metrics",
+      description: "Failed to fetch the changelog",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Mark an older version as supported or deprecated. Only the API's owners
+// and admins can.
+export const setApiVersionStatus = async (
+  version: Pick<ApiVersion, 'id' | 'api_id'>,
+  status: Exclude<ApiVersionStatus, 'current'>
+): Promise<ApiVersion | null> => {
+  try {
+    assertAllowed(await canEditCurrentApi(version.api_id), "You cannot change the versions of this API");
+    return await catalog.setApiVersionStatus(version.id, status);
+  } catch (error) {
+    console.error(`Error updating API version ${version.id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update version",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Delete an API along with its stats and endpoints. Only the API's owners
+// and admins can.
+export const deleteApi = async (id: string): Promise<boolean> => {
+  try {
+    assertAllowed(await canEditCurrentApi(id), "You cannot delete this API");
+    await catalog.deleteApi(id);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting API with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to delete API",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+// Incidents with their affected APIs and updates; throws like the repository
+const listAssembledIncidents = async (query: IncidentQuery = {}): Promise<Incident[]> => {
+  const [incidents, impacts, updates] = await Promise.all([
+    catalog.listIncidents(query),
+    catalog.listIncidentApis(),
+    catalog.listIncidentUpdates(),
+  ]);
+  return incidents.map(incident => assembleIncident(incident, impacts, updates));
+};
+
+// Fetch incidents, newest first. Pass an apiId to keep the ones affecting
+// that API.
+export const fetchIncidents = async (
+  query: IncidentQuery & { apiId?: string } = {}
+): Promise<Incident[]> => {
+  try {
+    const incidents = await listAssembledIncidents(query);
+    return query.apiId
+      ? incidents.filter(incident => incident.affected.some(impact => impact.api_id === query.apiId))
+      : incidents;
+  } catch (error) {
+    console.error('Error fetching incidents:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch incidents",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Fetch a single incident by ID
+export const fetchIncidentById = async (id: string): Promise<Incident | null> => {
+  try {
+    const incident = await catalog.getIncident(id);
+    if (!incident) {
+      return null;
+    }
+
+    const [impacts, updates] = await Promise.all([
+      catalog.listIncidentApis(id),
+      catalog.listIncidentUpdates(id),
+    ]);
+    return assembleIncident(incident, impacts, updates);
+  } catch (error) {
+    console.error(`Error fetching incident with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: `Failed to fetch incident with ID ${id}`,
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Declare an incident with its affected APIs and first update
+export const createIncident = async (input: CreateIncidentInput): Promise<Incident | null> => {
+  try {
+    assertAllowed(
+      canEditIncident(await listCurrentRoles(), input.affected, await listCurrentTeamApiIds()),
+      "Only owners of every affected API and admins can declare this incident"
+    );
+    return await catalog.createIncident(input);
+  } catch (error) {
+    console.error('Error creating incident:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to create incident",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Edit an incident or post an update on its timeline
+export const updateIncident = async (id: string, input: UpdateIncidentInput): Promise<Incident | null> => {
+  try {
+    const [roles, teamApiIds] = await Promise.all([listCurrentRoles(), listCurrentTeamApiIds()]);
+    assertAllowed(
+      canEditIncident(roles, await catalog.listIncidentApis(id), teamApiIds) &&
+        (!input.affected || canEditIncident(roles, input.affected, teamApiIds)),
+      "Only owners of every affected API and admins can edit this incident"
+    );
+    return await catalog.updateIncident(id, input);
+  } catch (error) {
+    console.error(`Error updating incident with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update incident",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export interface DashboardMetrics {
+  timeRange: TimeRange;
+  totalApis: number;
+  newApisLastMonth: number;
+  // Usage within the selected range
+  usage: UsageSummary;
+  // Percent change of calls against the previous period
+  callsChange: number | null;
+  popularCategories: { name: string; percentage: number }[];
+  apiCallsOverTime: UsagePoint[];
+  topApis: { id: string; name: string; calls: number; uptime: number | null }[];
+}
+
+// Fetch daily usage rows, oldest first
+export const fetchUsage = async (query: UsageQuery = {}): Promise<ApiUsageDaily[]> => {
+  try {
+    return await catalog.listUsage(query);
+  } catch (error) {
+    console.error('Error fetching API usage:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch API usage",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Dashboard metrics calculation, with usage aggregated over the time range
+export const getDashboardMetrics = async (
+  timeRange: TimeRange = "month"
+): Promise<DashboardMetrics | null> => {
+  try {
+    const lastDay = today();
+    const bounds = getRangeBounds(timeRange, lastDay);
+
+    // Fetch all APIs with their related data, and usage for the range and
+    // the period before it
+    const [apis, usageRows] = await Promise.all([
+      fetchApis(),
+      catalog.listUsage({ from: bounds.previousFrom, to: bounds.to }),
+    ]);
+    const currentRows = usageRows.filter(row => row.day >= bounds.from);
+    const previousRows = usageRows.filter(row => row.day <= bounds.previousTo);
+    
+    // Calculate metrics
+    const totalApis = apis.length;
+    const usage = summarizeUsage(currentRows);
+    
+    // Calculate APIs created in the last month
+    const oneMonthAgo = new Date();
+    oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+    const newApisLastMonth = apis.filter(api => 
+      new Date(api.created_at) > oneMonthAgo
+    ).length;
+    
+    // Calculate popular categories
+    const categoryCounts: Record<string, { name: string, count: number }> = {};
+    apis.forEach(api => {
+      if (api.category) {
+        if (!categoryCounts[api.category.id]) {
+          categoryCounts[api.category.id] = { name: api.category.name, count: 0 };
+        }
+        categoryCounts[api.category.id].count++;
+      }
+    });
+    
+    const popularCategories = Object.values(categoryCounts)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5)
+      .map(({ name, count }) => ({
+        name,
+        percentage: Math.round((count / totalApis) * 100)
+      }));
+    
+    // Rank APIs by their calls within the range
+    const callsByApi: Record<string, number> = {};
+    currentRows.forEach(row => {
+      callsByApi[row.api_id] = (callsByApi[row.api_id] || 0) + row.calls;
+    });
+    const topApis = [...apis]
+      .sort((a, b) => (callsByApi[b.id] || 0) - (callsByApi[a.id] || 0))
+      .slice(0, 3)
+      .map(api => ({
+        id: api.id,
+        name: api.name,
+        calls: callsByApi[api.id] || 0,
+        uptime: api.stats?.uptime ?? null,
+      }));
+    
+    return {
+      timeRange,
+      totalApis,
+      newApisLastMonth,
+      usage,
+      // Only compare when the history covers the whole previous period
+      callsChange: usageRows.some(row => row.day === bounds.previousFrom)
+        ? percentChange(usage.calls, summarizeUsage(previousRows).calls)
+        : null,
+      popularCategories,
+      apiCallsOverTime: buildUsageSeries(currentRows, timeRange, lastDay),
+      topApis,
+    };
+  } catch (error) {
+    console.error('Error calculating dashboard metrics:', error);
+    toast({
+      title: "Error",
+      description: "Failed to calculate dashboard metrics",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Fetch health checks, newest first
+export const fetchHealthChecks = async (query: HealthQuery = {}): Promise<ApiHealthCheck[]> => {
+  try {
+    return await catalog.listHealthChecks(query);
+  } catch (error) {
+    console.error('Error fetching health checks:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch health checks",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Fetch the per-day health rollup, oldest first
+export const fetchHealthDaily = async (query: HealthQuery = {}): Promise<ApiHealthDaily[]> => {
+  try {
+    return await catalog.listHealthDaily(query);
+  } catch (error) {
+    console.error('Error fetching daily health:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch daily health",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+export interface ApiStatusSummary {
+  id: string;
+  name: string;
+  category?: ApiCategory;
+  // Whether the API has a health path to probe
+  monitored: boolean;
+  // Result of the latest check, null without recent checks
+  status: HealthStatus | null;
+  lastCheckedAt: string | null;
+  // Uptime of the last 30 days from api_stats, the figure shown everywhere
+  // else; the bars show the days one by one
+  uptime: number | null;
+  responseTime: number | null;
+  days: StatusDay[];
+}
+
+export interface StatusOverview {
+  apis: ApiStatusSummary[];
+  // Declared incidents that are not resolved
+  incidents: Incident[];
+  // APIs failing their checks right now
+  outages: (DetectedOutage & { apiName: string })[];
+  days: number;
+}
+
+// Everything the public status page shows, for every API in the catalog
+export const getStatusOverview = async (): Promise<StatusOverview | null> => {
+  try {
+    const lastDay = today();
+    const [apis, healthStatus, incidents] = await Promise.all([
+      fetchApis(),
+      catalog.listApiHealthStatus(addDays(lastDay, -(STATUS_PAGE_DAYS - 1))),
+      listAssembledIncidents({ active: true }),
+    ]);
+    const healthByApi = new Map(healthStatus.map(status => [status.api_id, status]));
+
+    const summaries = apis.map((api): ApiStatusSummary => {
+      const health = healthByApi.get(api.id);
+      const rows = health?.days ?? [];
+      const latest = health?.latest ?? null;
+      return {
+        id: api.id,
+        name: api.name,
+        category: api.category,
+        monitored: Boolean(api.health_path),
+        status: latest?.status ?? null,
+        lastCheckedAt: latest?.checked_at ?? null,
+        uptime: api.stats?.uptime ?? null,
+        responseTime: api.stats?.response_time ?? null,
+        days: buildStatusDays(rows, lastDay),
+      };
+    });
+
+    const outages = apis.flatMap(api => {
+      const health = healthByApi.get(api.id);
+      const latest = health?.latest;
+      if (!latest || latest.status === "up" || !health.failing_since) return [];
+      return [{
+        apiId: api.id,
+        apiName: api.name,
+        status: latest.status,
+        since: health.failing_since,
+        error: latest.error,
+      }];
+    });
+
+    return {
+      apis: summaries.sort((a, b) => a.name.localeCompare(b.name)),
+      incidents,
+      outages: outages.sort((a, b) => b.since.localeCompare(a.since)),
+      days: STATUS_PAGE_DAYS,
+    };
+  } catch (error) {
+    console.error('Error building the status overview:', error);
+    toast({
+      title: "Error",
+      description: "Failed to load the API status",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Fetch the alert rules of an API, or of every API
+export const fetchAlertRules = async (apiId?: string): Promise<AlertRule[]> => {
+  try {
+    return await catalog.listAlertRules(apiId);
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch alert rules",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Rules and alerts are written by the owners of their API and by admins
+const assertCanEditAlertRule = async (id: string) => {
+  const rule = (await catalog.listAlertRules()).find(r => r.id === id);
+  assertAllowed(!rule || await canEditCurrentApi(rule.api_id), "You cannot change the alert rules of this API");
+};
+
+// Add an alert rule and evaluate its API right away, so a rule that is
+// already breached fires without waiting for the next probe run
+export const createAlertRule = async (input: NewAlertRule): Promise<AlertRule | null> => {
+  try {
+    assertAllowed(await canEditCurrentApi(input.api_id), "You cannot add alert rules to this API");
+    const rule = await catalog.createAlertRule(input);
+    await catalog.evaluateAlertRules(rule.api_id);
+    return rule;
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to create alert rule",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export const updateAlertRule = async (id: string, patch: AlertRulePatch): Promise<AlertRule | null> => {
+  try {
+    await assertCanEditAlertRule(id);
+    return await catalog.updateAlertRule(id, patch);
+  } catch (error) {
+    console.error(`Error updating alert rule with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update alert rule",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export const deleteAlertRule = async (id: string): Promise<boolean> => {
+  try {
+    await assertCanEditAlertRule(id);
+    await catalog.deleteAlertRule(id);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting alert rule with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to delete alert rule",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+// Fetch alerts, newest first
+export const fetchAlerts = async (query: AlertQuery = {}): Promise<ApiAlert[]> => {
+  try {
+    return await catalog.listAlerts(query);
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch alerts",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+const setAlertStatus = async (id: string, status: 'acknowledged' | 'resolved'): Promise<ApiAlert | null> => {
+  try {
+    const alert = (await catalog.listAlerts()).find(a => a.id === id);
+    assertAllowed(!alert || await canEditCurrentApi(alert.api_id), "You cannot change the alerts of this API");
+    return await catalog.setAlertStatus(id, status);
+  } catch (error) {
+    console.error(`Error updating alert with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to update alert",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export const acknowledgeAlert = (id: string) => setAlertStatus(id, 'acknowledged');
+
+export const resolveAlert = (id: string) => setAlertStatus(id, 'resolved');
+
+const requireUser = async (message: string) => {
+  const user = await auth.getUser();
+  if (!user) {
+    throw new Error(message);
+  }
+  return user;
+};
+
+// Follows, notifications and their preferences belong to the signed-in
+// user; visitors have none
+const NOTIFICATIONS_SIGN_IN = "Sign in to follow APIs and manage your notifications";
+
+// Fetch the APIs the current user follows
+export const fetchFollows = async (): Promise<ApiFollow[]> => {
+  try {
+    const user = await auth.getUser();
+    return user ? await catalog.listFollows(user.id) : [];
+  } catch (error) {
+    console.error('Error fetching follows:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch followed APIs",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+export const followApi = async (apiId: string): Promise<boolean> => {
+  try {
+    const user = await requireUser(NOTIFICATIONS_SIGN_IN);
+    await catalog.followApi(user.id, apiId);
+    return true;
+  } catch (error) {
+    console.error(`Error following API with ID ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to follow the API",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+export const unfollowApi = async (apiId: string): Promise<boolean> => {
+  try {
+    const user = await requireUser(NOTIFICATIONS_SIGN_IN);
+    await catalog.unfollowApi(user.id, apiId);
+    return true;
+  } catch (error) {
+    console.error(`Error unfollowing API with ID ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to unfollow the API",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+const COMMENTS_SIGN_IN = "Sign in to comment on APIs";
+
+// Fetch the comments on an API, oldest first
+export const fetchComments = async (apiId: string): Promise<ApiComment[]> => {
+  try {
+    return await catalog.listComments(apiId);
+  } catch (error) {
+    console.error(`Error fetching comments for API ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch comments",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Comment on an API as the signed-in user; its owners and followers are
+// notified
+export const addComment = async (apiId: string, body: string): Promise<ApiComment | null> => {
+  try {
+    const user = await requireUser(COMMENTS_SIGN_IN);
+    return await catalog.createComment({
+      api_id: apiId,
+      user_id: user.id,
+      author: user.name || user.email,
+      body,
+    });
+  } catch (error) {
+    console.error(`Error commenting on API with ID ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to add the comment",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Authors remove their comments; the API's owners and admins remove any
+export const deleteComment = async (comment: ApiComment): Promise<boolean> => {
+  try {
+    const user = await requireUser(COMMENTS_SIGN_IN);
+    assertAllowed(
+      comment.user_id === user.id || await canEditCurrentApi(comment.api_id),
+      "You cannot delete this comment"
+    );
+    await catalog.deleteComment(comment.id);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting comment with ID ${comment.id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to delete the comment",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+// Fetch the current user's notifications, newest first
+export const fetchNotifications = async (query: NotificationQuery = {}): Promise<UserNotification[]> => {
+  try {
+    const user = await auth.getUser();
+    return user ? await catalog.listNotifications(user.id, query) : [];
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch notifications",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Mark the given notifications, or all of them, as read
+export const markNotificationsRead = async (ids?: string[]): Promise<boolean> => {
+  try {
+    const user = await requireUser(NOTIFICATIONS_SIGN_IN);
+    await catalog.markNotificationsRead(user.id, ids);
+    return true;
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to mark notifications as read",
+      variant: "destructive",
+    });
+    return false;
+  }
+};
+
+export const fetchNotificationPreferences = async (): Promise<NotificationPreference[]> => {
+  try {
+    const user = await auth.getUser();
+    return user ? await catalog.listNotificationPreferences(user.id) : [];
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch notification preferences",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+export const setNotificationPreference = async (
+  type: NotificationType,
+  enabled: boolean
+): Promise<NotificationPreference | null> => {
+  try {
+    const user = await requireUser(NOTIFICATIONS_SIGN_IN);
+    return await catalog.setNotificationPreference(user.id, type, enabled);
+  } catch (error) {
+    console.error('Error saving notification preference:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to save the notification preference",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Applications, access requests and keys belong to the signed-in user
+const APPLICATIONS_SIGN_IN = "Sign in to manage your applications and keys";
+
+const assertOwnApplication = async (userId: string, applicationId: string) => {
+  const applications = await catalog.listApplications({ userId, ids: [applicationId] });
+  assertAllowed(applications.length > 0, "Only the owner of an application can manage its access and keys");
+};
+
+// Fetch the signed-in user's applications, by name
+export const fetchApplications = async (): Promise<Application[]> => {
+  try {
+    const user = await auth.getUser();
+    return user ? await catalog.listApplications({ userId: user.id }) : [];
+  } catch (error) {
+    console.error('Error fetching applications:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch your applications",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Fetch applications by id, e.g. the ones asking for access to an API
+export const fetchApplicationsById = async (ids: string[]): Promise<Application[]> => {
+  try {
+    return ids.length > 0 ? await catalog.listApplications({ ids }) : [];
+  } catch (error) {
+    console.error('Error fetching applications:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch applications",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+export const createApplication = async (
+  input: { name: string; description?: string | null }
+): Promise<Application | null> => {
+  try {
+    const user = await requireUser(APPLICATIONS_SIGN_IN);
+    return await catalog.createApplication({ ...input, user_id: user.id });
+  } catch (error) {
+    console.error('Error creating application:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to create application",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Fetch access requests, newest first
+export const fetchAccessRequests = async (query: AccessRequestQuery = {}): Promise<AccessRequest[]> => {
+  try {
+    return await catalog.listAccessRequests(query);
+  } catch (error) {
+    console.error('Error fetching access requests:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch access requests",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Ask for access to an API for one of the user's applications. APIs that
+// auto-approve return the request approved.
+export const requestAccess = async (
+  apiId: string,
+  applicationId: string,
+  message?: string
+): Promise<AccessRequest | null> => {
+  try {
+    const user = await requireUser(APPLICATIONS_SIGN_IN);
+    await assertOwnApplication(user.id, applicationId);
+    return await catalog.requestAccess({
+      api_id: apiId,
+      application_id: applicationId,
+      user_id: user.id,
+      message: message || null,
+    });
+  } catch (error) {
+    console.error(`Error requesting access to API with ID ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to request access",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Approve or reject a request. Only the API's owners and admins can.
+export const decideAccessRequest = async (
+  request: Pick<AccessRequest, 'id' | 'api_id'>,
+  decision: AccessDecision
+): Promise<AccessRequest | null> => {
+  try {
+    const user = await requireUser(APPLICATIONS_SIGN_IN);
+    assertAllowed(
+      await canEditCurrentApi(request.api_id),
+      "Only the API's owners and admins can decide on access requests"
+    );
+    return await catalog.decideAccessRequest(request.id, decision, user.id);
+  } catch (error) {
+    console.error(`Error deciding access request with ID ${request.id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to save the decision",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Fetch the access settings of an API, or of every API that has them
+export const fetchAccessSettings = async (apiId?: string): Promise<ApiAccessSettings[]> => {
+  try {
+    return await catalog.listAccessSettings(apiId);
+  } catch (error) {
+    console.error('Error fetching access settings:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch access settings",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Approve new access requests to an API automatically, or send them to the
+// approval queue. Only the API's owners and admins can.
+export const setAutoApprove = async (
+  apiId: string,
+  autoApprove: boolean
+): Promise<ApiAccessSettings | null> => {
+  try {
+    assertAllowed(
+      await canEditCurrentApi(apiId),
+      "Only the API's owners and admins can change how access is approved"
+    );
+    return await catalog.setAutoApprove(apiId, autoApprove);
+  } catch (error) {
+    console.error(`Error saving access settings of API with ID ${apiId}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to save access settings",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Fetch the keys of the given applications, newest first
+export const fetchApiKeys = async (query: ApiKeyQuery = {}): Promise<ApiKey[]> => {
+  try {
+    return await catalog.listApiKeys(query);
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch API keys",
+      variant: "destructive",
+    });
+    return [];
+  }
+};
+
+// Issue a key to an application with approved access. The secret in the
+// result cannot be read again.
+export const issueApiKey = async (input: NewApiKey): Promise<IssuedApiKey | null> => {
+  try {
+    const user = await requireUser(APPLICATIONS_SIGN_IN);
+    await assertOwnApplication(user.id, input.application_id);
+    return await catalog.issueApiKey(input);
+  } catch (error) {
+    console.error('Error issuing API key:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to issue the key",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+const findOwnApiKey = async (id: string): Promise<ApiKey> => {
+  const user = await requireUser(APPLICATIONS_SIGN_IN);
+  const applications = await catalog.listApplications({ userId: user.id });
+  const keys = await catalog.listApiKeys({ applicationIds: applications.map(a => a.id) });
+  const key = keys.find(k => k.id === id);
+  if (!key) {
+    throw new Error(`API key ${id} does not exist`);
+  }
+  return key;
+};
+
+// Revoke a key and issue a replacement that lasts as long
+export const rotateApiKey = async (id: string): Promise<IssuedApiKey | null> => {
+  try {
+    await findOwnApiKey(id);
+    return await catalog.rotateApiKey(id);
+  } catch (error) {
+    console.error(`Error rotating API key with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to rotate the key",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+export const revokeApiKey = async (id: string): Promise<ApiKey | null> => {
+  try {
+    await findOwnApiKey(id);
+    return await catalog.revokeApiKey(id);
+  } catch (error) {
+    console.error(`Error revoking API key with ID ${id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to revoke the key",
+      variant: "destructive",
+    });
+    return null;
+  }
+};
+
+// Revoke one key of an application with access to the API, leaving the
+// access approved. Only the API's owners and admins can.
+export const revokeApiKeyAsOwner = async (key: Pick<ApiKey, 'id' | 'api_id'>): Promise<ApiKey | null> => {
+  try {
+    assertAllowed(
+      await canEditCurrentApi(key.api_id),
+      "Only the API's owners and admins can revoke its keys"
+    );
+    return await catalog.revokeApiKeyAsOwner(key.id);
+  } catch (error) {
+    console.error(`Error revoking API key with ID ${key.id}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to revoke the key",
       variant: "destructive",
     });
     return null;
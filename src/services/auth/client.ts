@@ -0,0 +1,29 @@
+// The signed-in user, the same for every auth backend
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  avatar_url: string | null;
+}
+
+export interface SignUpInput {
+  email: string;
+  password: string;
+  name: string;
+}
+
+// Sign-in backend. Implementations throw on failure, with a message that
+// can be shown to the user.
+export interface AuthClient {
+  getUser(): Promise<AuthUser | null>;
+  // Called with the user after every sign-in and with null after signing
+  // out. Returns a function that stops listening.
+  onAuthChange(listener: (user: AuthUser | null) => void): () => void;
+
+  signInWithPassword(email: string, password: string): Promise<AuthUser>;
+  // Returns null when the email has to be confirmed before signing in
+  signUp(input: SignUpInput): Promise<AuthUser | null>;
+  // Emails a sign-in link that opens `redirectTo`
+  sendMagicLink(email: string, redirectTo: string): Promise<void>;
+  signOut(): Promise<void>;
+}
@@ -0,0 +1,14 @@
+import { supabase } from "@/integrations/supabase/client";
+import { catalogBackend } from "@/services/catalog";
+import type { AuthClient } from "./client";
+import { createSupabaseAuth } from "./supabaseAuth";
+import { createLocalAuth } from "./localAuth";
+
+export type { AuthClient, AuthUser, SignUpInput } from "./client";
+export { createSupabaseAuth } from "./supabaseAuth";
+export { createLocalAuth, LOCAL_ADMIN_USER, LOCAL_DEMO_USER } from "./localAuth";
+
+// Accounts follow the catalog: VITE_CATALOG_BACKEND=local signs in against
+// the local stand-in
+export const auth: AuthClient =
+  catalogBackend === "local" ? createLocalAuth() : createSupabaseAuth(supabase);
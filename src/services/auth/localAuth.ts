@@ -0,0 +1,156 @@
+import type { AuthClient, AuthUser } from "./client";
+
+const STORAGE_KEY = "api-vista-hub:auth";
+
+type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+// The stand-in keeps passwords in plain text: it is meant for offline
+// demos and tests, never for real accounts
+export interface LocalAuthUser extends AuthUser {
+  password: string | null;
+}
+
+interface LocalAuthState {
+  users: LocalAuthUser[];
+  currentUserId: string | null;
+}
+
+interface LocalAuthOptions {
+  // Where users and the session are persisted. Defaults to
+  // window.localStorage when available; pass null to keep them in memory.
+  storage?: KeyValueStorage | null;
+  users?: LocalAuthUser[];
+}
+
+// Accounts the seeded local portal can sign in with. The local catalog
+// seeds the demo user as an editor and the admin user as an admin.
+export const LOCAL_DEMO_USER: LocalAuthUser = {
+  id: 'user-1',
+  email: 'demo@apivista.dev',
+  name: 'Usuario Demo',
+  avatar_url: null,
+  password: 'demo1234',
+};
+
+export const LOCAL_ADMIN_USER: LocalAuthUser = {
+  id: 'user-admin',
+  email: 'admin@apivista.dev',
+  name: 'Administrador Demo',
+  avatar_url: null,
+  password: 'admin1234',
+};
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const defaultStorage = (): KeyValueStorage | null => {
+  try {
+    return typeof localStorage !== "undefined" ? localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+const newUserId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const toAuthUser = ({ password: _password, ...user }: LocalAuthUser): AuthUser => ({ ...user });
+
+// Auth backend that keeps accounts in the browser, so sign-in works with
+// the local catalog and in tests. There is no mailbox: a magic link signs
+// the user in at once, creating the account on first use.
+export const createLocalAuth = (options: LocalAuthOptions = {}): AuthClient => {
+  const storage = options.storage === undefined ? defaultStorage() : options.storage;
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const loadState = (): LocalAuthState => {
+    const initial = { users: options.users ?? [LOCAL_DEMO_USER, LOCAL_ADMIN_USER], currentUserId: null };
+    const saved = storage?.getItem(STORAGE_KEY);
+    if (!saved) return initial;
+    try {
+      // Seeded accounts added after the state was saved are kept too
+      const state: LocalAuthState = { ...initial, ...JSON.parse(saved) };
+      const missing = initial.users.filter(seeded => !state.users.some(u => u.id === seeded.id));
+      return { ...state, users: [...state.users, ...missing] };
+    } catch (error) {
+      console.error('Discarding unreadable local accounts:', error);
+      return initial;
+    }
+  };
+
+  const state = loadState();
+
+  const currentUser = () => state.users.find(u => u.id === state.currentUserId) ?? null;
+
+  const setCurrentUser = (user: LocalAuthUser | null) => {
+    state.currentUserId = user?.id ?? null;
+    storage?.setItem(STORAGE_KEY, JSON.stringify(state));
+    const authUser = user ? toAuthUser(user) : null;
+    listeners.forEach(listener => listener(authUser));
+    return authUser;
+  };
+
+  const findUser = (email: string) => state.users.find(u => u.email === normalizeEmail(email));
+
+  return {
+    async getUser() {
+      const user = currentUser();
+      return user ? toAuthUser(user) : null;
+    },
+
+    onAuthChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async signInWithPassword(email, password) {
+      const user = findUser(email);
+      if (!user || user.password === null || user.password !== password) {
+        throw new Error('Invalid login credentials');
+      }
+      return setCurrentUser(user) as AuthUser;
+    },
+
+    async signUp({ email, password, name }) {
+      if (!normalizeEmail(email).includes('@')) {
+        throw new Error('Unable to validate email address: invalid format');
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new Error(`Password should be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+      if (findUser(email)) {
+        throw new Error('User already registered');
+      }
+      const user: LocalAuthUser = {
+        id: newUserId(),
+        email: normalizeEmail(email),
+        name: name.trim() || null,
+        avatar_url: null,
+        password,
+      };
+      state.users.push(user);
+      return setCurrentUser(user);
+    },
+
+    async sendMagicLink(email) {
+      if (!normalizeEmail(email).includes('@')) {
+        throw new Error('Unable to validate email address: invalid format');
+      }
+      let user = findUser(email);
+      if (!user) {
+        user = { id: newUserId(), email: normalizeEmail(email), name: null, avatar_url: null, password: null };
+        state.users.push(user);
+      }
+      setCurrentUser(user);
+    },
+
+    async signOut() {
+      setCurrentUser(null);
+    },
+  };
+};
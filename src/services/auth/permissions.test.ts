@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createLocalRepository } from "@/services/catalog/localRepository";
+import type { CatalogRepository } from "@/services/catalog/repository";
+import type { AuthClient } from "./client";
+import { createLocalAuth, LOCAL_ADMIN_USER, LOCAL_DEMO_USER } from "./localAuth";
+import {
+  canCreateApis,
+  canDeclareIncidents,
+  canEditApi,
+  canEditTeam,
+  canManageCategories,
+  canManageTeamMembers,
+  isAdmin,
+  primaryRole,
+} from "./permissions";
+
+let auth: AuthClient;
+let catalog: CatalogRepository;
+
+// The signed-in user's roles, like apiService reads them
+const currentRoles = async () => {
+  const user = await auth.getUser();
+  return user ? catalog.listUserRoles(user.id) : [];
+};
+
+const signIn = ({ email, password }: typeof LOCAL_DEMO_USER) => auth.signInWithPassword(email, password!);
+
+beforeEach(() => {
+  auth = createLocalAuth({ storage: null });
+  catalog = createLocalRepository({ storage: null });
+});
+
+describe("permissions of the local accounts", () => {
+  it("give signed-out visitors no rights", async () => {
+    const roles = await currentRoles();
+    expect(primaryRole(roles)).toBe("viewer");
+    expect(canCreateApis(roles)).toBe(false);
+    expect(canEditApi(roles, { id: "1" }, [])).toBe(false);
+  });
+
+  it("let editors create APIs and edit the ones they created", async () => {
+    const user = await signIn(LOCAL_DEMO_USER);
+    expect(primaryRole(await currentRoles())).toBe("editor");
+    expect(canCreateApis(await currentRoles())).toBe(true);
+    expect(canManageCategories(await currentRoles())).toBe(false);
+
+    const api = await catalog.createApi({
+      name: "Own API",
+      description: "Created by the demo user",
+      version: "v1",
+      team_id: "team-2",
+      base_url: "https://own.example.com",
+      documentation_url: null,
+      category_id: "1",
+      tags: [],
+      auth_type: "none",
+      auth_description: null,
+      health_path: null,
+      lifecycle: "stable",
+      sunset_at: null,
+      successor_id: null,
+      created_by: user.id,
+    });
+
+    const roles = await currentRoles();
+    expect(canEditApi(roles, api, [])).toBe(true);
+    expect(primaryRole(roles)).toBe("editor");
+  });
+
+  it("let admins edit every API and manage categories", async () => {
+    await signIn(LOCAL_ADMIN_USER);
+    const roles = await currentRoles();
+    expect(isAdmin(roles)).toBe(true);
+    expect(canEditApi(roles, { id: "1" }, [])).toBe(true);
+    expect(canManageCategories(roles)).toBe(true);
+  });
+
+  it("drop the rights on sign-out", async () => {
+    await signIn(LOCAL_ADMIN_USER);
+    await auth.signOut();
+    expect(await currentRoles()).toEqual([]);
+  });
+
+  it("let team members edit the APIs of their team", async () => {
+    const demo = await signIn(LOCAL_DEMO_USER);
+    const roles = await currentRoles();
+    const teamApiIds = await catalog.listTeamApiIds(demo.id);
+    const apis = await catalog.listApis();
+    const teamApi = apis.find(api => api.team_id === "team-1")!;
+    const otherApi = apis.find(api => api.team_id !== "team-1")!;
+
+    expect(canEditApi(roles, teamApi, teamApiIds)).toBe(true);
+    expect(canEditApi(roles, teamApi, [])).toBe(false);
+    expect(canEditApi(roles, otherApi, teamApiIds)).toBe(false);
+    expect(canDeclareIncidents(roles, teamApiIds)).toBe(true);
+  });
+
+  it("let members edit a team, and only its creator and admins manage its members", async () => {
+    const team = (await catalog.getTeam("team-1"))!;
+    const members = await catalog.listTeamMembers("team-1");
+
+    const demo = await signIn(LOCAL_DEMO_USER);
+    expect(canEditTeam(await currentRoles(), demo.id, team, members)).toBe(true);
+    expect(canEditTeam(await currentRoles(), demo.id, team, [])).toBe(false);
+    expect(canManageTeamMembers(await currentRoles(), demo.id, team)).toBe(false);
+    expect(canManageTeamMembers(await currentRoles(), demo.id, { created_by: demo.id })).toBe(true);
+
+    const admin = await signIn(LOCAL_ADMIN_USER);
+    expect(canEditTeam(await currentRoles(), admin.id, team, [])).toBe(true);
+    expect(canManageTeamMembers(await currentRoles(), admin.id, team)).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import type { AppRole, ApiRecord, IncidentImpact, TeamMember, TeamRecord, UserRole } from "@/services/types";
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  viewer: 'Lector',
+  editor: 'Editor',
+  owner: 'Propietario',
+  admin: 'Administrador',
+};
+
+// Portal-wide roles only; owner rows grant a single API
+export const hasRole = (roles: UserRole[], role: AppRole) =>
+  roles.some(r => r.role === role && r.api_id === null);
+
+export const isAdmin = (roles: UserRole[]) => hasRole(roles, 'admin');
+
+// Same rules as the Supabase policies on apis, api_endpoints, api_stats
+// and api_categories (see the user_roles migration)
+export const canCreateApis = (roles: UserRole[]) => hasRole(roles, 'editor') || isAdmin(roles);
+
+// teamApiIds are the APIs owned by the user's teams, whose members edit
+// them like owners (see the team edit rights migration)
+export const canEditApi = (roles: UserRole[], api: Pick<ApiRecord, 'id'>, teamApiIds: string[]) =>
+  isAdmin(roles) || roles.some(r => r.role === 'owner' && r.api_id === api.id) || teamApiIds.includes(api.id);
+
+export const canManageCategories = (roles: UserRole[]) => isAdmin(roles);
+
+// Editors create teams for the APIs they add. The team's creator and
+// admins choose its members; members also keep its details up to date.
+export const canCreateTeams = canCreateApis;
+
+export const canManageTeamMembers = (
+  roles: UserRole[],
+  userId: string | null,
+  team: Pick<TeamRecord, 'created_by'>
+) => isAdmin(roles) || (userId !== null && team.created_by === userId);
+
+export const canEditTeam = (
+  roles: UserRole[],
+  userId: string | null,
+  team: Pick<TeamRecord, 'created_by'>,
+  members: Pick<TeamMember, 'user_id'>[]
+) => canManageTeamMembers(roles, userId, team) || (userId !== null && members.some(m => m.user_id === userId));
+
+// Owners and team members declare incidents on their APIs; admins on any API
+export const canDeclareIncidents = (roles: UserRole[], teamApiIds: string[]) =>
+  isAdmin(roles) || roles.some(r => r.role === 'owner') || teamApiIds.length > 0;
+
+// Admins, or editors of every API the incident affects (see the incident
+// policies migration)
+export const canEditIncident = (
+  roles: UserRole[],
+  affected: Pick<IncidentImpact, 'api_id'>[],
+  teamApiIds: string[]
+) =>
+  isAdmin(roles) ||
+  (affected.length > 0 && affected.every(impact => canEditApi(roles, { id: impact.api_id }, teamApiIds)));
+
+// Owners, team members and admins review the access requests to their APIs
+export const canReviewAccess = (roles: UserRole[], teamApiIds: string[]) =>
+  isAdmin(roles) || roles.some(r => r.role === 'owner') || teamApiIds.length > 0;
+
+// The role to show for a user: the highest portal-wide role, or owner when
+// they only own APIs
+export const primaryRole = (roles: UserRole[]): AppRole => {
+  if (isAdmin(roles)) return 'admin';
+  if (hasRole(roles, 'editor')) return 'editor';
+  if (roles.some(r => r.role === 'owner')) return 'owner';
+  return 'viewer';
+};
@@ -0,0 +1,56 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import type { AuthClient, AuthUser } from "./client";
+
+// The display name and picture live in the user metadata; OAuth providers
+// use `name`/`picture`, sign-up stores `full_name`
+const toAuthUser = (user: User): AuthUser => ({
+  id: user.id,
+  email: user.email ?? '',
+  name: user.user_metadata?.full_name ?? user.user_metadata?.name ?? null,
+  avatar_url: user.user_metadata?.avatar_url ?? user.user_metadata?.picture ?? null,
+});
+
+export const createSupabaseAuth = (client: SupabaseClient<Database>): AuthClient => ({
+  async getUser() {
+    const { data, error } = await client.auth.getSession();
+    if (error) throw new Error(error.message);
+    return data.session ? toAuthUser(data.session.user) : null;
+  },
+
+  onAuthChange(listener) {
+    const { data } = client.auth.onAuthStateChange((_event, session) => {
+      listener(session ? toAuthUser(session.user) : null);
+    });
+    return () => data.subscription.unsubscribe();
+  },
+
+  async signInWithPassword(email, password) {
+    const { data, error } = await client.auth.signInWithPassword({ email, password });
+    if (error) throw new Error(error.message);
+    return toAuthUser(data.user);
+  },
+
+  async signUp({ email, password, name }) {
+    const { data, error } = await client.auth.signUp({
+      email,
+      password,
+      options: { data: { full_name: name } },
+    });
+    if (error) throw new Error(error.message);
+    return data.session ? toAuthUser(data.session.user) : null;
+  },
+
+  async sendMagicLink(email, redirectTo) {
+    const { error } = await client.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  async signOut() {
+    const { error } = await client.auth.signOut();
+    if (error) throw new Error(error.message);
+  },
+});
@@ -0,0 +1,17 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { CatalogBackend, CatalogRepository } from "./repository";
+import { createSupabaseRepository } from "./supabaseRepository";
+import { createLocalRepository } from "./localRepository";
+
+export type { CatalogBackend, CatalogRepository } from "./repository";
+export { createSupabaseRepository } from "./supabaseRepository";
+export { createLocalRepository } from "./localRepository";
+
+// Set VITE_CATALOG_BACKEND=local to run the portal without Supabase
+export const catalogBackend: CatalogBackend =
+  import.meta.env.VITE_CATALOG_BACKEND === "local" ? "local" : "supabase";
+
+export const catalog: CatalogRepository =
+  catalogBackend === "local"
+    ? createLocalRepository()
+    : createSupabaseRepository(supabase);
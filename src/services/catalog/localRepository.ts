@@ -0,0 +1,1459 @@
+import type {
+  AccessRequest,
+  AlertRule,
+  Api,
+  ApiAlert,
+  ApiKey,
+  ApiRecord,
+  ApiSearchFilters,
+  ApiVersion,
+  Application,
+  EndpointInput,
+  Incident,
+  IncidentImpact,
+  NewApiCall,
+  NotificationData,
+  NotificationType,
+  Team,
+  TeamMemberInput,
+  TeamRecord,
+} from "@/services/types";
+import { planAlertChanges } from "@/services/alerts/evaluate";
+import { isNotificationEnabled } from "@/services/notifications/events";
+import { deriveHealthStats, DAY_MS, rollupHealthDaily } from "@/services/health/summary";
+import { detectOutage } from "@/services/health/status";
+import { applyIncidentDowntime } from "@/services/incidents/impact";
+import { rollupApiCalls, trafficResponseTime } from "@/services/usage/calls";
+import { buildSearchDocument, rankDocument, searchTerms } from "@/services/search/ranking";
+import { addDays, today } from "@/lib/days";
+import { generateApiKey, getKeyStatus, hashApiKey, keyPrefix, rotatedExpiry } from "@/services/access/keys";
+import type { CatalogRepository } from "./repository";
+import { buildSeedTables, type CatalogTables } from "./seed";
+
+const STORAGE_KEY = "api-vista-hub:catalog";
+
+type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+interface LocalRepositoryOptions {
+  // Where the tables are persisted. Defaults to window.localStorage when
+  // available; pass null to keep everything in memory.
+  storage?: KeyValueStorage | null;
+  seed?: CatalogTables;
+}
+
+const defaultStorage = (): KeyValueStorage | null => {
+  try {
+    return typeof localStorage !== "undefined" ? localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+// Same defaults as the api_endpoints columns
+const withEndpointDefaults = <T extends EndpointInput>(endpoint: T) => ({
+  ...endpoint,
+  parameters: endpoint.parameters || [],
+  request_body: endpoint.request_body || null,
+  responses: endpoint.responses || [],
+});
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// The tag, team, method and calls filters of searchApis, like the
+// search_apis database function
+const matchesSearchFilters = (api: Api, filters: ApiSearchFilters) => {
+  const lower = (values: string[] = []) => values.map(value => value.toLowerCase());
+  const tags = lower(api.tags);
+  const team = api.team?.name.toLowerCase();
+  const methods = lower((api.endpoints || []).map(endpoint => endpoint.method));
+  const calls = api.stats?.total_calls ?? 0;
+
+  return lower(filters.tags).every(tag => tags.includes(tag)) &&
+    !lower(filters.excludedTags).some(tag => tags.includes(tag)) &&
+    (!filters.owner || team === filters.owner.toLowerCase()) &&
+    !lower(filters.excludedOwners).some(owner => owner === team) &&
+    lower(filters.methods).every(method => methods.includes(method)) &&
+    !lower(filters.excludedMethods).some(method => methods.includes(method)) &&
+    (filters.minCalls === undefined || calls >= filters.minCalls) &&
+    (filters.maxCalls === undefined || calls <= filters.maxCalls);
+};
+
+// APIs saved before teams existed name their owner instead. Like the teams
+// migration, each owner becomes the team with that name.
+const ownerTeamId = (tables: CatalogTables, owner: string | undefined) => {
+  const name = owner?.trim() || 'Sin equipo';
+  let team = tables.teams.find(t => t.name === name);
+  if (!team) {
+    const now = new Date().toISOString();
+    team = {
+      id: newId(),
+      name,
+      description: null,
+      contact_channels: [],
+      on_call_rotation: null,
+      created_by: null,
+      created_at: now,
+      updated_at: now,
+    };
+    tables.teams.push(team);
+  }
+  return team.id;
+};
+
+const loadTables = (storage: KeyValueStorage | null, seed: CatalogTables): CatalogTables => {
+  const saved = storage?.getItem(STORAGE_KEY);
+  if (!saved) return seed;
+  try {
+    // Tables and columns added after the data was saved start from the
+    // seed and the column defaults
+    const parsed = JSON.parse(saved);
+    const tables: CatalogTables = { ...seed, ...parsed };
+    tables.apis = tables.apis.map(({ owner, ...api }: ApiRecord & { owner?: string }) => ({
+      ...api,
+      team_id: api.team_id ?? ownerTeamId(tables, owner),
+      health_path: api.health_path ?? null,
+      lifecycle: api.lifecycle ?? 'stable',
+      deprecated_at: api.deprecated_at ?? null,
+      sunset_at: api.sunset_at ?? null,
+      successor_id: api.successor_id ?? null,
+      created_by: api.created_by ?? null,
+    }));
+    tables.teams = tables.teams.map(team => ({ ...team, created_by: team.created_by ?? null }));
+    // Like the api_versions migration, each API saved before versions
+    // existed gets a current version holding all its endpoints
+    if (!parsed.api_versions) {
+      tables.api_versions = tables.apis.map(api => ({
+        id: newId(),
+        api_id: api.id,
+        version: api.version,
+        base_url: api.base_url,
+        auth_type: api.auth_type,
+        auth_description: api.auth_description,
+        status: 'current',
+        breaking_allowed: false,
+        created_at: api.created_at,
+      }));
+    }
+    tables.api_versions = tables.api_versions.map(version => ({
+      ...version,
+      breaking_allowed: version.breaking_allowed ?? false,
+    }));
+    tables.api_endpoints = tables.api_endpoints.map(endpoint => ({
+      ...withEndpointDefaults(endpoint),
+      version_id: endpoint.version_id
+        ?? tables.api_versions.find(v => v.api_id === endpoint.api_id && v.status === 'current')!.id,
+    }));
+    return tables;
+  } catch (error) {
+    console.error('Discarding unreadable local catalog:', error);
+    return seed;
+  }
+};
+
+// Catalog backend that keeps the tables in memory, seeded from the mock
+// data, so the portal runs without a Supabase project
+export const createLocalRepository = (
+  options: LocalRepositoryOptions = {}
+): CatalogRepository => {
+  const storage = options.storage === undefined ? defaultStorage() : options.storage;
+  const tables = loadTables(storage, options.seed ?? buildSeedTables());
+
+  const persist = () => {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(tables));
+  };
+
+  // Mirror the database functions: either every change in `work` is kept,
+  // or the tables are restored to where they were
+  const transaction = <T,>(work: () => T): T => {
+    const snapshot = clone(tables);
+    try {
+      const result = work();
+      persist();
+      return result;
+    } catch (error) {
+      Object.assign(tables, snapshot);
+      throw error;
+    }
+  };
+
+  const findCategory = (id: string) => {
+    const category = tables.api_categories.find(c => c.id === id);
+    if (!category) {
+      throw new Error(`Category ${id} does not exist`);
+    }
+    return category;
+  };
+
+  const assertCategoryName = (name: string) => {
+    if (!name.trim()) {
+      throw new Error('Categories need a name');
+    }
+  };
+
+  const findTeam = (id: string): TeamRecord => {
+    const team = tables.teams.find(t => t.id === id);
+    if (!team) {
+      throw new Error(`Team ${id} does not exist`);
+    }
+    return team;
+  };
+
+  // Team names are unique, like the teams.name constraint
+  const assertTeamName = (name: string, teamId?: string) => {
+    if (!name.trim()) {
+      throw new Error('Teams need a name');
+    }
+    if (tables.teams.some(t => t.id !== teamId && t.name === name.trim())) {
+      throw new Error(`A team named ${name.trim()} already exists`);
+    }
+  };
+
+  const assertTeamMember = (member: TeamMemberInput) => {
+    if (!member.name?.trim()) {
+      throw new Error('Team members need a name');
+    }
+  };
+
+  // Same defaults as the team_members columns
+  const toTeamMember = (teamId: string, member: TeamMemberInput, now: string) => ({
+    id: newId(),
+    team_id: teamId,
+    user_id: member.user_id || null,
+    name: member.name.trim(),
+    email: member.email || null,
+    role: member.role || null,
+    created_at: now,
+  });
+
+  // Same shape as the team_as_json database function
+  const teamAsJson = (id: string): Team =>
+    clone({
+      ...findTeam(id),
+      members: tables.team_members.filter(m => m.team_id === id),
+    });
+
+  const findApi = (id: string): ApiRecord => {
+    const row = tables.apis.find(a => a.id === id);
+    if (!row) {
+      throw new Error(`API ${id} does not exist`);
+    }
+    return row;
+  };
+
+  // Every API has one, like the api_versions_current_idx index guarantees
+  const findCurrentVersion = (apiId: string): ApiVersion => {
+    const version = tables.api_versions.find(v => v.api_id === apiId && v.status === 'current');
+    if (!version) {
+      throw new Error(`API ${apiId} has no current version`);
+    }
+    return version;
+  };
+
+  // Version names are unique per API, like the api_versions constraint
+  const assertVersionName = (apiId: string, version: string, versionId?: string) => {
+    if (!version.trim()) {
+      throw new Error('New versions need a name');
+    }
+    if (tables.api_versions.some(v => v.api_id === apiId && v.id !== versionId && v.version === version.trim())) {
+      throw new Error(`Version ${version.trim()} already exists`);
+    }
+  };
+
+  // Same rules as the apis_successor_check and apis_deprecation_check
+  // constraints
+  const assertLifecycle = (api: ApiRecord) => {
+    if (api.successor_id === api.id) {
+      throw new Error('An API cannot be its own successor');
+    }
+    if (api.successor_id) findApi(api.successor_id);
+    if (api.lifecycle === 'deprecated' && (!api.sunset_at || !api.successor_id)) {
+      throw new Error('Deprecated APIs need a sunset date and a successor');
+    }
+  };
+
+  const assertEndpoint = (endpoint: { path: string; method: string }) => {
+    if (!endpoint.path || !endpoint.method) {
+      throw new Error('Endpoints need a path and a method');
+    }
+  };
+
+  // Same shape as the incident_as_json database function
+  const incidentAsJson = (id: string): Incident => {
+    const incident = tables.incidents.find(i => i.id === id);
+    if (!incident) {
+      throw new Error(`Incident ${id} does not exist`);
+    }
+    return clone({
+      ...incident,
+      affected: tables.incident_apis
+        .filter(impact => impact.incident_id === id)
+        .map(({ api_id, endpoint_ids }) => ({ api_id, endpoint_ids })),
+      updates: tables.incident_updates
+        .filter(update => update.incident_id === id)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    });
+  };
+
+  const assertIncidentTitle = (title: string) => {
+    if (!title.trim()) {
+      throw new Error('Incidents need a title');
+    }
+  };
+
+  // Every affected API must exist and the endpoints must belong to it
+  const setIncidentApis = (incidentId: string, affected: IncidentImpact[]) => {
+    if (affected.length === 0) {
+      throw new Error('Incidents need at least one affected API');
+    }
+    affected.forEach(impact => {
+      findApi(impact.api_id);
+      impact.endpoint_ids.forEach(endpointId => {
+        if (!tables.api_endpoints.some(e => e.id === endpointId && e.api_id === impact.api_id)) {
+          throw new Error(`Endpoint ${endpointId} does not belong to API ${impact.api_id}`);
+        }
+      });
+    });
+    tables.incident_apis = [
+      ...tables.incident_apis.filter(impact => impact.incident_id !== incidentId),
+      ...affected.map(impact => ({ ...impact, incident_id: incidentId })),
+    ];
+  };
+
+  const incidentsWithImpact = () =>
+    tables.incidents.map(incident => ({
+      ...incident,
+      affected: tables.incident_apis.filter(impact => impact.incident_id === incident.id),
+    }));
+
+  // Same rules as the refresh_api_health_stats database function. A day
+  // of gateway calls measures response time better than the probes.
+  const refreshHealthStats = (apiIds: Iterable<string>) => {
+    const now = new Date().toISOString();
+    const incidents = incidentsWithImpact();
+    new Set(apiIds).forEach(apiId => {
+      const checks = tables.api_health_checks.filter(h => h.api_id === apiId);
+      const derived = deriveHealthStats(applyIncidentDowntime(checks, incidents));
+      if (!derived) return;
+      const trafficTime = trafficResponseTime(tables.api_calls.filter(c => c.api_id === apiId));
+      tables.api_stats
+        .filter(s => s.api_id === apiId)
+        .forEach(row => Object.assign(row, derived, {
+          response_time: trafficTime ?? derived.response_time,
+          updated_at: now,
+        }));
+    });
+  };
+
+  // Same rules as the record_api_calls database function
+  const refreshTrafficStats = (recorded: NewApiCall[]) => {
+    const now = new Date().toISOString();
+    const dayKey = (call: NewApiCall) => `${call.api_id}|${call.called_at.slice(0, 10)}`;
+    const days = new Set(recorded.map(dayKey));
+    rollupApiCalls(tables.api_calls.filter(c => days.has(dayKey(c)))).forEach(row => {
+      const existing = tables.api_usage_daily.find(u => u.api_id === row.api_id && u.day === row.day);
+      if (existing) {
+        Object.assign(existing, row, { updated_at: now });
+      } else {
+        tables.api_usage_daily.push({ ...row, id: newId(), updated_at: now });
+      }
+    });
+
+    const weekStart = addDays(today(), -6);
+    new Set(recorded.map(call => call.api_id)).forEach(apiId => {
+      const lastWeekCalls = tables.api_usage_daily
+        .filter(u => u.api_id === apiId && u.day >= weekStart)
+        .reduce((sum, u) => sum + u.calls, 0);
+      const added = recorded.filter(call => call.api_id === apiId).length;
+      const trafficTime = trafficResponseTime(tables.api_calls.filter(c => c.api_id === apiId));
+      tables.api_stats
+        .filter(s => s.api_id === apiId)
+        .forEach(row => Object.assign(row, {
+          total_calls: row.total_calls + added,
+          last_week_calls: lastWeekCalls,
+          response_time: trafficTime ?? row.response_time,
+          updated_at: now,
+        }));
+    });
+  };
+
+  const assertAlertRule = (rule: Pick<AlertRule, 'threshold' | 'window_days'>) => {
+    if (!(rule.threshold > 0)) {
+      throw new Error('Alert thresholds must be greater than zero');
+    }
+    if (!Number.isInteger(rule.window_days) || rule.window_days < 1) {
+      throw new Error('Alert windows must be a whole number of days');
+    }
+  };
+
+  const findAlert = (id: string): ApiAlert => {
+    const alert = tables.alerts.find(a => a.id === id);
+    if (!alert) {
+      throw new Error(`Alert ${id} does not exist`);
+    }
+    return alert;
+  };
+
+  // Same rules as the notify_user database function: skipped when the
+  // user has turned the type off
+  const notifyUser = (userId: string, apiId: string | null, type: NotificationType, data: NotificationData) => {
+    if (!isNotificationEnabled(tables.notification_preferences.filter(p => p.user_id === userId), type)) {
+      return;
+    }
+    tables.notifications.push({
+      id: newId(),
+      user_id: userId,
+      type,
+      api_id: apiId,
+      data,
+      read_at: null,
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  // Same rules as the notify_api_followers database function: one
+  // notification per follower that has not turned the type off
+  const notifyFollowers = (apiId: string, type: NotificationType, data: NotificationData) => {
+    tables.api_follows
+      .filter(follow => follow.api_id === apiId)
+      .forEach(follow => notifyUser(follow.user_id, apiId, type, data));
+  };
+
+  const findApplication = (id: string): Application => {
+    const application = tables.applications.find(a => a.id === id);
+    if (!application) {
+      throw new Error(`Application ${id} does not exist`);
+    }
+    return application;
+  };
+
+  const findAccessRequest = (id: string): AccessRequest => {
+    const request = tables.access_requests.find(r => r.id === id);
+    if (!request) {
+      throw new Error(`Access request ${id} does not exist`);
+    }
+    return request;
+  };
+
+  const findApiKey = (id: string): ApiKey => {
+    const key = tables.api_keys.find(k => k.id === id);
+    if (!key) {
+      throw new Error(`API key ${id} does not exist`);
+    }
+    return key;
+  };
+
+  // Same checks as the issue_api_key database function. The secret is
+  // generated and hashed beforehand, since hashing is asynchronous.
+  const insertApiKey = (
+    applicationId: string,
+    apiId: string,
+    expiresAt: string | null,
+    secret: string,
+    keyHash: string
+  ): ApiKey => {
+    findApplication(applicationId);
+    const approved = tables.access_requests.some(
+      r => r.application_id === applicationId && r.api_id === apiId && r.status === 'approved'
+    );
+    if (!approved) {
+      throw new Error('The application has no approved access to this API');
+    }
+    if (expiresAt && Date.parse(expiresAt) <= Date.now()) {
+      throw new Error('Keys must expire in the future');
+    }
+
+    const key: ApiKey = {
+      id: newId(),
+      application_id: applicationId,
+      api_id: apiId,
+      prefix: keyPrefix(secret),
+      key_hash: keyHash,
+      expires_at: expiresAt,
+      revoked_at: null,
+      last_used_at: null,
+      created_at: new Date().toISOString(),
+    };
+    tables.api_keys.push(key);
+    return key;
+  };
+
+  // Same rules as the evaluate_alert_rules database function. Omitting
+  // apiIds evaluates the rules of every API.
+  const evaluateAlerts = (apiIds?: Iterable<string>): ApiAlert[] => {
+    const scope = apiIds ? new Set(apiIds) : null;
+    const inScope = (row: { api_id: string }) => !scope || scope.has(row.api_id);
+    const rules = tables.alert_rules.filter(inScope);
+    if (rules.length === 0) return [];
+
+    const now = new Date();
+    const { fired, cleared } = planAlertChanges(
+      rules,
+      tables.alerts.filter(alert => alert.status !== 'resolved'),
+      {
+        checks: applyIncidentDowntime(tables.api_health_checks.filter(inScope), incidentsWithImpact()),
+        usage: tables.api_usage_daily.filter(inScope),
+      },
+      now
+    );
+
+    tables.alerts
+      .filter(alert => cleared.includes(alert.id))
+      .forEach(alert => Object.assign(alert, { status: 'resolved', resolved_at: now.toISOString() }));
+    const alerts = fired.map(alert => ({ ...alert, id: newId() }));
+    tables.alerts.push(...alerts);
+    alerts.forEach(({ id, api_id, metric, threshold, window_days, value }) =>
+      notifyFollowers(api_id, 'alert_fired', { alert_id: id, metric, threshold, window_days, value })
+    );
+    return clone(alerts);
+  };
+
+  // Same shape as the api_as_json database function
+  const apiAsJson = (id: string): Api => {
+    const api = findApi(id);
+    return clone({
+      ...api,
+      category: tables.api_categories.find(c => c.id === api.category_id),
+      team: tables.teams.find(t => t.id === api.team_id),
+      stats: tables.api_stats.find(s => s.api_id === id),
+      endpoints: tables.api_endpoints.filter(e => e.version_id === findCurrentVersion(id).id),
+    });
+  };
+
+  return {
+    async listCategories() {
+      return clone(tables.api_categories);
+    },
+
+    async getCategory(id) {
+      const category = tables.api_categories.find(c => c.id === id);
+      return category ? clone(category) : null;
+    },
+
+    async createCategory(input) {
+      return transaction(() => {
+        assertCategoryName(input.name);
+        const category = { ...clone(input), id: newId() };
+        tables.api_categories.push(category);
+        return clone(category);
+      });
+    },
+
+    async updateCategory(id, patch) {
+      return transaction(() => {
+        const category = findCategory(id);
+        Object.assign(category, clone(patch));
+        assertCategoryName(category.name);
+        return clone(category);
+      });
+    },
+
+    async deleteCategory(id) {
+      transaction(() => {
+        if (tables.apis.some(a => a.category_id === id)) {
+          throw new Error(`Category ${id} still has APIs`);
+        }
+        tables.api_categories = tables.api_categories.filter(c => c.id !== id);
+      });
+    },
+
+    async listTeams() {
+      return clone([...tables.teams].sort((a, b) => a.name.localeCompare(b.name)));
+    },
+
+    async getTeam(id) {
+      const team = tables.teams.find(t => t.id === id);
+      return team ? clone(team) : null;
+    },
+
+    async listTeamMembers(teamId) {
+      return clone(tables.team_members.filter(m => !teamId || m.team_id === teamId));
+    },
+
+    async listTeamApiIds(userId) {
+      const teamIds = new Set(tables.team_members.filter(m => m.user_id === userId).map(m => m.team_id));
+      return tables.apis.filter(api => teamIds.has(api.team_id)).map(api => api.id);
+    },
+
+    async createTeam(input) {
+      return transaction(() => {
+        const { members = [], ...fields } = clone(input);
+        assertTeamName(fields.name);
+
+        const now = new Date().toISOString();
+        const id = newId();
+        tables.teams.push({
+          id,
+          name: fields.name.trim(),
+          description: fields.description || null,
+          contact_channels: fields.contact_channels || [],
+          on_call_rotation: fields.on_call_rotation || null,
+          created_by: fields.created_by ?? null,
+          created_at: now,
+          updated_at: now,
+        });
+        members.forEach(member => {
+          assertTeamMember(member);
+          tables.team_members.push(toTeamMember(id, member, now));
+        });
+
+        return teamAsJson(id);
+      });
+    },
+
+    async updateTeam(id, input) {
+      return transaction(() => {
+        const { members, ...fields } = clone(input);
+        const team = findTeam(id);
+        if (fields.name !== undefined) {
+          assertTeamName(fields.name, id);
+          fields.name = fields.name.trim();
+        }
+
+        const now = new Date().toISOString();
+        Object.assign(team, fields, { updated_at: now });
+
+        if (members) {
+          const keptIds = new Set(members.filter(m => m.id).map(m => m.id));
+          tables.team_members = tables.team_members.filter(m => m.team_id !== id || keptIds.has(m.id));
+
+          members.forEach(({ id: memberId, ...member }) => {
+            assertTeamMember(member);
+            const existing = memberId
+              ? tables.team_members.find(m => m.id === memberId && m.team_id === id)
+              : undefined;
+            if (existing) {
+              const { id: _id, created_at: _createdAt, ...changes } = toTeamMember(id, member, now);
+              Object.assign(existing, changes);
+            } else if (!memberId) {
+              tables.team_members.push(toTeamMember(id, member, now));
+            }
+          });
+        }
+
+        return teamAsJson(id);
+      });
+    },
+
+    async listApis() {
+      return clone(tables.apis);
+    },
+
+    async getApi(id) {
+      const api = tables.apis.find(a => a.id === id);
+      return api ? clone(api) : null;
+    },
+
+    async listTags() {
+      return [...new Set(tables.apis.flatMap(api => api.tags))].sort(
+        (a, b) => a.toLowerCase().localeCompare(b.toLowerCase()) || a.localeCompare(b)
+      );
+    },
+
+    // Same filters and order as the search_apis database function
+    async searchApis(query, filters, { offset, limit }) {
+      const terms = searchTerms(query);
+      const matches = tables.apis
+        .filter(api => !filters.categoryId || api.category_id === filters.categoryId)
+        .filter(api => !filters.authType || api.auth_type === filters.authType)
+        .map(row => apiAsJson(row.id))
+        .filter(api => matchesSearchFilters(api, filters))
+        .map(api => ({ api, rank: rankDocument(buildSearchDocument(api), terms) }))
+        .filter((match): match is { api: Api; rank: number } => match.rank !== null);
+
+      const hidesRetired = !filters.lifecycle && !filters.includeRetired;
+      const shown = matches.filter(({ api }) =>
+        filters.lifecycle ? api.lifecycle === filters.lifecycle : !hidesRetired || api.lifecycle !== 'retired'
+      );
+
+      const sortBy = filters.sortBy || 'relevance';
+      shown.sort((a, b) =>
+        (sortBy === 'relevance' ? b.rank - a.rank : 0) ||
+        (sortBy === 'date' ? b.api.created_at.localeCompare(a.api.created_at) : 0) ||
+        (sortBy === 'uptime' ? (b.api.stats?.uptime ?? -1) - (a.api.stats?.uptime ?? -1) : 0) ||
+        (sortBy === 'name' ? a.api.name.localeCompare(b.api.name) : 0) ||
+        (b.api.stats?.total_calls ?? 0) - (a.api.stats?.total_calls ?? 0) ||
+        a.api.name.localeCompare(b.api.name) ||
+        a.api.id.localeCompare(b.api.id)
+      );
+
+      return {
+        results: shown.slice(offset, offset + limit),
+        total: shown.length,
+        hiddenRetired: hidesRetired ? matches.length - shown.length : 0,
+      };
+    },
+
+    async createApi(input) {
+      return transaction(() => {
+        const { stats, endpoints = [], ...fields } = clone(input);
+        findCategory(fields.category_id);
+        findTeam(fields.team_id);
+
+        const now = new Date().toISOString();
+        const api: ApiRecord = {
+          ...fields,
+          id: newId(),
+          version: fields.version || 'v1',
+          health_path: fields.health_path || null,
+          lifecycle: fields.lifecycle || 'stable',
+          deprecated_at: fields.lifecycle === 'deprecated' ? now : null,
+          sunset_at: fields.sunset_at || null,
+          successor_id: fields.successor_id || null,
+          created_by: fields.created_by || null,
+          tags: fields.tags || [],
+          auth_type: fields.auth_type || 'none',
+          created_at: now,
+          updated_at: now,
+        };
+        assertLifecycle(api);
+        tables.apis.push(api);
+
+        // Same as the apis_create_current_version trigger
+        const version: ApiVersion = {
+          id: newId(),
+          api_id: api.id,
+          version: api.version,
+          base_url: api.base_url,
+          auth_type: api.auth_type,
+          auth_description: api.auth_description,
+          status: 'current',
+          breaking_allowed: false,
+          created_at: now,
+        };
+        tables.api_versions.push(version);
+
+        // Same as the apis_grant_owner trigger: whoever creates an API owns it
+        if (api.created_by) {
+          tables.user_roles.push({
+            id: newId(),
+            user_id: api.created_by,
+            role: 'owner',
+            api_id: api.id,
+            created_at: now,
+          });
+        }
+
+        // Uptime and response time stay empty until the API is probed
+        tables.api_stats.push({
+          total_calls: 0,
+          last_week_calls: 0,
+          uptime: null,
+          response_time: null,
+          ...stats,
+          id: newId(),
+          api_id: api.id,
+          updated_at: now,
+        });
+
+        endpoints.forEach(endpoint => {
+          assertEndpoint(endpoint);
+          tables.api_endpoints.push({
+            ...withEndpointDefaults(endpoint),
+            id: newId(),
+            api_id: api.id,
+            version_id: version.id,
+            created_at: now,
+          });
+        });
+
+        return apiAsJson(api.id);
+      });
+    },
+
+    async updateApi(id, input) {
+      return transaction(() => {
+        const { stats, endpoints, ...fields } = clone(input);
+        const api = findApi(id);
+        if (fields.category_id) findCategory(fields.category_id);
+        if (fields.team_id) findTeam(fields.team_id);
+
+        const current = findCurrentVersion(id);
+        if (fields.version) assertVersionName(id, fields.version, current.id);
+
+        const now = new Date().toISOString();
+        const previous = { ...api };
+        Object.assign(api, fields, { updated_at: now });
+        assertLifecycle(api);
+        if (fields.version && fields.version !== previous.version) {
+          notifyFollowers(id, 'api_version', { version: fields.version, previous_version: previous.version });
+        }
+        // Same as the apis_stamp_deprecation and apis_notify_deprecation
+        // triggers
+        if (api.lifecycle === 'deprecated') {
+          if (previous.lifecycle !== 'deprecated') api.deprecated_at = now;
+          if (
+            previous.lifecycle !== 'deprecated' ||
+            previous.sunset_at !== api.sunset_at ||
+            previous.successor_id !== api.successor_id
+          ) {
+            notifyFollowers(id, 'api_deprecation', { sunset_at: api.sunset_at, successor_id: api.successor_id });
+          }
+        } else if (api.lifecycle !== 'retired') {
+          api.deprecated_at = null;
+        }
+        // Same as the apis_sync_current_version trigger
+        Object.assign(current, {
+          version: api.version,
+          base_url: api.base_url,
+          auth_type: api.auth_type,
+          auth_description: api.auth_description,
+        });
+
+        if (stats) {
+          tables.api_stats
+            .filter(s => s.api_id === id)
+            .forEach(row => Object.assign(row, stats, { updated_at: now }));
+        }
+
+        if (endpoints) {
+          const keptIds = new Set(endpoints.filter(e => e.id).map(e => e.id));
+          tables.api_endpoints = tables.api_endpoints.filter(
+            e => e.version_id !== current.id || keptIds.has(e.id)
+          );
+
+          endpoints.forEach(({ id: endpointId, ...endpoint }) => {
+            assertEndpoint(endpoint);
+            const existing = endpointId
+              ? tables.api_endpoints.find(e => e.id === endpointId && e.version_id === current.id)
+              : undefined;
+            if (existing) {
+              Object.assign(existing, withEndpointDefaults(endpoint));
+            } else if (!endpointId) {
+              tables.api_endpoints.push({
+                ...withEndpointDefaults(endpoint),
+                id: newId(),
+                api_id: id,
+                version_id: current.id,
+                created_at: now,
+              });
+            }
+          });
+        }
+
+        return apiAsJson(id);
+      });
+    },
+
+    async deleteApi(id) {
+      transaction(() => {
+        // Like the apis_successor_id_fkey key, which sets it to null and so
+        // fails the apis_deprecation_check constraint of deprecated APIs
+        tables.apis.filter(a => a.successor_id === id).forEach(a => {
+          if (a.lifecycle === 'deprecated') {
+            throw new Error(`${findApi(id).name} replaces the deprecated ${a.name}; pick another successor first`);
+          }
+          a.successor_id = null;
+        });
+        tables.apis = tables.apis.filter(a => a.id !== id);
+        tables.api_stats = tables.api_stats.filter(s => s.api_id !== id);
+        tables.api_versions = tables.api_versions.filter(v => v.api_id !== id);
+        tables.api_endpoints = tables.api_endpoints.filter(e => e.api_id !== id);
+        tables.api_usage_daily = tables.api_usage_daily.filter(u => u.api_id !== id);
+        tables.api_health_checks = tables.api_health_checks.filter(h => h.api_id !== id);
+        tables.incident_apis = tables.incident_apis.filter(impact => impact.api_id !== id);
+        tables.alert_rules = tables.alert_rules.filter(rule => rule.api_id !== id);
+        tables.alerts = tables.alerts.filter(alert => alert.api_id !== id);
+        tables.api_follows = tables.api_follows.filter(follow => follow.api_id !== id);
+        tables.api_comments = tables.api_comments.filter(comment => comment.api_id !== id);
+        tables.notifications = tables.notifications.filter(n => n.api_id !== id);
+        tables.user_roles = tables.user_roles.filter(r => r.api_id !== id);
+        tables.access_requests = tables.access_requests.filter(r => r.api_id !== id);
+        tables.api_access_settings = tables.api_access_settings.filter(s => s.api_id !== id);
+        tables.api_keys = tables.api_keys.filter(k => k.api_id !== id);
+        tables.api_calls = tables.api_calls.filter(c => c.api_id !== id);
+      });
+    },
+
+    async listStats(apiId) {
+      return clone(tables.api_stats.filter(s => !apiId || s.api_id === apiId));
+    },
+
+    async listEndpoints(apiId) {
+      return clone(tables.api_endpoints.filter(e => !apiId || e.api_id === apiId));
+    },
+
+    async listApiVersions(apiId) {
+      return clone(
+        tables.api_versions
+          .filter(v => !apiId || v.api_id === apiId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    // Same as the publish_api_version database function
+    async publishApiVersion(apiId, input) {
+      return transaction(() => {
+        const { endpoints, allow_breaking, ...fields } = clone(input);
+        const api = findApi(apiId);
+        const previous = findCurrentVersion(apiId);
+        assertVersionName(apiId, fields.version);
+
+        const now = new Date().toISOString();
+        previous.status = 'supported';
+        const version: ApiVersion = {
+          id: newId(),
+          api_id: apiId,
+          version: fields.version.trim(),
+          base_url: fields.base_url || previous.base_url,
+          auth_type: fields.auth_type || previous.auth_type,
+          auth_description: fields.auth_description !== undefined
+            ? fields.auth_description
+            : previous.auth_description,
+          status: 'current',
+          breaking_allowed: allow_breaking ?? false,
+          created_at: now,
+        };
+        tables.api_versions.push(version);
+
+        // Copies of the previous version's endpoints unless new ones are given
+        const copied: EndpointInput[] = endpoints || clone(tables.api_endpoints.filter(e => e.version_id === previous.id));
+        copied.forEach(endpoint => {
+          assertEndpoint(endpoint);
+          tables.api_endpoints.push({
+            ...withEndpointDefaults(endpoint),
+            id: newId(),
+            api_id: apiId,
+            version_id: version.id,
+            created_at: now,
+          });
+        });
+
+        notifyFollowers(apiId, 'api_version', { version: version.version, previous_version: api.version });
+        Object.assign(api, {
+          version: version.version,
+          base_url: version.base_url,
+          auth_type: version.auth_type,
+          auth_description: version.auth_description,
+          updated_at: now,
+        });
+
+        return apiAsJson(apiId);
+      });
+    },
+
+    async setApiVersionStatus(id, status) {
+      return transaction(() => {
+        const version = tables.api_versions.find(v => v.id === id);
+        if (!version || version.status === 'current') {
+          throw new Error(`API version ${id} does not exist or is the current one`);
+        }
+        version.status = status;
+        return clone(version);
+      });
+    },
+
+    async listUsage(query = {}) {
+      return clone(
+        tables.api_usage_daily
+          .filter(u => !query.apiId || u.api_id === query.apiId)
+          .filter(u => !query.from || u.day >= query.from)
+          .filter(u => !query.to || u.day <= query.to)
+          .sort((a, b) => a.day.localeCompare(b.day))
+      );
+    },
+
+    async recordApiCalls(calls) {
+      transaction(() => {
+        calls.forEach(call => {
+          findApi(call.api_id);
+          tables.api_calls.push({ ...call, id: newId() });
+          const key = call.key_id ? tables.api_keys.find(k => k.id === call.key_id) : undefined;
+          if (key && (!key.last_used_at || key.last_used_at < call.called_at)) {
+            key.last_used_at = call.called_at;
+          }
+        });
+        refreshTrafficStats(calls);
+        evaluateAlerts(calls.map(call => call.api_id));
+      });
+    },
+
+    async listHealthChecks(query = {}) {
+      return clone(
+        tables.api_health_checks
+          .filter(h => !query.apiId || h.api_id === query.apiId)
+          .filter(h => !query.since || h.checked_at > query.since)
+          .sort((a, b) => b.checked_at.localeCompare(a.checked_at))
+          .slice(0, query.limit)
+      );
+    },
+
+    async listHealthDaily(query = {}) {
+      const checks = tables.api_health_checks.filter(h => !query.apiId || h.api_id === query.apiId);
+      const incidents = tables.incidents.map(incident => incidentAsJson(incident.id));
+      return rollupHealthDaily(applyIncidentDowntime(checks, incidents))
+        .filter(row => !query.since || row.day >= query.since)
+        .sort((a, b) => a.day.localeCompare(b.day) || a.api_id.localeCompare(b.api_id));
+    },
+
+    // Same rules as the api_health_status database function
+    async listApiHealthStatus(since) {
+      const recent = new Date(Date.now() - DAY_MS).toISOString();
+      const incidents = tables.incidents.map(incident => incidentAsJson(incident.id));
+      return tables.apis.map(api => {
+        const checks = tables.api_health_checks
+          .filter(h => h.api_id === api.id)
+          .sort((a, b) => b.checked_at.localeCompare(a.checked_at));
+        const latest = checks[0] && checks[0].checked_at > recent ? checks[0] : null;
+        return {
+          api_id: api.id,
+          days: rollupHealthDaily(applyIncidentDowntime(checks.filter(h => h.checked_at.slice(0, 10) >= since), incidents))
+            .sort((a, b) => a.day.localeCompare(b.day)),
+          latest: clone(latest),
+          failing_since: latest && latest.status !== 'up' ? detectOutage(checks)?.since ?? null : null,
+        };
+      });
+    },
+
+    async recordHealthChecks(checks) {
+      transaction(() => {
+        checks.forEach(check => {
+          findApi(check.api_id);
+          tables.api_health_checks.push({ ...check, id: newId() });
+        });
+        refreshHealthStats(checks.map(check => check.api_id));
+        evaluateAlerts(checks.map(check => check.api_id));
+      });
+    },
+
+    async listIncidents(query = {}) {
+      return clone(
+        tables.incidents
+          .filter(i => !query.active || i.status !== 'resolved')
+          .sort((a, b) => b.started_at.localeCompare(a.started_at))
+      );
+    },
+
+    async getIncident(id) {
+      const incident = tables.incidents.find(i => i.id === id);
+      return incident ? clone(incident) : null;
+    },
+
+    async listIncidentApis(incidentId) {
+      return clone(tables.incident_apis.filter(impact => !incidentId || impact.incident_id === incidentId));
+    },
+
+    async listIncidentUpdates(incidentId) {
+      return clone(
+        tables.incident_updates
+          .filter(update => !incidentId || update.incident_id === incidentId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    async createIncident(input) {
+      return transaction(() => {
+        const { affected, message, ...fields } = clone(input);
+        assertIncidentTitle(fields.title);
+        if (!message.trim()) {
+          throw new Error('The first update needs a message');
+        }
+
+        const now = new Date().toISOString();
+        const status = fields.status || 'investigating';
+        const id = newId();
+        tables.incidents.push({
+          ...fields,
+          id,
+          status,
+          started_at: fields.started_at || now,
+          resolved_at: status === 'resolved' ? now : null,
+          created_at: now,
+          updated_at: now,
+        });
+        setIncidentApis(id, affected);
+        tables.incident_updates.push({ id: newId(), incident_id: id, status, message, created_at: now });
+
+        refreshHealthStats(affected.map(impact => impact.api_id));
+        return incidentAsJson(id);
+      });
+    },
+
+    async updateIncident(id, input) {
+      return transaction(() => {
+        const { affected, update, ...fields } = clone(input);
+        const incident = tables.incidents.find(i => i.id === id);
+        if (!incident) {
+          throw new Error(`Incident ${id} does not exist`);
+        }
+        if (fields.title !== undefined) assertIncidentTitle(fields.title);
+
+        // APIs that were affected before the change need their stats
+        // refreshed too
+        const apiIds = tables.incident_apis
+          .filter(impact => impact.incident_id === id)
+          .map(impact => impact.api_id);
+
+        const now = new Date().toISOString();
+        Object.assign(incident, fields, { updated_at: now });
+        if (affected) setIncidentApis(id, affected);
+
+        if (update) {
+          if (!update.message.trim()) {
+            throw new Error('Updates need a message');
+          }
+          tables.incident_updates.push({ ...update, id: newId(), incident_id: id, created_at: now });
+          incident.status = update.status;
+          incident.resolved_at = update.status === 'resolved' ? incident.resolved_at || now : null;
+        }
+
+        refreshHealthStats([...apiIds, ...(affected || []).map(impact => impact.api_id)]);
+        return incidentAsJson(id);
+      });
+    },
+
+    async listAlertRules(apiId) {
+      return clone(
+        tables.alert_rules
+          .filter(rule => !apiId || rule.api_id === apiId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      );
+    },
+
+    async createAlertRule(input) {
+      return transaction(() => {
+        findApi(input.api_id);
+        assertAlertRule(input);
+
+        const now = new Date().toISOString();
+        const rule: AlertRule = { ...clone(input), id: newId(), created_at: now, updated_at: now };
+        tables.alert_rules.push(rule);
+        return clone(rule);
+      });
+    },
+
+    async updateAlertRule(id, patch) {
+      return transaction(() => {
+        const rule = tables.alert_rules.find(r => r.id === id);
+        if (!rule) {
+          throw new Error(`Alert rule ${id} does not exist`);
+        }
+        Object.assign(rule, clone(patch), { updated_at: new Date().toISOString() });
+        assertAlertRule(rule);
+        return clone(rule);
+      });
+    },
+
+    async deleteAlertRule(id) {
+      transaction(() => {
+        tables.alert_rules = tables.alert_rules.filter(r => r.id !== id);
+        tables.alerts = tables.alerts.filter(alert => alert.rule_id !== id);
+      });
+    },
+
+    async listAlerts(query = {}) {
+      return clone(
+        tables.alerts
+          .filter(alert => !query.apiId || alert.api_id === query.apiId)
+          .filter(alert => !query.open || alert.status !== 'resolved')
+          .sort((a, b) => b.fired_at.localeCompare(a.fired_at))
+      );
+    },
+
+    async setAlertStatus(id, status) {
+      return transaction(() => {
+        const alert = findAlert(id);
+        const now = new Date().toISOString();
+        if (status === 'acknowledged') {
+          if (alert.status === 'resolved') {
+            throw new Error('Resolved alerts cannot be acknowledged');
+          }
+          alert.acknowledged_at = alert.acknowledged_at || now;
+        } else {
+          alert.resolved_at = alert.resolved_at || now;
+        }
+        alert.status = status;
+        return clone(alert);
+      });
+    },
+
+    async evaluateAlertRules(apiId) {
+      return transaction(() => evaluateAlerts(apiId ? [apiId] : undefined));
+    },
+
+    async listFollows(userId) {
+      return clone(tables.api_follows.filter(follow => follow.user_id === userId));
+    },
+
+    async followApi(userId, apiId) {
+      return transaction(() => {
+        findApi(apiId);
+        const existing = tables.api_follows.find(f => f.user_id === userId && f.api_id === apiId);
+        if (existing) return clone(existing);
+
+        const follow = { user_id: userId, api_id: apiId, created_at: new Date().toISOString() };
+        tables.api_follows.push(follow);
+        return clone(follow);
+      });
+    },
+
+    async unfollowApi(userId, apiId) {
+      transaction(() => {
+        tables.api_follows = tables.api_follows.filter(f => f.user_id !== userId || f.api_id !== apiId);
+      });
+    },
+
+    async listComments(apiId) {
+      return clone(
+        tables.api_comments
+          .filter(comment => comment.api_id === apiId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      );
+    },
+
+    async createComment(input) {
+      return transaction(() => {
+        findApi(input.api_id);
+        const body = input.body.trim();
+        // Same as the api_comments body check
+        if (!body || body.length > 2000) {
+          throw new Error('Comments need between 1 and 2000 characters');
+        }
+        const comment = {
+          id: newId(),
+          api_id: input.api_id,
+          user_id: input.user_id,
+          author: input.author,
+          body,
+          created_at: new Date().toISOString(),
+        };
+        tables.api_comments.push(comment);
+
+        // Same as the notify_api_comment trigger: owners and followers, once
+        // each, never the author
+        const recipients = new Set([
+          ...tables.user_roles.filter(r => r.role === 'owner' && r.api_id === comment.api_id).map(r => r.user_id),
+          ...tables.api_follows.filter(f => f.api_id === comment.api_id).map(f => f.user_id),
+        ]);
+        recipients.delete(comment.user_id);
+        recipients.forEach(userId =>
+          notifyUser(userId, comment.api_id, 'api_comment', { author: comment.author, excerpt: body.slice(0, 140) })
+        );
+        return clone(comment);
+      });
+    },
+
+    async deleteComment(id) {
+      transaction(() => {
+        tables.api_comments = tables.api_comments.filter(comment => comment.id !== id);
+      });
+    },
+
+    async listNotifications(userId, query = {}) {
+      return clone(
+        tables.notifications
+          .filter(n => n.user_id === userId)
+          .filter(n => !query.unread || !n.read_at)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, query.limit)
+      );
+    },
+
+    async markNotificationsRead(userId, ids) {
+      transaction(() => {
+        const now = new Date().toISOString();
+        tables.notifications
+          .filter(n => n.user_id === userId && !n.read_at && (!ids || ids.includes(n.id)))
+          .forEach(n => {
+            n.read_at = now;
+          });
+      });
+    },
+
+    async listNotificationPreferences(userId) {
+      return clone(tables.notification_preferences.filter(p => p.user_id === userId));
+    },
+
+    async setNotificationPreference(userId, type, enabled) {
+      return transaction(() => {
+        tables.notification_preferences = tables.notification_preferences.filter(
+          p => p.user_id !== userId || p.type !== type
+        );
+        const preference = { user_id: userId, type, enabled };
+        tables.notification_preferences.push(preference);
+        return clone(preference);
+      });
+    },
+
+    async listUserRoles(userId) {
+      return clone(tables.user_roles.filter(r => r.user_id === userId));
+    },
+
+    async listApplications(query = {}) {
+      return clone(
+        tables.applications
+          .filter(a => !query.userId || a.user_id === query.userId)
+          .filter(a => !query.ids || query.ids.includes(a.id))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+
+    async createApplication(input) {
+      return transaction(() => {
+        if (!input.name.trim()) {
+          throw new Error('Applications need a name');
+        }
+        const application = {
+          id: newId(),
+          user_id: input.user_id,
+          name: input.name.trim(),
+          description: input.description || null,
+          created_at: new Date().toISOString(),
+        };
+        tables.applications.push(application);
+        return clone(application);
+      });
+    },
+
+    async listAccessRequests(query = {}) {
+      return clone(
+        tables.access_requests
+          .filter(r => !query.apiId || r.api_id === query.apiId)
+          .filter(r => !query.userId || r.user_id === query.userId)
+          .filter(r => !query.status || r.status === query.status)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    async requestAccess(input) {
+      return transaction(() => {
+        const api = findApi(input.api_id);
+        if (api.auth_type !== 'apiKey') {
+          throw new Error(`API ${api.id} does not use API keys`);
+        }
+        const application = findApplication(input.application_id);
+        if (application.user_id !== input.user_id) {
+          throw new Error('Only the owner of an application can request access for it');
+        }
+
+        const now = new Date().toISOString();
+        const autoApprove = tables.api_access_settings.some(
+          s => s.api_id === input.api_id && s.auto_approve
+        );
+        let request = tables.access_requests.find(
+          r => r.application_id === input.application_id && r.api_id === input.api_id
+        );
+        if (request && request.status !== 'rejected') {
+          return clone(request);
+        }
+        if (!request) {
+          request = {
+            id: newId(),
+            api_id: input.api_id,
+            application_id: input.application_id,
+            user_id: input.user_id,
+            status: 'pending',
+            message: null,
+            decided_by: null,
+            decided_at: null,
+            created_at: now,
+          };
+          tables.access_requests.push(request);
+        }
+        Object.assign(request, {
+          status: autoApprove ? 'approved' : 'pending',
+          message: input.message || null,
+          decided_by: null,
+          decided_at: autoApprove ? now : null,
+          created_at: now,
+        });
+        return clone(request);
+      });
+    },
+
+    async decideAccessRequest(id, decision, decidedBy) {
+      return transaction(() => {
+        const request = findAccessRequest(id);
+        Object.assign(request, {
+          status: decision,
+          decided_by: decidedBy,
+          decided_at: new Date().toISOString(),
+        });
+        // Rejecting access that was granted also revokes its keys
+        if (decision === 'rejected') {
+          tables.api_keys
+            .filter(k => k.application_id === request.application_id && k.api_id === request.api_id && !k.revoked_at)
+            .forEach(k => {
+              k.revoked_at = request.decided_at;
+            });
+        }
+        notifyUser(request.user_id, request.api_id, 'access_request', {
+          application: findApplication(request.application_id).name,
+          decision,
+        });
+        return clone(request);
+      });
+    },
+
+    async listAccessSettings(apiId) {
+      return clone(tables.api_access_settings.filter(s => !apiId || s.api_id === apiId));
+    },
+
+    async setAutoApprove(apiId, autoApprove) {
+      return transaction(() => {
+        findApi(apiId);
+        tables.api_access_settings = tables.api_access_settings.filter(s => s.api_id !== apiId);
+        const settings = { api_id: apiId, auto_approve: autoApprove, updated_at: new Date().toISOString() };
+        tables.api_access_settings.push(settings);
+        return clone(settings);
+      });
+    },
+
+    async listApiKeys(query = {}) {
+      return clone(
+        tables.api_keys
+          .filter(k => !query.applicationIds || query.applicationIds.includes(k.application_id))
+          .filter(k => !query.apiId || k.api_id === query.apiId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    async findApiKeyByHash(keyHash) {
+      const key = tables.api_keys.find(k => k.key_hash === keyHash);
+      return key ? clone(key) : null;
+    },
+
+    async issueApiKey(input) {
+      const secret = generateApiKey();
+      const keyHash = await hashApiKey(secret);
+      return transaction(() => {
+        const key = insertApiKey(input.application_id, input.api_id, input.expires_at || null, secret, keyHash);
+        return { key: clone(key), secret };
+      });
+    },
+
+    async rotateApiKey(id) {
+      const secret = generateApiKey();
+      const keyHash = await hashApiKey(secret);
+      return transaction(() => {
+        const previous = findApiKey(id);
+        if (getKeyStatus(previous) === 'revoked') {
+          throw new Error('Revoked keys cannot be rotated');
+        }
+        previous.revoked_at = new Date().toISOString();
+        const key = insertApiKey(previous.application_id, previous.api_id, rotatedExpiry(previous), secret, keyHash);
+        return { key: clone(key), secret };
+      });
+    },
+
+    async revokeApiKey(id) {
+      return transaction(() => {
+        const key = findApiKey(id);
+        key.revoked_at = key.revoked_at || new Date().toISOString();
+        return clone(key);
+      });
+    },
+
+    async revokeApiKeyAsOwner(id) {
+      return transaction(() => {
+        const key = findApiKey(id);
+        key.revoked_at = key.revoked_at || new Date().toISOString();
+        return clone(key);
+      });
+    },
+  };
+};
@@ -0,0 +1,223 @@
+import type {
+  AccessDecision,
+  AccessRequest,
+  AccessRequestQuery,
+  AlertQuery,
+  AlertRule,
+  AlertRulePatch,
+  AlertStatus,
+  Api,
+  ApiAccessSettings,
+  ApiAlert,
+  ApiCategory,
+  ApiComment,
+  ApiEndpoint,
+  ApiFollow,
+  ApiHealthCheck,
+  ApiHealthDaily,
+  ApiHealthStatus,
+  ApiKey,
+  ApiKeyQuery,
+  ApiRecord,
+  ApiSearchFilters,
+  ApiSearchPage,
+  ApiStats,
+  ApiUsageDaily,
+  ApiVersion,
+  ApiVersionStatus,
+  Application,
+  ApplicationQuery,
+  CreateApiInput,
+  CreateIncidentInput,
+  CreateTeamInput,
+  HealthQuery,
+  Incident,
+  IncidentApi,
+  IncidentQuery,
+  IncidentRecord,
+  IncidentUpdate,
+  IssuedApiKey,
+  NewAccessRequest,
+  NewAlertRule,
+  NewApiCall,
+  NewApiCategory,
+  NewApiComment,
+  NewApiKey,
+  NewApplication,
+  NewHealthCheck,
+  NotificationPreference,
+  NotificationQuery,
+  NotificationType,
+  PublishVersionInput,
+  Team,
+  TeamMember,
+  TeamRecord,
+  UpdateApiInput,
+  UpdateIncidentInput,
+  UpdateTeamInput,
+  UsageQuery,
+  UserNotification,
+  UserRole,
+} from "@/services/types";
+
+// Storage backend for the catalog. Reads map to a single table; combining
+// rows into `Api` objects is done by apiService so every backend behaves
+// the same. Implementations throw on failure.
+export interface CatalogRepository {
+  listCategories(): Promise<ApiCategory[]>;
+  getCategory(id: string): Promise<ApiCategory | null>;
+  createCategory(input: NewApiCategory): Promise<ApiCategory>;
+  updateCategory(id: string, patch: Partial<NewApiCategory>): Promise<ApiCategory>;
+  // Fails while any API is still in the category
+  deleteCategory(id: string): Promise<void>;
+
+  listTeams(): Promise<TeamRecord[]>;
+  getTeam(id: string): Promise<TeamRecord | null>;
+  // Omitting teamId returns the members of every team
+  listTeamMembers(teamId?: string): Promise<TeamMember[]>;
+  // APIs owned by the teams the user is a member of, which they edit like
+  // owners
+  listTeamApiIds(userId: string): Promise<string[]>;
+  // Atomic like the API writes; the team is returned with its members
+  createTeam(input: CreateTeamInput): Promise<Team>;
+  updateTeam(id: string, input: UpdateTeamInput): Promise<Team>;
+
+  listApis(): Promise<ApiRecord[]>;
+  getApi(id: string): Promise<ApiRecord | null>;
+  // Distinct tags of every API, ignoring case to order them
+  listTags(): Promise<string[]>;
+  // Full-text search ranked as described in src/services/search/ranking.ts.
+  // Returns full APIs like createApi, `limit` of them from `offset`.
+  searchApis(
+    query: string,
+    filters: ApiSearchFilters,
+    range: { offset: number; limit: number }
+  ): Promise<ApiSearchPage>;
+
+  // Writes are atomic: the API, its stats and its endpoints are stored in
+  // one transaction and the full API is returned. If any part fails
+  // nothing is kept. The creator becomes the API's owner; changing the
+  // version notifies the API's followers. The returned endpoints are the
+  // current version's, which is also the only one updateApi writes.
+  createApi(input: CreateApiInput): Promise<Api>;
+  updateApi(id: string, input: UpdateApiInput): Promise<Api>;
+  // Also removes the API's stats, endpoints, usage, health checks, alert
+  // rules, follows, notifications, owner roles, access requests, keys,
+  // gateway calls and versions
+  deleteApi(id: string): Promise<void>;
+
+  // Omitting apiId returns the rows for every API
+  listStats(apiId?: string): Promise<ApiStats[]>;
+  // Endpoints of every version; filter them by version_id
+  listEndpoints(apiId?: string): Promise<ApiEndpoint[]>;
+
+  // Newest first
+  listApiVersions(apiId?: string): Promise<ApiVersion[]>;
+  // Makes the new version current and the previous one supported, and
+  // mirrors it on the API like updateApi. Fails if the version exists.
+  publishApiVersion(apiId: string, input: PublishVersionInput): Promise<Api>;
+  // The current version only changes by publishing a new one
+  setApiVersionStatus(id: string, status: Exclude<ApiVersionStatus, 'current'>): Promise<ApiVersion>;
+
+  // Daily usage rows, oldest first
+  listUsage(query?: UsageQuery): Promise<ApiUsageDaily[]>;
+  // Stores calls proxied by the gateway and marks their keys as used. The
+  // usage rows of the days they fall on are rebuilt from the stored calls,
+  // the calls are added to total_calls, last_week_calls and response_time
+  // are recomputed, and the alert rules of the APIs are evaluated.
+  recordApiCalls(calls: NewApiCall[]): Promise<void>;
+
+  // Health checks newest first, and their per-day rollup oldest first
+  listHealthChecks(query?: HealthQuery): Promise<ApiHealthCheck[]>;
+  listHealthDaily(query?: HealthQuery): Promise<ApiHealthDaily[]>;
+  // Every API's daily rollup since the given day and its latest checks, in
+  // one request for the public status page
+  listApiHealthStatus(since: string): Promise<ApiHealthStatus[]>;
+  // Stores probe results, refreshes the uptime and response time of the
+  // probed APIs and evaluates their alert rules. Only the health prober
+  // calls it; with Supabase it needs the service role.
+  recordHealthChecks(checks: NewHealthCheck[]): Promise<void>;
+
+  // Incidents newest first. Omitting incidentId returns the affected APIs
+  // and updates (newest first) of every incident.
+  listIncidents(query?: IncidentQuery): Promise<IncidentRecord[]>;
+  getIncident(id: string): Promise<IncidentRecord | null>;
+  listIncidentApis(incidentId?: string): Promise<IncidentApi[]>;
+  listIncidentUpdates(incidentId?: string): Promise<IncidentUpdate[]>;
+  // Atomic like the API writes. Uptime and response time of the affected
+  // APIs are refreshed, since major incidents count as downtime.
+  createIncident(input: CreateIncidentInput): Promise<Incident>;
+  updateIncident(id: string, input: UpdateIncidentInput): Promise<Incident>;
+
+  // Alert rules, and the alerts they fired newest first
+  listAlertRules(apiId?: string): Promise<AlertRule[]>;
+  createAlertRule(input: NewAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, patch: AlertRulePatch): Promise<AlertRule>;
+  // Also removes the alerts the rule fired
+  deleteAlertRule(id: string): Promise<void>;
+  listAlerts(query?: AlertQuery): Promise<ApiAlert[]>;
+  setAlertStatus(id: string, status: Exclude<AlertStatus, 'firing'>): Promise<ApiAlert>;
+  // Measures the enabled rules of one API, or of every API, against its
+  // health checks and usage. Fires alerts for breached rules and resolves
+  // the open alerts of rules back within their threshold. Returns the
+  // alerts that fired; their API's followers are notified. A signed-in
+  // user only evaluates the rules of the APIs they can edit.
+  evaluateAlertRules(apiId?: string): Promise<ApiAlert[]>;
+
+  // APIs a user follows
+  listFollows(userId: string): Promise<ApiFollow[]>;
+  followApi(userId: string, apiId: string): Promise<ApiFollow>;
+  unfollowApi(userId: string, apiId: string): Promise<void>;
+
+  // Comments on an API, oldest first. Adding one notifies the API's owners
+  // and followers, except its author.
+  listComments(apiId: string): Promise<ApiComment[]>;
+  createComment(input: NewApiComment): Promise<ApiComment>;
+  deleteComment(id: string): Promise<void>;
+
+  // A user's notifications newest first. Omitting ids marks every unread
+  // notification as read.
+  listNotifications(userId: string, query?: NotificationQuery): Promise<UserNotification[]>;
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+  listNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  setNotificationPreference(
+    userId: string,
+    type: NotificationType,
+    enabled: boolean
+  ): Promise<NotificationPreference>;
+
+  // A user's roles, portal-wide and per API
+  listUserRoles(userId: string): Promise<UserRole[]>;
+
+  // Applications by name
+  listApplications(query?: ApplicationQuery): Promise<Application[]>;
+  createApplication(input: NewApplication): Promise<Application>;
+
+  // Access requests newest first
+  listAccessRequests(query?: AccessRequestQuery): Promise<AccessRequest[]>;
+  // Only for APIs that take API keys. Approved straight away when the API
+  // auto-approves requests. Asking again returns the open or approved
+  // request, or reopens a rejected one.
+  requestAccess(input: NewAccessRequest): Promise<AccessRequest>;
+  // Notifies the requester of the decision
+  decideAccessRequest(id: string, decision: AccessDecision, decidedBy: string): Promise<AccessRequest>;
+  // Omitting apiId returns the settings of every API that has them
+  listAccessSettings(apiId?: string): Promise<ApiAccessSettings[]>;
+  setAutoApprove(apiId: string, autoApprove: boolean): Promise<ApiAccessSettings>;
+
+  // Keys newest first. Keys are stored hashed: the secret is only returned
+  // when a key is issued or rotated.
+  listApiKeys(query?: ApiKeyQuery): Promise<ApiKey[]>;
+  // For the gateway, which only sees the key its consumer sent
+  findApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  // Needs an approved access request of the application for the API
+  issueApiKey(input: NewApiKey): Promise<IssuedApiKey>;
+  // Revokes the key and issues a replacement that lasts as long
+  rotateApiKey(id: string): Promise<IssuedApiKey>;
+  revokeApiKey(id: string): Promise<ApiKey>;
+  // For the owners of the key's API and admins; revokeApiKey is for the
+  // application's owner. The access stays approved.
+  revokeApiKeyAsOwner(id: string): Promise<ApiKey>;
+}
+
+export type CatalogBackend = "supabase" | "local";
@@ -0,0 +1,376 @@
+import { apiCategories, apis } from "@/data/mockData";
+import { addDays, toDay } from "@/lib/days";
+import { slugify } from "@/lib/download";
+import { deriveHealthStats, DAY_MS, HOUR_MS } from "@/services/health/summary";
+import { applyIncidentDowntime } from "@/services/incidents/impact";
+import { LOCAL_ADMIN_USER, LOCAL_DEMO_USER } from "@/services/auth/localAuth";
+import { getPathParameters } from "@/services/specs/paths";
+import type {
+  AccessRequest,
+  AlertRule,
+  ApiAccessSettings,
+  ApiAlert,
+  ApiCall,
+  ApiCategory,
+  ApiComment,
+  ApiEndpoint,
+  ApiFollow,
+  ApiHealthCheck,
+  ApiKey,
+  ApiLifecycle,
+  ApiRecord,
+  ApiStats,
+  ApiUsageDaily,
+  ApiVersion,
+  Application,
+  IncidentApi,
+  IncidentRecord,
+  IncidentUpdate,
+  NotificationPreference,
+  TeamMember,
+  TeamRecord,
+  UserNotification,
+  UserRole,
+} from "@/services/types";
+
+// Rows of the local backend, laid out like the Supabase tables
+export interface CatalogTables {
+  api_categories: ApiCategory[];
+  teams: TeamRecord[];
+  team_members: TeamMember[];
+  apis: ApiRecord[];
+  api_stats: ApiStats[];
+  api_versions: ApiVersion[];
+  api_endpoints: ApiEndpoint[];
+  api_usage_daily: ApiUsageDaily[];
+  api_health_checks: ApiHealthCheck[];
+  incidents: IncidentRecord[];
+  incident_apis: IncidentApi[];
+  incident_updates: IncidentUpdate[];
+  alert_rules: AlertRule[];
+  alerts: ApiAlert[];
+  api_follows: ApiFollow[];
+  api_comments: ApiComment[];
+  notifications: UserNotification[];
+  notification_preferences: NotificationPreference[];
+  user_roles: UserRole[];
+  applications: Application[];
+  access_requests: AccessRequest[];
+  api_access_settings: ApiAccessSettings[];
+  api_keys: ApiKey[];
+  api_calls: ApiCall[];
+}
+
+const USAGE_HISTORY_DAYS = 365;
+const HEALTH_HISTORY_DAYS = 90;
+const HEALTH_CHECK_EVERY_HOURS = 6;
+
+// Small seeded PRNG so the generated history is the same on every load
+const seededRandom = (seed: string) => {
+  let state = [...seed].reduce((hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619), 2166136261);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A year of daily traffic whose last week adds up to roughly the mock
+// lastWeekCalls, with quieter weekends and steady growth
+const buildUsageHistory = (api: typeof apis[number], lastDay: string): ApiUsageDaily[] => {
+  const random = seededRandom(api.id);
+  const dailyCalls = api.stats.lastWeekCalls / 7;
+  const errorRate = Math.max(0.002, (100 - api.stats.uptime) / 10);
+  const callsPerConsumer = 40 + Math.floor(random() * 160);
+
+  return Array.from({ length: USAGE_HISTORY_DAYS }, (_, index) => {
+    const daysAgo = USAGE_HISTORY_DAYS - 1 - index;
+    const day = addDays(lastDay, -daysAgo);
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    const weekend = weekday === 0 || weekday === 6 ? 0.65 : 1.14;
+    const growth = 1 - (daysAgo / USAGE_HISTORY_DAYS) * 0.4;
+    const calls = Math.round(dailyCalls * weekend * growth * (0.85 + random() * 0.3));
+    const latency = api.stats.responseTime * (0.85 + random() * 0.3);
+
+    return {
+      id: `usage-${api.id}-${day}`,
+      api_id: api.id,
+      day,
+      calls,
+      errors: Math.round(calls * errorRate * (0.5 + random())),
+      unique_consumers: Math.max(1, Math.round(calls / callsPerConsumer)),
+      avg_latency_ms: Math.round(latency),
+      p95_latency_ms: Math.round(latency * (1.8 + random() * 0.8)),
+      updated_at: `${day}T23:59:59.000Z`,
+    };
+  });
+};
+
+// Probes every few hours over the last 90 days. Failures are a few times
+// likelier than the mock uptime suggests so they show up in the charts.
+const buildHealthHistory = (api: typeof apis[number], now: Date): ApiHealthCheck[] => {
+  const random = seededRandom(`health-${api.id}`);
+  const failureRate = ((100 - api.stats.uptime) / 100) * 5;
+  const count = (HEALTH_HISTORY_DAYS * 24) / HEALTH_CHECK_EVERY_HOURS;
+  const last = Math.floor(now.getTime() / (HEALTH_CHECK_EVERY_HOURS * HOUR_MS)) * HEALTH_CHECK_EVERY_HOURS * HOUR_MS;
+
+  return Array.from({ length: count }, (_, index) => {
+    const checked_at = new Date(last - (count - 1 - index) * HEALTH_CHECK_EVERY_HOURS * HOUR_MS).toISOString();
+    const roll = random();
+    const latency = Math.round(api.stats.responseTime * (0.7 + random() * 0.6));
+    const base = { id: `health-${api.id}-${index}`, api_id: api.id, checked_at };
+    if (roll < failureRate) {
+      return { ...base, status: 'down' as const, status_code: 503, latency_ms: latency, error: 'HTTP 503 Service Unavailable' };
+    }
+    if (roll < failureRate + 0.02) {
+      return { ...base, status: 'degraded' as const, status_code: 200, latency_ms: 2000 + latency * 5, error: null };
+    }
+    return { ...base, status: 'up' as const, status_code: 200, latency_ms: latency, error: null };
+  });
+};
+
+// A resolved outage of the payments API twelve days before `now`, so the
+// incident history is not empty
+const buildSeedIncident = (now: Date): Pick<CatalogTables, 'incidents' | 'incident_apis' | 'incident_updates'> => {
+  const started = Math.floor((now.getTime() - 12 * DAY_MS) / HOUR_MS) * HOUR_MS;
+  const at = (hours: number) => new Date(started + hours * HOUR_MS).toISOString();
+  const id = 'incident-1';
+  const updates: [IncidentUpdate['status'], string, number][] = [
+    ['investigating', 'Los cobros con tarjeta devuelven errores 503. Estamos investigando.', 0],
+    ['identified', 'El proveedor de tarjetas tiene una caída. Redirigimos el tráfico al procesador secundario.', 2],
+    ['monitoring', 'Los cobros vuelven a procesarse. Seguimos observando.', 4],
+    ['resolved', 'Sin errores desde hace dos horas. Incidencia resuelta.', 6],
+  ];
+
+  return {
+    incidents: [{
+      id,
+      title: 'Errores al procesar pagos con tarjeta',
+      severity: 'major',
+      status: 'resolved',
+      started_at: at(0),
+      resolved_at: at(6),
+      created_at: at(0),
+      updated_at: at(6),
+    }],
+    incident_apis: [{ incident_id: id, api_id: '1', endpoint_ids: ['endpoint-1-1'] }],
+    incident_updates: updates.map(([status, message, hours], index) => ({
+      id: `${id}-update-${index + 1}`,
+      incident_id: id,
+      status,
+      message,
+      created_at: at(hours),
+    })),
+  };
+};
+
+// Example alert rules on the payments API. They are evaluated on the next
+// probe run, so no alert has fired yet.
+const buildSeedAlertRules = (now: Date): AlertRule[] => {
+  const rules: [AlertRule['metric'], number, number][] = [
+    ['uptime', 99.5, 1],
+    ['p95_latency', 400, 1],
+    ['volume_drop', 30, 7],
+  ];
+
+  return rules.map(([metric, threshold, window_days], index) => ({
+    id: `alert-rule-1-${index + 1}`,
+    api_id: '1',
+    metric,
+    threshold,
+    window_days,
+    enabled: true,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }));
+};
+
+// Older versions still served next to the current one: the payments API
+// kept v1 for card payments only, and the weather API's v2 is on its way
+// out. Their endpoints are the current ones under the old path prefix.
+const OLDER_VERSIONS: [string, string, ApiVersion['status'], string, number][] = [
+  ['1', 'v1.4.0', 'supported', '/v1/', 1],
+  ['2', 'v2.5.0', 'deprecated', '/v2/', 2],
+];
+
+// The messaging API is still in beta; every other API is stable
+const SEED_LIFECYCLES: Record<string, ApiLifecycle> = {
+  '6': 'beta',
+};
+
+const buildSeedOlderVersions = (
+  rows: ApiRecord[],
+  endpoints: ApiEndpoint[]
+): Pick<CatalogTables, 'api_versions' | 'api_endpoints'> => {
+  const older = OLDER_VERSIONS.map(([apiId, version, status, prefix, endpointCount]) => {
+    const api = rows.find(row => row.id === apiId)!;
+    const id = `version-${apiId}-${version}`;
+    return {
+      version: {
+        id,
+        api_id: apiId,
+        version,
+        base_url: api.base_url,
+        auth_type: api.auth_type,
+        auth_description: api.auth_description,
+        status,
+        breaking_allowed: false,
+        created_at: api.created_at,
+      },
+      endpoints: endpoints
+        .filter(endpoint => endpoint.api_id === apiId)
+        .slice(0, endpointCount)
+        .map((endpoint, index) => ({
+          ...endpoint,
+          id: `endpoint-${apiId}-${version}-${index + 1}`,
+          version_id: id,
+          path: endpoint.path.replace(/^\/v\d+\//, prefix),
+        })),
+    };
+  });
+
+  return {
+    api_versions: older.map(entry => entry.version),
+    api_endpoints: older.flatMap(entry => entry.endpoints),
+  };
+};
+
+// One team per distinct owner of the mock APIs, like the teams migration.
+// The demo user leads the first one.
+const buildSeedTeams = (now: Date): Pick<CatalogTables, 'teams' | 'team_members'> => {
+  const names = [...new Set(apis.map(api => api.owner))];
+  return {
+    teams: names.map((name, index) => ({
+      id: `team-${index + 1}`,
+      name,
+      description: null,
+      contact_channels: [
+        { type: 'email', value: `${slugify(name)}@apivista.dev` },
+        { type: 'slack', value: `#${slugify(name)}` },
+      ],
+      on_call_rotation: null,
+      created_by: null,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })),
+    team_members: [
+      {
+        id: 'team-member-1',
+        team_id: 'team-1',
+        user_id: LOCAL_DEMO_USER.id,
+        name: LOCAL_DEMO_USER.name || LOCAL_DEMO_USER.email,
+        email: LOCAL_DEMO_USER.email,
+        role: 'Tech lead',
+        created_at: now.toISOString(),
+      },
+    ],
+  };
+};
+
+// Convert the mock catalog into table rows. Usage and health history end
+// at `now`; uptime and response time are derived from the health history.
+export const buildSeedTables = (now = new Date()): CatalogTables => {
+  const healthChecks = apis.flatMap(api => buildHealthHistory(api, now));
+  const incident = buildSeedIncident(now);
+  const outages = incident.incidents.map(row => ({
+    ...row,
+    affected: incident.incident_apis.filter(impact => impact.incident_id === row.id),
+  }));
+  const { teams, team_members } = buildSeedTeams(now);
+  const teamIds = Object.fromEntries(teams.map(team => [team.name, team.id]));
+  const apiRows: ApiRecord[] = apis.map(api => ({
+    id: api.id,
+    name: api.name,
+    description: api.description,
+    version: api.version,
+    team_id: teamIds[api.owner],
+    base_url: api.baseUrl,
+    documentation_url: api.documentationUrl || null,
+    category_id: api.category.id,
+    tags: [...api.tags],
+    auth_type: api.auth.type,
+    auth_description: api.auth.description || null,
+    health_path: '/health',
+    lifecycle: SEED_LIFECYCLES[api.id] ?? 'stable',
+    deprecated_at: null,
+    sunset_at: null,
+    successor_id: null,
+    created_by: null,
+    created_at: api.createdAt,
+    updated_at: api.updatedAt,
+  }));
+  const endpoints: ApiEndpoint[] = apis.flatMap(api =>
+    api.endpoints.map((endpoint, index) => ({
+      id: `endpoint-${api.id}-${index + 1}`,
+      api_id: api.id,
+      version_id: `version-${api.id}`,
+      path: endpoint.path,
+      method: endpoint.method,
+      description: endpoint.description,
+      parameters: getPathParameters(endpoint.path).map(name => ({
+        name,
+        in: 'path' as const,
+        type: 'string' as const,
+        required: true,
+      })),
+      request_body: null,
+      responses: [],
+      created_at: api.createdAt,
+    }))
+  );
+  const older = buildSeedOlderVersions(apiRows, endpoints);
+
+  return {
+    api_categories: apiCategories.map(category => ({ ...category })),
+    teams,
+    team_members,
+    apis: apiRows,
+    api_stats: apis.map(api => ({
+      id: `stats-${api.id}`,
+      api_id: api.id,
+      total_calls: api.stats.totalCalls,
+      last_week_calls: api.stats.lastWeekCalls,
+      uptime: null,
+      response_time: null,
+      ...deriveHealthStats(
+        applyIncidentDowntime(healthChecks.filter(check => check.api_id === api.id), outages),
+        now.getTime()
+      ),
+      updated_at: api.updatedAt,
+    })),
+    api_versions: [
+      ...apiRows.map(api => ({
+        id: `version-${api.id}`,
+        api_id: api.id,
+        version: api.version,
+        base_url: api.base_url,
+        auth_type: api.auth_type,
+        auth_description: api.auth_description,
+        status: 'current' as const,
+        breaking_allowed: false,
+        created_at: api.updated_at,
+      })),
+      ...older.api_versions,
+    ],
+    api_endpoints: [...endpoints, ...older.api_endpoints],
+    api_usage_daily: apis.flatMap(api => buildUsageHistory(api, toDay(now))),
+    api_health_checks: healthChecks,
+    ...incident,
+    alert_rules: buildSeedAlertRules(now),
+    alerts: [],
+    api_follows: [],
+    api_comments: [],
+    notifications: [],
+    notification_preferences: [],
+    user_roles: [
+      { id: 'role-demo-editor', user_id: LOCAL_DEMO_USER.id, role: 'editor', api_id: null, created_at: now.toISOString() },
+      { id: 'role-admin', user_id: LOCAL_ADMIN_USER.id, role: 'admin', api_id: null, created_at: now.toISOString() },
+    ],
+    applications: [],
+    access_requests: [],
+    api_access_settings: [],
+    api_keys: [],
+    api_calls: [],
+  };
+};
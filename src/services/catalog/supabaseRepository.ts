@@ -0,0 +1,774 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type {
+  AccessRequest,
+  AccessRequestStatus,
+  AlertMetric,
+  AlertRule,
+  AlertStatus,
+  Api,
+  ApiAlert,
+  ApiEndpoint,
+  ApiHealthCheck,
+  ApiHealthStatus,
+  ApiLifecycle,
+  ApiRecord,
+  ApiVersion,
+  ApiVersionStatus,
+  AppRole,
+  AuthType,
+  HealthStatus,
+  Incident,
+  IncidentRecord,
+  IncidentSeverity,
+  IncidentStatus,
+  IncidentUpdate,
+  IssuedApiKey,
+  NotificationData,
+  NotificationType,
+  Team,
+  TeamChannel,
+  TeamRecord,
+  UserNotification,
+  UserRole,
+} from "@/services/types";
+import type { CatalogRepository } from "./repository";
+
+type AccessRequestRow = Database["public"]["Tables"]["access_requests"]["Row"];
+type AlertRuleRow = Database["public"]["Tables"]["alert_rules"]["Row"];
+type AlertRow = Database["public"]["Tables"]["alerts"]["Row"];
+type ApiRow = Database["public"]["Tables"]["apis"]["Row"];
+type ApiVersionRow = Database["public"]["Tables"]["api_versions"]["Row"];
+type EndpointRow = Database["public"]["Tables"]["api_endpoints"]["Row"];
+type HealthCheckRow = Database["public"]["Tables"]["api_health_checks"]["Row"];
+type IncidentRow = Database["public"]["Tables"]["incidents"]["Row"];
+type IncidentUpdateRow = Database["public"]["Tables"]["incident_updates"]["Row"];
+type NotificationRow = Database["public"]["Tables"]["notifications"]["Row"];
+type NotificationPreferenceRow = Database["public"]["Tables"]["notification_preferences"]["Row"];
+type UserRoleRow = Database["public"]["Tables"]["user_roles"]["Row"];
+type TeamRow = Database["public"]["Tables"]["teams"]["Row"];
+
+// The table stores auth_type and lifecycle as free text
+const toApiRecord = (row: ApiRow): ApiRecord => ({
+  ...row,
+  auth_type: (row.auth_type as AuthType) || 'none',
+  lifecycle: (row.lifecycle as ApiLifecycle) || 'stable',
+});
+
+// Auth type and status are free text in the table
+const toApiVersion = (row: ApiVersionRow): ApiVersion => ({
+  ...row,
+  auth_type: (row.auth_type as AuthType) || 'none',
+  status: row.status as ApiVersionStatus,
+});
+
+// The structured endpoint details are jsonb columns
+const toEndpoint = (row: EndpointRow): ApiEndpoint => ({
+  ...row,
+  parameters: (row.parameters as unknown as ApiEndpoint['parameters']) || [],
+  request_body: (row.request_body as unknown as ApiEndpoint['request_body']) || null,
+  responses: (row.responses as unknown as ApiEndpoint['responses']) || [],
+});
+
+// The status column is constrained to the HealthStatus values
+const toHealthCheck = (row: HealthCheckRow): ApiHealthCheck => ({
+  ...row,
+  status: row.status as HealthStatus,
+});
+
+// Severity and status columns are constrained to the union values
+const toIncidentRecord = (row: IncidentRow): IncidentRecord => ({
+  ...row,
+  severity: row.severity as IncidentSeverity,
+  status: row.status as IncidentStatus,
+});
+
+const toIncidentUpdate = (row: IncidentUpdateRow): IncidentUpdate => ({
+  ...row,
+  status: row.status as IncidentStatus,
+});
+
+// Metric and status columns are constrained to the union values
+const toAlertRule = (row: AlertRuleRow): AlertRule => ({
+  ...row,
+  metric: row.metric as AlertMetric,
+});
+
+const toAlert = (row: AlertRow): ApiAlert => ({
+  ...row,
+  metric: row.metric as AlertMetric,
+  status: row.status as AlertStatus,
+});
+
+// The type column is constrained to the NotificationType values and data
+// is a flat jsonb object
+const toNotification = (row: NotificationRow): UserNotification => ({
+  ...row,
+  type: row.type as NotificationType,
+  data: (row.data as NotificationData) || {},
+});
+
+const toNotificationPreference = (row: NotificationPreferenceRow) => ({
+  ...row,
+  type: row.type as NotificationType,
+});
+
+// The role column is constrained to the AppRole values
+const toUserRole = (row: UserRoleRow): UserRole => ({
+  ...row,
+  role: row.role as AppRole,
+});
+
+// contact_channels is a jsonb array
+const toTeamRecord = (row: TeamRow): TeamRecord => ({
+  ...row,
+  contact_channels: (row.contact_channels as unknown as TeamChannel[]) || [],
+});
+
+// create_team and update_team return the team_as_json shape
+const toTeam = (data: Json): Team => {
+  const team = data as unknown as Team;
+  return { ...team, ...toTeamRecord(data as unknown as TeamRow), members: team.members || [] };
+};
+
+// The status column is constrained to the AccessRequestStatus values
+const toAccessRequest = (row: AccessRequestRow): AccessRequest => ({
+  ...row,
+  status: row.status as AccessRequestStatus,
+});
+
+// issue_api_key and rotate_api_key return { key, secret }
+const toIssuedApiKey = (data: Json): IssuedApiKey => data as unknown as IssuedApiKey;
+
+// create_incident and update_incident return the incident_as_json shape
+const toIncident = (data: Json): Incident => data as unknown as Incident;
+
+// create_api and update_api return the api_as_json shape
+// What search_apis returns
+interface SearchPageJson {
+  results: { api: Json; rank: number }[];
+  total: number;
+  hidden_retired: number;
+}
+
+const toApi = (data: Json): Api => {
+  const api = data as unknown as Api;
+  return { ...api, ...toApiRecord(api), endpoints: api.endpoints || [] };
+};
+
+// PostgREST answers at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Read every row of a query page by page. The query must have a total
+// order, so no row is skipped or read twice between pages.
+const readAllPages = async <T,>(
+  readPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await readPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const createSupabaseRepository = (
+  client: SupabaseClient<Database>
+): CatalogRepository => ({
+  async listCategories() {
+    const { data, error } = await client.from('api_categories').select('*');
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async getCategory(id) {
+    const { data, error } = await client
+      .from('api_categories')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async createCategory(input) {
+    const { data, error } = await client
+      .from('api_categories')
+      .insert(input)
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async updateCategory(id, patch) {
+    const { data, error } = await client
+      .from('api_categories')
+      .update(patch)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async deleteCategory(id) {
+    // apis.category_id keeps categories in use from being deleted
+    const { error } = await client.from('api_categories').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  },
+
+  async listTeams() {
+    const { data, error } = await client.from('teams').select('*').order('name');
+    if (error) throw new Error(error.message);
+    return data.map(toTeamRecord);
+  },
+
+  async getTeam(id) {
+    const { data, error } = await client
+      .from('teams')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toTeamRecord(data) : null;
+  },
+
+  async listTeamMembers(teamId) {
+    let query = client.from('team_members').select('*').order('created_at');
+    if (teamId) query = query.eq('team_id', teamId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async listTeamApiIds(userId) {
+    const { data: memberships, error: membershipsError } = await client
+      .from('team_members')
+      .select('team_id')
+      .eq('user_id', userId);
+    if (membershipsError) throw new Error(membershipsError.message);
+    if (memberships.length === 0) return [];
+
+    const { data, error } = await client
+      .from('apis')
+      .select('id')
+      .in('team_id', memberships.map(m => m.team_id));
+    if (error) throw new Error(error.message);
+    return data.map(api => api.id);
+  },
+
+  async createTeam(input) {
+    const { data, error } = await client.rpc('create_team', {
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toTeam(data);
+  },
+
+  async updateTeam(id, input) {
+    const { data, error } = await client.rpc('update_team', {
+      p_team_id: id,
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toTeam(data);
+  },
+
+  async listApis() {
+    const { data, error } = await client.from('apis').select('*');
+    if (error) throw new Error(error.message);
+    return (data || []).map(toApiRecord);
+  },
+
+  async getApi(id) {
+    const { data, error } = await client
+      .from('apis')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toApiRecord(data) : null;
+  },
+
+  async listTags() {
+    const { data, error } = await client.rpc('list_api_tags');
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async searchApis(query, filters, { offset, limit }) {
+    const { data, error } = await client.rpc('search_apis', {
+      p_query: query,
+      p_filters: {
+        category_id: filters.categoryId ?? null,
+        auth_type: filters.authType ?? null,
+        lifecycle: filters.lifecycle ?? null,
+        include_retired: filters.includeRetired ?? false,
+        tags: filters.tags ?? [],
+        excluded_tags: filters.excludedTags ?? [],
+        owner: filters.owner ?? null,
+        excluded_owners: filters.excludedOwners ?? [],
+        methods: filters.methods ?? [],
+        excluded_methods: filters.excludedMethods ?? [],
+        min_calls: filters.minCalls ?? null,
+        max_calls: filters.maxCalls ?? null,
+        sort_by: filters.sortBy ?? 'relevance',
+      },
+      p_offset: offset,
+      p_limit: limit,
+    });
+    if (error) throw new Error(error.message);
+    const page = data as unknown as SearchPageJson;
+    return {
+      results: page.results.map(result => ({ api: toApi(result.api), rank: result.rank })),
+      total: page.total,
+      hiddenRetired: page.hidden_retired,
+    };
+  },
+
+  async createApi(input) {
+    const { data, error } = await client.rpc('create_api', {
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toApi(data);
+  },
+
+  async updateApi(id, input) {
+    const { data, error } = await client.rpc('update_api', {
+      p_api_id: id,
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toApi(data);
+  },
+
+  async deleteApi(id) {
+    // Rows of the related tables go with it (ON DELETE CASCADE). Row-level
+    // security skips APIs the user cannot edit instead of failing.
+    const { data, error } = await client.from('apis').delete().eq('id', id).select('id');
+    if (error) throw new Error(error.message);
+    if (data.length === 0) {
+      throw new Error(`API ${id} does not exist or you cannot delete it`);
+    }
+  },
+
+  async listStats(apiId) {
+    let query = client.from('api_stats').select('*');
+    if (apiId) query = query.eq('api_id', apiId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async listEndpoints(apiId) {
+    let query = client.from('api_endpoints').select('*');
+    if (apiId) query = query.eq('api_id', apiId);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data.map(toEndpoint);
+  },
+
+  async listApiVersions(apiId) {
+    let query = client.from('api_versions').select('*');
+    if (apiId) query = query.eq('api_id', apiId);
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data.map(toApiVersion);
+  },
+
+  async publishApiVersion(apiId, input) {
+    const { data, error } = await client.rpc('publish_api_version', {
+      p_api_id: apiId,
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toApi(data);
+  },
+
+  async setApiVersionStatus(id, status) {
+    const { data, error } = await client.rpc('set_api_version_status', {
+      p_version_id: id,
+      p_status: status,
+    });
+    if (error) throw new Error(error.message);
+    return toApiVersion(data);
+  },
+
+  // Long ranges over many APIs go past one page of rows
+  async listUsage(query = {}) {
+    return readAllPages((from, to) => {
+      let request = client.from('api_usage_daily').select('*');
+      if (query.apiId) request = request.eq('api_id', query.apiId);
+      if (query.from) request = request.gte('day', query.from);
+      if (query.to) request = request.lte('day', query.to);
+      return request.order('day').order('api_id').range(from, to);
+    });
+  },
+
+  async recordApiCalls(calls) {
+    if (calls.length === 0) return;
+    // Alert rules are evaluated by the api_usage_daily trigger
+    const { error } = await client.rpc('record_api_calls', { p_calls: calls as unknown as Json });
+    if (error) throw new Error(error.message);
+  },
+
+  async listHealthChecks(query = {}) {
+    let request = client.from('api_health_checks').select('*');
+    if (query.apiId) request = request.eq('api_id', query.apiId);
+    if (query.since) request = request.gt('checked_at', query.since);
+    request = request.order('checked_at', { ascending: false });
+    if (query.limit) request = request.limit(query.limit);
+    const { data, error } = await request;
+    if (error) throw new Error(error.message);
+    return data.map(toHealthCheck);
+  },
+
+  async listHealthDaily(query = {}) {
+    return readAllPages((from, to) => {
+      let request = client.from('api_health_daily').select('*');
+      if (query.apiId) request = request.eq('api_id', query.apiId);
+      if (query.since) request = request.gte('day', query.since);
+      return request.order('day').order('api_id').range(from, to);
+    });
+  },
+
+  async listApiHealthStatus(since) {
+    const { data, error } = await client.rpc('api_health_status', { p_since: since });
+    if (error) throw new Error(error.message);
+    return (data as unknown as ApiHealthStatus[]).map(status => ({
+      ...status,
+      latest: status.latest && toHealthCheck(status.latest as unknown as HealthCheckRow),
+    }));
+  },
+
+  async recordHealthChecks(checks) {
+    if (checks.length === 0) return;
+    const { error } = await client.from('api_health_checks').insert(checks);
+    if (error) throw new Error(error.message);
+
+    const { error: refreshError } = await client.rpc('refresh_api_health_stats');
+    if (refreshError) throw new Error(refreshError.message);
+
+    const { error: alertError } = await client.rpc('evaluate_alert_rules');
+    if (alertError) throw new Error(alertError.message);
+  },
+
+  async listIncidents(query = {}) {
+    let request = client.from('incidents').select('*');
+    if (query.active) request = request.neq('status', 'resolved');
+    const { data, error } = await request.order('started_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data.map(toIncidentRecord);
+  },
+
+  async getIncident(id) {
+    const { data, error } = await client
+      .from('incidents')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toIncidentRecord(data) : null;
+  },
+
+  async listIncidentApis(incidentId) {
+    let request = client.from('incident_apis').select('*');
+    if (incidentId) request = request.eq('incident_id', incidentId);
+    const { data, error } = await request;
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async listIncidentUpdates(incidentId) {
+    let request = client.from('incident_updates').select('*');
+    if (incidentId) request = request.eq('incident_id', incidentId);
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data.map(toIncidentUpdate);
+  },
+
+  async createIncident(input) {
+    const { data, error } = await client.rpc('create_incident', {
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toIncident(data);
+  },
+
+  async updateIncident(id, input) {
+    const { data, error } = await client.rpc('update_incident', {
+      p_incident_id: id,
+      payload: input as unknown as Json,
+    });
+    if (error) throw new Error(error.message);
+    return toIncident(data);
+  },
+
+  async listAlertRules(apiId) {
+    let request = client.from('alert_rules').select('*');
+    if (apiId) request = request.eq('api_id', apiId);
+    const { data, error } = await request.order('created_at');
+    if (error) throw new Error(error.message);
+    return data.map(toAlertRule);
+  },
+
+  async createAlertRule(input) {
+    const { data, error } = await client.from('alert_rules').insert(input).select().single();
+    if (error) throw new Error(error.message);
+    return toAlertRule(data);
+  },
+
+  async updateAlertRule(id, patch) {
+    const { data, error } = await client
+      .from('alert_rules')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return toAlertRule(data);
+  },
+
+  async deleteAlertRule(id) {
+    // Its alerts go with it (ON DELETE CASCADE)
+    const { error } = await client.from('alert_rules').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  },
+
+  async listAlerts(query = {}) {
+    let request = client.from('alerts').select('*');
+    if (query.apiId) request = request.eq('api_id', query.apiId);
+    if (query.open) request = request.neq('status', 'resolved');
+    const { data, error } = await request.order('fired_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data.map(toAlert);
+  },
+
+  async setAlertStatus(id, status) {
+    const { data, error } = await client.rpc('set_alert_status', {
+      p_alert_id: id,
+      p_status: status,
+    });
+    if (error) throw new Error(error.message);
+    return toAlert(data);
+  },
+
+  async evaluateAlertRules(apiId) {
+    const { data, error } = await client.rpc('evaluate_alert_rules', apiId ? { p_api_id: apiId } : {});
+    if (error) throw new Error(error.message);
+    return data.map(toAlert);
+  },
+
+  async listFollows(userId) {
+    const { data, error } = await client.from('api_follows').select('*').eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async followApi(userId, apiId) {
+    const { data, error } = await client
+      .from('api_follows')
+      .upsert({ user_id: userId, api_id: apiId }, { onConflict: 'user_id,api_id' })
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async unfollowApi(userId, apiId) {
+    const { error } = await client
+      .from('api_follows')
+      .delete()
+      .eq('user_id', userId)
+      .eq('api_id', apiId);
+    if (error) throw new Error(error.message);
+  },
+
+  async listComments(apiId) {
+    const { data, error } = await client
+      .from('api_comments')
+      .select('*')
+      .eq('api_id', apiId)
+      .order('created_at');
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  // The set_comment_author trigger fills in the author
+  async createComment(input) {
+    const { data, error } = await client
+      .from('api_comments')
+      .insert({ api_id: input.api_id, user_id: input.user_id, body: input.body.trim() })
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async deleteComment(id) {
+    const { error } = await client.from('api_comments').delete().eq('id', id);
+    if (error) throw new Error(error.message);
+  },
+
+  async listNotifications(userId, query = {}) {
+    let request = client.from('notifications').select('*').eq('user_id', userId);
+    if (query.unread) request = request.is('read_at', null);
+    request = request.order('created_at', { ascending: false });
+    if (query.limit) request = request.limit(query.limit);
+    const { data, error } = await request;
+    if (error) throw new Error(error.message);
+    return data.map(toNotification);
+  },
+
+  async markNotificationsRead(userId, ids) {
+    let request = client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+    if (ids) request = request.in('id', ids);
+    const { error } = await request;
+    if (error) throw new Error(error.message);
+  },
+
+  async listNotificationPreferences(userId) {
+    const { data, error } = await client
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    return data.map(toNotificationPreference);
+  },
+
+  async setNotificationPreference(userId, type, enabled) {
+    const { data, error } = await client
+      .from('notification_preferences')
+      .upsert({ user_id: userId, type, enabled }, { onConflict: 'user_id,type' })
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return toNotificationPreference(data);
+  },
+
+  async listUserRoles(userId) {
+    const { data, error } = await client
+      .from('user_roles')
+      .select('*')
+      .eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    return data.map(toUserRole);
+  },
+
+  async listApplications(query = {}) {
+    let request = client.from('applications').select('*');
+    if (query.userId) request = request.eq('user_id', query.userId);
+    if (query.ids) request = request.in('id', query.ids);
+    const { data, error } = await request.order('name');
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async createApplication(input) {
+    const { data, error } = await client.from('applications').insert(input).select().single();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async listAccessRequests(query = {}) {
+    let request = client.from('access_requests').select('*');
+    if (query.apiId) request = request.eq('api_id', query.apiId);
+    if (query.userId) request = request.eq('user_id', query.userId);
+    if (query.status) request = request.eq('status', query.status);
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data.map(toAccessRequest);
+  },
+
+  async requestAccess(input) {
+    // The requester is the signed-in user (auth.uid())
+    const { data, error } = await client.rpc('request_api_access', {
+      p_api_id: input.api_id,
+      p_application_id: input.application_id,
+      p_message: input.message ?? undefined,
+    });
+    if (error) throw new Error(error.message);
+    return toAccessRequest(data);
+  },
+
+  async decideAccessRequest(id, decision) {
+    // decided_by is the signed-in user (auth.uid())
+    const { data, error } = await client.rpc('decide_access_request', {
+      p_request_id: id,
+      p_decision: decision,
+    });
+    if (error) throw new Error(error.message);
+    return toAccessRequest(data);
+  },
+
+  async listAccessSettings(apiId) {
+    let request = client.from('api_access_settings').select('*');
+    if (apiId) request = request.eq('api_id', apiId);
+    const { data, error } = await request;
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async setAutoApprove(apiId, autoApprove) {
+    const { data, error } = await client
+      .from('api_access_settings')
+      .upsert(
+        { api_id: apiId, auto_approve: autoApprove, updated_at: new Date().toISOString() },
+        { onConflict: 'api_id' }
+      )
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async listApiKeys(query = {}) {
+    let request = client.from('api_keys').select('*');
+    if (query.applicationIds) request = request.in('application_id', query.applicationIds);
+    if (query.apiId) request = request.eq('api_id', query.apiId);
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async findApiKeyByHash(keyHash) {
+    const { data, error } = await client.from('api_keys').select('*').eq('key_hash', keyHash).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async issueApiKey(input) {
+    const { data, error } = await client.rpc('issue_api_key', {
+      p_application_id: input.application_id,
+      p_api_id: input.api_id,
+      p_expires_at: input.expires_at ?? undefined,
+    });
+    if (error) throw new Error(error.message);
+    return toIssuedApiKey(data);
+  },
+
+  async rotateApiKey(id) {
+    const { data, error } = await client.rpc('rotate_api_key', { p_key_id: id });
+    if (error) throw new Error(error.message);
+    return toIssuedApiKey(data);
+  },
+
+  async revokeApiKey(id) {
+    const { data, error } = await client.rpc('revoke_api_key', { p_key_id: id });
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async revokeApiKeyAsOwner(id) {
+    const { data, error } = await client.rpc('revoke_api_key_as_owner', { p_key_id: id });
+    if (error) throw new Error(error.message);
+    return data;
+  },
+});
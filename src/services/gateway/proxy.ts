@@ -0,0 +1,235 @@
+// API gateway shared by the Supabase edge function (Deno) and
+// scripts/gateway.mjs (Node). Calls to /{apiId}/... are forwarded to the
+// API's base URL and recorded. Its only import is the key hashing, by
+// relative path, so every runtime can load it as-is.
+import { hashApiKey } from "../access/hash.ts";
+
+export interface GatewayApi {
+  id: string;
+  base_url: string;
+  auth_type: string;
+}
+
+export interface GatewayKey {
+  id: string;
+  application_id: string;
+  api_id: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+// Same shape as an api_calls row without its id
+export interface GatewayCall {
+  api_id: string;
+  key_id: string | null;
+  application_id: string | null;
+  method: string;
+  path: string;
+  status: number;
+  latency_ms: number;
+  called_at: string;
+}
+
+// Where the gateway reads APIs and keys and stores the calls it forwarded
+export interface GatewayBackend {
+  findApi(id: string): Promise<GatewayApi | null>;
+  findKeyByHash(keyHash: string): Promise<GatewayKey | null>;
+  recordCall(call: GatewayCall): Promise<void>;
+}
+
+export interface GatewayOptions {
+  fetchImpl?: typeof fetch;
+  // Upstream calls slower than this are abandoned and answered with 504
+  timeoutMs?: number;
+  // Path the gateway is served under, e.g. "/gateway" for the edge function
+  basePath?: string;
+  // Forward every call to this origin instead of the API's base URL, to
+  // test against a local server
+  baseUrlOverride?: string;
+}
+
+export const DEFAULT_GATEWAY_TIMEOUT_MS = 30000;
+
+// Consumers send their portal key in this header, as a bearer token or
+// in this query parameter. The gateway removes it before forwarding.
+export const GATEWAY_KEY_HEADER = "X-API-Key";
+export const GATEWAY_KEY_QUERY = "api_key";
+
+// Same as API_KEY_PREFIX in src/services/access/keys.ts
+const PORTAL_KEY_PREFIX = "avk_";
+
+// Not forwarded in either direction. fetch decompresses bodies, so their
+// encoding and length no longer apply.
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+  "content-length",
+  "content-encoding",
+];
+
+// Statuses that cannot carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,POST,PUT,PATCH,DELETE,OPTIONS",
+  "Access-Control-Expose-Headers": "*",
+};
+
+const jsonError = (status: number, message: string) =>
+  Response.json({ error: message }, { status, headers: CORS_HEADERS });
+
+// "/{apiId}/rest/of/path" below basePath, or null when there is no API id
+// or it is not validly percent-encoded
+export const parseGatewayPath = (pathname: string, basePath = "") => {
+  const rest = basePath && pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname;
+  const match = rest.match(/^\/([^/]+)(\/.*)?$/);
+  if (!match) return null;
+  try {
+    return { apiId: decodeURIComponent(match[1]), path: match[2] || "/" };
+  } catch {
+    // URIError on malformed escapes such as "%E0%A4%A"
+    return null;
+  }
+};
+
+export const upstreamUrl = (baseUrl: string, path: string, search = "") =>
+  `${baseUrl.replace(/\/+$/, "")}${path}${search}`;
+
+// The portal key of a call, and the headers and query left once it is
+// removed. Bearer tokens that are not portal keys are left for the API.
+export const extractApiKey = (headers: Headers, searchParams: URLSearchParams) => {
+  const forwardHeaders = new Headers(headers);
+  const forwardParams = new URLSearchParams(searchParams);
+  const bearer = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  let secret = headers.get(GATEWAY_KEY_HEADER) || forwardParams.get(GATEWAY_KEY_QUERY);
+  if (!secret && bearer?.startsWith(PORTAL_KEY_PREFIX)) {
+    secret = bearer;
+    forwardHeaders.delete("authorization");
+  }
+  forwardHeaders.delete(GATEWAY_KEY_HEADER);
+  forwardParams.delete(GATEWAY_KEY_QUERY);
+  return { secret: secret || null, headers: forwardHeaders, searchParams: forwardParams };
+};
+
+// Why a key cannot call the API, or null when it can. Keys of rejected
+// access requests are revoked, so the key alone decides.
+export const keyRejection = (key: GatewayKey | null, apiId: string, now = Date.now()) => {
+  if (!key || key.api_id !== apiId) return "Invalid API key";
+  if (key.revoked_at) return "API key revoked";
+  if (key.expires_at && Date.parse(key.expires_at) <= now) return "API key expired";
+  return null;
+};
+
+const withoutHopByHop = (headers: Headers) => {
+  const copy = new Headers(headers);
+  HOP_BY_HOP_HEADERS.forEach(name => copy.delete(name));
+  return copy;
+};
+
+// Answer one call. Calls to unknown APIs and calls rejected for their key
+// are not forwarded nor recorded; forwarded calls are recorded with the
+// status the consumer got, 502 and 504 included. Never throws.
+export const handleGatewayRequest = async (
+  request: Request,
+  backend: GatewayBackend,
+  options: GatewayOptions = {}
+): Promise<Response> => {
+  if (request.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...CORS_HEADERS,
+        "Access-Control-Allow-Headers": request.headers.get("access-control-request-headers") || "*",
+      },
+    });
+  }
+
+  const url = new URL(request.url);
+  const target = parseGatewayPath(url.pathname, options.basePath);
+  if (!target) return jsonError(404, "Call the gateway as /{apiId}/path");
+
+  let api: GatewayApi | null;
+  let key: GatewayKey | null = null;
+  const { secret, headers, searchParams } = extractApiKey(request.headers, url.searchParams);
+  try {
+    api = await backend.findApi(target.apiId);
+    if (!api) return jsonError(404, `API ${target.apiId} does not exist`);
+
+    if (api.auth_type === "apiKey") {
+      if (!secret) return jsonError(401, `Send your API key in the ${GATEWAY_KEY_HEADER} header`);
+      key = await backend.findKeyByHash(await hashApiKey(secret));
+      const rejection = keyRejection(key, api.id);
+      if (rejection) return jsonError(403, rejection);
+    }
+  } catch (error) {
+    return jsonError(500, error instanceof Error ? error.message : "Gateway error");
+  }
+
+  const fetchImpl = options.fetchImpl || fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_GATEWAY_TIMEOUT_MS;
+  const search = searchParams.toString();
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+  let body: ArrayBuffer | undefined;
+  try {
+    body = hasBody ? await request.arrayBuffer() : undefined;
+  } catch (error) {
+    return jsonError(400, error instanceof Error ? error.message : "The request body could not be read");
+  }
+  const called_at = new Date().toISOString();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const started = Date.now();
+
+  let response: Response;
+  try {
+    const upstream = await fetchImpl(
+      upstreamUrl(options.baseUrlOverride || api.base_url, target.path, search ? `?${search}` : ""),
+      {
+        method: request.method,
+        headers: withoutHopByHop(headers),
+        body,
+        signal: controller.signal,
+        redirect: "manual",
+      }
+    );
+    // Read the body so the latency covers the whole answer
+    const payload = await upstream.arrayBuffer();
+    const responseHeaders = withoutHopByHop(upstream.headers);
+    Object.entries(CORS_HEADERS).forEach(([name, value]) => responseHeaders.set(name, value));
+    const empty = request.method === "HEAD" || NULL_BODY_STATUSES.includes(upstream.status);
+    response = new Response(empty ? null : payload, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    response = controller.signal.aborted
+      ? jsonError(504, `The API did not answer within ${timeoutMs}ms`)
+      : jsonError(502, error instanceof Error ? error.message : "The API could not be reached");
+  } finally {
+    clearTimeout(timer);
+  }
+
+  try {
+    await backend.recordCall({
+      api_id: api.id,
+      key_id: key?.id ?? null,
+      application_id: key?.application_id ?? null,
+      method: request.method,
+      path: target.path,
+      status: response.status,
+      latency_ms: Date.now() - started,
+      called_at,
+    });
+  } catch (error) {
+    // The consumer still gets the answer; the call is only missing from
+    // the stats
+    console.error("Could not record the call", error);
+  }
+
+  return response;
+};
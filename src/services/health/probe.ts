@@ -0,0 +1,124 @@
+// Health probing shared by the web app, the Supabase edge function (Deno)
+// and scripts/probe-health.mjs (Node). It has no imports so every runtime
+// can load it as-is.
+
+export type ProbeStatus = "up" | "degraded" | "down";
+
+export interface ProbeTarget {
+  id: string;
+  base_url: string;
+  health_path: string;
+}
+
+// Same shape as an api_health_checks row without its id
+export interface ProbeResult {
+  api_id: string;
+  checked_at: string;
+  status: ProbeStatus;
+  status_code: number | null;
+  latency_ms: number | null;
+  error: string | null;
+}
+
+export interface ProbeOptions {
+  fetchImpl?: typeof fetch;
+  // Requests slower than this are abandoned and recorded as down
+  timeoutMs?: number;
+  // Successful answers slower than this are recorded as degraded
+  degradedAfterMs?: number;
+  // Send every probe to this origin instead of the API's base URL, to
+  // probe against a local server
+  baseUrlOverride?: string;
+}
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 10000;
+export const DEFAULT_DEGRADED_AFTER_MS = 2000;
+
+export const healthUrl = (target: ProbeTarget, baseUrlOverride?: string) =>
+  `${(baseUrlOverride || target.base_url).replace(/\/+$/, "")}/${target.health_path.replace(/^\/+/, "")}`;
+
+// Call an API's health path once. Never throws: failures are results.
+export const probeApi = async (
+  target: ProbeTarget,
+  options: ProbeOptions = {}
+): Promise<ProbeResult> => {
+  const fetchImpl = options.fetchImpl || fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  const degradedAfterMs = options.degradedAfterMs ?? DEFAULT_DEGRADED_AFTER_MS;
+  const checked_at = new Date().toISOString();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const started = Date.now();
+
+  try {
+    const response = await fetchImpl(healthUrl(target, options.baseUrlOverride), {
+      method: "GET",
+      headers: { Accept: "application/json, text/plain, */*" },
+      signal: controller.signal,
+    });
+    // Read the body so the timing covers the whole answer
+    await response.text();
+    const latency_ms = Date.now() - started;
+
+    if (!response.ok) {
+      return {
+        api_id: target.id,
+        checked_at,
+        status: "down",
+        status_code: response.status,
+        latency_ms,
+        error: `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+      };
+    }
+    return {
+      api_id: target.id,
+      checked_at,
+      status: latency_ms > degradedAfterMs ? "degraded" : "up",
+      status_code: response.status,
+      latency_ms,
+      error: null,
+    };
+  } catch (error) {
+    const timedOut = controller.signal.aborted;
+    return {
+      api_id: target.id,
+      checked_at,
+      status: "down",
+      status_code: null,
+      latency_ms: null,
+      error: timedOut
+        ? `Timed out after ${timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Probe several APIs, a few at a time
+export const probeApis = async (
+  targets: ProbeTarget[],
+  options: ProbeOptions & { concurrency?: number } = {}
+): Promise<ProbeResult[]> => {
+  const results: ProbeResult[] = new Array(targets.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      results[index] = await probeApi(targets[index], options);
+    }
+  };
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 5, targets.length));
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return results;
+};
+
+// APIs with a health path, as probe targets
+export const toProbeTargets = (
+  apis: { id: string; base_url: string; health_path: string | null }[]
+): ProbeTarget[] =>
+  apis
+    .filter(api => api.health_path)
+    .map(api => ({ id: api.id, base_url: api.base_url, health_path: api.health_path as string }));
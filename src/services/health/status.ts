@@ -0,0 +1,60 @@
+import { addDays } from "@/lib/days";
+import { summarizeDaily } from "@/services/health/summary";
+import type { ApiHealthCheck, ApiHealthDaily, HealthStatus } from "@/services/types";
+
+export const STATUS_PAGE_DAYS = 90;
+
+export interface StatusDay {
+  // YYYY-MM-DD
+  day: string;
+  // null when the API was not probed that day
+  uptime: number | null;
+  checks: number;
+  avgLatencyMs: number | null;
+}
+
+// An API that is failing its health checks right now, whether or not an
+// incident was declared for it
+export interface DetectedOutage {
+  apiId: string;
+  status: Exclude<HealthStatus, "up">;
+  // First check of the current failing streak
+  since: string;
+  error: string | null;
+}
+
+// One bar per day from `lastDay - days + 1` to `lastDay`, oldest first
+export const buildStatusDays = (
+  rows: ApiHealthDaily[],
+  lastDay: string,
+  days = STATUS_PAGE_DAYS
+): StatusDay[] => {
+  const byDay = new Map(rows.map(row => [row.day, row]));
+  return Array.from({ length: days }, (_, index) => {
+    const day = addDays(lastDay, index - days + 1);
+    const row = byDay.get(day);
+    const summary = summarizeDaily(row ? [row] : []);
+    return {
+      day,
+      uptime: summary.uptime,
+      checks: summary.checks,
+      avgLatencyMs: summary.avgLatencyMs,
+    };
+  });
+};
+
+// Detect an ongoing outage from an API's checks, newest first: the
+// latest check failed, and the streak goes back to the last good check
+export const detectOutage = (checks: ApiHealthCheck[]): DetectedOutage | null => {
+  const latest = checks[0];
+  if (!latest || latest.status === "up") return null;
+
+  const recovered = checks.findIndex(check => check.status === "up");
+  const streak = recovered === -1 ? checks : checks.slice(0, recovered);
+  return {
+    apiId: latest.api_id,
+    status: latest.status,
+    since: streak[streak.length - 1].checked_at,
+    error: latest.error,
+  };
+};
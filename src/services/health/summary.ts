@@ -0,0 +1,95 @@
+import type { ApiHealthCheck, ApiHealthDaily, ApiStats, HealthStatus } from "@/services/types";
+
+type CheckFields = Pick<ApiHealthCheck, "api_id" | "checked_at" | "status" | "latency_ms">;
+
+export interface HealthSummary {
+  // Percentage of checks that were not down; null without checks
+  uptime: number | null;
+  // Average latency of the checks that were not down
+  avgLatencyMs: number | null;
+  checks: number;
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export const summarizeChecks = (checks: CheckFields[]): HealthSummary => {
+  const up = checks.filter(check => check.status !== "down");
+  const latencies = up.map(check => check.latency_ms).filter((ms): ms is number => ms !== null);
+  return {
+    uptime: checks.length > 0 ? round((100 * up.length) / checks.length, 2) : null,
+    avgLatencyMs: latencies.length > 0
+      ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length)
+      : null,
+    checks: checks.length,
+  };
+};
+
+export const summarizeDaily = (rows: ApiHealthDaily[]): HealthSummary => {
+  const checks = rows.reduce((sum, row) => sum + row.checks, 0);
+  const up = rows.reduce((sum, row) => sum + row.up_checks, 0);
+  // Weight each day's latency by its successful checks
+  const timed = rows.filter(row => row.avg_latency_ms !== null && row.up_checks > 0);
+  const timedChecks = timed.reduce((sum, row) => sum + row.up_checks, 0);
+  return {
+    uptime: checks > 0 ? round((100 * up) / checks, 2) : null,
+    avgLatencyMs: timedChecks > 0
+      ? Math.round(timed.reduce((sum, row) => sum + (row.avg_latency_ms as number) * row.up_checks, 0) / timedChecks)
+      : null,
+    checks,
+  };
+};
+
+export const HEALTH_STATUS_LABELS: Record<HealthStatus, string> = {
+  up: "Operativa",
+  degraded: "Degradada",
+  down: "Caída",
+};
+
+// Uptime for display; APIs that were never probed have none
+export const formatUptime = (uptime: number | null | undefined) =>
+  uptime === null || uptime === undefined ? "Sin datos" : `${uptime}%`;
+
+export const checksSince = <T extends CheckFields>(checks: T[], sinceMs: number) =>
+  checks.filter(check => Date.parse(check.checked_at) > sinceMs);
+
+// Group checks per API and UTC day, like the api_health_daily view
+export const rollupHealthDaily = (checks: CheckFields[]): ApiHealthDaily[] => {
+  const groups = new Map<string, CheckFields[]>();
+  checks.forEach(check => {
+    const key = `${check.api_id}|${check.checked_at.slice(0, 10)}`;
+    groups.set(key, [...(groups.get(key) || []), check]);
+  });
+  return [...groups.entries()].map(([key, group]) => {
+    const [api_id, day] = key.split("|");
+    const summary = summarizeChecks(group);
+    return {
+      api_id,
+      day,
+      checks: group.length,
+      up_checks: group.filter(check => check.status !== "down").length,
+      avg_latency_ms: summary.avgLatencyMs,
+    };
+  });
+};
+
+// The figures refresh_api_health_stats stores in api_stats: uptime over the
+// last 30 days, response time over the last 24 hours (else 30 days)
+export const deriveHealthStats = (
+  checks: CheckFields[],
+  now = Date.now()
+): Pick<ApiStats, "uptime" | "response_time"> | null => {
+  const month = checksSince(checks, now - 30 * DAY_MS);
+  if (month.length === 0) return null;
+  const monthSummary = summarizeChecks(month);
+  const daySummary = summarizeChecks(checksSince(month, now - DAY_MS));
+  return {
+    uptime: monthSummary.uptime,
+    response_time: daySummary.avgLatencyMs ?? monthSummary.avgLatencyMs,
+  };
+};
@@ -0,0 +1,66 @@
+import type {
+  ApiHealthCheck,
+  Incident,
+  IncidentSeverity,
+  IncidentStatus,
+} from "@/services/types";
+
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ["minor", "major", "critical"];
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ["investigating", "identified", "monitoring", "resolved"];
+
+export const INCIDENT_SEVERITY_LABELS: Record<IncidentSeverity, string> = {
+  minor: "Menor",
+  major: "Mayor",
+  critical: "Crítica",
+};
+
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  investigating: "Investigando",
+  identified: "Identificada",
+  monitoring: "En observación",
+  resolved: "Resuelta",
+};
+
+// Major and critical incidents are outages: health checks taken while one
+// is open count as down, as in the incident_downtime database function.
+// Minor incidents only inform.
+export const DOWNTIME_SEVERITIES: IncidentSeverity[] = ["major", "critical"];
+
+export const isIncidentActive = (incident: Pick<Incident, "status">) => incident.status !== "resolved";
+
+export const affectsApi = (incident: Pick<Incident, "affected">, apiId: string) =>
+  incident.affected.some(impact => impact.api_id === apiId);
+
+// Endpoint ids an incident names for an API; empty when the whole API is
+// affected or the API is not affected at all
+export const affectedEndpointIds = (incident: Pick<Incident, "affected">, apiId: string) =>
+  incident.affected.find(impact => impact.api_id === apiId)?.endpoint_ids || [];
+
+// Whether a check of an API falls within an outage declared by an incident
+export const inIncidentDowntime = (
+  incidents: Pick<Incident, "severity" | "started_at" | "resolved_at" | "affected">[],
+  apiId: string,
+  at: string
+) => {
+  const time = Date.parse(at);
+  return incidents.some(incident =>
+    DOWNTIME_SEVERITIES.includes(incident.severity) &&
+    affectsApi(incident, apiId) &&
+    time >= Date.parse(incident.started_at) &&
+    (incident.resolved_at === null || time < Date.parse(incident.resolved_at))
+  );
+};
+
+// Checks with the ones taken during declared outages marked as down
+export const applyIncidentDowntime = <T extends Pick<ApiHealthCheck, "api_id" | "checked_at" | "status">>(
+  checks: T[],
+  incidents: Pick<Incident, "severity" | "started_at" | "resolved_at" | "affected">[]
+): T[] =>
+  incidents.length === 0
+    ? checks
+    : checks.map(check =>
+        check.status !== "down" && inIncidentDowntime(incidents, check.api_id, check.checked_at)
+          ? { ...check, status: "down" }
+          : check
+      );
@@ -0,0 +1,45 @@
+import type { Api, ApiLifecycle } from "@/services/types";
+import { DAY_MS } from "@/services/health/summary";
+
+export const LIFECYCLES: ApiLifecycle[] = ["draft", "beta", "stable", "deprecated", "retired"];
+
+export const LIFECYCLE_LABELS: Record<ApiLifecycle, string> = {
+  draft: "Borrador",
+  beta: "Beta",
+  stable: "Estable",
+  deprecated: "Deprecada",
+  retired: "Retirada",
+};
+
+export const LIFECYCLE_DESCRIPTIONS: Record<ApiLifecycle, string> = {
+  draft: "En diseño; puede cambiar sin aviso.",
+  beta: "Usable, aunque todavía puede tener cambios incompatibles.",
+  stable: "Lista para producción.",
+  deprecated: "Sigue funcionando hasta su fecha de retirada; hay que migrar a su sucesora.",
+  retired: "Ya no funciona.",
+};
+
+// Retired APIs are left out of listings unless asked for
+export const isRetired = (api: Pick<Api, "lifecycle">) => api.lifecycle === "retired";
+
+// Whole days left until the sunset date, rounded up; 0 once it has passed
+export const daysUntilSunset = (sunsetAt: string, now = Date.now()) =>
+  Math.max(0, Math.ceil((new Date(sunsetAt).getTime() - now) / DAY_MS));
+
+// Response headers a deprecated API answers with: Deprecation (RFC 9745)
+// holds when it was deprecated and Sunset (RFC 8594) when it stops
+// answering. Empty for APIs that are not deprecated.
+export const deprecationHeaders = (
+  api: Pick<Api, "lifecycle" | "deprecated_at" | "sunset_at">
+): Record<string, string> => {
+  if (api.lifecycle !== "deprecated") return {};
+
+  const headers: Record<string, string> = {};
+  if (api.deprecated_at) {
+    headers.Deprecation = `@${Math.floor(new Date(api.deprecated_at).getTime() / 1000)}`;
+  }
+  if (api.sunset_at) {
+    headers.Sunset = new Date(api.sunset_at).toUTCString();
+  }
+  return headers;
+};
@@ -0,0 +1,97 @@
+import { describeAlertCondition, formatAlertValue } from "@/services/alerts/evaluate";
+import type {
+  AlertMetric,
+  NotificationPreference,
+  NotificationType,
+  UserNotification,
+} from "@/services/types";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "api_version",
+  "api_deprecation",
+  "access_request",
+  "alert_fired",
+  "api_comment",
+];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  api_version: "Nuevas versiones",
+  api_deprecation: "Avisos de deprecación",
+  access_request: "Solicitudes de acceso",
+  alert_fired: "Alertas",
+  api_comment: "Comentarios",
+};
+
+export const NOTIFICATION_TYPE_DESCRIPTIONS: Record<NotificationType, string> = {
+  api_version: "Una API que sigues publica una versión nueva.",
+  api_deprecation: "Una API que sigues se depreca o tiene fecha de retirada.",
+  access_request: "Se aprueba o rechaza una solicitud de acceso tuya.",
+  alert_fired: "Salta una alerta en una API que sigues.",
+  api_comment: "Alguien comenta en una API tuya o que sigues.",
+};
+
+// Types without a preference row are received
+export const isNotificationEnabled = (
+  preferences: Pick<NotificationPreference, "type" | "enabled">[],
+  type: NotificationType
+) => preferences.find(preference => preference.type === type)?.enabled ?? true;
+
+export interface NotificationText {
+  title: string;
+  body: string | null;
+  // Page the notification opens
+  link: string | null;
+}
+
+// Build the text of a notification from its type and data
+export const describeNotification = (
+  notification: Pick<UserNotification, "type" | "api_id" | "data">,
+  apiName = "Una API"
+): NotificationText => {
+  const { data } = notification;
+  const link = notification.api_id ? `/view/${notification.api_id}` : null;
+
+  switch (notification.type) {
+    case "api_version":
+      return {
+        title: `${apiName} publicó la versión ${data.version}`,
+        body: data.previous_version ? `Antes: ${data.previous_version}` : null,
+        link,
+      };
+    case "api_deprecation":
+      return {
+        title: `${apiName} está deprecada`,
+        body: data.sunset_at
+          ? `Dejará de funcionar el ${new Date(String(data.sunset_at)).toLocaleDateString("es")}.`
+          : null,
+        link,
+      };
+    case "access_request":
+      return {
+        title: data.decision === "approved"
+          ? `Acceso aprobado a ${apiName}`
+          : `Acceso rechazado a ${apiName}`,
+        body: data.application ? `Aplicación: ${data.application}` : null,
+        link: "/applications",
+      };
+    case "alert_fired": {
+      const metric = data.metric as AlertMetric;
+      const condition = {
+        metric,
+        threshold: Number(data.threshold),
+        window_days: Number(data.window_days),
+      };
+      return {
+        title: `Alerta en ${apiName}`,
+        body: `${describeAlertCondition(condition)} · medido ${formatAlertValue(metric, Number(data.value))}`,
+        link,
+      };
+    }
+    case "api_comment":
+      return {
+        title: `${data.author || "Alguien"} comentó en ${apiName}`,
+        body: data.excerpt ? String(data.excerpt) : null,
+        link,
+      };
+  }
+};
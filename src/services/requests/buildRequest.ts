@@ -0,0 +1,103 @@
+import type { Api } from "@/services/types";
+import { getAuthPlacement } from "@/services/specs/auth";
+
+export interface KeyValue {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+// What the user filled in to call one endpoint
+export interface RequestInput {
+  baseUrl: string;
+  method: string;
+  path: string;
+  pathParams: Record<string, string>;
+  query: KeyValue[];
+  headers: KeyValue[];
+  body: string;
+  contentType: string;
+  // API key or bearer token, placed according to the API's auth settings
+  credential: string;
+}
+
+// A request ready to be sent, or turned into a snippet
+export interface BuiltRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+const METHODS_WITHOUT_BODY = ["GET", "HEAD"];
+
+export const methodAllowsBody = (method: string) =>
+  !METHODS_WITHOUT_BODY.includes(method.toUpperCase());
+
+// Join the base URL and the path without doubling or dropping the slash
+export const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+
+// Fill {placeholders} with encoded values; empty ones are left as they are
+export const fillPath = (path: string, values: Record<string, string>) =>
+  path.replace(/\{([^}]+)\}/g, (match, name: string) =>
+    values[name] ? encodeURIComponent(values[name]) : match
+  );
+
+const active = (pairs: KeyValue[]) => pairs.filter(pair => pair.enabled && pair.key.trim());
+
+// Build the final URL, headers and body of a request. Throws when the base
+// URL is not absolute.
+export const buildRequest = (
+  api: Pick<Api, "auth_type" | "auth_description">,
+  input: RequestInput
+): BuiltRequest => {
+  const method = input.method.toUpperCase();
+  let url: URL;
+  try {
+    url = new URL(joinUrl(input.baseUrl, fillPath(input.path, input.pathParams)));
+  } catch {
+    throw new Error(`"${input.baseUrl}" is not a valid base URL`);
+  }
+
+  active(input.query).forEach(pair => url.searchParams.append(pair.key.trim(), pair.value));
+
+  const headers: Record<string, string> = {};
+  active(input.headers).forEach(pair => {
+    headers[pair.key.trim()] = pair.value;
+  });
+
+  const hasBody = methodAllowsBody(method) && input.body.trim() !== "";
+  if (hasBody && !Object.keys(headers).some(name => name.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = input.contentType || "application/json";
+  }
+
+  const credential = input.credential.trim();
+  if (credential) {
+    const placement = getAuthPlacement(api);
+    switch (placement.kind) {
+      case "bearer":
+        headers["Authorization"] = `Bearer ${credential}`;
+        break;
+      case "header":
+        headers[placement.name] = credential;
+        break;
+      case "query":
+        url.searchParams.set(placement.name, credential);
+        break;
+      case "cookie":
+        headers["Cookie"] = `${placement.name}=${credential}`;
+        break;
+    }
+  }
+
+  // URL encodes the {braces} of unfilled placeholders; keep them readable
+  const href = url.toString().replace(/%7B([^%]+)%7D/g, "{$1}");
+
+  return {
+    method,
+    url: href,
+    headers,
+    ...(hasBody && { body: input.body }),
+  };
+};
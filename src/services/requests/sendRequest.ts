@@ -0,0 +1,64 @@
+import type { BuiltRequest } from "./buildRequest";
+
+export interface ConsoleResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  // Milliseconds from sending the request until the body was read
+  durationMs: number;
+  sizeBytes: number;
+  body: string;
+  // The body re-indented when it is JSON, otherwise the raw text
+  prettyBody: string;
+  isJson: boolean;
+}
+
+export const prettyPrint = (body: string): { text: string; isJson: boolean } => {
+  if (!body.trim()) return { text: body, isJson: false };
+  try {
+    return { text: JSON.stringify(JSON.parse(body), null, 2), isJson: true };
+  } catch {
+    return { text: body, isJson: false };
+  }
+};
+
+// Send a built request with fetch. Network and CORS failures reject with a
+// message that explains the usual causes.
+export const sendRequest = async (
+  request: BuiltRequest,
+  options: { signal?: AbortSignal; fetchImpl?: typeof fetch } = {}
+): Promise<ConsoleResponse> => {
+  const fetchImpl = options.fetchImpl || fetch;
+  const started = performance.now();
+
+  let response: Response;
+  try {
+    response = await fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") throw error;
+    throw new Error(
+      `The request could not be sent (${error instanceof Error ? error.message : String(error)}). ` +
+        "Check that the server is reachable and allows CORS requests from this site."
+    );
+  }
+
+  const body = await response.text();
+  const durationMs = Math.round(performance.now() - started);
+  const { text, isJson } = prettyPrint(body);
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    durationMs,
+    sizeBytes: new TextEncoder().encode(body).length,
+    body,
+    prettyBody: text,
+    isJson,
+  };
+};
@@ -0,0 +1,286 @@
+import type { Api, ApiEndpoint } from "@/services/types";
+import { getAuthPlacement } from "@/services/specs/auth";
+import { buildRequest, type BuiltRequest } from "./buildRequest";
+
+export const SNIPPET_LANGUAGES = [
+  { id: "curl", label: "cURL" },
+  { id: "fetch", label: "JavaScript (fetch)" },
+  { id: "axios", label: "JavaScript (axios)" },
+  { id: "python", label: "Python (requests)" },
+  { id: "go", label: "Go (net/http)" },
+  { id: "java", label: "Java (HttpClient)" },
+] as const;
+
+export type SnippetLanguage = typeof SNIPPET_LANGUAGES[number]["id"];
+
+export const DEFAULT_SNIPPET_LANGUAGE: SnippetLanguage = "curl";
+
+export const isSnippetLanguage = (value: unknown): value is SnippetLanguage =>
+  SNIPPET_LANGUAGES.some(language => language.id === value);
+
+const CREDENTIAL_PLACEHOLDERS = {
+  bearer: "your_access_token",
+  apiKey: "your_api_key_here",
+};
+
+const exampleText = (example: unknown) =>
+  example === undefined ? "" : typeof example === "string" ? example : JSON.stringify(example, null, 2);
+
+// The request a snippet shows: path and required query/header parameters
+// stay as {placeholders}, the credential as a placeholder value and the
+// body as the documented example
+export const buildSnippetRequest = (
+  api: Pick<Api, "base_url" | "auth_type" | "auth_description">,
+  endpoint: Pick<ApiEndpoint, "method" | "path"> & Partial<Pick<ApiEndpoint, "parameters" | "request_body">>
+): BuiltRequest => {
+  const parameters = endpoint.parameters || [];
+  const required = (location: "query" | "header") =>
+    parameters
+      .filter(p => p.in === location && p.required)
+      .map(p => ({ key: p.name, value: `{${p.name}}`, enabled: true }));
+  const content = endpoint.request_body?.content[0];
+
+  return buildRequest(api, {
+    baseUrl: api.base_url,
+    method: endpoint.method,
+    path: endpoint.path,
+    pathParams: {},
+    query: required("query"),
+    headers: required("header"),
+    body: exampleText(content?.example) || (content ? "{}" : ""),
+    contentType: content?.content_type || "application/json",
+    credential:
+      getAuthPlacement(api).kind === "bearer"
+        ? CREDENTIAL_PLACEHOLDERS.bearer
+        : CREDENTIAL_PLACEHOLDERS.apiKey,
+  });
+};
+
+const parseJson = (body: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(body) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+const indent = (text: string, prefix: string) =>
+  text
+    .split("\n")
+    .map((line, i) => (i === 0 ? line : prefix + line))
+    .join("\n");
+
+const quote = (value: string) => JSON.stringify(value);
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const curlSnippet = ({ method, url, headers, body }: BuiltRequest) => {
+  const lines = [method === "GET" ? `curl ${shellQuote(url)}` : `curl -X ${method} ${shellQuote(url)}`];
+  Object.entries(headers).forEach(([name, value]) => lines.push(`-H ${shellQuote(`${name}: ${value}`)}`));
+  if (body !== undefined) lines.push(`-d ${shellQuote(body)}`);
+  return lines.join(" \\\n  ");
+};
+
+const jsObject = (headers: Record<string, string>, prefix: string) =>
+  [
+    "{",
+    ...Object.entries(headers).map(([name, value]) => `${prefix}  ${quote(name)}: ${quote(value)},`),
+    `${prefix}}`,
+  ].join("\n");
+
+const jsBody = (body: string, prefix: string) => {
+  const json = parseJson(body);
+  return json.ok ? indent(JSON.stringify(json.value, null, 2), prefix) : quote(body);
+};
+
+const fetchSnippet = ({ method, url, headers, body }: BuiltRequest) => {
+  const options = [`  method: ${quote(method)},`];
+  if (Object.keys(headers).length > 0) options.push(`  headers: ${jsObject(headers, "  ")},`);
+  if (body !== undefined) {
+    const json = parseJson(body);
+    options.push(json.ok ? `  body: JSON.stringify(${jsBody(body, "  ")}),` : `  body: ${quote(body)},`);
+  }
+  return [
+    `const response = await fetch(${quote(url)}, {`,
+    ...options,
+    "});",
+    "",
+    "const data = await response.json();",
+    "console.log(response.status, data);",
+  ].join("\n");
+};
+
+const axiosSnippet = ({ method, url, headers, body }: BuiltRequest) => {
+  const options = [`  method: ${quote(method.toLowerCase())},`, `  url: ${quote(url)},`];
+  if (Object.keys(headers).length > 0) options.push(`  headers: ${jsObject(headers, "  ")},`);
+  if (body !== undefined) options.push(`  data: ${jsBody(body, "  ")},`);
+  return [
+    'import axios from "axios";',
+    "",
+    "const response = await axios({",
+    ...options,
+    "});",
+    "",
+    "console.log(response.status, response.data);",
+  ].join("\n");
+};
+
+// Write a JSON value as a Python literal
+const toPython = (value: unknown, prefix: string): string => {
+  if (value === null) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return quote(value);
+  const inner = `${prefix}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map(item => `${inner}${toPython(item, inner)},`).join("\n")}\n${prefix}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries.map(([k, v]) => `${inner}${quote(k)}: ${toPython(v, inner)},`).join("\n")}\n${prefix}}`;
+};
+
+const PYTHON_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+const pythonSnippet = ({ method, url, headers, body }: BuiltRequest) => {
+  const call = PYTHON_METHODS.includes(method)
+    ? `requests.${method.toLowerCase()}(`
+    : `requests.request(\n    ${quote(method)},`;
+  const args = [`    ${quote(url)},`];
+  const json = body !== undefined ? parseJson(body) : undefined;
+  // requests sets the JSON content type itself
+  const sentHeaders = Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name, value]) => !(json?.ok && name.toLowerCase() === "content-type" && value === "application/json")
+    )
+  );
+  if (Object.keys(sentHeaders).length > 0) {
+    args.push(`    headers=${toPython(sentHeaders, "    ")},`);
+  }
+  if (json?.ok) args.push(`    json=${toPython(json.value, "    ")},`);
+  else if (body !== undefined) args.push(`    data=${quote(body)},`);
+  return [
+    "import requests",
+    "",
+    `response = ${call}`,
+    ...args,
+    ")",
+    "",
+    "print(response.status_code)",
+    "print(response.text)",
+  ].join("\n");
+};
+
+const goString = (value: string) => (value.includes("`") ? quote(value) : `\`${value}\``);
+
+const goSnippet = ({ method, url, headers, body }: BuiltRequest) => {
+  const lines = [
+    "package main",
+    "",
+    "import (",
+    '\t"fmt"',
+    '\t"io"',
+    '\t"net/http"',
+    ...(body !== undefined ? ['\t"strings"'] : []),
+    ")",
+    "",
+    "func main() {",
+  ];
+  if (body !== undefined) {
+    lines.push(`\tbody := strings.NewReader(${goString(body)})`);
+  }
+  lines.push(
+    `\treq, err := http.NewRequest(${quote(method)}, ${quote(url)}, ${body !== undefined ? "body" : "nil"})`,
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    ...Object.entries(headers).map(([name, value]) => `\treq.Header.Set(${quote(name)}, ${quote(value)})`),
+    "",
+    "\tres, err := http.DefaultClient.Do(req)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tdefer res.Body.Close()",
+    "",
+    "\tdata, err := io.ReadAll(res.Body)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tfmt.Println(res.Status)",
+    "\tfmt.Println(string(data))",
+    "}"
+  );
+  return lines.join("\n");
+};
+
+const javaSnippet = ({ method, url, headers, body }: BuiltRequest) => {
+  const publisher =
+    body !== undefined ? `HttpRequest.BodyPublishers.ofString(${quote(body)})` : "HttpRequest.BodyPublishers.noBody()";
+  const methodCall =
+    method === "GET" && body === undefined
+      ? ".GET()"
+      : method === "DELETE" && body === undefined
+        ? ".DELETE()"
+        : `.method(${quote(method)}, ${publisher})`;
+  return [
+    "import java.net.URI;",
+    "import java.net.http.HttpClient;",
+    "import java.net.http.HttpRequest;",
+    "import java.net.http.HttpResponse;",
+    "",
+    "public class Main {",
+    "    public static void main(String[] args) throws Exception {",
+    "        HttpClient client = HttpClient.newHttpClient();",
+    "        HttpRequest request = HttpRequest.newBuilder()",
+    `            .uri(URI.create(${quote(url)}))`,
+    ...Object.entries(headers).map(([name, value]) => `            .header(${quote(name)}, ${quote(value)})`),
+    `            ${methodCall}`,
+    "            .build();",
+    "",
+    "        HttpResponse<String> response = client.send(request, HttpResponse.BodyHandlers.ofString());",
+    "        System.out.println(response.statusCode());",
+    "        System.out.println(response.body());",
+    "    }",
+    "}",
+  ].join("\n");
+};
+
+const GENERATORS: Record<SnippetLanguage, (request: BuiltRequest) => string> = {
+  curl: curlSnippet,
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  python: pythonSnippet,
+  go: goSnippet,
+  java: javaSnippet,
+};
+
+const COMMENT_PREFIXES: Record<SnippetLanguage, string> = {
+  curl: "#",
+  fetch: "//",
+  axios: "//",
+  python: "#",
+  go: "//",
+  java: "//",
+};
+
+// `responseHeaders` are headers worth knowing the API answers with, such
+// as Deprecation and Sunset; they are listed in a comment above the code
+export const generateSnippet = (
+  language: SnippetLanguage,
+  request: BuiltRequest,
+  responseHeaders: Record<string, string> = {}
+): string => {
+  const code = GENERATORS[language](request);
+  const hints = Object.entries(responseHeaders);
+  if (hints.length === 0) return code;
+
+  const comment = COMMENT_PREFIXES[language];
+  return [
+    `${comment} Las respuestas incluyen estas cabeceras:`,
+    ...hints.map(([name, value]) => `${comment}   ${name}: ${value}`),
+    "",
+    code,
+  ].join("\n");
+};
@@ -0,0 +1,107 @@
+import type { Api } from "@/services/types";
+
+// A piece of text; `match` pieces are the parts the query matched
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHighlight {
+  // Where the match is, e.g. "Endpoint" or "Equipo"
+  label: string;
+  segments: HighlightSegment[];
+}
+
+// How a search result shows why it matched: the name and a piece of the
+// description with the matches marked, plus the other fields that matched
+export interface ApiHighlights {
+  name: HighlightSegment[];
+  description: HighlightSegment[];
+  others: SearchHighlight[];
+}
+
+const SNIPPET_RADIUS = 80;
+const MAX_OTHER_HIGHLIGHTS = 3;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// The length of the longest term that prefixes the word, 0 if none
+const matchLength = (word: string, terms: string[]) =>
+  Math.max(0, ...terms.filter(term => word.toLowerCase().startsWith(term)).map(term => term.length));
+
+// Marks the prefix of each word that a term matches
+export const highlightText = (text: string, terms: string[]): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  const push = (piece: string, match: boolean) => {
+    if (!piece) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += piece;
+    else segments.push({ text: piece, match });
+  };
+
+  let position = 0;
+  for (const word of text.matchAll(WORD)) {
+    const length = matchLength(word[0], terms);
+    if (length === 0) continue;
+    push(text.slice(position, word.index), false);
+    push(text.slice(word.index, word.index + length), true);
+    position = word.index + length;
+  }
+  push(text.slice(position), false);
+  return segments;
+};
+
+export const hasMatch = (segments: HighlightSegment[]) => segments.some(segment => segment.match);
+
+// Long text cut around its first match, at word boundaries
+export const highlightSnippet = (text: string, terms: string[], radius = SNIPPET_RADIUS) => {
+  if (text.length <= radius * 2) return highlightText(text, terms);
+
+  const first = [...text.matchAll(WORD)].find(word => matchLength(word[0], terms) > 0);
+  const start = Math.max(0, Math.min((first?.index ?? 0) - radius, text.length - radius * 2));
+  const end = start + radius * 2;
+  const from = start > 0 ? text.indexOf(" ", start) + 1 || start : 0;
+  const to = end < text.length && text.lastIndexOf(" ", end) > from ? text.lastIndexOf(" ", end) : end;
+
+  return highlightText(
+    `${from > 0 ? "…" : ""}${text.slice(from, to).trim()}${to < text.length ? "…" : ""}`,
+    terms
+  );
+};
+
+type HighlightableApi = Pick<Api, "name" | "description" | "tags" | "auth_type" | "auth_description" | "team" | "endpoints">;
+
+export const searchHighlights = (api: HighlightableApi, terms: string[]): ApiHighlights => {
+  const others: SearchHighlight[] = [];
+  const add = (label: string, segments: HighlightSegment[]) => {
+    if (hasMatch(segments)) others.push({ label, segments });
+  };
+
+  if (terms.length > 0) {
+    api.tags.forEach(tag => add("Etiqueta", highlightText(tag, terms)));
+    if (api.team) add("Equipo", highlightText(api.team.name, terms));
+    (api.endpoints || []).forEach(endpoint => {
+      // Methods are not indexed, only paths and descriptions
+      const path = highlightText(endpoint.path, terms);
+      const description = highlightSnippet(endpoint.description, terms, SNIPPET_RADIUS / 2);
+      if (hasMatch(path) || hasMatch(description)) {
+        others.push({
+          label: "Endpoint",
+          segments: [
+            { text: `${endpoint.method} `, match: false },
+            ...path,
+            { text: " — ", match: false },
+            ...description,
+          ],
+        });
+      }
+    });
+    add("Autenticación", highlightText([api.auth_type, api.auth_description].filter(Boolean).join(": "), terms));
+  }
+
+  return {
+    name: highlightText(api.name, terms),
+    description: highlightSnippet(api.description, terms),
+    others: others.slice(0, MAX_OTHER_HIGHLIGHTS),
+  };
+};
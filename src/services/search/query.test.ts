@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { completeSearchQuery, parseSearchQuery, removeClause, replaceClause } from "./query";
+
+const vocabulary = {
+  tags: ["pagos", "legacy"],
+  owners: ["FinTech Solutions"],
+  categories: ["Finanzas", "Social"],
+};
+
+describe("parseSearchQuery", () => {
+  it("separates free text from clauses", () => {
+    const parsed = parseSearchQuery('pagos rápidos tag:pagos owner:"FinTech Solutions" -tag:legacy');
+    expect(parsed.text).toBe("pagos rápidos");
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.clauses.map(({ field, value, negated }) => ({ field, value, negated }))).toEqual([
+      { field: "tag", value: "pagos", negated: false },
+      { field: "owner", value: "FinTech Solutions", negated: false },
+      { field: "tag", value: "legacy", negated: true },
+    ]);
+  });
+
+  it("normalizes auth, status and method values", () => {
+    const { clauses, errors } = parseSearchQuery("auth:OAUTH2 status:deprecada method:delete");
+    expect(errors).toEqual([]);
+    expect(clauses.map(clause => clause.value)).toEqual(["oauth2", "deprecated", "DELETE"]);
+  });
+
+  it("reads calls comparisons", () => {
+    const { clauses } = parseSearchQuery("calls:>=10000 calls:500");
+    expect(clauses.map(({ operator, count }) => ({ operator, count }))).toEqual([
+      { operator: ">=", count: 10000 },
+      { operator: "=", count: 500 },
+    ]);
+  });
+
+  it("keeps unknown fields and excluded words as free text", () => {
+    const parsed = parseSearchQuery("https://x.com foo:bar -word");
+    expect(parsed.text).toBe("https://x.com foo:bar -word");
+    expect(parsed.clauses).toEqual([]);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("reports invalid clauses where they are", () => {
+    const input = 'auth:basic -category:Social owner:a owner:b calls:many tag: "open';
+    const { clauses, errors } = parseSearchQuery(input);
+    expect(clauses.map(clause => clause.field)).toEqual(["owner"]);
+    expect(errors.map(error => input.slice(error.start, error.end))).toEqual([
+      "auth:basic",
+      "-category:Social",
+      "owner:b",
+      "calls:many",
+      "tag:",
+      '"open',
+    ]);
+  });
+
+  it("checks categories against the vocabulary", () => {
+    expect(parseSearchQuery("category:finanzas", vocabulary).clauses[0].value).toBe("Finanzas");
+    expect(parseSearchQuery("category:Nope", vocabulary).errors).toHaveLength(1);
+  });
+});
+
+describe("removeClause and replaceClause", () => {
+  it("edit the query around the other words", () => {
+    const input = "pagos tag:pagos -tag:legacy";
+    const [tag] = parseSearchQuery(input).clauses;
+    expect(removeClause(input, tag)).toBe("pagos -tag:legacy");
+    expect(replaceClause(input, "tag", "open data")).toBe('pagos -tag:legacy tag:"open data"');
+    expect(replaceClause(input, "tag", null)).toBe("pagos -tag:legacy");
+  });
+});
+
+describe("completeSearchQuery", () => {
+  it("suggests field names and then their values", () => {
+    const fields = completeSearchQuery("ow", 2, vocabulary);
+    expect(fields?.suggestions.map(s => s.insert)).toEqual(["owner:"]);
+
+    const values = completeSearchQuery("tag:pa", 6, vocabulary);
+    expect(values?.suggestions.map(s => s.insert)).toEqual(["tag:pagos "]);
+  });
+});
@@ -0,0 +1,341 @@
+import type { ApiLifecycle, AuthType } from "@/services/types";
+import { LIFECYCLES, LIFECYCLE_LABELS } from "@/services/lifecycle/states";
+import { HTTP_METHODS } from "@/services/specs/types";
+
+// Search box syntax: free text mixed with field:value clauses, e.g.
+//   tag:pagos auth:oauth2 owner:"FinTech Solutions" method:DELETE calls:>10000 -tag:legacy
+// Values with spaces go in double quotes and a leading - excludes. The free
+// text is ranked as usual; the clauses become search filters. Words that are
+// not clauses of a known field, such as https://x.com or -foo, are free text.
+
+export type QueryField = "tag" | "owner" | "category" | "auth" | "status" | "method" | "calls";
+
+interface QueryFieldInfo {
+  label: string;
+  description: string;
+  // Whether a leading - may exclude it
+  negatable: boolean;
+  // Whether it may appear more than once; every value is then required
+  repeatable: boolean;
+}
+
+export const QUERY_FIELDS: Record<QueryField, QueryFieldInfo> = {
+  tag: { label: "Etiqueta", description: "Etiqueta de la API", negatable: true, repeatable: true },
+  owner: { label: "Equipo", description: "Nombre del equipo propietario", negatable: true, repeatable: false },
+  category: { label: "Categoría", description: "Nombre de la categoría", negatable: false, repeatable: false },
+  auth: { label: "Auth", description: "apiKey, oauth2 o none", negatable: false, repeatable: false },
+  status: { label: "Estado", description: "Estado del ciclo de vida", negatable: false, repeatable: false },
+  method: { label: "Método", description: "Método HTTP de algún endpoint", negatable: true, repeatable: true },
+  calls: { label: "Llamadas", description: "Llamadas totales, p. ej. >10000", negatable: false, repeatable: true },
+};
+
+const FIELDS = Object.keys(QUERY_FIELDS) as QueryField[];
+
+export const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  apiKey: "API Key",
+  oauth2: "OAuth 2.0",
+  none: "Sin autenticación",
+};
+
+const AUTH_TYPES = Object.keys(AUTH_TYPE_LABELS) as AuthType[];
+
+export type CallsOperator = ">" | ">=" | "<" | "<=" | "=";
+
+export interface QueryClause {
+  field: QueryField;
+  // Without quotes. auth, status and method values are normalized, e.g.
+  // oauth2, deprecated and DELETE; category values take the category's name.
+  value: string;
+  negated: boolean;
+  // calls clauses only; calls:10000 means exactly 10000
+  operator?: CallsOperator;
+  count?: number;
+  // Where the clause is in the query, end excluded
+  start: number;
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  // The free text, for the ranking
+  text: string;
+  // Only the valid clauses; the others are reported in errors
+  clauses: QueryClause[];
+  errors: QueryError[];
+}
+
+// Names the suggestions offer for the fields that take them
+export interface QueryVocabulary {
+  tags: string[];
+  owners: string[];
+  categories: string[];
+}
+
+interface QueryToken {
+  raw: string;
+  start: number;
+  end: number;
+  // False when a double quote is left open
+  closed: boolean;
+}
+
+// Splits at whitespace outside double quotes
+const tokenizeQuery = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let closed = true;
+    while (index < input.length && !/\s/.test(input[index])) {
+      if (input[index] !== '"') {
+        index++;
+        continue;
+      }
+      const close = input.indexOf('"', index + 1);
+      if (close === -1) {
+        closed = false;
+        index = input.length;
+      } else {
+        index = close + 1;
+      }
+    }
+    tokens.push({ raw: input.slice(start, index), start, end: index, closed });
+  }
+  return tokens;
+};
+
+const CLAUSE = /^(-?)([a-z]+):(.*)$/is;
+
+const CALLS = /^(>=|<=|>|<|=)?(\d+)$/;
+
+const unquote = (value: string) => value.replace(/"/g, "");
+
+const quote = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
+
+const findIgnoringCase = (values: readonly string[], value: string) =>
+  values.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+
+const listOf = (values: readonly string[]) =>
+  `${values.slice(0, -1).join(", ")} o ${values[values.length - 1]}`;
+
+// The clause's value checked and normalized, or the error to report
+const readValue = (
+  field: QueryField,
+  value: string,
+  vocabulary?: QueryVocabulary
+): Pick<QueryClause, "value" | "operator" | "count"> | string => {
+  switch (field) {
+    case "auth": {
+      const authType = findIgnoringCase(AUTH_TYPES, value);
+      return authType ? { value: authType } : `auth debe ser ${listOf(AUTH_TYPES)}`;
+    }
+    case "status": {
+      // The Spanish labels work too, e.g. status:deprecada
+      const lifecycle = LIFECYCLES.find(
+        candidate => candidate === value.toLowerCase() || LIFECYCLE_LABELS[candidate].toLowerCase() === value.toLowerCase()
+      );
+      return lifecycle ? { value: lifecycle } : `status debe ser ${listOf(LIFECYCLES)}`;
+    }
+    case "method": {
+      const method = findIgnoringCase(HTTP_METHODS, value);
+      return method ? { value: method } : `method debe ser ${listOf(HTTP_METHODS)}`;
+    }
+    case "calls": {
+      const match = value.match(CALLS);
+      if (!match) return "calls necesita un número, p. ej. calls:>10000";
+      return { value, operator: (match[1] || "=") as CallsOperator, count: Number(match[2]) };
+    }
+    case "category": {
+      if (!vocabulary) return { value };
+      const category = findIgnoringCase(vocabulary.categories, value);
+      return category ? { value: category } : `No hay ninguna categoría "${value}"`;
+    }
+    default:
+      return { value };
+  }
+};
+
+// Reads the clauses and free text of a query. Category names are checked
+// against the vocabulary when one is given.
+export const parseSearchQuery = (input: string, vocabulary?: QueryVocabulary): ParsedQuery => {
+  const words: string[] = [];
+  const clauses: QueryClause[] = [];
+  const errors: QueryError[] = [];
+
+  tokenizeQuery(input).forEach(token => {
+    const { start, end } = token;
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    if (!token.closed) {
+      fail("Faltan las comillas de cierre");
+      return;
+    }
+
+    const match = token.raw.match(CLAUSE);
+    const field = match && FIELDS.find(candidate => candidate === match[2].toLowerCase());
+    if (!match || !field) {
+      words.push(unquote(token.raw));
+      return;
+    }
+
+    const [, minus, , rawValue] = match;
+    const negated = minus === "-";
+    const value = unquote(rawValue).trim();
+
+    if (!value) {
+      fail(`Falta el valor de ${field}:`);
+      return;
+    }
+    if (negated && !QUERY_FIELDS[field].negatable) {
+      fail(`${field}: no se puede excluir`);
+      return;
+    }
+    if (
+      !negated &&
+      !QUERY_FIELDS[field].repeatable &&
+      clauses.some(clause => clause.field === field && !clause.negated)
+    ) {
+      fail(`Solo puede haber un ${field}:`);
+      return;
+    }
+
+    const read = readValue(field, value, vocabulary);
+    if (typeof read === "string") {
+      fail(read);
+      return;
+    }
+    clauses.push({ field, negated, ...read, start, end });
+  });
+
+  return { text: words.join(" "), clauses, errors };
+};
+
+// How a clause reads in the active filter chips
+export const clauseLabel = (clause: QueryClause) => {
+  const label = QUERY_FIELDS[clause.field].label;
+  switch (clause.field) {
+    case "auth":
+      return `${label}: ${AUTH_TYPE_LABELS[clause.value as AuthType]}`;
+    case "status":
+      return `${label}: ${LIFECYCLE_LABELS[clause.value as ApiLifecycle]}`;
+    case "calls":
+      return `${label} ${clause.operator} ${clause.count}`;
+    default:
+      return clause.negated ? `Sin ${label.toLowerCase()}: ${clause.value}` : `${label}: ${clause.value}`;
+  }
+};
+
+const joinTokens = (tokens: QueryToken[]) => tokens.map(token => token.raw).join(" ");
+
+// The query without the clause
+export const removeClause = (input: string, clause: Pick<QueryClause, "start">) =>
+  joinTokens(tokenizeQuery(input).filter(token => token.start !== clause.start));
+
+// The query with its positive clauses of the field replaced by one with
+// the value, or removed when the value is null
+export const replaceClause = (input: string, field: QueryField, value: string | null) => {
+  const kept = tokenizeQuery(input).filter(token => {
+    const match = token.raw.match(CLAUSE);
+    return !match || match[1] === "-" || match[2].toLowerCase() !== field;
+  });
+  return [joinTokens(kept), value === null ? "" : `${field}:${quote(value)}`].filter(Boolean).join(" ");
+};
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Replaces the text being completed
+  insert: string;
+}
+
+// Suggestions for the word at the cursor, and which part of the query
+// they replace
+export interface QueryCompletion {
+  start: number;
+  end: number;
+  suggestions: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const CALLS_EXAMPLES = [">1000", ">10000", ">100000", "<1000"];
+
+const fieldValues = (field: QueryField, vocabulary: QueryVocabulary): Omit<QuerySuggestion, "insert">[] => {
+  switch (field) {
+    case "tag":
+      return vocabulary.tags.map(label => ({ label }));
+    case "owner":
+      return vocabulary.owners.map(label => ({ label }));
+    case "category":
+      return vocabulary.categories.map(label => ({ label }));
+    case "auth":
+      return AUTH_TYPES.map(label => ({ label, description: AUTH_TYPE_LABELS[label] }));
+    case "status":
+      return LIFECYCLES.map(label => ({ label, description: LIFECYCLE_LABELS[label] }));
+    case "method":
+      return HTTP_METHODS.map(label => ({ label }));
+    case "calls":
+      return CALLS_EXAMPLES.map(label => ({ label }));
+  }
+};
+
+// Field names starting with the word being typed, and the field's values
+// after its colon. Values match anywhere in them, the ones starting with the
+// typed text first.
+export const completeSearchQuery = (
+  input: string,
+  cursor: number,
+  vocabulary: QueryVocabulary
+): QueryCompletion | null => {
+  const token = tokenizeQuery(input).find(candidate => candidate.start < cursor && cursor <= candidate.end);
+  if (!token) return null;
+
+  const typed = input.slice(token.start, cursor);
+  const complete = (suggestions: QuerySuggestion[]) =>
+    suggestions.length > 0 ? { start: token.start, end: token.end, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) } : null;
+
+  const fieldName = typed.match(/^(-?)([a-z]*)$/i);
+  if (fieldName) {
+    const [, minus, name] = fieldName;
+    if (!name && !minus) return null;
+    return complete(
+      FIELDS.filter(field => field.startsWith(name.toLowerCase()))
+        .filter(field => !minus || QUERY_FIELDS[field].negatable)
+        .map(field => ({ label: `${minus}${field}:`, description: QUERY_FIELDS[field].description, insert: `${minus}${field}:` }))
+    );
+  }
+
+  const clause = typed.match(CLAUSE);
+  const field = clause && FIELDS.find(candidate => candidate === clause[2].toLowerCase());
+  if (!clause || !field) return null;
+
+  const [, minus, , rawValue] = clause;
+  const value = unquote(rawValue).toLowerCase();
+  const position = (label: string) => (label.toLowerCase().startsWith(value) ? 0 : 1);
+  return complete(
+    fieldValues(field, vocabulary)
+      .filter(({ label }) => label.toLowerCase().includes(value) && label.toLowerCase() !== value)
+      .sort((a, b) => position(a.label) - position(b.label))
+      .map(suggestion => ({ ...suggestion, insert: `${minus}${field}:${quote(suggestion.label)} ` }))
+  );
+};
+
+// The query with the suggestion taken, and where the cursor goes
+export const applySuggestion = (input: string, completion: QueryCompletion, suggestion: QuerySuggestion) => {
+  const rest = input.slice(completion.end);
+  // A value's trailing space is not doubled
+  const insert = /^\s/.test(rest) ? suggestion.insert.trimEnd() : suggestion.insert;
+  const value = input.slice(0, completion.start) + insert + rest;
+  return { value, cursor: completion.start + insert.length + (insert === suggestion.insert ? 0 : 1) };
+};
@@ -0,0 +1,74 @@
+import type { Api } from "@/services/types";
+
+// Full-text search over the catalog. The search_apis database function
+// and the local backend rank with the same rules, written out here:
+// - text is split into lowercase runs of letters and digits, like the
+//   'simple' configuration after search_text() in the search migration;
+// - every query term must prefix some word of the API;
+// - each term scores the weight of the best field it appears in, halved
+//   when it only prefixes the word; an API's rank is the sum.
+
+// tsvector weights: A for the name and tags, B for the owning team and
+// the description, C for the endpoints and D for the authentication
+export type SearchWeight = "A" | "B" | "C" | "D";
+
+export const SEARCH_WEIGHTS: Record<SearchWeight, number> = {
+  A: 1,
+  B: 0.4,
+  C: 0.2,
+  D: 0.1,
+};
+
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// Lexemes of a text, in order and with repetitions
+export const tokenize = (text: string | null | undefined) =>
+  (text || "").toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// Distinct terms of a search query
+export const searchTerms = (query: string) => [...new Set(tokenize(query))];
+
+// The best weight of each lexeme of an API, like the document stored in
+// api_search_documents
+export type SearchDocument = Map<string, number>;
+
+type SearchableApi = Pick<Api, "name" | "description" | "tags" | "auth_type" | "auth_description"> & {
+  team?: Pick<NonNullable<Api["team"]>, "name">;
+  endpoints?: Pick<NonNullable<Api["endpoints"]>[number], "path" | "description">[];
+};
+
+// The text indexed under each weight
+export const searchFields = (api: SearchableApi): Record<SearchWeight, string[]> => ({
+  A: [api.name, ...api.tags],
+  B: [api.team?.name || "", api.description],
+  C: (api.endpoints || []).flatMap(endpoint => [endpoint.path, endpoint.description]),
+  D: [api.auth_type, api.auth_description || ""],
+});
+
+export const buildSearchDocument = (api: SearchableApi): SearchDocument => {
+  const document: SearchDocument = new Map();
+  const fields = searchFields(api);
+  (Object.keys(fields) as SearchWeight[]).forEach(weight =>
+    fields[weight].flatMap(tokenize).forEach(lexeme => {
+      document.set(lexeme, Math.max(document.get(lexeme) ?? 0, SEARCH_WEIGHTS[weight]));
+    })
+  );
+  return document;
+};
+
+// Rank of a document for the terms, or null when some term is missing.
+// Without terms every document matches with rank 0.
+export const rankDocument = (document: SearchDocument, terms: string[]): number | null => {
+  let rank = 0;
+  for (const term of terms) {
+    let best = 0;
+    document.forEach((weight, lexeme) => {
+      if (lexeme.startsWith(term)) {
+        best = Math.max(best, lexeme === term ? weight : weight * PREFIX_MATCH_FACTOR);
+      }
+    });
+    if (best === 0) return null;
+    rank += best;
+  }
+  return rank;
+};
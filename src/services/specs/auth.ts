@@ -0,0 +1,31 @@
+import type { Api } from "@/services/types";
+
+// Where a client puts its credentials when calling an API
+export type AuthPlacement =
+  | { kind: "none" }
+  | { kind: "header"; name: string }
+  | { kind: "query"; name: string }
+  | { kind: "cookie"; name: string }
+  | { kind: "bearer" };
+
+export const DEFAULT_API_KEY_HEADER = "X-API-Key";
+
+// Read the credential placement from auth_type and the free-text
+// auth_description, e.g. "API Key en el header X-Auth-Token" or
+// "API Key como parámetro de consulta (?api_key=XXX)"
+export const getAuthPlacement = (
+  api: Pick<Api, "auth_type" | "auth_description">
+): AuthPlacement => {
+  if (api.auth_type === "none") return { kind: "none" };
+  if (api.auth_type === "oauth2") return { kind: "bearer" };
+
+  const description = api.auth_description || "";
+  const query = description.match(/\?([A-Za-z0-9_.-]+)=/);
+  if (query) return { kind: "query", name: query[1] };
+
+  const cookie = description.match(/cookie\s+([A-Za-z0-9_.-]+)/i);
+  if (cookie) return { kind: "cookie", name: cookie[1] };
+
+  const header = description.match(/header\s+[`'"]?([A-Za-z0-9_-]+)/i);
+  return { kind: "header", name: header ? header[1] : DEFAULT_API_KEY_HEADER };
+};
@@ -0,0 +1,79 @@
+import type { EndpointInput } from "@/services/types";
+import type { ImportedApi } from "./types";
+
+// The AddApi values an import can overwrite
+export type ImportTarget = Omit<ImportedApi, "warnings">;
+
+export interface FieldChange {
+  field: keyof Omit<ImportTarget, "endpoints">;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+export interface EndpointChange {
+  status: "added" | "removed" | "changed" | "unchanged";
+  method: string;
+  path: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ImportDiff {
+  fields: FieldChange[];
+  endpoints: EndpointChange[];
+}
+
+const DIFF_FIELDS: FieldChange["field"][] = [
+  "name",
+  "description",
+  "version",
+  "base_url",
+  "auth_type",
+  "auth_description",
+  "tags",
+];
+
+const endpointKey = (endpoint: Pick<EndpointInput, "method" | "path">) =>
+  `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+
+const display = (value: string | string[]) =>
+  Array.isArray(value) ? value.join(", ") : value || "";
+
+// Compare the current form values with an imported document. Endpoints
+// are matched by method and path.
+export const diffImport = (current: ImportTarget, imported: ImportTarget): ImportDiff => {
+  const fields = DIFF_FIELDS.map(field => {
+    const before = display(current[field]);
+    const after = display(imported[field]);
+    return { field, before, after, changed: before !== after };
+  });
+
+  const currentEndpoints = new Map(
+    current.endpoints.filter(e => e.path.trim()).map(e => [endpointKey(e), e])
+  );
+  const endpoints: EndpointChange[] = imported.endpoints.map(endpoint => {
+    const existing = currentEndpoints.get(endpointKey(endpoint));
+    currentEndpoints.delete(endpointKey(endpoint));
+    if (!existing) {
+      return { status: "added", method: endpoint.method, path: endpoint.path, after: endpoint.description };
+    }
+    return {
+      status: existing.description === endpoint.description ? "unchanged" : "changed",
+      method: endpoint.method,
+      path: endpoint.path,
+      before: existing.description,
+      after: endpoint.description,
+    };
+  });
+  currentEndpoints.forEach(endpoint => {
+    endpoints.push({
+      status: "removed",
+      method: endpoint.method,
+      path: endpoint.path,
+      before: endpoint.description,
+    });
+  });
+
+  return { fields, endpoints };
+};
@@ -0,0 +1,16 @@
+import { fromOpenApiDocument } from "./openapiImport";
+import { fromPostmanCollection, isPostmanCollection } from "./postman";
+import { parseDocument } from "./parseDocument";
+import type { ImportedApi } from "./types";
+
+export type SpecFormat = "openapi" | "postman";
+
+// Read an OpenAPI 3.x document or a Postman Collection v2.1, telling them
+// apart by their content
+export const importSpec = (text: string): ImportedApi & { format: SpecFormat } => {
+  const doc = parseDocument(text);
+  if (isPostmanCollection(doc)) {
+    return { ...fromPostmanCollection(doc), format: "postman" };
+  }
+  return { ...fromOpenApiDocument(doc), format: "openapi" };
+};
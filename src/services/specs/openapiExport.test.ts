@@ -0,0 +1,124 @@
+import { Validator } from "@seriousme/openapi-schema-validator";
+import { describe, expect, it } from "vitest";
+import type { Api, ApiEndpoint, EndpointInput } from "@/services/types";
+import { buildOpenApiDocument, exportOpenApi } from "./openapiExport";
+
+const buildApi = (endpoints: EndpointInput[], fields: Partial<Api> = {}): Api => ({
+  id: "api-1",
+  name: "Payments",
+  description: "Card payments",
+  version: "v2.0.0",
+  team_id: "team-1",
+  base_url: "https://payments.example.com",
+  documentation_url: "https://docs.example.com/payments",
+  category_id: "1",
+  tags: ["payments"],
+  auth_type: "oauth2",
+  auth_description: "Bearer token",
+  health_path: null,
+  lifecycle: "stable",
+  deprecated_at: null,
+  sunset_at: null,
+  successor_id: null,
+  created_by: null,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  ...fields,
+  endpoints: endpoints.map((endpoint, index): ApiEndpoint => ({
+    parameters: [],
+    request_body: null,
+    responses: [],
+    ...endpoint,
+    id: `endpoint-${index}`,
+    api_id: "api-1",
+    version_id: "version-1",
+    created_at: "2026-01-01T00:00:00Z",
+  })),
+});
+
+// Endpoints as people type them in AddApi: no leading slash, undeclared or
+// stale path parameters, lower-case statuses, empty descriptions
+const untidy: EndpointInput[] = [
+  {
+    path: "payments/{id}",
+    method: "get",
+    description: "",
+    parameters: [
+      { name: "id", in: "path", type: "string", required: true },
+      { name: "paymentId", in: "path", type: "string", required: true },
+      { name: "expand", in: "query", type: "boolean", required: false },
+    ],
+    responses: [
+      { status: "200", description: "", content: [{ content_type: "application/json", schema: { type: "object" } }] },
+      { status: "4xx", description: "Client error", content: [] },
+      { status: "oops", description: "Dropped", content: [] },
+    ],
+  },
+  {
+    path: "/payments/{paymentId}",
+    method: "DELETE",
+    description: "Cancel a payment",
+    parameters: [{ name: "paymentId", in: "path", type: "string", required: true, description: "The payment" }],
+  },
+  {
+    path: "/payments/{paymentId}/refunds/{refundId}",
+    method: "POST",
+    description: "Refund",
+    request_body: {
+      required: true,
+      content: [{ content_type: "application/json", schema: { type: "object" }, example: { amount: 10 } }],
+    },
+  },
+  { path: "/a-b", method: "GET", description: "Dashes" },
+  { path: "/a_b", method: "GET", description: "Underscores" },
+];
+
+describe("buildOpenApiDocument", () => {
+  const document = buildOpenApiDocument(buildApi(untidy)) as {
+    paths: Record<string, Record<string, { operationId: string; summary?: string; parameters?: { name: string; in: string }[] }>>;
+  };
+
+  it("merges templates that only differ in parameter names", () => {
+    expect(Object.keys(document.paths)).toEqual([
+      "/payments/{id}",
+      "/payments/{paymentId}/refunds/{refundId}",
+      "/a-b",
+      "/a_b",
+    ]);
+    expect(Object.keys(document.paths["/payments/{id}"])).toEqual(["get", "delete"]);
+    expect(document.paths["/payments/{id}"].delete.parameters).toEqual([
+      { name: "id", in: "path", description: "The payment", required: true, schema: { type: "string" } },
+    ]);
+  });
+
+  it("drops path parameters the template does not have and declares the missing ones", () => {
+    expect(document.paths["/payments/{id}"].get.parameters?.map(p => `${p.in}:${p.name}`)).toEqual([
+      "path:id",
+      "query:expand",
+    ]);
+    expect(document.paths["/payments/{paymentId}/refunds/{refundId}"].post.parameters?.map(p => `${p.in}:${p.name}`)).toEqual([
+      "path:paymentId",
+      "path:refundId",
+    ]);
+  });
+
+  it("omits empty summaries and keeps operation ids unique", () => {
+    expect(document.paths["/payments/{id}"].get).not.toHaveProperty("summary");
+    expect(document.paths["/a-b"].get.operationId).toBe("getAB");
+    expect(document.paths["/a_b"].get.operationId).toBe("getAB2");
+  });
+});
+
+describe("exportOpenApi", () => {
+  it.each([
+    ["untidy endpoints", buildApi(untidy)],
+    ["an API without endpoints or auth", buildApi([], { auth_type: "none", auth_description: null, tags: [] })],
+    ["an API key in the query string", buildApi(untidy, { auth_type: "apiKey", auth_description: "Query: api_key" })],
+  ])("writes a valid OpenAPI 3.1 document for %s", async (_name, api) => {
+    const validator = new Validator();
+    const result = await validator.validate(JSON.parse(exportOpenApi(api, "json")));
+    expect(result.errors).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(validator.version).toBe("3.1");
+  });
+});
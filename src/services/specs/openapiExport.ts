@@ -0,0 +1,191 @@
+import { stringify as stringifyYaml } from "yaml";
+import type { Api, ApiEndpoint, EndpointParameter, MediaContent, TeamRecord } from "@/services/types";
+import { getAuthPlacement } from "./auth";
+import { getPathParameters, normalizePath } from "./paths";
+import { HTTP_METHODS, isResponseStatus, normalizeResponseStatus } from "./types";
+
+type OpenApiObject = Record<string, unknown>;
+
+const SECURITY_SCHEME = "default";
+
+const operationId = (method: string, path: string) => {
+  const words = path
+    .replace(/\{([^}]+)\}/g, "by $1")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return [method.toLowerCase(), ...words.map(w => w[0].toUpperCase() + w.slice(1))].join("");
+};
+
+const buildSecurityScheme = (api: Api): OpenApiObject | null => {
+  const placement = getAuthPlacement(api);
+  const description = api.auth_description || undefined;
+  switch (placement.kind) {
+    case "none":
+      return null;
+    case "bearer":
+      // The catalog does not store OAuth endpoints, so describe the token
+      // the client ends up sending
+      return { type: "http", scheme: "bearer", description };
+    default:
+      return { type: "apiKey", in: placement.kind, name: placement.name, description };
+  }
+};
+
+// The owning team, reachable through its first email and web channels
+const buildContact = (team: TeamRecord): OpenApiObject => {
+  const email = team.contact_channels.find(channel => channel.type === "email");
+  const url = team.contact_channels.find(channel => channel.type === "url");
+  return {
+    name: team.name,
+    ...(email && { email: email.value }),
+    ...(url && { url: url.value }),
+  };
+};
+
+const buildContent = (content: MediaContent[]): OpenApiObject =>
+  Object.fromEntries(
+    content.map(item => [
+      item.content_type,
+      {
+        ...(item.schema && { schema: item.schema }),
+        ...(item.example !== undefined && { example: item.example }),
+      },
+    ])
+  );
+
+// Declared parameters, plus any path placeholder left undeclared. Path
+// parameters the template does not have are left out; OpenAPI rejects them.
+const buildParameters = (endpoint: ApiEndpoint, path: string): OpenApiObject[] => {
+  const names = getPathParameters(path);
+  const declared = (endpoint.parameters || []).filter(p => p.in !== "path" || names.includes(p.name));
+  const missing = names
+    .filter(name => !declared.some(p => p.in === "path" && p.name === name))
+    .map((name): EndpointParameter => ({ name, in: "path", type: "string", required: true }));
+
+  return [...declared, ...missing].map(parameter => ({
+    name: parameter.name,
+    in: parameter.in,
+    description: parameter.description,
+    required: parameter.in === "path" || parameter.required,
+    schema: { type: parameter.type },
+  }));
+};
+
+// Statuses OpenAPI would reject are left out
+const buildResponses = (endpoint: ApiEndpoint): OpenApiObject => {
+  const responses = (endpoint.responses || [])
+    .map(response => ({ ...response, status: normalizeResponseStatus(response.status) }))
+    .filter(response => isResponseStatus(response.status));
+  // OpenAPI requires at least one response
+  if (responses.length === 0) {
+    return { default: { description: "Response from the API" } };
+  }
+  return Object.fromEntries(
+    responses.map(response => [
+      response.status,
+      {
+        description: response.description || "Response from the API",
+        ...(response.content.length > 0 && { content: buildContent(response.content) }),
+      },
+    ])
+  );
+};
+
+// OpenAPI treats /pets/{id} and /pets/{petId} as the same path, so
+// endpoints whose templates only differ in parameter names go under the
+// first template, with their path parameters renamed to match
+const withSharedTemplate = (endpoint: ApiEndpoint, templates: Map<string, string>) => {
+  const path = normalizePath(endpoint.path);
+  const key = path.replace(/\{[^}]*\}/g, "{}");
+  const template = templates.get(key);
+  if (!template) {
+    templates.set(key, path);
+    return { path, endpoint };
+  }
+  const from = getPathParameters(path);
+  const to = getPathParameters(template);
+  const rename = (name: string) => (from.includes(name) ? to[from.indexOf(name)] : name);
+  return {
+    path: template,
+    endpoint: {
+      ...endpoint,
+      parameters: (endpoint.parameters || []).map(parameter =>
+        parameter.in === "path" ? { ...parameter, name: rename(parameter.name) } : parameter
+      ),
+    },
+  };
+};
+
+// Build an OpenAPI 3.1 document from a catalog API
+export const buildOpenApiDocument = (api: Api): OpenApiObject => {
+  const paths: Record<string, Record<string, OpenApiObject>> = {};
+  const operationIds = new Set<string>();
+  const templates = new Map<string, string>();
+
+  // Paths such as /a-b and /a_b give the same id, so later ones are numbered
+  const uniqueOperationId = (method: string, path: string) => {
+    const base = operationId(method, path);
+    let id = base;
+    for (let n = 2; operationIds.has(id); n++) id = `${base}${n}`;
+    operationIds.add(id);
+    return id;
+  };
+
+  (api.endpoints || []).forEach(stored => {
+    const method = stored.method.toUpperCase();
+    if (!HTTP_METHODS.includes(method as typeof HTTP_METHODS[number])) return;
+
+    const { path, endpoint } = withSharedTemplate(stored, templates);
+    const item = (paths[path] = paths[path] || {});
+    const key = method.toLowerCase();
+    // OpenAPI allows one operation per method and path
+    if (item[key]) return;
+
+    const parameters = buildParameters(endpoint, path);
+    const summary = endpoint.description.trim();
+
+    item[key] = {
+      operationId: uniqueOperationId(method, path),
+      ...(summary && { summary }),
+      ...(parameters.length > 0 && { parameters }),
+      ...(endpoint.request_body && {
+        requestBody: {
+          description: endpoint.request_body.description,
+          required: endpoint.request_body.required,
+          content: buildContent(endpoint.request_body.content),
+        },
+      }),
+      responses: buildResponses(endpoint),
+    };
+  });
+
+  const securityScheme = buildSecurityScheme(api);
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: api.name,
+      description: api.description,
+      version: api.version,
+      ...(api.team && { contact: buildContact(api.team) }),
+    },
+    servers: [{ url: api.base_url }],
+    ...(api.tags.length > 0 && { tags: api.tags.map(name => ({ name })) }),
+    ...(securityScheme && { security: [{ [SECURITY_SCHEME]: [] }] }),
+    paths,
+    ...(securityScheme && {
+      components: { securitySchemes: { [SECURITY_SCHEME]: securityScheme } },
+    }),
+    ...(api.documentation_url && {
+      externalDocs: { url: api.documentation_url },
+    }),
+  };
+};
+
+export const exportOpenApi = (api: Api, format: "json" | "yaml"): string => {
+  // Round-trip through JSON to drop undefined fields
+  const document = JSON.parse(JSON.stringify(buildOpenApiDocument(api)));
+  return format === "json"
+    ? JSON.stringify(document, null, 2)
+    : stringifyYaml(document);
+};
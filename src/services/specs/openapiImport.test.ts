@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { fromOpenApiDocument } from "./openapiImport";
+
+const document = (paths: Record<string, unknown>, components: Record<string, unknown> = {}) => ({
+  openapi: "3.1.0",
+  info: { title: "Pets", version: "1.0.0" },
+  servers: [{ url: "https://pets.example.com" }],
+  paths,
+  components,
+});
+
+describe("fromOpenApiDocument", () => {
+  it("reports a malformed $ref as an import error", () => {
+    const doc = document({
+      "/pets": {
+        get: { responses: { "200": { description: "Pets", content: { "application/json": { schema: { $ref: "#/a%zz" } } } } } },
+      },
+    });
+    expect(() => fromOpenApiDocument(doc)).toThrow('Invalid OpenAPI document: the $ref "#/a%zz" is not a valid JSON pointer');
+  });
+
+  it("resolves path-item references and warns about the ones it cannot follow", () => {
+    const doc = document(
+      {
+        "/pets": { $ref: "#/components/pathItems/Pets" },
+        "/toys": { $ref: "toys.yaml#/Toys" },
+      },
+      {
+        pathItems: {
+          Pets: {
+            get: { summary: "List pets", responses: { "200": { description: "Pets" } } },
+            delete: { summary: "Remove pets", responses: { "204": { description: "Removed" } } },
+          },
+        },
+      }
+    );
+
+    const imported = fromOpenApiDocument(doc);
+    expect(imported.endpoints.map(({ method, path, description }) => `${method} ${path} ${description}`)).toEqual([
+      "GET /pets List pets",
+      "DELETE /pets Remove pets",
+    ]);
+    expect(imported.warnings).toEqual([
+      "Could not resolve toys.yaml#/Toys: only references within the document are supported",
+      "The operations that /toys refers to were skipped: toys.yaml#/Toys could not be resolved",
+    ]);
+  });
+});
@@ -0,0 +1,426 @@
+import type {
+  AuthType,
+  EndpointInput,
+  EndpointParameter,
+  EndpointRequestBody,
+  EndpointResponse,
+  JsonSchema,
+  MediaContent,
+  ParameterType,
+} from "@/services/types";
+import { parseDocument } from "./parseDocument";
+import { HTTP_METHODS, PARAMETER_TYPES, type ImportedApi } from "./types";
+
+// The parts of an OpenAPI 3.x document the catalog reads
+interface OpenApiServer {
+  url?: string;
+  variables?: Record<string, { default?: string }>;
+}
+
+interface OpenApiParameter {
+  name?: string;
+  in?: string;
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+interface OpenApiMediaType {
+  schema?: JsonSchema;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown }>;
+}
+
+interface OpenApiRequestBody {
+  required?: boolean;
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiOperation {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+}
+
+interface OpenApiSecurityScheme {
+  type?: string;
+  description?: string;
+  name?: string;
+  in?: string;
+  scheme?: string;
+  flows?: Record<string, unknown>;
+}
+
+interface OpenApiDocument {
+  openapi?: unknown;
+  swagger?: unknown;
+  info?: { title?: string; description?: string; version?: string };
+  servers?: OpenApiServer[];
+  tags?: { name?: string }[];
+  paths?: Record<string, Record<string, OpenApiOperation>>;
+  security?: Record<string, string[]>[];
+  components?: { securitySchemes?: Record<string, OpenApiSecurityScheme> };
+}
+
+const OAUTH_FLOW_LABELS: Record<string, string> = {
+  authorizationCode: "flujo de autorización",
+  clientCredentials: "credenciales de cliente",
+  implicit: "flujo implícito",
+  password: "credenciales de usuario",
+};
+
+const IGNORED_METHODS = ["head", "options", "trace"];
+
+// Nested $refs are followed up to this depth
+const MAX_REF_DEPTH = 8;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+// Follow a local JSON pointer such as #/components/schemas/User
+const lookupRef = (doc: OpenApiDocument, ref: string): unknown => {
+  if (!ref.startsWith("#/")) return undefined;
+  let keys: string[];
+  try {
+    keys = ref
+      .slice(2)
+      .split("/")
+      .map(part => decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~"));
+  } catch (error) {
+    // decodeURIComponent throws a URIError on a stray % such as "#/a%zz"
+    if (error instanceof URIError) {
+      throw new Error(`Invalid OpenAPI document: the $ref "${ref}" is not a valid JSON pointer`);
+    }
+    throw error;
+  }
+  return keys.reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), doc);
+};
+
+// Resolves the $refs of the document, noting the ones it cannot follow
+const createRefResolver = (doc: OpenApiDocument, warnings: string[]) => {
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const unresolved = (ref: string) =>
+    ref.startsWith("#/")
+      ? `Could not resolve ${ref}: it is not defined in the document`
+      : `Could not resolve ${ref}: only references within the document are supported`;
+
+  // Resolve a top-level $ref such as a parameter or response object
+  const resolve = <T>(value: T | { $ref?: string } | undefined, depth = 0): T | undefined => {
+    if (!isObject(value) || typeof value.$ref !== "string") return value as T | undefined;
+    if (depth >= MAX_REF_DEPTH) {
+      warn(`Could not resolve ${value.$ref}: too many nested references`);
+      return undefined;
+    }
+    const target = lookupRef(doc, value.$ref);
+    if (target === undefined) {
+      warn(unresolved(value.$ref));
+      return undefined;
+    }
+    return resolve<T>(target as T, depth + 1);
+  };
+
+  // Inline every $ref of a schema so it stands on its own in the catalog.
+  // Recursive references are cut off with an empty schema.
+  const inline = (value: unknown, stack: string[] = []): unknown => {
+    if (Array.isArray(value)) return value.map(item => inline(item, stack));
+    if (!isObject(value)) return value;
+    if (typeof value.$ref === "string") {
+      const { $ref, ...siblings } = value;
+      if (stack.includes($ref) || stack.length >= MAX_REF_DEPTH) {
+        warn(`${$ref} refers to itself and was cut off with an empty schema`);
+        return {};
+      }
+      const target = lookupRef(doc, $ref);
+      if (target === undefined) {
+        warn(unresolved($ref));
+        return inline(siblings, stack);
+      }
+      const resolved = inline(target, [...stack, $ref]);
+      return isObject(resolved) ? { ...resolved, ...(inline(siblings, stack) as object) } : resolved;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, inline(v, stack)]));
+  };
+
+  return { resolve, inline: (schema: unknown) => inline(schema) as JsonSchema };
+};
+
+type RefResolver = ReturnType<typeof createRefResolver>;
+
+// OpenAPI 3.1 allows type lists such as ["string", "null"]
+const toParameterType = (schema?: JsonSchema): ParameterType => {
+  const raw = schema?.type;
+  const type = Array.isArray(raw) ? raw.find(t => t !== "null") : raw;
+  return PARAMETER_TYPES.includes(type as ParameterType) ? (type as ParameterType) : "string";
+};
+
+const readContent = (
+  content: Record<string, OpenApiMediaType> | undefined,
+  refs: RefResolver
+): MediaContent[] =>
+  Object.entries(content || {}).map(([content_type, media]) => {
+    const example =
+      media?.example ?? Object.values(media?.examples || {}).map(e => refs.resolve(e)?.value)[0];
+    return {
+      content_type,
+      ...(media?.schema && { schema: refs.inline(media.schema) }),
+      ...(example !== undefined && { example }),
+    };
+  });
+
+// Operation parameters override the path-level ones with the same name and location
+const readParameters = (
+  pathLevel: OpenApiParameter[] | undefined,
+  operation: OpenApiParameter[] | undefined,
+  label: string,
+  refs: RefResolver,
+  warnings: string[]
+): EndpointParameter[] => {
+  const byKey = new Map<string, EndpointParameter>();
+  [...(pathLevel || []), ...(operation || [])].forEach(raw => {
+    const parameter = refs.resolve<OpenApiParameter>(raw);
+    if (!parameter?.name) return;
+    if (parameter.in !== "path" && parameter.in !== "query" && parameter.in !== "header") {
+      warnings.push(`${label}: the ${parameter.in} parameter "${parameter.name}" was skipped`);
+      return;
+    }
+    byKey.set(`${parameter.in}:${parameter.name}`, {
+      name: parameter.name,
+      in: parameter.in,
+      type: toParameterType(refs.inline(parameter.schema)),
+      required: parameter.in === "path" || Boolean(parameter.required),
+      ...(parameter.description && { description: parameter.description }),
+    });
+  });
+  return [...byKey.values()];
+};
+
+const readRequestBody = (
+  raw: OpenApiRequestBody | undefined,
+  refs: RefResolver
+): EndpointRequestBody | null => {
+  const body = refs.resolve<OpenApiRequestBody>(raw);
+  if (!body) return null;
+  return {
+    required: Boolean(body.required),
+    ...(body.description && { description: body.description }),
+    content: readContent(body.content, refs),
+  };
+};
+
+const readResponses = (
+  raw: Record<string, OpenApiResponse> | undefined,
+  refs: RefResolver
+): EndpointResponse[] =>
+  Object.entries(raw || {}).flatMap(([status, value]) => {
+    const response = refs.resolve<OpenApiResponse>(value);
+    if (!response) return [];
+    return [{
+      status,
+      description: response.description || "",
+      content: readContent(response.content, refs),
+    }];
+  });
+
+// Documents exported by the catalog already carry the summary
+const withDescription = (summary: string, description?: string) => {
+  if (!description) return summary;
+  return description.includes(summary) ? description : `${summary}. ${description}`;
+};
+
+// Expand server variables to their defaults
+const resolveServerUrl = (server: OpenApiServer): string =>
+  (server.url || "").replace(/\{([^}]+)\}/g, (match, name: string) =>
+    server.variables?.[name]?.default ?? match
+  );
+
+// Map a security scheme onto the catalog's auth types. The descriptions
+// follow the wording used across the catalog so the header name can be
+// read back when building snippets.
+export const mapSecurityScheme = (
+  scheme: OpenApiSecurityScheme
+): { auth_type: AuthType; auth_description: string; warning?: string } => {
+  switch (scheme.type) {
+    case "apiKey": {
+      const location =
+        scheme.in === "query"
+          ? `como parámetro de consulta (?${scheme.name}=XXX)`
+          : scheme.in === "cookie"
+            ? `en la cookie ${scheme.name}`
+            : `en el header ${scheme.name}`;
+      return {
+        auth_type: "apiKey",
+        auth_description: withDescription(`API Key ${location}`, scheme.description),
+      };
+    }
+    case "http":
+      if (scheme.scheme?.toLowerCase() === "bearer") {
+        return {
+          auth_type: "oauth2",
+          auth_description: withDescription("Token Bearer en el header Authorization", scheme.description),
+        };
+      }
+      return {
+        auth_type: "apiKey",
+        auth_description: withDescription(
+          `Credenciales HTTP ${scheme.scheme || "basic"} en el header Authorization`,
+          scheme.description
+        ),
+        warning: `HTTP ${scheme.scheme || "basic"} authentication was imported as an API key`,
+      };
+    case "oauth2": {
+      const flow = Object.keys(scheme.flows || {})[0];
+      const label = OAUTH_FLOW_LABELS[flow];
+      return {
+        auth_type: "oauth2",
+        auth_description: withDescription(label ? `OAuth 2.0 con ${label}` : "OAuth 2.0", scheme.description),
+      };
+    }
+    case "openIdConnect":
+      return {
+        auth_type: "oauth2",
+        auth_description: withDescription("OpenID Connect", scheme.description),
+      };
+    default:
+      return {
+        auth_type: "none",
+        auth_description: "",
+        warning: `Security scheme type "${scheme.type}" is not supported and was ignored`,
+      };
+  }
+};
+
+const assertSupportedVersion = (doc: OpenApiDocument) => {
+  if (doc.swagger !== undefined) {
+    throw new Error(
+      `Swagger ${String(doc.swagger)} documents are not supported. Convert the spec to OpenAPI 3.0 or 3.1 first.`
+    );
+  }
+  if (doc.openapi === undefined) {
+    throw new Error('Not an OpenAPI document: the "openapi" field is missing');
+  }
+  if (typeof doc.openapi !== "string" || !/^3\.[01]\.\d+/.test(doc.openapi)) {
+    throw new Error(
+      `OpenAPI ${String(doc.openapi)} is not supported. Only OpenAPI 3.0 and 3.1 can be imported.`
+    );
+  }
+  if (!doc.info || typeof doc.info !== "object" || !doc.info.title) {
+    throw new Error('Invalid OpenAPI document: "info.title" is required');
+  }
+  if (doc.paths !== undefined && (typeof doc.paths !== "object" || Array.isArray(doc.paths))) {
+    throw new Error('Invalid OpenAPI document: "paths" must be an object');
+  }
+};
+
+// Read a parsed OpenAPI 3.0/3.1 document into the AddApi fields
+export const fromOpenApiDocument = (document: Record<string, unknown>): ImportedApi => {
+  const doc = document as OpenApiDocument;
+  assertSupportedVersion(doc);
+
+  const warnings: string[] = [];
+
+  const server = doc.servers?.[0];
+  const base_url = server ? resolveServerUrl(server) : "";
+  if (!base_url) {
+    warnings.push("The document has no servers; set the base URL by hand");
+  } else if (!/^https?:\/\//.test(base_url)) {
+    warnings.push(`The server URL "${base_url}" is relative; replace it with an absolute URL`);
+  }
+  if ((doc.servers?.length || 0) > 1) {
+    warnings.push(`Only the first of ${doc.servers.length} servers was used`);
+  }
+
+  // Prefer the scheme the document applies globally
+  const schemes = doc.components?.securitySchemes || {};
+  const schemeName = Object.keys(doc.security?.[0] || {})[0] || Object.keys(schemes)[0];
+  let auth_type: AuthType = "none";
+  let auth_description = "";
+  if (schemeName && schemes[schemeName]) {
+    const mapped = mapSecurityScheme(schemes[schemeName]);
+    auth_type = mapped.auth_type;
+    auth_description = mapped.auth_description;
+    if (mapped.warning) warnings.push(mapped.warning);
+  } else if (schemeName) {
+    warnings.push(`Security scheme "${schemeName}" is not defined in components`);
+  }
+  if (Object.keys(schemes).length > 1) {
+    warnings.push(`Only the "${schemeName}" security scheme was imported`);
+  }
+
+  const tags = new Set<string>((doc.tags || []).map(tag => tag.name).filter(Boolean));
+  const endpoints: EndpointInput[] = [];
+  const refs = createRefResolver(doc, warnings);
+
+  Object.entries(doc.paths || {}).forEach(([path, pathItem]) => {
+    // A path item can be a $ref to another one, e.g. an entry of
+    // components.pathItems; its own fields win over the referenced ones
+    let item: Record<string, OpenApiOperation> | undefined = pathItem;
+    if (isObject(pathItem) && typeof pathItem.$ref === "string") {
+      const { $ref, ...siblings } = pathItem as Record<string, unknown>;
+      const target = refs.resolve<Record<string, OpenApiOperation>>({ $ref: $ref as string });
+      if (!isObject(target)) {
+        warnings.push(`The operations that ${path} refers to were skipped: ${String($ref)} could not be resolved`);
+      }
+      item = { ...(isObject(target) ? target : {}), ...siblings } as Record<string, OpenApiOperation>;
+    }
+
+    Object.entries(item || {}).forEach(([key, operation]) => {
+      const method = key.toUpperCase();
+      if (!HTTP_METHODS.includes(method as typeof HTTP_METHODS[number])) {
+        if (IGNORED_METHODS.includes(key)) {
+          warnings.push(`${method} ${path} was skipped: the catalog does not list ${method} operations`);
+        }
+        // Anything else is a path-level field such as parameters or summary
+        return;
+      }
+      operation?.tags?.forEach(tag => tags.add(tag));
+      const label = `${method} ${path}`;
+      endpoints.push({
+        path,
+        method,
+        description:
+          operation?.summary || operation?.description || operation?.operationId || label,
+        parameters: readParameters(
+          (item as { parameters?: OpenApiParameter[] }).parameters,
+          operation?.parameters,
+          label,
+          refs,
+          warnings
+        ),
+        request_body: readRequestBody(operation?.requestBody, refs),
+        responses: readResponses(operation?.responses, refs),
+      });
+    });
+  });
+
+  if (endpoints.length === 0) {
+    warnings.push("The document defines no operations");
+  }
+
+  return {
+    name: doc.info.title,
+    description: doc.info.description || "",
+    version: doc.info.version || "v1",
+    base_url,
+    auth_type,
+    auth_description,
+    tags: [...tags],
+    endpoints,
+    warnings,
+  };
+};
+
+// Read an OpenAPI 3.0/3.1 document (JSON or YAML) into the AddApi fields
+export const importOpenApi = (text: string): ImportedApi =>
+  fromOpenApiDocument(parseDocument(text));
@@ -0,0 +1,29 @@
+import { parse as parseYaml } from "yaml";
+
+// Parse a JSON or YAML document into a plain object
+export const parseDocument = (text: string): Record<string, unknown> => {
+  const source = text.trim();
+  if (!source) {
+    throw new Error("The document is empty");
+  }
+
+  let parsed: unknown;
+  if (source.startsWith("{")) {
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+  } else {
+    try {
+      parsed = parseYaml(source);
+    } catch (error) {
+      throw new Error(`Invalid YAML: ${(error as Error).message}`);
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("The document must be a JSON or YAML object");
+  }
+  return parsed as Record<string, unknown>;
+};
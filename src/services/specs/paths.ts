@@ -0,0 +1,6 @@
+// Names inside {braces} in a path template
+export const getPathParameters = (path: string): string[] =>
+  [...path.matchAll(/\{([^}]+)\}/g)].map(match => match[1]);
+
+// OpenAPI path keys start with "/"
+export const normalizePath = (path: string): string => "/" + path.trim().replace(/^\/+/, "");
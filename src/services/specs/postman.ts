@@ -0,0 +1,592 @@
+import type {
+  Api,
+  ApiEndpoint,
+  EndpointInput,
+  EndpointParameter,
+  EndpointRequestBody,
+  EndpointResponse,
+  JsonSchema,
+  MediaContent,
+  ParameterType,
+} from "@/services/types";
+import { getAuthPlacement } from "./auth";
+import { mapSecurityScheme } from "./openapiImport";
+import { parseDocument } from "./parseDocument";
+import { getPathParameters } from "./paths";
+import { HTTP_METHODS, PARAMETER_TYPES, type ImportedApi } from "./types";
+
+export const POSTMAN_SCHEMA_V21 =
+  "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+const BASE_URL_VARIABLE = "baseUrl";
+const SCHEMAS_VARIABLE = "endpointSchemas";
+
+// The parts of a Postman Collection v2.1 the catalog reads and writes
+interface PostmanKeyValue {
+  key: string;
+  value?: string;
+  type?: string;
+  description?: string | { content?: string };
+  // Optional query parameters and headers are left disabled
+  disabled?: boolean;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  host?: string[];
+  path?: string[];
+  query?: PostmanKeyValue[];
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanBody {
+  mode?: string;
+  raw?: string;
+  urlencoded?: PostmanKeyValue[];
+  formdata?: PostmanKeyValue[];
+  options?: { raw?: { language?: string } };
+}
+
+// A saved example answer of a request
+interface PostmanResponse {
+  name?: string;
+  code?: number;
+  status?: string;
+  header?: PostmanKeyValue[];
+  body?: string;
+}
+
+interface PostmanAuth {
+  type: string;
+  [attributes: string]: PostmanKeyValue[] | string;
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanKeyValue[];
+  body?: PostmanBody;
+  description?: string | { content?: string };
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  response?: PostmanResponse[];
+  description?: string | { content?: string };
+}
+
+interface PostmanCollection {
+  info?: {
+    name?: string;
+    description?: string | { content?: string };
+    version?: string | { major?: number; minor?: number; patch?: number };
+    schema?: string;
+    _postman_id?: string;
+  };
+  item?: PostmanItem[];
+  auth?: PostmanAuth;
+  variable?: PostmanKeyValue[];
+}
+
+// What Postman has no place for, kept per request ("GET /pets/{id}") as
+// JSON in the endpointSchemas collection variable and read back on import
+interface EndpointSchemas {
+  // Parameter types other than string, by "in:name"
+  parameters?: Record<string, ParameterType>;
+  request_body?: { required: boolean; schema?: JsonSchema };
+  // Schemas of the saved example responses, by status
+  responses?: Record<string, JsonSchema>;
+}
+
+const OAUTH_GRANT_FLOWS: Record<string, string> = {
+  authorization_code: "authorizationCode",
+  authorization_code_with_pkce: "authorizationCode",
+  client_credentials: "clientCredentials",
+  implicit: "implicit",
+  password_credentials: "password",
+};
+
+const textOf = (value: string | { content?: string } | undefined) =>
+  typeof value === "string" ? value : value?.content || "";
+
+const attribute = (auth: PostmanAuth, key: string) => {
+  const values = auth[auth.type];
+  return Array.isArray(values) ? values.find(v => v.key === key)?.value : undefined;
+};
+
+export const isPostmanCollection = (doc: Record<string, unknown>) => {
+  const info = doc.info as PostmanCollection["info"];
+  return Boolean(info?.schema?.includes("getpostman.com")) || (Array.isArray(doc.item) && !("openapi" in doc));
+};
+
+const mapPostmanAuth = (auth: PostmanAuth | undefined, warnings: string[]) => {
+  switch (auth?.type) {
+    case undefined:
+    case "noauth":
+      return { auth_type: "none" as const, auth_description: "" };
+    case "apikey":
+      return mapSecurityScheme({
+        type: "apiKey",
+        in: attribute(auth, "in") || "header",
+        name: attribute(auth, "key") || "X-API-Key",
+      });
+    case "bearer":
+      return mapSecurityScheme({ type: "http", scheme: "bearer" });
+    case "oauth2":
+      return mapSecurityScheme({
+        type: "oauth2",
+        flows: { [OAUTH_GRANT_FLOWS[attribute(auth, "grant_type") || ""] || "authorizationCode"]: {} },
+      });
+    case "basic": {
+      const mapped = mapSecurityScheme({ type: "http", scheme: "basic" });
+      if (mapped.warning) warnings.push(mapped.warning);
+      return mapped;
+    }
+    default:
+      warnings.push(`Postman auth type "${auth.type}" is not supported and was ignored`);
+      return { auth_type: "none" as const, auth_description: "" };
+  }
+};
+
+// Split a request URL into the API base URL and the endpoint path, using
+// {braces} for path parameters like the rest of the catalog
+const splitUrl = (url: string | PostmanUrl | undefined, variables: Record<string, string>) => {
+  let raw = typeof url === "string" ? url : url?.raw;
+  if (!raw && url && typeof url !== "string") {
+    raw = `${(url.host || []).join(".")}/${(url.path || []).join("/")}`;
+  }
+  raw = (raw || "").split(/[?#]/)[0];
+
+  let base = "";
+  const variablePrefix = raw.match(/^\{\{([^}]+)\}\}/);
+  if (variablePrefix) {
+    base = variables[variablePrefix[1]] || "";
+    raw = raw.slice(variablePrefix[0].length);
+  } else {
+    const absolute = raw.match(/^(https?:\/\/[^/]+)(.*)$/);
+    if (absolute) {
+      base = absolute[1];
+      raw = absolute[2];
+    }
+  }
+
+  const path = ("/" + raw.replace(/^\/+/, ""))
+    .replace(/\/:([A-Za-z0-9_]+)/g, "/{$1}")
+    .replace(/\{\{([^}]+)\}\}/g, "{$1}");
+  return { base, path: path.length > 1 ? path.replace(/\/+$/, "") : path };
+};
+
+// Query parameters of a URL given as an object, or as a string with a
+// query string
+const readQuery = (url: string | PostmanUrl | undefined): PostmanKeyValue[] => {
+  if (url && typeof url !== "string" && url.query) return url.query;
+  const raw = typeof url === "string" ? url : url?.raw || "";
+  const search = raw.split("#")[0].split("?")[1];
+  return search
+    ? [...new URLSearchParams(search)].map(([key, value]) => ({ key, value }))
+    : [];
+};
+
+const toParameter = (
+  value: PostmanKeyValue,
+  location: EndpointParameter["in"],
+  schemas: EndpointSchemas
+): EndpointParameter => {
+  const description = textOf(value.description);
+  const type = schemas.parameters?.[`${location}:${value.key}`];
+  return {
+    name: value.key,
+    in: location,
+    type: type && PARAMETER_TYPES.includes(type) ? type : "string",
+    required: location === "path" || !value.disabled,
+    ...(description && { description }),
+  };
+};
+
+// Path variables come from the path template, described by url.variable
+// when it lists them
+const readParameters = (
+  request: PostmanRequest,
+  path: string,
+  schemas: EndpointSchemas
+): EndpointParameter[] => {
+  const url = typeof request.url === "string" ? undefined : request.url;
+  const pathVariables = getPathParameters(path).map(name =>
+    toParameter(url?.variable?.find(v => v.key === name) || { key: name }, "path", schemas)
+  );
+  const query = readQuery(request.url).map(value => toParameter(value, "query", schemas));
+  const headers = (request.header || [])
+    .filter(header => header.key.toLowerCase() !== "content-type")
+    .map(header => toParameter(header, "header", schemas));
+  return [...pathVariables, ...query, ...headers];
+};
+
+const headerValue = (headers: PostmanKeyValue[] | undefined, name: string) =>
+  headers?.find(header => header.key.toLowerCase() === name.toLowerCase())?.value;
+
+const isJson = (contentType: string) => /[/+]json\b/i.test(contentType);
+
+// JSON bodies are parsed into their example value, anything else is kept
+// as text
+const readExample = (contentType: string, text: string): unknown => {
+  if (!isJson(contentType)) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const keyValuesToObject = (values: PostmanKeyValue[]) =>
+  Object.fromEntries(values.filter(v => !v.disabled).map(v => [v.key, v.value ?? ""]));
+
+// Postman bodies are not marked required; the endpointSchemas variable
+// says which are
+const readRequestBody = (
+  request: PostmanRequest,
+  schemas: EndpointSchemas
+): EndpointRequestBody | null => {
+  const { body } = request;
+  let content: MediaContent | null = null;
+  switch (body?.mode) {
+    case "raw": {
+      const content_type =
+        headerValue(request.header, "Content-Type") ||
+        (body.options?.raw?.language === "json" ? "application/json" : "text/plain");
+      content = {
+        content_type,
+        ...(body.raw && { example: readExample(content_type, body.raw) }),
+      };
+      break;
+    }
+    case "urlencoded":
+      content = {
+        content_type: "application/x-www-form-urlencoded",
+        example: keyValuesToObject(body.urlencoded || []),
+      };
+      break;
+    case "formdata":
+      content = { content_type: "multipart/form-data", example: keyValuesToObject(body.formdata || []) };
+      break;
+  }
+  if (!content) return null;
+  const schema = schemas.request_body?.schema;
+  return {
+    required: schemas.request_body?.required ?? false,
+    content: [{ ...content, ...(schema && { schema }) }],
+  };
+};
+
+const readResponses = (
+  responses: PostmanResponse[] | undefined,
+  schemas: EndpointSchemas
+): EndpointResponse[] =>
+  (responses || []).map(response => {
+    const status = response.code ? String(response.code) : "default";
+    const content_type = headerValue(response.header, "Content-Type") || "application/json";
+    const schema = schemas.responses?.[status];
+    return {
+      status,
+      description: response.name || response.status || status,
+      content: response.body || schema
+        ? [{
+            content_type,
+            ...(schema && { schema }),
+            ...(response.body && { example: readExample(content_type, response.body) }),
+          }]
+        : [],
+    };
+  });
+
+// The endpointSchemas variable, by "METHOD /path"
+const readEndpointSchemas = (
+  variables: PostmanKeyValue[] | undefined,
+  warnings: string[]
+): Record<string, EndpointSchemas> => {
+  const value = variables?.find(v => v.key === SCHEMAS_VARIABLE)?.value;
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  warnings.push(`The "${SCHEMAS_VARIABLE}" variable is not valid JSON; parameter types and schemas were not read`);
+  return {};
+};
+
+// Read a parsed Postman Collection v2.1 into the AddApi fields. Folders
+// become tags and every request becomes an endpoint, with its path
+// variables, query parameters, headers, body and saved example responses,
+// typed by the endpointSchemas variable when the catalog exported it.
+export const fromPostmanCollection = (document: Record<string, unknown>): ImportedApi => {
+  const collection = document as PostmanCollection;
+  const schema = collection.info?.schema || "";
+  if (schema && !schema.includes("v2.1")) {
+    throw new Error(
+      `This Postman collection uses ${schema.match(/v\d+(\.\d+)*/)?.[0] || "an unknown"} format. Only Collection v2.1 can be imported.`
+    );
+  }
+  if (!collection.info?.name) {
+    throw new Error('Invalid Postman collection: "info.name" is required');
+  }
+  if (!Array.isArray(collection.item)) {
+    throw new Error('Invalid Postman collection: "item" must be a list');
+  }
+
+  const warnings: string[] = [];
+  const endpointSchemas = readEndpointSchemas(collection.variable, warnings);
+  const variables = Object.fromEntries(
+    (collection.variable || []).map(v => [v.key, v.value || ""])
+  );
+  const tags = new Set<string>();
+  const endpoints: EndpointInput[] = [];
+  let base_url = variables[BASE_URL_VARIABLE] || "";
+
+  const visit = (items: PostmanItem[], folder?: string) => {
+    items.forEach(item => {
+      if (Array.isArray(item.item)) {
+        if (item.name) tags.add(item.name);
+        visit(item.item, item.name);
+        return;
+      }
+      if (!item.request) return;
+
+      const request = typeof item.request === "string" ? { url: item.request } : item.request;
+      const method = (request.method || "GET").toUpperCase();
+      const { base, path } = splitUrl(request.url, variables);
+      if (!HTTP_METHODS.includes(method as typeof HTTP_METHODS[number])) {
+        warnings.push(`${method} ${path} was skipped: the catalog does not list ${method} operations`);
+        return;
+      }
+      if (!base_url && base) base_url = base;
+      const schemas = endpointSchemas[`${method} ${path}`] || {};
+      endpoints.push({
+        path,
+        method,
+        description: textOf(request.description) || item.name || `${method} ${path}`,
+        parameters: readParameters(request, path, schemas),
+        request_body: readRequestBody(request, schemas),
+        responses: readResponses(item.response, schemas),
+      });
+      if (folder) tags.add(folder);
+    });
+  };
+  visit(collection.item);
+
+  if (!base_url) {
+    warnings.push(`The collection has no "${BASE_URL_VARIABLE}" variable; set the base URL by hand`);
+  }
+  if (endpoints.length === 0) {
+    warnings.push("The collection has no requests");
+  }
+
+  const version = collection.info.version;
+  return {
+    name: collection.info.name,
+    description: textOf(collection.info.description),
+    version:
+      typeof version === "string"
+        ? version
+        : version
+          ? `${version.major ?? 1}.${version.minor ?? 0}.${version.patch ?? 0}`
+          : "v1",
+    base_url,
+    ...mapPostmanAuth(collection.auth, warnings),
+    tags: [...tags],
+    endpoints,
+    warnings,
+  };
+};
+
+// Read a Postman Collection v2.1 JSON file into the AddApi fields
+export const importPostmanCollection = (text: string): ImportedApi =>
+  fromPostmanCollection(parseDocument(text));
+
+const buildAuth = (api: Api): { auth?: PostmanAuth; variable?: PostmanKeyValue } => {
+  const placement = getAuthPlacement(api);
+  switch (placement.kind) {
+    case "none":
+      return {};
+    case "bearer":
+      return {
+        auth: {
+          type: "bearer",
+          bearer: [{ key: "token", value: "{{accessToken}}", type: "string" }],
+        },
+        variable: { key: "accessToken", value: "", type: "string" },
+      };
+    default:
+      // Postman API keys go in a header or the query string
+      return {
+        auth: {
+          type: "apikey",
+          apikey: [
+            { key: "key", value: placement.name, type: "string" },
+            { key: "value", value: "{{apiKey}}", type: "string" },
+            { key: "in", value: placement.kind === "query" ? "query" : "header", type: "string" },
+          ],
+        },
+        variable: { key: "apiKey", value: "", type: "string" },
+      };
+  }
+};
+
+const writeExample = (example: unknown) =>
+  typeof example === "string" ? example : JSON.stringify(example, null, 2);
+
+// Optional parameters are written disabled, so Postman leaves them out
+// until they are filled in
+const fromParameter = (parameter: EndpointParameter): PostmanKeyValue => ({
+  key: parameter.name,
+  value: "",
+  ...(parameter.description && { description: parameter.description }),
+  ...(!parameter.required && { disabled: true }),
+});
+
+// The first content type of the body, with its example as the raw text
+const buildBody = (requestBody: EndpointRequestBody | null | undefined) => {
+  const content = requestBody?.content[0];
+  if (!content) return {};
+  return {
+    contentType: { key: "Content-Type", value: content.content_type },
+    body: {
+      mode: "raw",
+      raw: content.example === undefined ? "" : writeExample(content.example),
+      ...(isJson(content.content_type) && { options: { raw: { language: "json" } } }),
+    },
+  };
+};
+
+// Responses with an example become saved examples. Postman codes are
+// numbers, so ranges such as 4XX and "default" are left out.
+const buildResponses = (endpoint: ApiEndpoint): PostmanResponse[] =>
+  (endpoint.responses || [])
+    .filter(response => /^\d{3}$/.test(response.status))
+    .map(response => {
+      const content = response.content[0];
+      return {
+        name: response.description || response.status,
+        code: Number(response.status),
+        header: content ? [{ key: "Content-Type", value: content.content_type }] : [],
+        body: content?.example === undefined ? "" : writeExample(content.example),
+      };
+    });
+
+// The parameter types, body schemas and required flag of an endpoint that
+// the request itself cannot carry; null when there are none
+const buildEndpointSchemas = (endpoint: ApiEndpoint): EndpointSchemas | null => {
+  const parameters = Object.fromEntries(
+    (endpoint.parameters || [])
+      .filter(parameter => parameter.type !== "string")
+      .map(parameter => [`${parameter.in}:${parameter.name}`, parameter.type])
+  );
+  const bodySchema = endpoint.request_body?.content[0]?.schema;
+  const responses = Object.fromEntries(
+    (endpoint.responses || []).flatMap(response => {
+      const schema = response.content[0]?.schema;
+      return schema && /^\d{3}$/.test(response.status) ? [[response.status, schema]] : [];
+    })
+  );
+  const schemas: EndpointSchemas = {
+    ...(Object.keys(parameters).length > 0 && { parameters }),
+    ...(endpoint.request_body?.content[0] && {
+      request_body: { required: endpoint.request_body.required, ...(bodySchema && { schema: bodySchema }) },
+    }),
+    ...(Object.keys(responses).length > 0 && { responses }),
+  };
+  return Object.keys(schemas).length > 0 ? schemas : null;
+};
+
+// Tags become folders. An endpoint goes in the folder of the tag named
+// like the first segment of its path; the others stay at the top level.
+const groupByTag = (api: Api, requests: { endpoint: ApiEndpoint; item: PostmanItem }[]) => {
+  const tagOf = (endpoint: ApiEndpoint) => {
+    const segment = endpoint.path.split("/").find(Boolean)?.toLowerCase();
+    return api.tags.find(tag => tag.toLowerCase() === segment);
+  };
+  const folders: PostmanItem[] = api.tags.map(tag => ({
+    name: tag,
+    item: requests.filter(({ endpoint }) => tagOf(endpoint) === tag).map(({ item }) => item),
+  }));
+  const untagged = requests.filter(({ endpoint }) => !tagOf(endpoint)).map(({ item }) => item);
+  return [...folders, ...untagged];
+};
+
+// Build a Postman Collection v2.1 from a catalog API. Requests point at
+// {{baseUrl}} and inherit the collection auth.
+export const buildPostmanCollection = (api: Api): PostmanCollection => {
+  const { auth, variable } = buildAuth(api);
+  const endpointSchemas: Record<string, EndpointSchemas> = {};
+
+  const requests = (api.endpoints || []).map(endpoint => {
+    const parameters = endpoint.parameters || [];
+    const segments = endpoint.path
+      .split("/")
+      .filter(Boolean)
+      .map(segment => segment.replace(/^\{([^}]+)\}$/, ":$1"));
+    const pathVariables = segments
+      .filter(segment => segment.startsWith(":"))
+      .map(segment => {
+        const parameter = parameters.find(p => p.in === "path" && p.name === segment.slice(1));
+        return parameter ? fromParameter(parameter) : { key: segment.slice(1), value: "" };
+      });
+    const query = parameters.filter(p => p.in === "query").map(fromParameter);
+    const search = query.filter(q => !q.disabled).map(q => `${q.key}=`).join("&");
+    const { contentType, body } = buildBody(endpoint.request_body);
+    const responses = buildResponses(endpoint);
+    const schemas = buildEndpointSchemas(endpoint);
+    if (schemas) endpointSchemas[`${endpoint.method.toUpperCase()} ${endpoint.path}`] = schemas;
+
+    const item: PostmanItem = {
+      name: endpoint.description || `${endpoint.method} ${endpoint.path}`,
+      request: {
+        method: endpoint.method.toUpperCase(),
+        header: [
+          ...parameters.filter(p => p.in === "header").map(fromParameter),
+          ...(contentType ? [contentType] : []),
+        ],
+        url: {
+          raw: `{{${BASE_URL_VARIABLE}}}/${segments.join("/")}${search ? `?${search}` : ""}`,
+          host: [`{{${BASE_URL_VARIABLE}}}`],
+          path: segments,
+          ...(query.length > 0 && { query }),
+          ...(pathVariables.length > 0 && { variable: pathVariables }),
+        },
+        ...(body && { body }),
+        description: endpoint.description,
+      },
+      ...(responses.length > 0 && { response: responses }),
+    };
+    return { endpoint, item };
+  });
+
+  return {
+    info: {
+      _postman_id: api.id,
+      name: api.name,
+      description: api.description,
+      version: api.version,
+      schema: POSTMAN_SCHEMA_V21,
+    },
+    item: groupByTag(api, requests),
+    ...(auth && { auth }),
+    variable: [
+      { key: BASE_URL_VARIABLE, value: api.base_url, type: "string" },
+      ...(variable ? [variable] : []),
+      ...(Object.keys(endpointSchemas).length > 0
+        ? [{
+            key: SCHEMAS_VARIABLE,
+            value: JSON.stringify(endpointSchemas),
+            type: "string",
+            description: "Parameter types and body schemas of each request, read back when the collection is imported into the catalog",
+          }]
+        : []),
+    ],
+  };
+};
+
+export const exportPostmanCollection = (api: Api): string =>
+  JSON.stringify(buildPostmanCollection(api), null, 2);
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { Api, ApiEndpoint, EndpointInput } from "@/services/types";
+import { exportOpenApi } from "./openapiExport";
+import { importOpenApi } from "./openapiImport";
+import { exportPostmanCollection, importPostmanCollection } from "./postman";
+
+const endpoints: EndpointInput[] = [
+  {
+    path: "/pets",
+    method: "GET",
+    description: "List pets",
+    parameters: [
+      { name: "limit", in: "query", type: "integer", required: false, description: "Page size" },
+      { name: "X-Request-Id", in: "header", type: "string", required: true },
+    ],
+    request_body: null,
+    responses: [{
+      status: "200",
+      description: "The pets",
+      content: [{
+        content_type: "application/json",
+        schema: { type: "array", items: { type: "object", properties: { id: { type: "integer" } } } },
+        example: [{ id: 1 }],
+      }],
+    }],
+  },
+  {
+    path: "/pets",
+    method: "POST",
+    description: "Add a pet",
+    parameters: [],
+    request_body: {
+      required: false,
+      content: [{
+        content_type: "application/json",
+        schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+        example: { name: "Rex" },
+      }],
+    },
+    responses: [{ status: "201", description: "Created", content: [] }],
+  },
+  {
+    path: "/pets/{petId}",
+    method: "DELETE",
+    description: "Remove a pet",
+    parameters: [{ name: "petId", in: "path", type: "integer", required: true }],
+    request_body: null,
+    responses: [{ status: "204", description: "Removed", content: [] }],
+  },
+  {
+    path: "/health",
+    method: "GET",
+    description: "Health check",
+    parameters: [],
+    request_body: null,
+    responses: [{ status: "200", description: "Up", content: [] }],
+  },
+];
+
+const api: Api = {
+  id: "api-1",
+  name: "Pet Store",
+  description: "Pets for sale",
+  version: "v1.2.0",
+  team_id: "team-1",
+  base_url: "https://pets.example.com",
+  documentation_url: null,
+  category_id: "1",
+  tags: ["pets", "admin"],
+  auth_type: "apiKey",
+  auth_description: "Header: X-API-Key",
+  health_path: null,
+  lifecycle: "stable",
+  deprecated_at: null,
+  sunset_at: null,
+  successor_id: null,
+  created_by: null,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  endpoints: endpoints.map((endpoint, index): ApiEndpoint => ({
+    parameters: [],
+    request_body: null,
+    responses: [],
+    ...endpoint,
+    id: `endpoint-${index}`,
+    api_id: "api-1",
+    version_id: "version-1",
+    created_at: "2026-01-01T00:00:00Z",
+  })),
+};
+
+describe("Postman round trip", () => {
+  it("keeps the API, its tags and every endpoint detail", () => {
+    const imported = importPostmanCollection(exportPostmanCollection(api));
+    expect(imported).toMatchObject({
+      name: api.name,
+      description: api.description,
+      version: api.version,
+      base_url: api.base_url,
+      auth_type: api.auth_type,
+      warnings: [],
+    });
+    expect([...imported.tags].sort()).toEqual([...api.tags].sort());
+    expect(imported.endpoints).toEqual(endpoints);
+  });
+
+  it("exports tags as folders holding their endpoints", () => {
+    const collection = JSON.parse(exportPostmanCollection(api));
+    expect(collection.item.map((item: { name: string; item?: { name: string }[] }) => [
+      item.name,
+      item.item?.map(request => request.name),
+    ])).toEqual([
+      ["pets", ["List pets", "Add a pet", "Remove a pet"]],
+      ["admin", []],
+      ["Health check", undefined],
+    ]);
+  });
+});
+
+describe("OpenAPI round trip", () => {
+  it.each(["json", "yaml"] as const)("keeps the API and every endpoint detail as %s", format => {
+    const imported = importOpenApi(exportOpenApi(api, format));
+    expect(imported).toMatchObject({
+      name: api.name,
+      description: api.description,
+      version: api.version,
+      base_url: api.base_url,
+      auth_type: api.auth_type,
+      tags: api.tags,
+      warnings: [],
+    });
+    expect(imported.endpoints).toEqual(endpoints);
+  });
+});
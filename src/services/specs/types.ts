@@ -0,0 +1,30 @@
+import type { AuthType, EndpointInput, ParameterType } from "@/services/types";
+
+// An API description read from an external document, in the shape of the
+// AddApi form
+export interface ImportedApi {
+  name: string;
+  description: string;
+  version: string;
+  base_url: string;
+  auth_type: AuthType;
+  auth_description: string;
+  tags: string[];
+  endpoints: EndpointInput[];
+  // Parts of the document that were skipped or guessed
+  warnings: string[];
+}
+
+export const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH"] as const;
+
+export const PARAMETER_TYPES: ParameterType[] = ["string", "integer", "number", "boolean", "array", "object"];
+
+// Response keys OpenAPI accepts: a status code such as 404, a range such
+// as 4XX, or "default"
+export const isResponseStatus = (status: string) => /^(default|[1-5](\d\d|XX))$/.test(status);
+
+// "4xx" and "Default" are read as 4XX and default
+export const normalizeResponseStatus = (status: string) => {
+  const trimmed = status.trim();
+  return trimmed.toLowerCase() === "default" ? "default" : trimmed.toUpperCase();
+};
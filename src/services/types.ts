@@ -0,0 +1,607 @@
+// Types for the catalog data, shared by every repository backend
+export interface ApiCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export type NewApiCategory = Omit<ApiCategory, 'id'>;
+
+export type TeamChannelType = 'email' | 'slack' | 'url' | 'phone';
+
+// One way to reach a team, e.g. { type: 'slack', value: '#payments' }
+export interface TeamChannel {
+  type: TeamChannelType;
+  value: string;
+}
+
+// A row of team_members. user_id links the member to a portal account;
+// role is their job in the team, e.g. "Tech lead".
+export interface TeamMember {
+  id: string;
+  team_id: string;
+  user_id: string | null;
+  name: string;
+  email: string | null;
+  role: string | null;
+  created_at: string;
+}
+
+// Teams own APIs
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  contact_channels: TeamChannel[];
+  // Who is on call and how to page them: a schedule link or a short note
+  on_call_rotation: string | null;
+  // Who created the team; empty for teams made from the old owner names
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Not a table column; populated from team_members
+  members?: TeamMember[];
+}
+
+// A row of the `teams` table, without the members
+export type TeamRecord = Omit<Team, 'members'>;
+
+export type TeamMemberInput = Pick<TeamMember, 'name'> &
+  Partial<Pick<TeamMember, 'user_id' | 'email' | 'role'>>;
+
+// Payload accepted by createTeam. Supabase records the signed-in user as
+// the creator and ignores created_by.
+export type CreateTeamInput = Pick<Team, 'name'> &
+  Partial<Pick<Team, 'description' | 'contact_channels' | 'on_call_rotation' | 'created_by'>> & {
+    members?: TeamMemberInput[];
+  };
+
+// Payload accepted by updateTeam. `members`, when present, replaces the
+// list: entries with an id are updated, the rest are inserted and members
+// left out are removed.
+export type UpdateTeamInput = Partial<Omit<CreateTeamInput, 'members' | 'created_by'>> & {
+  members?: (TeamMemberInput & { id?: string })[];
+};
+
+export interface ApiStats {
+  id: string;
+  api_id: string;
+  total_calls: number;
+  last_week_calls: number;
+  // Derived from the health checks; null until the API has been probed
+  uptime: number | null;
+  // Latency of the last day of gateway calls, else of the health checks
+  response_time: number | null;
+  updated_at: string;
+}
+
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+// A row of api_health_checks: one probe of an API's health path
+export interface ApiHealthCheck {
+  id: string;
+  api_id: string;
+  checked_at: string;
+  status: HealthStatus;
+  status_code: number | null;
+  latency_ms: number | null;
+  error: string | null;
+}
+
+export type NewHealthCheck = Omit<ApiHealthCheck, 'id'>;
+
+// A row of the api_health_daily view; degraded checks count as up
+export interface ApiHealthDaily {
+  api_id: string;
+  // YYYY-MM-DD
+  day: string;
+  checks: number;
+  up_checks: number;
+  avg_latency_ms: number | null;
+}
+
+// Health of one API on the status page, aggregated by the backend
+export interface ApiHealthStatus {
+  api_id: string;
+  // Per-day rollup, oldest first
+  days: ApiHealthDaily[];
+  // Latest check of the last 24 hours
+  latest: ApiHealthCheck | null;
+  // First check of the current streak of failed checks; null while the
+  // latest check is up
+  failing_since: string | null;
+}
+
+// Filters for health rows. `since` is an ISO timestamp for checks and a
+// YYYY-MM-DD day for the daily rollup. `limit` keeps the most recent checks.
+export interface HealthQuery {
+  apiId?: string;
+  since?: string;
+  limit?: number;
+}
+
+export type IncidentSeverity = 'minor' | 'major' | 'critical';
+
+export type IncidentStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved';
+
+// A row of incident_updates: one entry of an incident's timeline
+export interface IncidentUpdate {
+  id: string;
+  incident_id: string;
+  status: IncidentStatus;
+  message: string;
+  created_at: string;
+}
+
+// A row of incident_apis. No endpoint ids means the whole API is affected.
+export interface IncidentApi {
+  incident_id: string;
+  api_id: string;
+  endpoint_ids: string[];
+}
+
+export type IncidentImpact = Omit<IncidentApi, 'incident_id'>;
+
+export interface Incident {
+  id: string;
+  title: string;
+  severity: IncidentSeverity;
+  // Status of the latest update
+  status: IncidentStatus;
+  started_at: string;
+  // Set when the incident is resolved
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  affected: IncidentImpact[];
+  // Newest first
+  updates: IncidentUpdate[];
+}
+
+// A row of the `incidents` table, without the populated relations
+export type IncidentRecord = Omit<Incident, 'affected' | 'updates'>;
+
+export interface IncidentQuery {
+  // Only incidents that are not resolved
+  active?: boolean;
+}
+
+// Payload accepted by createIncident. `message` is the first update.
+export type CreateIncidentInput = Pick<Incident, 'title' | 'severity' | 'affected'> &
+  Partial<Pick<Incident, 'status' | 'started_at'>> & {
+    message: string;
+  };
+
+// Payload accepted by updateIncident. `update` posts a timeline entry and
+// moves the incident to its status; resolving sets resolved_at.
+export type UpdateIncidentInput = Partial<Pick<Incident, 'title' | 'severity' | 'started_at' | 'affected'>> & {
+  update?: Pick<IncidentUpdate, 'status' | 'message'>;
+};
+
+export type AlertMetric = 'uptime' | 'p95_latency' | 'volume_drop';
+
+// A row of alert_rules. Fires when, over the last `window_days`:
+// - uptime: the uptime of the health checks is below `threshold` percent
+// - p95_latency: the p95 latency of the calls is above `threshold` ms
+// - volume_drop: calls fell by `threshold` percent or more against the
+//   window before
+// Usage metrics look at whole days, up to yesterday.
+export interface AlertRule {
+  id: string;
+  api_id: string;
+  metric: AlertMetric;
+  threshold: number;
+  window_days: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewAlertRule = Omit<AlertRule, 'id' | 'created_at' | 'updated_at'>;
+
+export type AlertRulePatch = Partial<Pick<AlertRule, 'metric' | 'threshold' | 'window_days' | 'enabled'>>;
+
+export type AlertStatus = 'firing' | 'acknowledged' | 'resolved';
+
+// A row of alerts: a rule that fired. The rule's condition is copied so
+// the alert still reads right after the rule changes. A rule has at most
+// one alert that is not resolved.
+export interface ApiAlert {
+  id: string;
+  rule_id: string;
+  api_id: string;
+  metric: AlertMetric;
+  threshold: number;
+  window_days: number;
+  // Measured value that breached the threshold
+  value: number;
+  status: AlertStatus;
+  fired_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+}
+
+export interface AlertQuery {
+  apiId?: string;
+  // Only alerts that are firing or acknowledged
+  open?: boolean;
+}
+
+export type NotificationType =
+  | 'api_version'
+  | 'api_deprecation'
+  | 'access_request'
+  | 'alert_fired'
+  | 'api_comment';
+
+// Details of the event, by type:
+// - api_version: version, previous_version
+// - api_deprecation: sunset_at, successor_id
+// - access_request: application, decision ('approved' or 'rejected')
+// - alert_fired: alert_id, metric, threshold, window_days, value
+// - api_comment: author, excerpt
+export type NotificationData = Record<string, string | number | null>;
+
+// A row of notifications. Rows are per user; the text is built from the
+// type and data when shown.
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  api_id: string | null;
+  data: NotificationData;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationQuery {
+  unread?: boolean;
+  limit?: number;
+}
+
+// A row of notification_preferences. Types without a row are received.
+export interface NotificationPreference {
+  user_id: string;
+  type: NotificationType;
+  enabled: boolean;
+}
+
+// A row of api_follows: the user hears about new versions, deprecations
+// and alerts of the API
+export interface ApiFollow {
+  user_id: string;
+  api_id: string;
+  created_at: string;
+}
+
+// A row of api_comments. The author is the commenter's name, or their
+// email, when the comment was written.
+export interface ApiComment {
+  id: string;
+  api_id: string;
+  user_id: string;
+  author: string;
+  body: string;
+  created_at: string;
+}
+
+export type NewApiComment = Pick<ApiComment, 'api_id' | 'user_id' | 'author' | 'body'>;
+
+// Viewers browse, editors also add APIs, owners edit the APIs they own and
+// admins manage categories and every API
+export type AppRole = 'viewer' | 'editor' | 'owner' | 'admin';
+
+// A row of user_roles. Owner rows name their API; the other roles apply to
+// the whole portal. Signed-in users without a role are viewers.
+export interface UserRole {
+  id: string;
+  user_id: string;
+  role: AppRole;
+  api_id: string | null;
+  created_at: string;
+}
+
+// A row of applications: something a consumer builds on top of the
+// catalog's APIs. Keys are issued to an application, one API at a time.
+export interface Application {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+export type NewApplication = Pick<Application, 'user_id' | 'name'> &
+  Partial<Pick<Application, 'description'>>;
+
+export interface ApplicationQuery {
+  userId?: string;
+  ids?: string[];
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export type AccessDecision = Exclude<AccessRequestStatus, 'pending'>;
+
+// A row of access_requests: an application asking to use an API. There is
+// one row per application and API; asking again after a rejection reopens it.
+export interface AccessRequest {
+  id: string;
+  api_id: string;
+  application_id: string;
+  // Who asked; the application's owner
+  user_id: string;
+  status: AccessRequestStatus;
+  // Why the consumer needs access, shown to the API's owners
+  message: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export type NewAccessRequest = Pick<AccessRequest, 'api_id' | 'application_id' | 'user_id'> &
+  Partial<Pick<AccessRequest, 'message'>>;
+
+export interface AccessRequestQuery {
+  apiId?: string;
+  userId?: string;
+  status?: AccessRequestStatus;
+}
+
+// A row of api_access_settings. APIs without a row review every request.
+export interface ApiAccessSettings {
+  api_id: string;
+  auto_approve: boolean;
+  updated_at: string;
+}
+
+// A row of api_keys. Only the SHA-256 hash of the key is stored; prefix is
+// its first characters, kept to tell keys apart.
+export interface ApiKey {
+  id: string;
+  application_id: string;
+  api_id: string;
+  prefix: string;
+  key_hash: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export type NewApiKey = Pick<ApiKey, 'application_id' | 'api_id'> &
+  Partial<Pick<ApiKey, 'expires_at'>>;
+
+export interface ApiKeyQuery {
+  applicationIds?: string[];
+  apiId?: string;
+}
+
+// A key as issued: the only time the secret is available
+export interface IssuedApiKey {
+  key: ApiKey;
+  secret: string;
+}
+
+// A row of api_usage_daily: the traffic of one API on one UTC day
+export interface ApiUsageDaily {
+  id: string;
+  api_id: string;
+  // YYYY-MM-DD
+  day: string;
+  calls: number;
+  errors: number;
+  unique_consumers: number;
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+  updated_at: string;
+}
+
+// A row of api_calls: one call proxied by the gateway
+export interface ApiCall {
+  id: string;
+  api_id: string;
+  // Null when the API is called without a portal key
+  key_id: string | null;
+  application_id: string | null;
+  method: string;
+  // Path below the API's base URL, without the query string
+  path: string;
+  status: number;
+  latency_ms: number;
+  called_at: string;
+}
+
+export type NewApiCall = Omit<ApiCall, 'id'>;
+
+// Filters for usage rows; days are YYYY-MM-DD and inclusive
+export interface UsageQuery {
+  apiId?: string;
+  from?: string;
+  to?: string;
+}
+
+// A JSON Schema document, stored as-is
+export type JsonSchema = { [key: string]: unknown };
+
+export type ParameterLocation = 'path' | 'query' | 'header';
+
+export type ParameterType = 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface EndpointParameter {
+  name: string;
+  in: ParameterLocation;
+  type: ParameterType;
+  required: boolean;
+  description?: string;
+}
+
+// One media type of a request or response body
+export interface MediaContent {
+  content_type: string;
+  schema?: JsonSchema | null;
+  example?: unknown;
+}
+
+export interface EndpointRequestBody {
+  required: boolean;
+  description?: string;
+  content: MediaContent[];
+}
+
+export interface EndpointResponse {
+  // HTTP status code such as "200", or "default"
+  status: string;
+  description: string;
+  content: MediaContent[];
+}
+
+export interface ApiEndpoint {
+  id: string;
+  api_id: string;
+  // The API version that documents the endpoint
+  version_id: string;
+  path: string;
+  method: string;
+  description: string;
+  parameters: EndpointParameter[];
+  request_body: EndpointRequestBody | null;
+  responses: EndpointResponse[];
+  created_at: string;
+}
+
+export type AuthType = 'apiKey' | 'oauth2' | 'none';
+
+// Exactly one version of each API is current; older ones stay supported
+// until their owners deprecate them
+export type ApiVersionStatus = 'current' | 'supported' | 'deprecated';
+
+// A row of api_versions. The API's version, base URL and auth mirror its
+// current version.
+export interface ApiVersion {
+  id: string;
+  api_id: string;
+  version: string;
+  base_url: string;
+  auth_type: AuthType;
+  auth_description: string | null;
+  status: ApiVersionStatus;
+  // Published with breaking changes in the same major version, on its
+  // owner's say-so
+  breaking_allowed: boolean;
+  created_at: string;
+}
+
+// Where an API is in its life. Deprecated APIs still answer until their
+// sunset date and name the API that replaces them; retired ones no longer
+// answer.
+export type ApiLifecycle = 'draft' | 'beta' | 'stable' | 'deprecated' | 'retired';
+
+export interface Api {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  // The team that owns the API
+  team_id: string;
+  base_url: string;
+  documentation_url: string | null;
+  category_id: string;
+  tags: string[];
+  auth_type: AuthType;
+  auth_description: string | null;
+  // Appended to base_url by the health prober; null when not probed
+  health_path: string | null;
+  lifecycle: ApiLifecycle;
+  // Set when the API becomes deprecated
+  deprecated_at: string | null;
+  // When a deprecated API stops answering; required while deprecated
+  sunset_at: string | null;
+  // The API that replaces it; required while deprecated
+  successor_id: string | null;
+  // User who created the API; null for APIs created before sign-in
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // These fields are not directly from the table but will be populated
+  category?: ApiCategory;
+  team?: TeamRecord;
+  stats?: ApiStats;
+  endpoints?: ApiEndpoint[];
+}
+
+// A row of the `apis` table, without the populated relations
+export type ApiRecord = Omit<Api, 'category' | 'team' | 'stats' | 'endpoints'>;
+
+export type NewApiRecord = Omit<ApiRecord, 'id' | 'deprecated_at' | 'created_by' | 'created_at' | 'updated_at'>;
+
+// Uptime and response time are written by the health prober only
+export type ApiStatsPatch = Partial<Pick<ApiStats, 'total_calls' | 'last_week_calls'>>;
+
+type EndpointDetails = Pick<ApiEndpoint, 'parameters' | 'request_body' | 'responses'>;
+
+// The structured details default to empty when left out
+export type EndpointInput = Omit<ApiEndpoint, 'id' | 'api_id' | 'version_id' | 'created_at' | keyof EndpointDetails> &
+  Partial<EndpointDetails>;
+
+// Payload accepted by createApi. Supabase records the signed-in user as
+// the creator and ignores created_by.
+export type CreateApiInput = NewApiRecord & {
+  created_by?: string | null;
+  stats?: ApiStatsPatch;
+  endpoints?: EndpointInput[];
+};
+
+// Payload accepted by updateApi. Endpoints carrying an id are updated in
+// place, new ones are inserted and any existing endpoint missing from the
+// list is deleted. Leaving `endpoints` out keeps them untouched. Only the
+// current version's endpoints are touched.
+export type UpdateApiInput = Partial<NewApiRecord> & {
+  stats?: ApiStatsPatch;
+  endpoints?: (EndpointInput & { id?: string })[];
+};
+
+// Payload accepted by publishApiVersion. Base URL, auth and endpoints left
+// out are copied from the current version.
+export type PublishVersionInput = Pick<ApiVersion, 'version'> &
+  Partial<Pick<ApiVersion, 'base_url' | 'auth_type' | 'auth_description'>> & {
+    endpoints?: EndpointInput[];
+    // Recorded as the new version's breaking_allowed
+    allow_breaking?: boolean;
+  };
+
+export type ApiSearchSort = 'relevance' | 'popularity' | 'date' | 'name' | 'uptime';
+
+// Filters applied by searchApis on top of the text query. Retired APIs are
+// left out unless includeRetired is set or lifecycle is 'retired'.
+export interface ApiSearchFilters {
+  categoryId?: string;
+  authType?: AuthType;
+  lifecycle?: ApiLifecycle;
+  includeRetired?: boolean;
+  // Every tag is required and none of the excluded ones may be present.
+  // Tags and team names compare ignoring case.
+  tags?: string[];
+  excludedTags?: string[];
+  // Name of the owning team
+  owner?: string;
+  excludedOwners?: string[];
+  // HTTP methods the current version must have endpoints for, or must not
+  methods?: string[];
+  excludedMethods?: string[];
+  // Bounds on total calls, both included
+  minCalls?: number;
+  maxCalls?: number;
+  // Defaults to relevance; ties go to the most called API
+  sortBy?: ApiSearchSort;
+}
+
+// A page of searchApis results. rank is 0 for every API when the query
+// has no terms.
+export interface ApiSearchPage {
+  results: { api: Api; rank: number }[];
+  // Matches across every page
+  total: number;
+  // Retired APIs that matched but were left out
+  hiddenRetired: number;
+}
@@ -0,0 +1,131 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { addDays } from "@/lib/days";
+import type { ApiUsageDaily } from "@/services/types";
+
+export type TimeRange = "week" | "month" | "year";
+
+export interface RangeBounds {
+  from: string;
+  to: string;
+  // The period of the same length just before, for comparisons
+  previousFrom: string;
+  previousTo: string;
+}
+
+export interface UsagePoint {
+  // First day of the bucket (a day, or the first of a month)
+  start: string;
+  label: string;
+  calls: number;
+  errors: number;
+}
+
+export interface UsageSummary {
+  calls: number;
+  errors: number;
+  // Percentage of calls that failed
+  errorRate: number;
+  // Consumers are only unique within a day, so they are averaged per day
+  avgDailyConsumers: number;
+  // Weighted by the calls of each day
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+}
+
+const RANGE_DAYS: Record<Exclude<TimeRange, "year">, number> = { week: 7, month: 30 };
+
+const firstOfMonth = (day: string) => `${day.slice(0, 7)}-01`;
+
+const addMonths = (day: string, amount: number) => {
+  const [year, month] = day.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + amount, 1));
+  return date.toISOString().slice(0, 10);
+};
+
+// Week and month are the last 7 and 30 days; year is the last 12 calendar
+// months, current one included
+export const getRangeBounds = (range: TimeRange, lastDay: string): RangeBounds => {
+  if (range === "year") {
+    const from = addMonths(firstOfMonth(lastDay), -11);
+    return {
+      from,
+      to: lastDay,
+      previousFrom: addMonths(from, -12),
+      previousTo: addDays(from, -1),
+    };
+  }
+  const days = RANGE_DAYS[range];
+  const from = addDays(lastDay, -(days - 1));
+  return {
+    from,
+    to: lastDay,
+    previousFrom: addDays(from, -days),
+    previousTo: addDays(from, -1),
+  };
+};
+
+// Read a YYYY-MM-DD day as a local date so labels do not shift by timezone
+const asLocalDate = (day: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+};
+
+// Sum usage rows into one point per day (week, month) or per month (year).
+// Buckets without rows are kept with zero calls.
+export const buildUsageSeries = (
+  rows: ApiUsageDaily[],
+  range: TimeRange,
+  lastDay: string
+): UsagePoint[] => {
+  const { from, to } = getRangeBounds(range, lastDay);
+  const byMonth = range === "year";
+  const points = new Map<string, UsagePoint>();
+
+  for (
+    let start = from;
+    start <= to;
+    start = byMonth ? addMonths(start, 1) : addDays(start, 1)
+  ) {
+    points.set(start, {
+      start,
+      label: format(asLocalDate(start), byMonth ? "MMM yy" : "d MMM", { locale: es }),
+      calls: 0,
+      errors: 0,
+    });
+  }
+
+  rows
+    .filter(row => row.day >= from && row.day <= to)
+    .forEach(row => {
+      const point = points.get(byMonth ? firstOfMonth(row.day) : row.day);
+      if (!point) return;
+      point.calls += row.calls;
+      point.errors += row.errors;
+    });
+
+  return [...points.values()];
+};
+
+export const summarizeUsage = (rows: ApiUsageDaily[]): UsageSummary => {
+  const calls = rows.reduce((sum, row) => sum + row.calls, 0);
+  const errors = rows.reduce((sum, row) => sum + row.errors, 0);
+  const days = new Set(rows.map(row => row.day)).size;
+  const weighted = (field: "avg_latency_ms" | "p95_latency_ms") =>
+    calls > 0 ? rows.reduce((sum, row) => sum + row[field] * row.calls, 0) / calls : 0;
+
+  return {
+    calls,
+    errors,
+    errorRate: calls > 0 ? (errors / calls) * 100 : 0,
+    avgDailyConsumers: days > 0
+      ? Math.round(rows.reduce((sum, row) => sum + row.unique_consumers, 0) / days)
+      : 0,
+    avgLatencyMs: Math.round(weighted("avg_latency_ms")),
+    p95LatencyMs: Math.round(weighted("p95_latency_ms")),
+  };
+};
+
+// Relative change in percent, or null when there is nothing to compare with
+export const percentChange = (current: number, previous: number): number | null =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : null;
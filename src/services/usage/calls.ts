@@ -0,0 +1,47 @@
+import { DAY_MS } from "@/services/health/summary";
+import type { ApiUsageDaily, NewApiCall } from "@/services/types";
+
+type CallFields = Pick<NewApiCall, "api_id" | "application_id" | "status" | "latency_ms" | "called_at">;
+
+// Answers from this status up count as errors in api_usage_daily
+export const ERROR_STATUS = 500;
+
+// Like percentile_cont: interpolates between the two closest values
+const percentile = (sorted: number[], fraction: number) => {
+  const index = fraction * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+// One api_usage_daily row per API and UTC day of the calls, the way
+// record_api_calls rebuilds them. Calls without an application count as
+// a single consumer.
+export const rollupApiCalls = (calls: CallFields[]): Omit<ApiUsageDaily, "id" | "updated_at">[] => {
+  const groups = new Map<string, CallFields[]>();
+  calls.forEach(call => {
+    const key = `${call.api_id}|${call.called_at.slice(0, 10)}`;
+    groups.set(key, [...(groups.get(key) || []), call]);
+  });
+  return [...groups.entries()].map(([key, group]) => {
+    const [api_id, day] = key.split("|");
+    const latencies = group.map(call => call.latency_ms).sort((a, b) => a - b);
+    return {
+      api_id,
+      day,
+      calls: group.length,
+      errors: group.filter(call => call.status >= ERROR_STATUS).length,
+      unique_consumers: new Set(group.map(call => call.application_id)).size,
+      avg_latency_ms: Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length),
+      p95_latency_ms: Math.round(percentile(latencies, 0.95)),
+    };
+  });
+};
+
+// Average latency of the last 24 hours of calls; null without calls
+export const trafficResponseTime = (calls: CallFields[], now = Date.now()) => {
+  const recent = calls.filter(call => Date.parse(call.called_at) > now - DAY_MS);
+  return recent.length > 0
+    ? Math.round(recent.reduce((sum, call) => sum + call.latency_ms, 0) / recent.length)
+    : null;
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import type { ApiEndpoint, ApiVersion, EndpointInput } from "@/services/types";
+import { blocksPublishing, buildChangelog, diffEndpoints, diffVersions } from "./diff";
+
+const endpoint = (input: Partial<EndpointInput> & Pick<EndpointInput, "path">): EndpointInput => ({
+  method: "GET",
+  description: "",
+  parameters: [],
+  request_body: null,
+  responses: [],
+  ...input,
+});
+
+const summary = (changes: ReturnType<typeof diffEndpoints>) =>
+  changes.map(({ kind, breaking, message }) => [kind, breaking, message]);
+
+describe("diffEndpoints", () => {
+  it("matches endpoints across parameter names and leading slashes", () => {
+    expect(
+      diffEndpoints([endpoint({ path: "users/{id}" })], [endpoint({ path: "/users/{userId}" })], "en")
+    ).toEqual([]);
+  });
+
+  it("matches endpoints across version prefixes and reports the new path", () => {
+    expect(
+      summary(diffEndpoints([endpoint({ path: "/v1/payments/{id}" })], [endpoint({ path: "/v2/payments/{id}" })], "en"))
+    ).toEqual([["modified", true, "Path changed from /v1/payments/{id} to /v2/payments/{id}"]]);
+  });
+
+  it("breaks when a request has to send more and a response returns less", () => {
+    const before = endpoint({
+      path: "/pay",
+      method: "POST",
+      parameters: [{ name: "q", in: "query", type: "string", required: false }],
+      request_body: {
+        required: true,
+        content: [{ content_type: "application/json", schema: { type: "object", properties: { a: { type: "string" } } } }],
+      },
+      responses: [{
+        status: "200",
+        description: "",
+        content: [{ content_type: "application/json", schema: { type: "object", properties: { id: { type: "string" } } } }],
+      }],
+    });
+    const after = endpoint({
+      ...before,
+      parameters: [{ name: "q", in: "query", type: "string", required: true }],
+      request_body: {
+        required: true,
+        content: [{
+          content_type: "application/json",
+          schema: { type: "object", properties: { a: { type: "string" }, b: { type: "integer" } }, required: ["b"] },
+        }],
+      },
+      responses: [
+        { status: "200", description: "", content: [{ content_type: "application/json", schema: { type: "object", properties: {} } }] },
+        { status: "404", description: "", content: [] },
+      ],
+    });
+
+    expect(summary(diffEndpoints([before], [after], "en"))).toEqual([
+      ["modified", true, "Parameter q (query) is now required"],
+      ["added", true, "New required field body.b"],
+      ["removed", true, "response 200.id is no longer returned"],
+      ["added", false, "New response 404"],
+    ]);
+  });
+
+  it("reports method changes, new and removed endpoints", () => {
+    expect(
+      summary(
+        diffEndpoints(
+          [endpoint({ path: "/items/{id}" }), endpoint({ path: "/old" })],
+          [endpoint({ path: "/items/{id}", method: "PUT" }), endpoint({ path: "/new" })],
+          "en"
+        )
+      )
+    ).toEqual([
+      ["modified", true, "Method changed from GET to PUT"],
+      ["added", false, "New endpoint"],
+      ["removed", true, "Endpoint removed"],
+    ]);
+  });
+
+  it("writes Spanish messages unless asked otherwise", () => {
+    expect(summary(diffEndpoints([endpoint({ path: "/old" })], []))).toEqual([
+      ["removed", true, "Endpoint eliminado"],
+    ]);
+  });
+});
+
+describe("diffVersions and blocksPublishing", () => {
+  const snapshot = (version: string, base_url = "https://api.example.com") => ({
+    version,
+    base_url,
+    auth_type: "none" as const,
+    endpoints: [endpoint({ path: "/items" })],
+  });
+
+  it("only blocks breaking changes within the same major version", () => {
+    const diff = diffVersions(snapshot("v1.0.0"), snapshot("v1.1.0", "https://new.example.com"), "en");
+    expect(diff.breaking).toBe(true);
+    expect(diff.changes[0].message).toBe("Base URL changed from https://api.example.com to https://new.example.com");
+    expect(blocksPublishing(diff)).toBe(true);
+    expect(blocksPublishing({ ...diff, to: "v2.0.0" })).toBe(false);
+    expect(blocksPublishing(diffVersions(snapshot("v1.0.0"), snapshot("v1.1.0")))).toBe(false);
+  });
+});
+
+describe("buildChangelog", () => {
+  it("diffs each version with the one before, newest first", () => {
+    const version = (id: string, name: string, created_at: string, breaking_allowed = false): ApiVersion => ({
+      id,
+      api_id: "api",
+      version: name,
+      base_url: "https://api.example.com",
+      auth_type: "none",
+      auth_description: null,
+      status: "supported",
+      breaking_allowed,
+      created_at,
+    });
+    const stored = (version_id: string, path: string): ApiEndpoint => ({
+      ...endpoint({ path }),
+      id: `${version_id}${path}`,
+      api_id: "api",
+      version_id,
+      parameters: [],
+      request_body: null,
+      responses: [],
+      created_at: "2026-01-01T00:00:00Z",
+    });
+
+    const changelog = buildChangelog(
+      [
+        version("b", "v1.1.0", "2026-02-01T00:00:00Z", true),
+        version("a", "v1.0.0", "2026-01-01T00:00:00Z"),
+        version("c", "v2.0.0", "2026-03-01T00:00:00Z"),
+      ],
+      [stored("a", "/one"), stored("a", "/two"), stored("b", "/one"), stored("c", "/one"), stored("c", "/three")]
+    );
+
+    expect(changelog.map(({ from, to, breaking, overridden }) => ({ from, to, breaking, overridden }))).toEqual([
+      { from: "v1.1.0", to: "v2.0.0", breaking: false, overridden: false },
+      { from: "v1.0.0", to: "v1.1.0", breaking: true, overridden: true },
+    ]);
+  });
+});
@@ -0,0 +1,336 @@
+import type {
+  ApiEndpoint,
+  ApiVersion,
+  EndpointInput,
+  EndpointParameter,
+  JsonSchema,
+  MediaContent,
+} from "@/services/types";
+import { normalizePath } from "@/services/specs/paths";
+import { majorVersion } from "@/services/versions/history";
+import { DIFF_MESSAGES, type DiffLanguage, type DiffMessages } from "@/services/versions/messages";
+
+export type ChangeKind = "added" | "removed" | "modified";
+
+export interface VersionChange {
+  kind: ChangeKind;
+  // Consumers of the older version may stop working
+  breaking: boolean;
+  // "GET /payments/{id}"; null for changes to the whole version
+  endpoint: string | null;
+  message: string;
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  changes: VersionChange[];
+  breaking: boolean;
+  // The owner published these breaking changes without a new major version
+  overridden?: boolean;
+}
+
+// What the diff compares of each version
+export type VersionSnapshot = Pick<ApiVersion, "version" | "base_url" | "auth_type"> & {
+  endpoints: EndpointInput[];
+};
+
+type Report = (kind: ChangeKind, breaking: boolean, message: string) => void;
+
+// Requests and responses break in opposite directions: a request breaks
+// when it has to send more, a response when it returns less
+type Direction = "request" | "response";
+
+const endpointLabel = (endpoint: Pick<EndpointInput, "method" | "path">) =>
+  `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+
+// Versions usually prefix their paths (/v1/payments, /v2/payments) and may
+// rename path parameters, so endpoints are matched without either. A
+// missing leading "/" does not make a different path either.
+const withoutParameterNames = (path: string) => normalizePath(path).replace(/\{[^}]*\}/g, "{}");
+
+const routeKey = (path: string) =>
+  withoutParameterNames(path)
+    .replace(/^\/v\d+(\.\d+)*(?=\/|$)/i, "")
+    .replace(/\/+$/, "") || "/";
+
+const parameterLabel = (parameter: Pick<EndpointParameter, "name" | "in">) =>
+  `${parameter.name} (${parameter.in})`;
+
+const schemaType = (schema: JsonSchema) =>
+  Array.isArray(schema.type) ? schema.type.join(" | ") : typeof schema.type === "string" ? schema.type : null;
+
+const schemaProperties = (schema: JsonSchema) =>
+  schema.properties && typeof schema.properties === "object"
+    ? (schema.properties as Record<string, JsonSchema>)
+    : {};
+
+const requiredNames = (schema: JsonSchema) =>
+  new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+
+const enumValues = (schema: JsonSchema) =>
+  Array.isArray(schema.enum) ? schema.enum.map(value => JSON.stringify(value)) : null;
+
+// Types, enums, properties and array items of two JSON Schemas
+const diffSchema = (
+  before: JsonSchema | null | undefined,
+  after: JsonSchema | null | undefined,
+  where: string,
+  direction: Direction,
+  report: Report,
+  text: DiffMessages
+) => {
+  if (!before || !after) return;
+
+  const beforeType = schemaType(before);
+  const afterType = schemaType(after);
+  if (beforeType && afterType && beforeType !== afterType) {
+    report("modified", true, text.typeChanged(where, beforeType, afterType));
+    return;
+  }
+
+  const beforeEnum = enumValues(before);
+  const afterEnum = enumValues(after);
+  if (beforeEnum && afterEnum) {
+    beforeEnum
+      .filter(value => !afterEnum.includes(value))
+      .forEach(value =>
+        direction === "request"
+          ? report("removed", true, text.noLongerAccepts(where, value))
+          : report("removed", false, text.noLongerReturns(where, value))
+      );
+    afterEnum
+      .filter(value => !beforeEnum.includes(value))
+      .forEach(value =>
+        direction === "request"
+          ? report("added", false, text.accepts(where, value))
+          : report("added", true, text.mayReturn(where, value))
+      );
+  }
+
+  const beforeProperties = schemaProperties(before);
+  const afterProperties = schemaProperties(after);
+  const beforeRequired = requiredNames(before);
+  const afterRequired = requiredNames(after);
+  Object.keys(beforeProperties)
+    .filter(name => !(name in afterProperties))
+    .forEach(name =>
+      direction === "request"
+        ? report("removed", false, text.fieldRemoved(`${where}.${name}`))
+        : report("removed", true, text.fieldNoLongerReturned(`${where}.${name}`))
+    );
+  Object.keys(afterProperties).forEach(name => {
+    const field = `${where}.${name}`;
+    if (!(name in beforeProperties)) {
+      if (direction === "request" && afterRequired.has(name)) {
+        report("added", true, text.newRequiredField(field));
+      } else {
+        report("added", false, text.newField(field, direction === "request"));
+      }
+      return;
+    }
+    if (!beforeRequired.has(name) && afterRequired.has(name)) {
+      report("modified", direction === "request", text.fieldRequired(field));
+    } else if (beforeRequired.has(name) && !afterRequired.has(name)) {
+      report("modified", direction === "response", text.fieldOptional(field));
+    }
+    diffSchema(beforeProperties[name], afterProperties[name], field, direction, report, text);
+  });
+
+  if (before.items && after.items) {
+    diffSchema(before.items as JsonSchema, after.items as JsonSchema, `${where}[]`, direction, report, text);
+  }
+};
+
+// Media types of a request or response body, and the schema of each
+const diffContent = (
+  before: MediaContent[],
+  after: MediaContent[],
+  where: string,
+  direction: Direction,
+  report: Report,
+  text: DiffMessages
+) => {
+  before
+    .filter(content => !after.some(c => c.content_type === content.content_type))
+    .forEach(content =>
+      report(
+        "removed",
+        true,
+        direction === "request"
+          ? text.noLongerAccepts(where, content.content_type)
+          : text.noLongerReturnedAs(where, content.content_type)
+      )
+    );
+  after.forEach(content => {
+    const previous = before.find(c => c.content_type === content.content_type);
+    if (!previous) {
+      report("added", false, text.supports(where, content.content_type));
+      return;
+    }
+    diffSchema(previous.schema, content.schema, where, direction, report, text);
+  });
+};
+
+const isSuccess = (status: string) => /^2/.test(status);
+
+// Parameters, request body and responses of one endpoint in two versions
+const diffEndpoint = (before: EndpointInput, after: EndpointInput, report: Report, text: DiffMessages) => {
+  if (withoutParameterNames(before.path) !== withoutParameterNames(after.path)) {
+    report("modified", true, text.pathChanged(before.path, after.path));
+  }
+  if (before.description.trim() !== after.description.trim()) {
+    report("modified", false, text.descriptionUpdated);
+  }
+
+  const beforeParameters = before.parameters || [];
+  const afterParameters = after.parameters || [];
+  const parameterKey = (parameter: EndpointParameter) => `${parameter.in}:${parameter.name}`;
+  // Renaming a path parameter does not change the calls
+  const comparable = (parameters: EndpointParameter[]) => parameters.filter(p => p.in !== "path");
+  comparable(beforeParameters)
+    .filter(parameter => !afterParameters.some(p => parameterKey(p) === parameterKey(parameter)))
+    .forEach(parameter => report("removed", true, text.parameterRemoved(parameterLabel(parameter))));
+  comparable(afterParameters).forEach(parameter => {
+    const previous = beforeParameters.find(p => parameterKey(p) === parameterKey(parameter));
+    if (!previous) {
+      report("added", parameter.required, text.newParameter(parameterLabel(parameter), parameter.required));
+      return;
+    }
+    if (previous.type !== parameter.type) {
+      report("modified", true, text.parameterTypeChanged(parameterLabel(parameter), previous.type, parameter.type));
+    }
+    if (previous.required !== parameter.required) {
+      report("modified", parameter.required, text.parameterRequired(parameterLabel(parameter), parameter.required));
+    }
+  });
+
+  const beforeBody = before.request_body || null;
+  const afterBody = after.request_body || null;
+  if (!beforeBody && afterBody) {
+    report("added", afterBody.required, text.newRequestBody(afterBody.required));
+  } else if (beforeBody && !afterBody) {
+    report("removed", false, text.requestBodyRemoved);
+  } else if (beforeBody && afterBody) {
+    if (beforeBody.required !== afterBody.required) {
+      report("modified", afterBody.required, text.requestBodyRequired(afterBody.required));
+    }
+    diffContent(beforeBody.content, afterBody.content, text.body, "request", report, text);
+  }
+
+  const beforeResponses = before.responses || [];
+  const afterResponses = after.responses || [];
+  beforeResponses
+    .filter(response => !afterResponses.some(r => r.status === response.status))
+    .forEach(response =>
+      report("removed", isSuccess(response.status), text.responseRemoved(response.status))
+    );
+  afterResponses.forEach(response => {
+    const previous = beforeResponses.find(r => r.status === response.status);
+    if (!previous) {
+      report("added", false, text.newResponse(response.status));
+      return;
+    }
+    diffContent(previous.content, response.content, text.response(response.status), "response", report, text);
+  });
+};
+
+// Changes between two endpoint sets. Endpoints are matched by method and
+// path; an endpoint whose path remains but whose only method changed
+// counts as a method change. Messages are written in the given language.
+export const diffEndpoints = (
+  before: EndpointInput[],
+  after: EndpointInput[],
+  language: DiffLanguage = "es"
+): VersionChange[] => {
+  const text = DIFF_MESSAGES[language];
+  const changes: VersionChange[] = [];
+  const reporter = (endpoint: string): Report => (kind, breaking, message) =>
+    changes.push({ kind, breaking, endpoint, message });
+
+  const unmatched = [...before];
+  const added: EndpointInput[] = [];
+  after.forEach(endpoint => {
+    const index = unmatched.findIndex(
+      e => routeKey(e.path) === routeKey(endpoint.path) && e.method.toUpperCase() === endpoint.method.toUpperCase()
+    );
+    if (index === -1) {
+      added.push(endpoint);
+      return;
+    }
+    const [previous] = unmatched.splice(index, 1);
+    diffEndpoint(previous, endpoint, reporter(endpointLabel(endpoint)), text);
+  });
+
+  added.forEach(endpoint => {
+    const sameRoute = (e: EndpointInput) => routeKey(e.path) === routeKey(endpoint.path);
+    const previous = unmatched.filter(sameRoute);
+    if (previous.length === 1 && added.filter(sameRoute).length === 1) {
+      unmatched.splice(unmatched.indexOf(previous[0]), 1);
+      const report = reporter(endpointLabel(endpoint));
+      report("modified", true, text.methodChanged(previous[0].method, endpoint.method));
+      diffEndpoint(previous[0], endpoint, report, text);
+      return;
+    }
+    reporter(endpointLabel(endpoint))("added", false, text.newEndpoint);
+  });
+
+  unmatched.forEach(endpoint => reporter(endpointLabel(endpoint))("removed", true, text.endpointRemoved));
+
+  return changes;
+};
+
+export const diffVersions = (
+  before: VersionSnapshot,
+  after: VersionSnapshot,
+  language: DiffLanguage = "es"
+): VersionDiff => {
+  const text = DIFF_MESSAGES[language];
+  const changes: VersionChange[] = [];
+  if (before.base_url !== after.base_url) {
+    changes.push({
+      kind: "modified",
+      breaking: true,
+      endpoint: null,
+      message: text.baseUrlChanged(before.base_url, after.base_url),
+    });
+  }
+  if (before.auth_type !== after.auth_type) {
+    changes.push({
+      kind: "modified",
+      breaking: true,
+      endpoint: null,
+      message: text.authChanged(before.auth_type, after.auth_type),
+    });
+  }
+  changes.push(...diffEndpoints(before.endpoints, after.endpoints, language));
+
+  return {
+    from: before.version,
+    to: after.version,
+    changes,
+    breaking: changes.some(change => change.breaking),
+  };
+};
+
+// Breaking changes need a new major version, unless its owner overrides
+export const blocksPublishing = (diff: VersionDiff) => {
+  const from = majorVersion(diff.from);
+  return diff.breaking && from !== null && from === majorVersion(diff.to);
+};
+
+// What changed from each version to the next one, newest first
+export const buildChangelog = (versions: ApiVersion[], endpoints: ApiEndpoint[]): VersionDiff[] => {
+  const snapshot = (version: ApiVersion): VersionSnapshot => ({
+    ...version,
+    endpoints: endpoints.filter(endpoint => endpoint.version_id === version.id),
+  });
+  const ordered = [...versions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return ordered
+    .slice(1)
+    .map((version, index) => ({
+      ...diffVersions(snapshot(ordered[index]), snapshot(version)),
+      overridden: version.breaking_allowed,
+    }))
+    .reverse();
+};
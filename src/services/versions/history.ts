@@ -0,0 +1,25 @@
+import type { ApiVersion, ApiVersionStatus } from "@/services/types";
+
+export const VERSION_STATUS_LABELS: Record<ApiVersionStatus, string> = {
+  current: "Actual",
+  supported: "Soportada",
+  deprecated: "Obsoleta",
+};
+
+// Version names go in URLs without their leading "v": /view/:id/v/2.1.0
+export const versionSlug = (version: string) => version.trim().replace(/^v/i, "");
+
+// "v2.1.0" and "2" are major version 2; null for names without a number
+export const majorVersion = (version: string) => {
+  const match = versionSlug(version).match(/^(\d+)/);
+  return match ? Number(match[1]) : null;
+};
+
+export const findVersion = (versions: ApiVersion[], slug: string) =>
+  versions.find(version => versionSlug(version.version) === versionSlug(slug));
+
+// The current version lives at the API's own page
+export const versionPath = (apiId: string, version: Pick<ApiVersion, "version" | "status">) =>
+  version.status === "current"
+    ? `/view/${apiId}`
+    : `/view/${apiId}/v/${encodeURIComponent(versionSlug(version.version))}`;
@@ -0,0 +1,109 @@
+// Version changes are shown on the publish form, which is in English, and
+// in the API page's changelog, which is in Spanish
+export type DiffLanguage = "en" | "es";
+
+export interface DiffMessages {
+  typeChanged: (where: string, from: string, to: string) => string;
+  noLongerAccepts: (where: string, value: string) => string;
+  noLongerReturns: (where: string, value: string) => string;
+  accepts: (where: string, value: string) => string;
+  mayReturn: (where: string, value: string) => string;
+  fieldRemoved: (field: string) => string;
+  fieldNoLongerReturned: (field: string) => string;
+  newRequiredField: (field: string) => string;
+  newField: (field: string, optional: boolean) => string;
+  fieldRequired: (field: string) => string;
+  fieldOptional: (field: string) => string;
+  noLongerReturnedAs: (where: string, contentType: string) => string;
+  supports: (where: string, contentType: string) => string;
+  pathChanged: (from: string, to: string) => string;
+  descriptionUpdated: string;
+  parameterRemoved: (parameter: string) => string;
+  newParameter: (parameter: string, required: boolean) => string;
+  parameterTypeChanged: (parameter: string, from: string, to: string) => string;
+  parameterRequired: (parameter: string, required: boolean) => string;
+  newRequestBody: (required: boolean) => string;
+  requestBodyRemoved: string;
+  requestBodyRequired: (required: boolean) => string;
+  body: string;
+  response: (status: string) => string;
+  responseRemoved: (status: string) => string;
+  newResponse: (status: string) => string;
+  methodChanged: (from: string, to: string) => string;
+  newEndpoint: string;
+  endpointRemoved: string;
+  baseUrlChanged: (from: string, to: string) => string;
+  authChanged: (from: string, to: string) => string;
+}
+
+const requiredEn = (required: boolean) => (required ? "required" : "optional");
+const requiredEs = (required: boolean) => (required ? "obligatorio" : "opcional");
+
+export const DIFF_MESSAGES: Record<DiffLanguage, DiffMessages> = {
+  en: {
+    typeChanged: (where, from, to) => `${where} changed type from ${from} to ${to}`,
+    noLongerAccepts: (where, value) => `${where} no longer accepts ${value}`,
+    noLongerReturns: (where, value) => `${where} no longer returns ${value}`,
+    accepts: (where, value) => `${where} accepts ${value}`,
+    mayReturn: (where, value) => `${where} may return ${value}`,
+    fieldRemoved: field => `Field ${field} removed`,
+    fieldNoLongerReturned: field => `${field} is no longer returned`,
+    newRequiredField: field => `New required field ${field}`,
+    newField: (field, optional) => `New ${optional ? "optional " : ""}field ${field}`,
+    fieldRequired: field => `${field} is now required`,
+    fieldOptional: field => `${field} is now optional`,
+    noLongerReturnedAs: (where, contentType) => `${where} is no longer returned as ${contentType}`,
+    supports: (where, contentType) => `${where} supports ${contentType}`,
+    pathChanged: (from, to) => `Path changed from ${from} to ${to}`,
+    descriptionUpdated: "Description updated",
+    parameterRemoved: parameter => `Parameter ${parameter} removed`,
+    newParameter: (parameter, required) => `New ${requiredEn(required)} parameter ${parameter}`,
+    parameterTypeChanged: (parameter, from, to) => `Parameter ${parameter} changed type from ${from} to ${to}`,
+    parameterRequired: (parameter, required) => `Parameter ${parameter} is now ${requiredEn(required)}`,
+    newRequestBody: required => `New ${requiredEn(required)} request body`,
+    requestBodyRemoved: "The request body is no longer read",
+    requestBodyRequired: required => `The request body is now ${requiredEn(required)}`,
+    body: "body",
+    response: status => `response ${status}`,
+    responseRemoved: status => `Response ${status} removed`,
+    newResponse: status => `New response ${status}`,
+    methodChanged: (from, to) => `Method changed from ${from} to ${to}`,
+    newEndpoint: "New endpoint",
+    endpointRemoved: "Endpoint removed",
+    baseUrlChanged: (from, to) => `Base URL changed from ${from} to ${to}`,
+    authChanged: (from, to) => `Authentication changed from ${from} to ${to}`,
+  },
+  es: {
+    typeChanged: (where, from, to) => `${where} cambia de tipo ${from} a ${to}`,
+    noLongerAccepts: (where, value) => `${where} ya no acepta ${value}`,
+    noLongerReturns: (where, value) => `${where} ya no devuelve ${value}`,
+    accepts: (where, value) => `${where} acepta ${value}`,
+    mayReturn: (where, value) => `${where} puede devolver ${value}`,
+    fieldRemoved: field => `Campo ${field} eliminado`,
+    fieldNoLongerReturned: field => `${field} ya no se devuelve`,
+    newRequiredField: field => `Nuevo campo obligatorio ${field}`,
+    newField: (field, optional) => `Nuevo campo ${optional ? "opcional " : ""}${field}`,
+    fieldRequired: field => `${field} pasa a ser obligatorio`,
+    fieldOptional: field => `${field} pasa a ser opcional`,
+    noLongerReturnedAs: (where, contentType) => `${where} ya no se devuelve como ${contentType}`,
+    supports: (where, contentType) => `${where} admite ${contentType}`,
+    pathChanged: (from, to) => `Ruta cambiada de ${from} a ${to}`,
+    descriptionUpdated: "Descripción actualizada",
+    parameterRemoved: parameter => `Parámetro ${parameter} eliminado`,
+    newParameter: (parameter, required) => `Nuevo parámetro ${requiredEs(required)} ${parameter}`,
+    parameterTypeChanged: (parameter, from, to) => `El parámetro ${parameter} cambia de tipo ${from} a ${to}`,
+    parameterRequired: (parameter, required) => `El parámetro ${parameter} pasa a ser ${requiredEs(required)}`,
+    newRequestBody: required => `Nuevo cuerpo de petición ${requiredEs(required)}`,
+    requestBodyRemoved: "El cuerpo de la petición ya no se lee",
+    requestBodyRequired: required => `El cuerpo de la petición pasa a ser ${requiredEs(required)}`,
+    body: "body",
+    response: status => `respuesta ${status}`,
+    responseRemoved: status => `Respuesta ${status} eliminada`,
+    newResponse: status => `Nueva respuesta ${status}`,
+    methodChanged: (from, to) => `Método cambiado de ${from} a ${to}`,
+    newEndpoint: "Endpoint nuevo",
+    endpointRemoved: "Endpoint eliminado",
+    baseUrlChanged: (from, to) => `URL base cambiada de ${from} a ${to}`,
+    authChanged: (from, to) => `Autenticación cambiada de ${from} a ${to}`,
+  },
+};
@@ -0,0 +1,52 @@
+// Supabase edge function that proxies calls to the catalog's APIs and
+// records them in api_calls, which feeds api_usage_daily and api_stats.
+// Consumers call
+//
+//   https://<project-ref>.supabase.co/functions/v1/gateway/{apiId}/path
+//
+// with their portal key in the X-API-Key header when the API uses apiKey
+// authentication. Deploy it without JWT verification, since consumers
+// authenticate with their key:
+//
+//   supabase functions deploy gateway --no-verify-jwt
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { handleGatewayRequest, type GatewayBackend } from "../../../src/services/gateway/proxy.ts";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") ?? "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+  { auth: { persistSession: false } }
+);
+
+const backend: GatewayBackend = {
+  async findApi(id) {
+    // Anything else is not an API id, and would fail the uuid cast
+    if (!UUID_PATTERN.test(id)) return null;
+    const { data, error } = await supabase
+      .from("apis")
+      .select("id, base_url, auth_type")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async findKeyByHash(keyHash) {
+    const { data, error } = await supabase
+      .from("api_keys")
+      .select("id, application_id, api_id, expires_at, revoked_at")
+      .eq("key_hash", keyHash)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  async recordCall(call) {
+    const { error } = await supabase.rpc("record_api_calls", { p_calls: [call] });
+    if (error) throw new Error(error.message);
+  },
+};
+
+Deno.serve((request) => handleGatewayRequest(request, backend, { basePath: "/gateway" }));
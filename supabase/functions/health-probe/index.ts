@@ -0,0 +1,46 @@
+// Supabase edge function that probes the health path of every API, stores
+// the results in api_health_checks and evaluates the alert rules. Schedule
+// it with pg_cron and pg_net, for example every five minutes:
+//
+//   select cron.schedule('health-probe', '*/5 * * * *', $$
+//     select net.http_post(
+//       url := 'https://<project-ref>.supabase.co/functions/v1/health-probe',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//     )
+//   $$);
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { probeApis, toProbeTargets } from "../../../src/services/health/probe.ts";
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  const { data: apis, error } = await supabase
+    .from("apis")
+    .select("id, base_url, health_path")
+    .not("health_path", "is", null);
+  if (error) {
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const results = await probeApis(toProbeTargets(apis));
+  if (results.length > 0) {
+    const { error: insertError } = await supabase.from("api_health_checks").insert(results);
+    if (insertError) {
+      return Response.json({ error: insertError.message }, { status: 500 });
+    }
+    const { error: refreshError } = await supabase.rpc("refresh_api_health_stats");
+    if (refreshError) {
+      return Response.json({ error: refreshError.message }, { status: 500 });
+    }
+    const { error: alertError } = await supabase.rpc("evaluate_alert_rules");
+    if (alertError) {
+      return Response.json({ error: alertError.message }, { status: 500 });
+    }
+  }
+
+  return Response.json({ probed: results.length, results });
+});
@@ -0,0 +1,10 @@
+-- Deleting an API removes its stats and endpoints
+alter table public.api_stats
+  drop constraint api_stats_api_id_fkey,
+  add constraint api_stats_api_id_fkey
+    foreign key (api_id) references public.apis (id) on delete cascade;
+
+alter table public.api_endpoints
+  drop constraint api_endpoints_api_id_fkey,
+  add constraint api_endpoints_api_id_fkey
+    foreign key (api_id) references public.apis (id) on delete cascade;
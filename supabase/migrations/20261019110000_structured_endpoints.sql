@@ -0,0 +1,150 @@
+-- Structured endpoint details, stored as jsonb:
+--   parameters:   [{ name, in: path|query|header, type, required, description }]
+--   request_body: { required, description, content: [{ content_type, schema, example }] }
+--   responses:    [{ status, description, content: [{ content_type, schema, example }] }]
+alter table public.api_endpoints
+  add column parameters jsonb not null default '[]'::jsonb,
+  add column request_body jsonb,
+  add column responses jsonb not null default '[]'::jsonb;
+
+alter table public.api_endpoints
+  add constraint api_endpoints_parameters_is_array check (jsonb_typeof(parameters) = 'array'),
+  add constraint api_endpoints_responses_is_array check (jsonb_typeof(responses) = 'array'),
+  add constraint api_endpoints_request_body_is_object
+    check (request_body is null or jsonb_typeof(request_body) = 'object');
+
+-- create_api and update_api now write the new columns
+
+-- payload: the apis columns plus optional `stats` and `endpoints`
+create or replace function public.create_api(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_api_id uuid;
+begin
+  insert into public.apis (
+    name, description, version, owner, base_url, documentation_url,
+    category_id, tags, auth_type, auth_description
+  )
+  values (
+    payload->>'name',
+    payload->>'description',
+    coalesce(nullif(payload->>'version', ''), 'v1'),
+    payload->>'owner',
+    payload->>'base_url',
+    payload->>'documentation_url',
+    (payload->>'category_id')::uuid,
+    coalesce(array(select jsonb_array_elements_text(payload->'tags')), '{}'),
+    coalesce(payload->>'auth_type', 'none'),
+    payload->>'auth_description'
+  )
+  returning id into new_api_id;
+
+  -- Start from the column defaults, then apply any stats that were given
+  insert into public.api_stats (api_id) values (new_api_id);
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls),
+      uptime = coalesce((payload->'stats'->>'uptime')::numeric, uptime),
+      response_time = coalesce((payload->'stats'->>'response_time')::numeric, response_time)
+    where api_id = new_api_id;
+  end if;
+
+  insert into public.api_endpoints (
+    api_id, path, method, description, parameters, request_body, responses
+  )
+  select
+    new_api_id, e->>'path', e->>'method', e->>'description',
+    coalesce(e->'parameters', '[]'::jsonb),
+    nullif(e->'request_body', 'null'::jsonb),
+    coalesce(e->'responses', '[]'::jsonb)
+  from jsonb_array_elements(coalesce(payload->'endpoints', '[]'::jsonb)) as e;
+
+  return public.api_as_json(new_api_id);
+end;
+$$;
+
+-- payload: any apis columns to change, plus optional `stats` and
+-- `endpoints`. When `endpoints` is present it replaces the list: entries
+-- with an id are updated, entries without one are inserted and endpoints
+-- left out are deleted.
+create or replace function public.update_api(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  update public.apis set
+    name = coalesce(payload->>'name', name),
+    description = coalesce(payload->>'description', description),
+    version = coalesce(nullif(payload->>'version', ''), version),
+    owner = coalesce(payload->>'owner', owner),
+    base_url = coalesce(payload->>'base_url', base_url),
+    documentation_url = case
+      when payload ? 'documentation_url' then payload->>'documentation_url'
+      else documentation_url
+    end,
+    category_id = coalesce((payload->>'category_id')::uuid, category_id),
+    tags = case
+      when payload ? 'tags' then array(select jsonb_array_elements_text(payload->'tags'))
+      else tags
+    end,
+    auth_type = coalesce(payload->>'auth_type', auth_type),
+    auth_description = case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else auth_description
+    end,
+    updated_at = now()
+  where id = p_api_id;
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls),
+      uptime = coalesce((payload->'stats'->>'uptime')::numeric, uptime),
+      response_time = coalesce((payload->'stats'->>'response_time')::numeric, response_time),
+      updated_at = now()
+    where api_id = p_api_id;
+  end if;
+
+  if payload ? 'endpoints' then
+    delete from public.api_endpoints
+    where api_id = p_api_id
+      and id not in (
+        select (e->>'id')::uuid
+        from jsonb_array_elements(payload->'endpoints') as e
+        where e->>'id' is not null
+      );
+
+    update public.api_endpoints ae set
+      path = e->>'path',
+      method = e->>'method',
+      description = e->>'description',
+      parameters = coalesce(e->'parameters', '[]'::jsonb),
+      request_body = nullif(e->'request_body', 'null'::jsonb),
+      responses = coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where ae.api_id = p_api_id
+      and ae.id = (e->>'id')::uuid;
+
+    insert into public.api_endpoints (
+      api_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where e->>'id' is null;
+  end if;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Daily traffic per API. One row per API and UTC day; the dashboard sums
+-- rows into weekly, monthly and yearly series.
+create table public.api_usage_daily (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  day date not null,
+  calls bigint not null default 0 check (calls >= 0),
+  errors bigint not null default 0 check (errors >= 0 and errors <= calls),
+  -- Distinct consumers seen that day; not additive across days
+  unique_consumers integer not null default 0 check (unique_consumers >= 0),
+  avg_latency_ms numeric not null default 0 check (avg_latency_ms >= 0),
+  p95_latency_ms numeric not null default 0 check (p95_latency_ms >= 0),
+  updated_at timestamptz not null default now(),
+  unique (api_id, day)
+);
+
+create index api_usage_daily_day_idx on public.api_usage_daily (day);
+
+alter table public.api_usage_daily enable row level security;
+
+create policy "Usage is readable by everyone"
+  on public.api_usage_daily for select
+  using (true);
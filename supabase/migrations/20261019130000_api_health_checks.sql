@@ -0,0 +1,217 @@
+-- Health checks: a prober calls each API's health path and records the
+-- outcome. Uptime and response time in api_stats are derived from these
+-- rows instead of being typed in.
+
+-- Path appended to base_url when probing, e.g. /health. APIs without one
+-- are not probed.
+alter table public.apis
+  add column health_path text
+    check (health_path is null or health_path like '/%');
+
+create table public.api_health_checks (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  checked_at timestamptz not null default now(),
+  -- degraded: the API answered, but slower than the prober's threshold
+  status text not null check (status in ('up', 'degraded', 'down')),
+  status_code integer,
+  latency_ms integer check (latency_ms is null or latency_ms >= 0),
+  error text
+);
+
+create index api_health_checks_api_id_checked_at_idx
+  on public.api_health_checks (api_id, checked_at desc);
+
+alter table public.api_health_checks enable row level security;
+
+create policy "Health checks are readable by everyone"
+  on public.api_health_checks for select
+  using (true);
+
+-- One row per API and UTC day, for long windows and uptime bars
+create view public.api_health_daily
+with (security_invoker = true)
+as
+select
+  api_id,
+  (checked_at at time zone 'utc')::date as day,
+  count(*)::integer as checks,
+  (count(*) filter (where status <> 'down'))::integer as up_checks,
+  round(avg(latency_ms) filter (where status <> 'down'))::integer as avg_latency_ms
+from public.api_health_checks
+group by api_id, (checked_at at time zone 'utc')::date;
+
+-- The typed-in figures are dropped; they come back from the first probes
+alter table public.api_stats
+  alter column uptime drop not null,
+  alter column uptime drop default,
+  alter column response_time drop not null,
+  alter column response_time drop default;
+
+update public.api_stats set uptime = null, response_time = null;
+
+-- Recompute uptime (last 30 days, degraded counts as up) and response time
+-- (successful checks of the last 24 hours, else of the last 30 days) from
+-- the health checks. Pass an API id to refresh only that API.
+create or replace function public.refresh_api_health_stats(p_api_id uuid default null)
+returns void
+language sql
+as $$
+  update public.api_stats s set
+    uptime = h.uptime,
+    response_time = coalesce(h.response_time_day, h.response_time_month),
+    updated_at = now()
+  from (
+    select
+      api_id,
+      round(100.0 * count(*) filter (where status <> 'down') / count(*), 2) as uptime,
+      round(avg(latency_ms) filter (
+        where status <> 'down' and checked_at > now() - interval '24 hours'
+      )) as response_time_day,
+      round(avg(latency_ms) filter (where status <> 'down')) as response_time_month
+    from public.api_health_checks
+    where checked_at > now() - interval '30 days'
+      and (p_api_id is null or api_id = p_api_id)
+    group by api_id
+  ) h
+  where s.api_id = h.api_id;
+$$;
+
+-- create_api and update_api now write health_path and no longer accept
+-- uptime or response_time
+
+-- payload: the apis columns plus optional `stats` and `endpoints`
+create or replace function public.create_api(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_api_id uuid;
+begin
+  insert into public.apis (
+    name, description, version, owner, base_url, documentation_url,
+    category_id, tags, auth_type, auth_description, health_path
+  )
+  values (
+    payload->>'name',
+    payload->>'description',
+    coalesce(nullif(payload->>'version', ''), 'v1'),
+    payload->>'owner',
+    payload->>'base_url',
+    payload->>'documentation_url',
+    (payload->>'category_id')::uuid,
+    coalesce(array(select jsonb_array_elements_text(payload->'tags')), '{}'),
+    coalesce(payload->>'auth_type', 'none'),
+    payload->>'auth_description',
+    nullif(payload->>'health_path', '')
+  )
+  returning id into new_api_id;
+
+  -- Start from the column defaults, then apply any call counts that were
+  -- given. Uptime and response time stay empty until the API is probed.
+  insert into public.api_stats (api_id) values (new_api_id);
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls)
+    where api_id = new_api_id;
+  end if;
+
+  insert into public.api_endpoints (
+    api_id, path, method, description, parameters, request_body, responses
+  )
+  select
+    new_api_id, e->>'path', e->>'method', e->>'description',
+    coalesce(e->'parameters', '[]'::jsonb),
+    nullif(e->'request_body', 'null'::jsonb),
+    coalesce(e->'responses', '[]'::jsonb)
+  from jsonb_array_elements(coalesce(payload->'endpoints', '[]'::jsonb)) as e;
+
+  return public.api_as_json(new_api_id);
+end;
+$$;
+
+-- payload: any apis columns to change, plus optional `stats` and
+-- `endpoints`. When `endpoints` is present it replaces the list: entries
+-- with an id are updated, entries without one are inserted and endpoints
+-- left out are deleted.
+create or replace function public.update_api(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  update public.apis set
+    name = coalesce(payload->>'name', name),
+    description = coalesce(payload->>'description', description),
+    version = coalesce(nullif(payload->>'version', ''), version),
+    owner = coalesce(payload->>'owner', owner),
+    base_url = coalesce(payload->>'base_url', base_url),
+    documentation_url = case
+      when payload ? 'documentation_url' then payload->>'documentation_url'
+      else documentation_url
+    end,
+    category_id = coalesce((payload->>'category_id')::uuid, category_id),
+    tags = case
+      when payload ? 'tags' then array(select jsonb_array_elements_text(payload->'tags'))
+      else tags
+    end,
+    auth_type = coalesce(payload->>'auth_type', auth_type),
+    auth_description = case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else auth_description
+    end,
+    health_path = case
+      when payload ? 'health_path' then nullif(payload->>'health_path', '')
+      else health_path
+    end,
+    updated_at = now()
+  where id = p_api_id;
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls),
+      updated_at = now()
+    where api_id = p_api_id;
+  end if;
+
+  if payload ? 'endpoints' then
+    delete from public.api_endpoints
+    where api_id = p_api_id
+      and id not in (
+        select (e->>'id')::uuid
+        from jsonb_array_elements(payload->'endpoints') as e
+        where e->>'id' is not null
+      );
+
+    update public.api_endpoints ae set
+      path = e->>'path',
+      method = e->>'method',
+      description = e->>'description',
+      parameters = coalesce(e->'parameters', '[]'::jsonb),
+      request_body = nullif(e->'request_body', 'null'::jsonb),
+      responses = coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where ae.api_id = p_api_id
+      and ae.id = (e->>'id')::uuid;
+
+    insert into public.api_endpoints (
+      api_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where e->>'id' is null;
+  end if;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
@@ -0,0 +1,275 @@
+-- Incidents: declared problems with one or more APIs, with a timeline of
+-- status updates. Major and critical incidents count as downtime in the
+-- uptime figures.
+
+create table public.incidents (
+  id uuid primary key default gen_random_uuid(),
+  title text not null check (length(trim(title)) > 0),
+  severity text not null check (severity in ('minor', 'major', 'critical')),
+  -- Status of the latest update
+  status text not null default 'investigating'
+    check (status in ('investigating', 'identified', 'monitoring', 'resolved')),
+  started_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check ((status = 'resolved') = (resolved_at is not null))
+);
+
+-- Affected APIs. An empty endpoint_ids means the whole API is affected.
+create table public.incident_apis (
+  incident_id uuid not null references public.incidents (id) on delete cascade,
+  api_id uuid not null references public.apis (id) on delete cascade,
+  endpoint_ids uuid[] not null default '{}',
+  primary key (incident_id, api_id)
+);
+
+create index incident_apis_api_id_idx on public.incident_apis (api_id);
+
+create table public.incident_updates (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents (id) on delete cascade,
+  status text not null
+    check (status in ('investigating', 'identified', 'monitoring', 'resolved')),
+  message text not null check (length(trim(message)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index incident_updates_incident_id_idx
+  on public.incident_updates (incident_id, created_at desc);
+
+alter table public.incidents enable row level security;
+alter table public.incident_apis enable row level security;
+alter table public.incident_updates enable row level security;
+
+create policy "Incidents are readable by everyone"
+  on public.incidents for select
+  using (true);
+
+create policy "Incident APIs are readable by everyone"
+  on public.incident_apis for select
+  using (true);
+
+create policy "Incident updates are readable by everyone"
+  on public.incident_updates for select
+  using (true);
+
+-- The portal has no sign-in yet, so incidents are written like the rest
+-- of the catalog, through the functions below
+create policy "Anyone can write incidents"
+  on public.incidents for all
+  using (true) with check (true);
+
+create policy "Anyone can write incident APIs"
+  on public.incident_apis for all
+  using (true) with check (true);
+
+create policy "Anyone can write incident updates"
+  on public.incident_updates for all
+  using (true) with check (true);
+
+-- Whether a check of an API at a given time falls within a major or
+-- critical incident affecting it
+create or replace function public.incident_downtime(p_api_id uuid, p_at timestamptz)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+    from public.incidents i
+    join public.incident_apis ia on ia.incident_id = i.id
+    where ia.api_id = p_api_id
+      and i.severity in ('major', 'critical')
+      and p_at >= i.started_at
+      and (i.resolved_at is null or p_at < i.resolved_at)
+  );
+$$;
+
+-- Checks taken during an incident outage count as down
+create or replace view public.api_health_daily
+with (security_invoker = true)
+as
+select
+  api_id,
+  (checked_at at time zone 'utc')::date as day,
+  count(*)::integer as checks,
+  (count(*) filter (
+    where status <> 'down' and not public.incident_downtime(api_id, checked_at)
+  ))::integer as up_checks,
+  round(avg(latency_ms) filter (
+    where status <> 'down' and not public.incident_downtime(api_id, checked_at)
+  ))::integer as avg_latency_ms
+from public.api_health_checks
+group by api_id, (checked_at at time zone 'utc')::date;
+
+create or replace function public.refresh_api_health_stats(p_api_id uuid default null)
+returns void
+language sql
+as $$
+  update public.api_stats s set
+    uptime = h.uptime,
+    response_time = coalesce(h.response_time_day, h.response_time_month),
+    updated_at = now()
+  from (
+    select
+      api_id,
+      round(100.0 * count(*) filter (where up) / count(*), 2) as uptime,
+      round(avg(latency_ms) filter (
+        where up and checked_at > now() - interval '24 hours'
+      )) as response_time_day,
+      round(avg(latency_ms) filter (where up)) as response_time_month
+    from (
+      select
+        api_id,
+        checked_at,
+        latency_ms,
+        status <> 'down' and not public.incident_downtime(api_id, checked_at) as up
+      from public.api_health_checks
+      where checked_at > now() - interval '30 days'
+        and (p_api_id is null or api_id = p_api_id)
+    ) c
+    group by api_id
+  ) h
+  where s.api_id = h.api_id;
+$$;
+
+-- The incident with its affected APIs and updates (newest first)
+create or replace function public.incident_as_json(p_incident_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(i) || jsonb_build_object(
+    'affected', coalesce((
+      select jsonb_agg(jsonb_build_object('api_id', ia.api_id, 'endpoint_ids', to_jsonb(ia.endpoint_ids)))
+      from public.incident_apis ia
+      where ia.incident_id = i.id
+    ), '[]'::jsonb),
+    'updates', coalesce((
+      select jsonb_agg(to_jsonb(u) order by u.created_at desc)
+      from public.incident_updates u
+      where u.incident_id = i.id
+    ), '[]'::jsonb)
+  )
+  from public.incidents i
+  where i.id = p_incident_id;
+$$;
+
+-- Replace the affected APIs of an incident. Endpoints must belong to the
+-- API they are listed under.
+create or replace function public.set_incident_apis(p_incident_id uuid, affected jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  if jsonb_array_length(coalesce(affected, '[]'::jsonb)) = 0 then
+    raise exception 'Incidents need at least one affected API' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(affected) as a,
+      jsonb_array_elements_text(coalesce(a->'endpoint_ids', '[]'::jsonb)) as endpoint_id
+    where not exists (
+      select 1 from public.api_endpoints e
+      where e.id = endpoint_id::uuid and e.api_id = (a->>'api_id')::uuid
+    )
+  ) then
+    raise exception 'Affected endpoints must belong to their API' using errcode = '23514';
+  end if;
+
+  delete from public.incident_apis where incident_id = p_incident_id;
+
+  insert into public.incident_apis (incident_id, api_id, endpoint_ids)
+  select
+    p_incident_id,
+    (a->>'api_id')::uuid,
+    array(select jsonb_array_elements_text(coalesce(a->'endpoint_ids', '[]'::jsonb)))::uuid[]
+  from jsonb_array_elements(affected) as a;
+end;
+$$;
+
+-- payload: title, severity, affected, message (the first update) and
+-- optional status and started_at
+create or replace function public.create_incident(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_incident_id uuid;
+  initial_status text := coalesce(payload->>'status', 'investigating');
+begin
+  insert into public.incidents (title, severity, status, started_at, resolved_at)
+  values (
+    payload->>'title',
+    payload->>'severity',
+    initial_status,
+    coalesce((payload->>'started_at')::timestamptz, now()),
+    case when initial_status = 'resolved' then now() end
+  )
+  returning id into new_incident_id;
+
+  perform public.set_incident_apis(new_incident_id, payload->'affected');
+
+  insert into public.incident_updates (incident_id, status, message)
+  values (new_incident_id, initial_status, payload->>'message');
+
+  perform public.refresh_api_health_stats(ia.api_id)
+  from public.incident_apis ia
+  where ia.incident_id = new_incident_id;
+
+  return public.incident_as_json(new_incident_id);
+end;
+$$;
+
+-- payload: any of title, severity, started_at and affected, plus an
+-- optional `update` ({status, message}) posted on the timeline. The
+-- incident takes the update's status; resolving it sets resolved_at.
+create or replace function public.update_incident(p_incident_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  previous_api_ids uuid[];
+begin
+  select array_agg(api_id) into previous_api_ids
+  from public.incident_apis
+  where incident_id = p_incident_id;
+
+  update public.incidents set
+    title = coalesce(payload->>'title', title),
+    severity = coalesce(payload->>'severity', severity),
+    started_at = coalesce((payload->>'started_at')::timestamptz, started_at),
+    status = coalesce(payload->'update'->>'status', status),
+    resolved_at = case
+      when not payload ? 'update' then resolved_at
+      when payload->'update'->>'status' = 'resolved' then coalesce(resolved_at, now())
+      else null
+    end,
+    updated_at = now()
+  where id = p_incident_id;
+
+  if not found then
+    raise exception 'Incident % does not exist', p_incident_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'affected' then
+    perform public.set_incident_apis(p_incident_id, payload->'affected');
+  end if;
+
+  if payload ? 'update' then
+    insert into public.incident_updates (incident_id, status, message)
+    values (p_incident_id, payload->'update'->>'status', payload->'update'->>'message');
+  end if;
+
+  perform public.refresh_api_health_stats(api_id)
+  from (
+    select unnest(previous_api_ids) as api_id
+    union
+    select api_id from public.incident_apis where incident_id = p_incident_id
+  ) affected_apis;
+
+  return public.incident_as_json(p_incident_id);
+end;
+$$;
@@ -0,0 +1,210 @@
+-- Alert rules per API and the alerts they fire. Rules are evaluated after
+-- every probe run and every usage ingest.
+
+create table public.alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  metric text not null check (metric in ('uptime', 'p95_latency', 'volume_drop')),
+  -- Percent for uptime and volume_drop, milliseconds for p95_latency
+  threshold numeric not null check (threshold > 0),
+  window_days integer not null default 1 check (window_days >= 1),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index alert_rules_api_id_idx on public.alert_rules (api_id);
+
+-- The rule's condition is copied so the alert still reads right after the
+-- rule changes
+create table public.alerts (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid not null references public.alert_rules (id) on delete cascade,
+  api_id uuid not null references public.apis (id) on delete cascade,
+  metric text not null check (metric in ('uptime', 'p95_latency', 'volume_drop')),
+  threshold numeric not null,
+  window_days integer not null,
+  value numeric not null,
+  status text not null default 'firing'
+    check (status in ('firing', 'acknowledged', 'resolved')),
+  fired_at timestamptz not null default now(),
+  acknowledged_at timestamptz,
+  resolved_at timestamptz,
+  check ((status = 'resolved') = (resolved_at is not null))
+);
+
+-- A rule has at most one open alert
+create unique index alerts_open_rule_idx
+  on public.alerts (rule_id)
+  where status <> 'resolved';
+
+create index alerts_api_id_idx on public.alerts (api_id, fired_at desc);
+
+alter table public.alert_rules enable row level security;
+alter table public.alerts enable row level security;
+
+create policy "Alert rules are readable by everyone"
+  on public.alert_rules for select
+  using (true);
+
+create policy "Alerts are readable by everyone"
+  on public.alerts for select
+  using (true);
+
+-- The portal has no sign-in yet, so rules and alerts are written like the
+-- rest of the catalog
+create policy "Anyone can write alert rules"
+  on public.alert_rules for all
+  using (true) with check (true);
+
+create policy "Anyone can write alerts"
+  on public.alerts for all
+  using (true) with check (true);
+
+-- Measure a rule's metric, or null without data to judge. Usage windows
+-- are whole UTC days ending yesterday. Same rules as measureAlertRule in
+-- src/services/alerts/evaluate.ts.
+create or replace function public.measure_alert_rule(
+  p_api_id uuid,
+  p_metric text,
+  p_window_days integer
+)
+returns numeric
+language plpgsql
+stable
+as $$
+declare
+  last_day date := (now() at time zone 'utc')::date - 1;
+  first_day date := last_day - (p_window_days - 1);
+  current_calls numeric;
+  previous_calls numeric;
+begin
+  if p_metric = 'uptime' then
+    return (
+      select round(100.0 * count(*) filter (
+        where status <> 'down' and not public.incident_downtime(api_id, checked_at)
+      ) / nullif(count(*), 0), 2)
+      from public.api_health_checks
+      where api_id = p_api_id
+        and checked_at > now() - make_interval(days => p_window_days)
+    );
+  end if;
+
+  if p_metric = 'p95_latency' then
+    -- Weighted by each day's calls
+    return (
+      select round(sum(p95_latency_ms * calls) / nullif(sum(calls), 0))
+      from public.api_usage_daily
+      where api_id = p_api_id and day between first_day and last_day
+    );
+  end if;
+
+  select coalesce(sum(calls), 0) into current_calls
+  from public.api_usage_daily
+  where api_id = p_api_id and day between first_day and last_day;
+
+  select coalesce(sum(calls), 0) into previous_calls
+  from public.api_usage_daily
+  where api_id = p_api_id
+    and day between first_day - p_window_days and first_day - 1;
+
+  return round(100 * (previous_calls - current_calls) / nullif(previous_calls, 0), 1);
+end;
+$$;
+
+-- Fire an alert for each enabled rule that is breached and has no open
+-- alert, and resolve the open alerts of rules measured back within their
+-- threshold. Returns the alerts that fired.
+create or replace function public.evaluate_alert_rules(p_api_id uuid default null)
+returns setof public.alerts
+language plpgsql
+as $$
+declare
+  alert_rule public.alert_rules;
+  measured numeric;
+  breached boolean;
+  open_alert_id uuid;
+  fired public.alerts;
+begin
+  for alert_rule in
+    select * from public.alert_rules
+    where enabled and (p_api_id is null or api_id = p_api_id)
+  loop
+    measured := public.measure_alert_rule(alert_rule.api_id, alert_rule.metric, alert_rule.window_days);
+    if measured is null then
+      continue;
+    end if;
+
+    breached := case alert_rule.metric
+      when 'uptime' then measured < alert_rule.threshold
+      when 'p95_latency' then measured > alert_rule.threshold
+      else measured >= alert_rule.threshold
+    end;
+
+    select id into open_alert_id
+    from public.alerts
+    where rule_id = alert_rule.id and status <> 'resolved';
+
+    if breached and open_alert_id is null then
+      insert into public.alerts (rule_id, api_id, metric, threshold, window_days, value)
+      values (alert_rule.id, alert_rule.api_id, alert_rule.metric, alert_rule.threshold, alert_rule.window_days, measured)
+      returning * into fired;
+      return next fired;
+    elsif not breached and open_alert_id is not null then
+      update public.alerts set status = 'resolved', resolved_at = now()
+      where id = open_alert_id;
+    end if;
+  end loop;
+end;
+$$;
+
+-- Acknowledge or resolve an alert by hand. Resolved alerts stay resolved.
+create or replace function public.set_alert_status(p_alert_id uuid, p_status text)
+returns public.alerts
+language plpgsql
+as $$
+declare
+  result public.alerts;
+begin
+  if p_status not in ('acknowledged', 'resolved') then
+    raise exception 'Alerts can only be acknowledged or resolved' using errcode = '23514';
+  end if;
+
+  update public.alerts set
+    status = p_status,
+    acknowledged_at = case
+      when p_status = 'acknowledged' then coalesce(acknowledged_at, now())
+      else acknowledged_at
+    end,
+    resolved_at = case
+      when p_status = 'resolved' then coalesce(resolved_at, now())
+      else resolved_at
+    end
+  where id = p_alert_id
+    and not (status = 'resolved' and p_status = 'acknowledged')
+  returning * into result;
+
+  if not found then
+    raise exception 'Alert % does not exist or is already resolved', p_alert_id using errcode = 'P0002';
+  end if;
+
+  return result;
+end;
+$$;
+
+-- Usage is ingested by an external job; evaluate the rules once per
+-- statement that writes it
+create or replace function public.evaluate_alert_rules_after_usage()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.evaluate_alert_rules();
+  return null;
+end;
+$$;
+
+create trigger api_usage_daily_evaluate_alerts
+  after insert or update on public.api_usage_daily
+  for each statement
+  execute function public.evaluate_alert_rules_after_usage();
@@ -0,0 +1,121 @@
+-- Notifications per user, the APIs users follow and which notification
+-- types they receive. Until the portal has accounts, user_id is the
+-- anonymous id the browser keeps.
+
+create table public.api_follows (
+  user_id uuid not null,
+  api_id uuid not null references public.apis (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, api_id)
+);
+
+create index api_follows_api_id_idx on public.api_follows (api_id);
+
+-- data holds the event details; the text is built by the portal from the
+-- type and data
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  type text not null check (type in (
+    'api_version', 'api_deprecation', 'access_request', 'alert_fired', 'api_comment'
+  )),
+  api_id uuid references public.apis (id) on delete cascade,
+  data jsonb not null default '{}',
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index notifications_user_id_idx on public.notifications (user_id, created_at desc);
+
+create index notifications_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+-- Types without a row are received
+create table public.notification_preferences (
+  user_id uuid not null,
+  type text not null check (type in (
+    'api_version', 'api_deprecation', 'access_request', 'alert_fired', 'api_comment'
+  )),
+  enabled boolean not null default true,
+  primary key (user_id, type)
+);
+
+alter table public.api_follows enable row level security;
+alter table public.notifications enable row level security;
+alter table public.notification_preferences enable row level security;
+
+-- The portal has no sign-in yet, so rows are filtered by user_id in the
+-- queries rather than by policy
+create policy "Anyone can manage follows"
+  on public.api_follows for all
+  using (true) with check (true);
+
+create policy "Anyone can manage notifications"
+  on public.notifications for all
+  using (true) with check (true);
+
+create policy "Anyone can manage notification preferences"
+  on public.notification_preferences for all
+  using (true) with check (true);
+
+-- One notification per follower of the API that has not turned the type
+-- off
+create or replace function public.notify_api_followers(p_api_id uuid, p_type text, p_data jsonb)
+returns void
+language sql
+as $$
+  insert into public.notifications (user_id, type, api_id, data)
+  select f.user_id, p_type, p_api_id, coalesce(p_data, '{}'::jsonb)
+  from public.api_follows f
+  where f.api_id = p_api_id
+    and not exists (
+      select 1 from public.notification_preferences p
+      where p.user_id = f.user_id and p.type = p_type and not p.enabled
+    );
+$$;
+
+create or replace function public.notify_api_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.notify_api_followers(
+    new.id,
+    'api_version',
+    jsonb_build_object('version', new.version, 'previous_version', old.version)
+  );
+  return null;
+end;
+$$;
+
+create trigger apis_notify_version
+  after update of version on public.apis
+  for each row
+  when (new.version is distinct from old.version)
+  execute function public.notify_api_version();
+
+create or replace function public.notify_alert_fired()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.notify_api_followers(
+    new.api_id,
+    'alert_fired',
+    jsonb_build_object(
+      'alert_id', new.id,
+      'metric', new.metric,
+      'threshold', new.threshold,
+      'window_days', new.window_days,
+      'value', new.value
+    )
+  );
+  return null;
+end;
+$$;
+
+create trigger alerts_notify_fired
+  after insert on public.alerts
+  for each row
+  execute function public.notify_alert_fired();
@@ -0,0 +1,59 @@
+-- Portal accounts come from Supabase Auth. APIs remember who created them;
+-- APIs created before sign-in existed keep created_by empty.
+
+alter table public.apis
+  add column created_by uuid references auth.users (id) on delete set null;
+
+-- Same as before, plus created_by, which is always the signed-in user and
+-- never taken from the payload
+create or replace function public.create_api(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_api_id uuid;
+begin
+  insert into public.apis (
+    name, description, version, owner, base_url, documentation_url,
+    category_id, tags, auth_type, auth_description, health_path, created_by
+  )
+  values (
+    payload->>'name',
+    payload->>'description',
+    coalesce(nullif(payload->>'version', ''), 'v1'),
+    payload->>'owner',
+    payload->>'base_url',
+    payload->>'documentation_url',
+    (payload->>'category_id')::uuid,
+    coalesce(array(select jsonb_array_elements_text(payload->'tags')), '{}'),
+    coalesce(payload->>'auth_type', 'none'),
+    payload->>'auth_description',
+    nullif(payload->>'health_path', ''),
+    auth.uid()
+  )
+  returning id into new_api_id;
+
+  -- Start from the column defaults, then apply any call counts that were
+  -- given. Uptime and response time stay empty until the API is probed.
+  insert into public.api_stats (api_id) values (new_api_id);
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls)
+    where api_id = new_api_id;
+  end if;
+
+  insert into public.api_endpoints (
+    api_id, path, method, description, parameters, request_body, responses
+  )
+  select
+    new_api_id, e->>'path', e->>'method', e->>'description',
+    coalesce(e->'parameters', '[]'::jsonb),
+    nullif(e->'request_body', 'null'::jsonb),
+    coalesce(e->'responses', '[]'::jsonb)
+  from jsonb_array_elements(coalesce(payload->'endpoints', '[]'::jsonb)) as e;
+
+  return public.api_as_json(new_api_id);
+end;
+$$;
@@ -0,0 +1,132 @@
+-- Portal roles. Viewers browse, editors also add APIs, owners edit the
+-- APIs they own and admins manage categories and every API. Signed-in
+-- users without a role are viewers. Owner rows name their API; the other
+-- roles apply to the whole portal.
+--
+-- Grant the first admin from the SQL editor:
+--   insert into public.user_roles (user_id, role) values ('<user id>', 'admin');
+
+create table public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('viewer', 'editor', 'owner', 'admin')),
+  api_id uuid references public.apis (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  check ((role = 'owner') = (api_id is not null))
+);
+
+create unique index user_roles_unique_idx
+  on public.user_roles (user_id, role, coalesce(api_id, '00000000-0000-0000-0000-000000000000'));
+
+create index user_roles_api_id_idx on public.user_roles (api_id);
+
+-- The helpers read user_roles as the table owner, so the policies below
+-- can use them without going through the user_roles policies again
+create or replace function public.has_role(p_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles
+    where user_id = auth.uid() and role = p_role and api_id is null
+  );
+$$;
+
+create or replace function public.can_edit_api(p_api_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_role('admin') or exists (
+    select 1 from public.user_roles
+    where user_id = auth.uid() and role = 'owner' and api_id = p_api_id
+  );
+$$;
+
+-- Whoever creates an API owns it
+create or replace function public.grant_api_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.created_by is not null then
+    insert into public.user_roles (user_id, role, api_id)
+    values (new.created_by, 'owner', new.id);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger apis_grant_owner
+  after insert on public.apis
+  for each row
+  execute function public.grant_api_owner();
+
+alter table public.user_roles enable row level security;
+alter table public.apis enable row level security;
+alter table public.api_endpoints enable row level security;
+alter table public.api_stats enable row level security;
+alter table public.api_categories enable row level security;
+
+create policy "Users can read their own roles"
+  on public.user_roles for select
+  using (user_id = auth.uid() or public.has_role('admin'));
+
+create policy "Admins manage roles"
+  on public.user_roles for all
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+
+create policy "APIs are readable by everyone"
+  on public.apis for select
+  using (true);
+
+create policy "Editors and admins can add APIs"
+  on public.apis for insert
+  with check (
+    (public.has_role('editor') or public.has_role('admin'))
+    and created_by = auth.uid()
+  );
+
+create policy "Owners and admins can update APIs"
+  on public.apis for update
+  using (public.can_edit_api(id)) with check (public.can_edit_api(id));
+
+create policy "Owners and admins can delete APIs"
+  on public.apis for delete
+  using (public.can_edit_api(id));
+
+create policy "Endpoints are readable by everyone"
+  on public.api_endpoints for select
+  using (true);
+
+create policy "Owners and admins can write endpoints"
+  on public.api_endpoints for all
+  using (public.can_edit_api(api_id)) with check (public.can_edit_api(api_id));
+
+create policy "Stats are readable by everyone"
+  on public.api_stats for select
+  using (true);
+
+create policy "Owners and admins can write stats"
+  on public.api_stats for all
+  using (public.can_edit_api(api_id)) with check (public.can_edit_api(api_id));
+
+create policy "Categories are readable by everyone"
+  on public.api_categories for select
+  using (true);
+
+create policy "Admins manage categories"
+  on public.api_categories for all
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+
+-- Uptime and response time are derived from the checks and incidents,
+-- which are not only written by owners, so the refresh skips the stats
+-- policies
+alter function public.refresh_api_health_stats(uuid) security definer set search_path = public;
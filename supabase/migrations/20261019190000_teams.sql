@@ -0,0 +1,362 @@
+-- Teams own APIs. The free-text apis.owner becomes a team_id: every
+-- distinct owner string turns into a team with that name.
+
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (btrim(name) <> ''),
+  description text,
+  -- [{ "type": "email" | "slack" | "url" | "phone", "value": "..." }]
+  contact_channels jsonb not null default '[]'::jsonb,
+  -- A schedule link or a short note on who is on call
+  on_call_rotation text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- user_id links a member to a portal account; role is their job in the
+-- team, e.g. "Tech lead"
+create table public.team_members (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  name text not null,
+  email text,
+  role text,
+  created_at timestamptz not null default now()
+);
+
+create index team_members_team_id_idx on public.team_members (team_id);
+create index team_members_user_id_idx on public.team_members (user_id);
+
+-- APIs with an empty owner go to a placeholder team
+insert into public.teams (name)
+select distinct coalesce(nullif(btrim(owner), ''), 'Sin equipo')
+from public.apis;
+
+alter table public.apis
+  add column team_id uuid references public.teams (id);
+
+update public.apis a
+set team_id = t.id
+from public.teams t
+where t.name = coalesce(nullif(btrim(a.owner), ''), 'Sin equipo');
+
+alter table public.apis
+  alter column team_id set not null,
+  drop column owner;
+
+create index apis_team_id_idx on public.apis (team_id);
+
+create or replace function public.is_team_member(p_team_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.team_members
+    where team_id = p_team_id and user_id = auth.uid()
+  );
+$$;
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+create policy "Teams are readable by everyone"
+  on public.teams for select
+  using (true);
+
+create policy "Team members are readable by everyone"
+  on public.team_members for select
+  using (true);
+
+-- Editors create teams for the APIs they add; members keep their team up
+-- to date
+create policy "Editors and admins can add teams"
+  on public.teams for insert
+  with check (public.has_role('editor') or public.has_role('admin'));
+
+create policy "Members and admins can update teams"
+  on public.teams for update
+  using (public.is_team_member(id) or public.has_role('admin'))
+  with check (public.is_team_member(id) or public.has_role('admin'));
+
+create policy "Admins can delete teams"
+  on public.teams for delete
+  using (public.has_role('admin'));
+
+create policy "Editors, members and admins can write team members"
+  on public.team_members for all
+  using (public.is_team_member(team_id) or public.has_role('admin'))
+  with check (
+    public.is_team_member(team_id)
+    or public.has_role('admin')
+    -- The first members of a team that has none yet
+    or (
+      public.has_role('editor')
+      and not exists (select 1 from public.team_members m where m.team_id = team_members.team_id)
+    )
+  );
+
+-- api_as_json with the owning team
+create or replace function public.api_as_json(p_api_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(a) || jsonb_build_object(
+    'category', (
+      select to_jsonb(c) from public.api_categories c where c.id = a.category_id
+    ),
+    'team', (
+      select to_jsonb(t) from public.teams t where t.id = a.team_id
+    ),
+    'stats', (
+      select to_jsonb(s) from public.api_stats s where s.api_id = a.id limit 1
+    ),
+    'endpoints', coalesce((
+      select jsonb_agg(to_jsonb(e) order by e.created_at, e.id)
+      from public.api_endpoints e
+      where e.api_id = a.id
+    ), '[]'::jsonb)
+  )
+  from public.apis a
+  where a.id = p_api_id;
+$$;
+
+-- create_api and update_api take team_id instead of owner
+create or replace function public.create_api(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_api_id uuid;
+begin
+  insert into public.apis (
+    name, description, version, team_id, base_url, documentation_url,
+    category_id, tags, auth_type, auth_description, health_path, created_by
+  )
+  values (
+    payload->>'name',
+    payload->>'description',
+    coalesce(nullif(payload->>'version', ''), 'v1'),
+    (payload->>'team_id')::uuid,
+    payload->>'base_url',
+    payload->>'documentation_url',
+    (payload->>'category_id')::uuid,
+    coalesce(array(select jsonb_array_elements_text(payload->'tags')), '{}'),
+    coalesce(payload->>'auth_type', 'none'),
+    payload->>'auth_description',
+    nullif(payload->>'health_path', ''),
+    auth.uid()
+  )
+  returning id into new_api_id;
+
+  -- Start from the column defaults, then apply any call counts that were
+  -- given. Uptime and response time stay empty until the API is probed.
+  insert into public.api_stats (api_id) values (new_api_id);
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls)
+    where api_id = new_api_id;
+  end if;
+
+  insert into public.api_endpoints (
+    api_id, path, method, description, parameters, request_body, responses
+  )
+  select
+    new_api_id, e->>'path', e->>'method', e->>'description',
+    coalesce(e->'parameters', '[]'::jsonb),
+    nullif(e->'request_body', 'null'::jsonb),
+    coalesce(e->'responses', '[]'::jsonb)
+  from jsonb_array_elements(coalesce(payload->'endpoints', '[]'::jsonb)) as e;
+
+  return public.api_as_json(new_api_id);
+end;
+$$;
+
+-- payload: any apis columns to change, plus optional `stats` and
+-- `endpoints`. When `endpoints` is present it replaces the list: entries
+-- with an id are updated, entries without one are inserted and endpoints
+-- left out are deleted.
+create or replace function public.update_api(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  update public.apis set
+    name = coalesce(payload->>'name', name),
+    description = coalesce(payload->>'description', description),
+    version = coalesce(nullif(payload->>'version', ''), version),
+    team_id = coalesce((payload->>'team_id')::uuid, team_id),
+    base_url = coalesce(payload->>'base_url', base_url),
+    documentation_url = case
+      when payload ? 'documentation_url' then payload->>'documentation_url'
+      else documentation_url
+    end,
+    category_id = coalesce((payload->>'category_id')::uuid, category_id),
+    tags = case
+      when payload ? 'tags' then array(select jsonb_array_elements_text(payload->'tags'))
+      else tags
+    end,
+    auth_type = coalesce(payload->>'auth_type', auth_type),
+    auth_description = case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else auth_description
+    end,
+    health_path = case
+      when payload ? 'health_path' then nullif(payload->>'health_path', '')
+      else health_path
+    end,
+    updated_at = now()
+  where id = p_api_id;
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls),
+      updated_at = now()
+    where api_id = p_api_id;
+  end if;
+
+  if payload ? 'endpoints' then
+    delete from public.api_endpoints
+    where api_id = p_api_id
+      and id not in (
+        select (e->>'id')::uuid
+        from jsonb_array_elements(payload->'endpoints') as e
+        where e->>'id' is not null
+      );
+
+    update public.api_endpoints ae set
+      path = e->>'path',
+      method = e->>'method',
+      description = e->>'description',
+      parameters = coalesce(e->'parameters', '[]'::jsonb),
+      request_body = nullif(e->'request_body', 'null'::jsonb),
+      responses = coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where ae.api_id = p_api_id
+      and ae.id = (e->>'id')::uuid;
+
+    insert into public.api_endpoints (
+      api_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where e->>'id' is null;
+  end if;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
+
+
+create or replace function public.team_as_json(p_team_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(t) || jsonb_build_object(
+    'members', coalesce((
+      select jsonb_agg(to_jsonb(m) order by m.created_at, m.id)
+      from public.team_members m
+      where m.team_id = t.id
+    ), '[]'::jsonb)
+  )
+  from public.teams t
+  where t.id = p_team_id;
+$$;
+
+-- payload: the teams columns plus optional `members`
+create or replace function public.create_team(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_team_id uuid;
+begin
+  insert into public.teams (name, description, contact_channels, on_call_rotation)
+  values (
+    btrim(payload->>'name'),
+    nullif(payload->>'description', ''),
+    coalesce(payload->'contact_channels', '[]'::jsonb),
+    nullif(payload->>'on_call_rotation', '')
+  )
+  returning id into new_team_id;
+
+  insert into public.team_members (team_id, user_id, name, email, role)
+  select
+    new_team_id, (m->>'user_id')::uuid, m->>'name',
+    nullif(m->>'email', ''), nullif(m->>'role', '')
+  from jsonb_array_elements(coalesce(payload->'members', '[]'::jsonb)) as m;
+
+  return public.team_as_json(new_team_id);
+end;
+$$;
+
+-- payload: any teams columns to change, plus optional `members`, which
+-- replaces the list like the endpoints in update_api
+create or replace function public.update_team(p_team_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  update public.teams set
+    name = coalesce(btrim(payload->>'name'), name),
+    description = case
+      when payload ? 'description' then nullif(payload->>'description', '')
+      else description
+    end,
+    contact_channels = coalesce(payload->'contact_channels', contact_channels),
+    on_call_rotation = case
+      when payload ? 'on_call_rotation' then nullif(payload->>'on_call_rotation', '')
+      else on_call_rotation
+    end,
+    updated_at = now()
+  where id = p_team_id;
+
+  if not found then
+    raise exception 'Team % does not exist', p_team_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'members' then
+    delete from public.team_members
+    where team_id = p_team_id
+      and id not in (
+        select (m->>'id')::uuid
+        from jsonb_array_elements(payload->'members') as m
+        where m->>'id' is not null
+      );
+
+    update public.team_members tm set
+      user_id = (m->>'user_id')::uuid,
+      name = m->>'name',
+      email = nullif(m->>'email', ''),
+      role = nullif(m->>'role', '')
+    from jsonb_array_elements(payload->'members') as m
+    where tm.team_id = p_team_id
+      and tm.id = (m->>'id')::uuid;
+
+    insert into public.team_members (team_id, user_id, name, email, role)
+    select
+      p_team_id, (m->>'user_id')::uuid, m->>'name',
+      nullif(m->>'email', ''), nullif(m->>'role', '')
+    from jsonb_array_elements(payload->'members') as m
+    where m->>'id' is null;
+  end if;
+
+  return public.team_as_json(p_team_id);
+end;
+$$;
@@ -0,0 +1,324 @@
+-- Consumer access to apiKey APIs. Signed-in users register applications
+-- and request access to an API for them; the API's owners approve or
+-- reject the request, or let it be approved automatically. Approved
+-- applications get keys, which are stored as SHA-256 hashes: the key
+-- itself is only returned when it is issued.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table public.applications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (btrim(name) <> ''),
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index applications_user_id_idx on public.applications (user_id);
+
+-- One row per application and API; asking again after a rejection reopens
+-- the row
+create table public.access_requests (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  application_id uuid not null references public.applications (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  message text,
+  decided_by uuid references auth.users (id) on delete set null,
+  decided_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (application_id, api_id)
+);
+
+create index access_requests_api_id_idx on public.access_requests (api_id, status);
+
+-- APIs without a row review every request
+create table public.api_access_settings (
+  api_id uuid primary key references public.apis (id) on delete cascade,
+  auto_approve boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+create table public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.applications (id) on delete cascade,
+  api_id uuid not null references public.apis (id) on delete cascade,
+  -- First characters of the key, to tell keys apart
+  prefix text not null,
+  key_hash text not null unique,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  last_used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index api_keys_application_id_idx on public.api_keys (application_id);
+create index api_keys_api_id_idx on public.api_keys (api_id);
+
+alter table public.applications enable row level security;
+alter table public.access_requests enable row level security;
+alter table public.api_access_settings enable row level security;
+alter table public.api_keys enable row level security;
+
+create policy "Users manage their applications"
+  on public.applications for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "API owners read the applications asking for access"
+  on public.applications for select
+  using (exists (
+    select 1 from public.access_requests r
+    where r.application_id = applications.id and public.can_edit_api(r.api_id)
+  ));
+
+-- Requests and keys are written through the functions below
+create policy "Requesters and API owners read access requests"
+  on public.access_requests for select
+  using (user_id = auth.uid() or public.can_edit_api(api_id));
+
+create policy "Access settings are readable by everyone"
+  on public.api_access_settings for select
+  using (true);
+
+create policy "Owners and admins manage access settings"
+  on public.api_access_settings for all
+  using (public.can_edit_api(api_id)) with check (public.can_edit_api(api_id));
+
+create policy "Application owners and API owners read keys"
+  on public.api_keys for select
+  using (
+    public.can_edit_api(api_id) or exists (
+      select 1 from public.applications a
+      where a.id = api_keys.application_id and a.user_id = auth.uid()
+    )
+  );
+
+-- Like notify_api_followers, for a single user
+create or replace function public.notify_user(p_user_id uuid, p_api_id uuid, p_type text, p_data jsonb)
+returns void
+language sql
+as $$
+  insert into public.notifications (user_id, type, api_id, data)
+  select p_user_id, p_type, p_api_id, coalesce(p_data, '{}'::jsonb)
+  where not exists (
+    select 1 from public.notification_preferences p
+    where p.user_id = p_user_id and p.type = p_type and not p.enabled
+  );
+$$;
+
+-- Returns the open or approved request when there is one
+create or replace function public.request_api_access(
+  p_api_id uuid,
+  p_application_id uuid,
+  p_message text default null
+)
+returns public.access_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.access_requests;
+  v_auto_approve boolean;
+begin
+  if not exists (
+    select 1 from public.applications
+    where id = p_application_id and user_id = auth.uid()
+  ) then
+    raise exception 'Only the owner of an application can request access for it' using errcode = '42501';
+  end if;
+
+  if not exists (select 1 from public.apis where id = p_api_id) then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  select * into v_request
+  from public.access_requests
+  where application_id = p_application_id and api_id = p_api_id;
+
+  if found and v_request.status <> 'rejected' then
+    return v_request;
+  end if;
+
+  select coalesce(
+    (select auto_approve from public.api_access_settings where api_id = p_api_id),
+    false
+  ) into v_auto_approve;
+
+  insert into public.access_requests (api_id, application_id, user_id, status, message, decided_at)
+  values (
+    p_api_id,
+    p_application_id,
+    auth.uid(),
+    case when v_auto_approve then 'approved' else 'pending' end,
+    nullif(btrim(p_message), ''),
+    case when v_auto_approve then now() end
+  )
+  on conflict (application_id, api_id) do update set
+    status = excluded.status,
+    message = excluded.message,
+    decided_by = null,
+    decided_at = excluded.decided_at,
+    created_at = now()
+  returning * into v_request;
+
+  return v_request;
+end;
+$$;
+
+-- Rejecting access that was granted also revokes its keys
+create or replace function public.decide_access_request(p_request_id uuid, p_decision text)
+returns public.access_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.access_requests;
+begin
+  if p_decision not in ('approved', 'rejected') then
+    raise exception 'Unknown decision %', p_decision using errcode = '22023';
+  end if;
+
+  select * into v_request from public.access_requests where id = p_request_id;
+  if not found then
+    raise exception 'Access request % does not exist', p_request_id using errcode = 'P0002';
+  end if;
+
+  if not public.can_edit_api(v_request.api_id) then
+    raise exception 'Only the API''s owners and admins can decide on access requests' using errcode = '42501';
+  end if;
+
+  update public.access_requests set
+    status = p_decision,
+    decided_by = auth.uid(),
+    decided_at = now()
+  where id = p_request_id
+  returning * into v_request;
+
+  if p_decision = 'rejected' then
+    update public.api_keys set revoked_at = now()
+    where application_id = v_request.application_id
+      and api_id = v_request.api_id
+      and revoked_at is null;
+  end if;
+
+  perform public.notify_user(
+    v_request.user_id,
+    v_request.api_id,
+    'access_request',
+    jsonb_build_object(
+      'application', (select name from public.applications where id = v_request.application_id),
+      'decision', p_decision
+    )
+  );
+
+  return v_request;
+end;
+$$;
+
+-- Returns { key, secret }. The secret is not stored and cannot be read
+-- again.
+create or replace function public.issue_api_key(
+  p_application_id uuid,
+  p_api_id uuid,
+  p_expires_at timestamptz default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_secret text;
+  v_key public.api_keys;
+begin
+  if not exists (
+    select 1 from public.applications
+    where id = p_application_id and user_id = auth.uid()
+  ) then
+    raise exception 'Only the owner of an application can issue its keys' using errcode = '42501';
+  end if;
+
+  if not exists (
+    select 1 from public.access_requests
+    where application_id = p_application_id and api_id = p_api_id and status = 'approved'
+  ) then
+    raise exception 'The application has no approved access to this API' using errcode = '42501';
+  end if;
+
+  if p_expires_at is not null and p_expires_at <= now() then
+    raise exception 'Keys must expire in the future' using errcode = '22023';
+  end if;
+
+  v_secret := 'avk_' || encode(gen_random_bytes(24), 'hex');
+
+  insert into public.api_keys (application_id, api_id, prefix, key_hash, expires_at)
+  values (
+    p_application_id,
+    p_api_id,
+    left(v_secret, 12),
+    encode(digest(v_secret, 'sha256'), 'hex'),
+    p_expires_at
+  )
+  returning * into v_key;
+
+  return jsonb_build_object('key', to_jsonb(v_key), 'secret', v_secret);
+end;
+$$;
+
+-- The replacement lasts as long as the revoked key did
+create or replace function public.rotate_api_key(p_key_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key public.api_keys;
+begin
+  select k.* into v_key
+  from public.api_keys k
+  join public.applications a on a.id = k.application_id
+  where k.id = p_key_id and a.user_id = auth.uid();
+
+  if not found then
+    raise exception 'API key % does not exist', p_key_id using errcode = 'P0002';
+  end if;
+
+  if v_key.revoked_at is not null then
+    raise exception 'Revoked keys cannot be rotated' using errcode = '22023';
+  end if;
+
+  update public.api_keys set revoked_at = now() where id = p_key_id;
+
+  return public.issue_api_key(
+    v_key.application_id,
+    v_key.api_id,
+    now() + (v_key.expires_at - v_key.created_at)
+  );
+end;
+$$;
+
+create or replace function public.revoke_api_key(p_key_id uuid)
+returns public.api_keys
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key public.api_keys;
+begin
+  update public.api_keys k set revoked_at = coalesce(k.revoked_at, now())
+  from public.applications a
+  where k.id = p_key_id and a.id = k.application_id and a.user_id = auth.uid()
+  returning k.* into v_key;
+
+  if not found then
+    raise exception 'API key % does not exist', p_key_id using errcode = 'P0002';
+  end if;
+
+  return v_key;
+end;
+$$;
@@ -0,0 +1,163 @@
+-- Calls proxied by the gateway (supabase/functions/gateway and
+-- scripts/gateway.mjs). Recording a batch of calls rebuilds the
+-- api_usage_daily rows of their days and updates api_stats, so the
+-- catalog shows real traffic.
+
+create table public.api_calls (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  -- Null when the API is called without a portal key
+  key_id uuid references public.api_keys (id) on delete set null,
+  application_id uuid references public.applications (id) on delete set null,
+  method text not null,
+  -- Below the API's base URL, without the query string
+  path text not null,
+  status integer not null check (status between 100 and 599),
+  latency_ms integer not null check (latency_ms >= 0),
+  called_at timestamptz not null default now()
+);
+
+create index api_calls_api_id_idx on public.api_calls (api_id, called_at desc);
+
+alter table public.api_calls enable row level security;
+
+-- The gateway writes with the service role, through record_api_calls
+create policy "Owners and admins read the calls of their APIs"
+  on public.api_calls for select
+  using (public.can_edit_api(api_id));
+
+-- p_calls: an array of api_calls rows without their id. Returns how many
+-- calls were stored. Every day the calls fall on is rebuilt from all the
+-- calls of that day; answers from 500 up are errors and calls without an
+-- application count as one consumer. The usage trigger evaluates the
+-- alert rules.
+create or replace function public.record_api_calls(p_calls jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.api_calls (api_id, key_id, application_id, method, path, status, latency_ms, called_at)
+  select c.api_id, c.key_id, c.application_id, upper(c.method), c.path, c.status, c.latency_ms, coalesce(c.called_at, now())
+  from jsonb_to_recordset(coalesce(p_calls, '[]'::jsonb)) as c(
+    api_id uuid,
+    key_id uuid,
+    application_id uuid,
+    method text,
+    path text,
+    status integer,
+    latency_ms integer,
+    called_at timestamptz
+  );
+
+  get diagnostics v_count = row_count;
+  if v_count = 0 then
+    return 0;
+  end if;
+
+  update public.api_keys k set last_used_at = greatest(k.last_used_at, c.used_at)
+  from (
+    select key_id, max(coalesce(called_at, now())) as used_at
+    from jsonb_to_recordset(p_calls) as c(key_id uuid, called_at timestamptz)
+    where key_id is not null
+    group by key_id
+  ) c
+  where k.id = c.key_id;
+
+  insert into public.api_usage_daily (
+    api_id, day, calls, errors, unique_consumers, avg_latency_ms, p95_latency_ms, updated_at
+  )
+  select
+    a.api_id,
+    d.day,
+    count(*),
+    count(*) filter (where a.status >= 500),
+    count(distinct coalesce(a.application_id::text, 'anonymous')),
+    round(avg(a.latency_ms)),
+    round((percentile_cont(0.95) within group (order by a.latency_ms))::numeric),
+    now()
+  from (
+    select distinct c.api_id, (coalesce(c.called_at, now()) at time zone 'utc')::date as day
+    from jsonb_to_recordset(p_calls) as c(api_id uuid, called_at timestamptz)
+  ) d
+  join public.api_calls a
+    on a.api_id = d.api_id
+    and a.called_at >= d.day::timestamp at time zone 'utc'
+    and a.called_at < (d.day + 1)::timestamp at time zone 'utc'
+  group by a.api_id, d.day
+  on conflict (api_id, day) do update set
+    calls = excluded.calls,
+    errors = excluded.errors,
+    unique_consumers = excluded.unique_consumers,
+    avg_latency_ms = excluded.avg_latency_ms,
+    p95_latency_ms = excluded.p95_latency_ms,
+    updated_at = excluded.updated_at;
+
+  update public.api_stats s set
+    total_calls = s.total_calls + c.calls,
+    last_week_calls = coalesce((
+      select sum(u.calls)
+      from public.api_usage_daily u
+      where u.api_id = s.api_id
+        and u.day > (now() at time zone 'utc')::date - 7
+    ), 0),
+    response_time = coalesce((
+      select round(avg(a.latency_ms))
+      from public.api_calls a
+      where a.api_id = s.api_id and a.called_at > now() - interval '24 hours'
+    ), s.response_time),
+    updated_at = now()
+  from (
+    select api_id, count(*) as calls
+    from jsonb_to_recordset(p_calls) as c(api_id uuid)
+    group by api_id
+  ) c
+  where s.api_id = c.api_id;
+
+  return v_count;
+end;
+$$;
+
+-- Same as before, except that a day of gateway calls measures response
+-- time better than the probes
+create or replace function public.refresh_api_health_stats(p_api_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.api_stats s set
+    uptime = h.uptime,
+    response_time = coalesce(t.response_time, h.response_time_day, h.response_time_month),
+    updated_at = now()
+  from (
+    select
+      api_id,
+      round(100.0 * count(*) filter (where up) / count(*), 2) as uptime,
+      round(avg(latency_ms) filter (
+        where up and checked_at > now() - interval '24 hours'
+      )) as response_time_day,
+      round(avg(latency_ms) filter (where up)) as response_time_month
+    from (
+      select
+        api_id,
+        checked_at,
+        latency_ms,
+        status <> 'down' and not public.incident_downtime(api_id, checked_at) as up
+      from public.api_health_checks
+      where checked_at > now() - interval '30 days'
+        and (p_api_id is null or api_id = p_api_id)
+    ) c
+    group by api_id
+  ) h
+  left join (
+    select api_id, round(avg(latency_ms)) as response_time
+    from public.api_calls
+    where called_at > now() - interval '24 hours'
+    group by api_id
+  ) t on t.api_id = h.api_id
+  where s.api_id = h.api_id;
+$$;
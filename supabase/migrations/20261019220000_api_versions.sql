@@ -0,0 +1,331 @@
+-- Versions of an API, each with its own base URL, auth and endpoints.
+-- Exactly one version per API is current; the apis row mirrors it, so
+-- everything that reads apis keeps describing the current version.
+-- Publishing a new version makes it current and keeps the previous one
+-- supported until its owners deprecate it.
+
+create table public.api_versions (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  version text not null check (btrim(version) <> ''),
+  base_url text not null,
+  auth_type text not null default 'none',
+  auth_description text,
+  status text not null default 'supported'
+    check (status in ('current', 'supported', 'deprecated')),
+  created_at timestamptz not null default now(),
+  unique (api_id, version)
+);
+
+create unique index api_versions_current_idx
+  on public.api_versions (api_id)
+  where status = 'current';
+
+insert into public.api_versions (api_id, version, base_url, auth_type, auth_description, status, created_at)
+select id, version, base_url, auth_type, auth_description, 'current', created_at
+from public.apis;
+
+alter table public.api_endpoints
+  add column version_id uuid references public.api_versions (id) on delete cascade;
+
+update public.api_endpoints e set version_id = v.id
+from public.api_versions v
+where v.api_id = e.api_id and v.status = 'current';
+
+alter table public.api_endpoints alter column version_id set not null;
+
+create index api_endpoints_version_id_idx on public.api_endpoints (version_id);
+
+alter table public.api_versions enable row level security;
+
+create policy "Versions are readable by everyone"
+  on public.api_versions for select
+  using (true);
+
+create policy "Owners and admins can write versions"
+  on public.api_versions for all
+  using (public.can_edit_api(api_id)) with check (public.can_edit_api(api_id));
+
+-- New APIs start with their current version. The creator may not own the
+-- API yet when this runs, so it skips the policies.
+create or replace function public.create_current_api_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.api_versions (api_id, version, base_url, auth_type, auth_description, status)
+  values (new.id, new.version, new.base_url, new.auth_type, new.auth_description, 'current');
+  return null;
+end;
+$$;
+
+create trigger apis_create_current_version
+  after insert on public.apis
+  for each row
+  execute function public.create_current_api_version();
+
+-- Editing the API edits its current version
+create or replace function public.sync_current_api_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.api_versions set
+    version = new.version,
+    base_url = new.base_url,
+    auth_type = new.auth_type,
+    auth_description = new.auth_description
+  where api_id = new.id and status = 'current';
+  return null;
+end;
+$$;
+
+create trigger apis_sync_current_version
+  after update of version, base_url, auth_type, auth_description on public.apis
+  for each row
+  execute function public.sync_current_api_version();
+
+-- Endpoints written without a version belong to the current one, so
+-- create_api keeps working unchanged
+create or replace function public.default_endpoint_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.version_id is null then
+    select id into new.version_id
+    from public.api_versions
+    where api_id = new.api_id and status = 'current';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger api_endpoints_default_version
+  before insert on public.api_endpoints
+  for each row
+  execute function public.default_endpoint_version();
+
+-- Same as before, with the endpoints of the current version only
+create or replace function public.api_as_json(p_api_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(a) || jsonb_build_object(
+    'category', (
+      select to_jsonb(c) from public.api_categories c where c.id = a.category_id
+    ),
+    'team', (
+      select to_jsonb(t) from public.teams t where t.id = a.team_id
+    ),
+    'stats', (
+      select to_jsonb(s) from public.api_stats s where s.api_id = a.id limit 1
+    ),
+    'endpoints', coalesce((
+      select jsonb_agg(to_jsonb(e) order by e.created_at, e.id)
+      from public.api_endpoints e
+      join public.api_versions v on v.id = e.version_id
+      where e.api_id = a.id and v.status = 'current'
+    ), '[]'::jsonb)
+  )
+  from public.apis a
+  where a.id = p_api_id;
+$$;
+
+-- Same as before, except that `endpoints` replaces the list of the
+-- current version and leaves the other versions alone
+create or replace function public.update_api(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_version_id uuid;
+begin
+  update public.apis set
+    name = coalesce(payload->>'name', name),
+    description = coalesce(payload->>'description', description),
+    version = coalesce(nullif(payload->>'version', ''), version),
+    team_id = coalesce((payload->>'team_id')::uuid, team_id),
+    base_url = coalesce(payload->>'base_url', base_url),
+    documentation_url = case
+      when payload ? 'documentation_url' then payload->>'documentation_url'
+      else documentation_url
+    end,
+    category_id = coalesce((payload->>'category_id')::uuid, category_id),
+    tags = case
+      when payload ? 'tags' then array(select jsonb_array_elements_text(payload->'tags'))
+      else tags
+    end,
+    auth_type = coalesce(payload->>'auth_type', auth_type),
+    auth_description = case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else auth_description
+    end,
+    health_path = case
+      when payload ? 'health_path' then nullif(payload->>'health_path', '')
+      else health_path
+    end,
+    updated_at = now()
+  where id = p_api_id;
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls),
+      updated_at = now()
+    where api_id = p_api_id;
+  end if;
+
+  if payload ? 'endpoints' then
+    select id into v_version_id
+    from public.api_versions
+    where api_id = p_api_id and status = 'current';
+
+    delete from public.api_endpoints
+    where version_id = v_version_id
+      and id not in (
+        select (e->>'id')::uuid
+        from jsonb_array_elements(payload->'endpoints') as e
+        where e->>'id' is not null
+      );
+
+    update public.api_endpoints ae set
+      path = e->>'path',
+      method = e->>'method',
+      description = e->>'description',
+      parameters = coalesce(e->'parameters', '[]'::jsonb),
+      request_body = nullif(e->'request_body', 'null'::jsonb),
+      responses = coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where ae.version_id = v_version_id
+      and ae.id = (e->>'id')::uuid;
+
+    insert into public.api_endpoints (
+      api_id, version_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, v_version_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where e->>'id' is null;
+  end if;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
+
+-- payload: `version` plus optional base_url, auth_type, auth_description
+-- and endpoints, which default to the current version's. The new version
+-- becomes current and the previous one stays supported. Mirroring it on
+-- the API notifies the followers through apis_notify_version.
+create or replace function public.publish_api_version(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_previous public.api_versions;
+  v_version_id uuid;
+begin
+  select * into v_previous
+  from public.api_versions
+  where api_id = p_api_id and status = 'current';
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if coalesce(btrim(payload->>'version'), '') = '' then
+    raise exception 'New versions need a name' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1 from public.api_versions
+    where api_id = p_api_id and version = btrim(payload->>'version')
+  ) then
+    raise exception 'Version % already exists', btrim(payload->>'version') using errcode = '23505';
+  end if;
+
+  update public.api_versions set status = 'supported' where id = v_previous.id;
+
+  insert into public.api_versions (api_id, version, base_url, auth_type, auth_description, status)
+  values (
+    p_api_id,
+    btrim(payload->>'version'),
+    coalesce(nullif(payload->>'base_url', ''), v_previous.base_url),
+    coalesce(payload->>'auth_type', v_previous.auth_type),
+    case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else v_previous.auth_description
+    end,
+    'current'
+  )
+  returning id into v_version_id;
+
+  if payload ? 'endpoints' then
+    insert into public.api_endpoints (
+      api_id, version_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, v_version_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e;
+  else
+    insert into public.api_endpoints (
+      api_id, version_id, path, method, description, parameters, request_body, responses
+    )
+    select p_api_id, v_version_id, path, method, description, parameters, request_body, responses
+    from public.api_endpoints
+    where version_id = v_previous.id
+    order by created_at, id;
+  end if;
+
+  update public.apis a set
+    version = v.version,
+    base_url = v.base_url,
+    auth_type = v.auth_type,
+    auth_description = v.auth_description,
+    updated_at = now()
+  from public.api_versions v
+  where v.id = v_version_id and a.id = p_api_id;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
+
+-- Versions other than the current one are supported or deprecated; the
+-- current version only changes by publishing a new one
+create or replace function public.set_api_version_status(p_version_id uuid, p_status text)
+returns public.api_versions
+language plpgsql
+as $$
+declare
+  result public.api_versions;
+begin
+  if p_status not in ('supported', 'deprecated') then
+    raise exception 'Publish a new version to change the current one' using errcode = '23514';
+  end if;
+
+  update public.api_versions set status = p_status
+  where id = p_version_id and status <> 'current'
+  returning * into result;
+
+  if not found then
+    raise exception 'API version % does not exist or is the current one', p_version_id using errcode = 'P0002';
+  end if;
+
+  return result;
+end;
+$$;
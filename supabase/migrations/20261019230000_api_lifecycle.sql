@@ -0,0 +1,221 @@
+-- Where each API is in its life: draft, beta, stable, deprecated or
+-- retired. Deprecated APIs keep answering until their sunset date and
+-- name the API that replaces them; retired ones no longer answer.
+
+alter table public.apis
+  add column lifecycle text not null default 'stable'
+    check (lifecycle in ('draft', 'beta', 'stable', 'deprecated', 'retired')),
+  add column deprecated_at timestamptz,
+  add column sunset_at timestamptz,
+  -- Deleting the successor of a deprecated API fails apis_deprecation_check
+  add column successor_id uuid references public.apis (id) on delete set null;
+
+alter table public.apis
+  add constraint apis_successor_check check (successor_id <> id),
+  add constraint apis_deprecation_check check (
+    lifecycle <> 'deprecated' or (sunset_at is not null and successor_id is not null)
+  );
+
+create index apis_lifecycle_idx on public.apis (lifecycle);
+
+-- deprecated_at records when an API became deprecated, for the
+-- Deprecation header. Retired APIs keep it; APIs brought back clear it.
+create or replace function public.stamp_api_deprecation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.lifecycle = 'deprecated' and (tg_op = 'INSERT' or old.lifecycle <> 'deprecated') then
+    new.deprecated_at := now();
+  elsif new.lifecycle in ('draft', 'beta', 'stable') then
+    new.deprecated_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger apis_stamp_deprecation
+  before insert or update of lifecycle on public.apis
+  for each row
+  execute function public.stamp_api_deprecation();
+
+-- Followers hear when an API is deprecated and when its sunset date or
+-- successor changes afterwards
+create or replace function public.notify_api_deprecation()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.notify_api_followers(
+    new.id,
+    'api_deprecation',
+    jsonb_build_object('sunset_at', new.sunset_at, 'successor_id', new.successor_id)
+  );
+  return null;
+end;
+$$;
+
+create trigger apis_notify_deprecation
+  after update of lifecycle, sunset_at, successor_id on public.apis
+  for each row
+  when (
+    new.lifecycle = 'deprecated' and (
+      old.lifecycle <> 'deprecated'
+      or new.sunset_at is distinct from old.sunset_at
+      or new.successor_id is distinct from old.successor_id
+    )
+  )
+  execute function public.notify_api_deprecation();
+
+-- Same as before, with the lifecycle fields
+create or replace function public.create_api(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_api_id uuid;
+begin
+  insert into public.apis (
+    name, description, version, team_id, base_url, documentation_url,
+    category_id, tags, auth_type, auth_description, health_path,
+    lifecycle, sunset_at, successor_id, created_by
+  )
+  values (
+    payload->>'name',
+    payload->>'description',
+    coalesce(nullif(payload->>'version', ''), 'v1'),
+    (payload->>'team_id')::uuid,
+    payload->>'base_url',
+    payload->>'documentation_url',
+    (payload->>'category_id')::uuid,
+    coalesce(array(select jsonb_array_elements_text(payload->'tags')), '{}'),
+    coalesce(payload->>'auth_type', 'none'),
+    payload->>'auth_description',
+    nullif(payload->>'health_path', ''),
+    coalesce(payload->>'lifecycle', 'stable'),
+    (payload->>'sunset_at')::timestamptz,
+    (payload->>'successor_id')::uuid,
+    auth.uid()
+  )
+  returning id into new_api_id;
+
+  -- Start from the column defaults, then apply any call counts that were
+  -- given. Uptime and response time stay empty until the API is probed.
+  insert into public.api_stats (api_id) values (new_api_id);
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls)
+    where api_id = new_api_id;
+  end if;
+
+  insert into public.api_endpoints (
+    api_id, path, method, description, parameters, request_body, responses
+  )
+  select
+    new_api_id, e->>'path', e->>'method', e->>'description',
+    coalesce(e->'parameters', '[]'::jsonb),
+    nullif(e->'request_body', 'null'::jsonb),
+    coalesce(e->'responses', '[]'::jsonb)
+  from jsonb_array_elements(coalesce(payload->'endpoints', '[]'::jsonb)) as e;
+
+  return public.api_as_json(new_api_id);
+end;
+$$;
+
+-- Same as before, with the lifecycle fields
+create or replace function public.update_api(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_version_id uuid;
+begin
+  update public.apis set
+    name = coalesce(payload->>'name', name),
+    description = coalesce(payload->>'description', description),
+    version = coalesce(nullif(payload->>'version', ''), version),
+    team_id = coalesce((payload->>'team_id')::uuid, team_id),
+    base_url = coalesce(payload->>'base_url', base_url),
+    documentation_url = case
+      when payload ? 'documentation_url' then payload->>'documentation_url'
+      else documentation_url
+    end,
+    category_id = coalesce((payload->>'category_id')::uuid, category_id),
+    tags = case
+      when payload ? 'tags' then array(select jsonb_array_elements_text(payload->'tags'))
+      else tags
+    end,
+    auth_type = coalesce(payload->>'auth_type', auth_type),
+    auth_description = case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else auth_description
+    end,
+    health_path = case
+      when payload ? 'health_path' then nullif(payload->>'health_path', '')
+      else health_path
+    end,
+    lifecycle = coalesce(payload->>'lifecycle', lifecycle),
+    sunset_at = case
+      when payload ? 'sunset_at' then (payload->>'sunset_at')::timestamptz
+      else sunset_at
+    end,
+    successor_id = case
+      when payload ? 'successor_id' then (payload->>'successor_id')::uuid
+      else successor_id
+    end,
+    updated_at = now()
+  where id = p_api_id;
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'stats' then
+    update public.api_stats set
+      total_calls = coalesce((payload->'stats'->>'total_calls')::numeric, total_calls),
+      last_week_calls = coalesce((payload->'stats'->>'last_week_calls')::numeric, last_week_calls),
+      updated_at = now()
+    where api_id = p_api_id;
+  end if;
+
+  if payload ? 'endpoints' then
+    select id into v_version_id
+    from public.api_versions
+    where api_id = p_api_id and status = 'current';
+
+    delete from public.api_endpoints
+    where version_id = v_version_id
+      and id not in (
+        select (e->>'id')::uuid
+        from jsonb_array_elements(payload->'endpoints') as e
+        where e->>'id' is not null
+      );
+
+    update public.api_endpoints ae set
+      path = e->>'path',
+      method = e->>'method',
+      description = e->>'description',
+      parameters = coalesce(e->'parameters', '[]'::jsonb),
+      request_body = nullif(e->'request_body', 'null'::jsonb),
+      responses = coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where ae.version_id = v_version_id
+      and ae.id = (e->>'id')::uuid;
+
+    insert into public.api_endpoints (
+      api_id, version_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, v_version_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e
+    where e->>'id' is null;
+  end if;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
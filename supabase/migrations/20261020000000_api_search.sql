@@ -0,0 +1,224 @@
+-- Full-text search over the catalog. Each API has a search document
+-- weighted A for its name and tags, B for its team and description, C for
+-- the paths and descriptions of its current endpoints and D for its
+-- authentication. Triggers keep the documents up to date.
+--
+-- search_apis ranks with rules simple enough for the local backend to
+-- repeat exactly (src/services/search/ranking.ts): text is split into
+-- lowercase runs of letters and digits, every query term must prefix a
+-- word, and each term scores the weight of the best field it appears in,
+-- halved when it only prefixes the word.
+
+-- Punctuation becomes spaces, so /payments/{id} indexes payments and id
+-- instead of one file-path token. The 'simple' configuration does not
+-- stem, which keeps the local backend's matching the same.
+create or replace function public.search_text(p_text text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(lower(coalesce(p_text, '')), '[^[:alnum:]]+', ' ', 'g');
+$$;
+
+create table public.api_search_documents (
+  api_id uuid primary key references public.apis (id) on delete cascade,
+  document tsvector not null,
+  updated_at timestamptz not null default now()
+);
+
+create index api_search_documents_document_idx
+  on public.api_search_documents using gin (document);
+
+alter table public.api_search_documents enable row level security;
+
+create policy "Search documents are readable by everyone"
+  on public.api_search_documents for select
+  using (true);
+
+-- Runs as the definer: renaming a team refreshes APIs its members may not
+-- be able to edit
+create or replace function public.refresh_api_search_document(p_api_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.api_search_documents (api_id, document)
+  select
+    a.id,
+    setweight(to_tsvector('simple', public.search_text(a.name || ' ' || array_to_string(a.tags, ' '))), 'A')
+    || setweight(to_tsvector('simple', public.search_text(coalesce(t.name, '') || ' ' || a.description)), 'B')
+    || setweight(to_tsvector('simple', public.search_text(coalesce((
+      select string_agg(e.path || ' ' || e.description, ' ')
+      from public.api_endpoints e
+      join public.api_versions v on v.id = e.version_id
+      where e.api_id = a.id and v.status = 'current'
+    ), ''))), 'C')
+    || setweight(to_tsvector('simple', public.search_text(a.auth_type || ' ' || coalesce(a.auth_description, ''))), 'D')
+  from public.apis a
+  left join public.teams t on t.id = a.team_id
+  where a.id = p_api_id
+  on conflict (api_id) do update set
+    document = excluded.document,
+    updated_at = now();
+$$;
+
+create or replace function public.refresh_api_search_on_api()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_api_search_document(new.id);
+  return null;
+end;
+$$;
+
+create trigger apis_refresh_search
+  after insert or update of name, description, tags, team_id, auth_type, auth_description on public.apis
+  for each row
+  execute function public.refresh_api_search_on_api();
+
+create or replace function public.refresh_api_search_on_endpoint()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_api_search_document(coalesce(new.api_id, old.api_id));
+  return null;
+end;
+$$;
+
+create trigger api_endpoints_refresh_search
+  after insert or update or delete on public.api_endpoints
+  for each row
+  execute function public.refresh_api_search_on_endpoint();
+
+-- Publishing a version changes which endpoints are current
+create or replace function public.refresh_api_search_on_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_api_search_document(new.api_id);
+  return null;
+end;
+$$;
+
+create trigger api_versions_refresh_search
+  after update of status on public.api_versions
+  for each row
+  execute function public.refresh_api_search_on_version();
+
+create or replace function public.refresh_api_search_on_team()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_api_search_document(a.id)
+  from public.apis a
+  where a.team_id = new.id;
+  return null;
+end;
+$$;
+
+create trigger teams_refresh_search
+  after update of name on public.teams
+  for each row
+  execute function public.refresh_api_search_on_team();
+
+select public.refresh_api_search_document(id) from public.apis;
+
+-- p_filters: category_id, auth_type, lifecycle, include_retired and
+-- sort_by (relevance, popularity, date, name or uptime). Retired APIs are
+-- left out unless include_retired is true or lifecycle is 'retired';
+-- hidden_retired counts the ones left out. Returns
+-- { results: [{ api, rank }], total, hidden_retired }.
+create or replace function public.search_apis(
+  p_query text,
+  p_filters jsonb default '{}'::jsonb,
+  p_offset integer default 0,
+  p_limit integer default 12
+)
+returns jsonb
+language sql
+stable
+as $$
+  with terms as (
+    select distinct term
+    from regexp_split_to_table(public.search_text(p_query), ' ') as term
+    where term <> ''
+  ),
+  query as (
+    select to_tsquery('simple', string_agg(term || ':*', ' & ')) as tsquery
+    from terms
+  ),
+  matches as (
+    select
+      a.id,
+      a.name,
+      a.lifecycle,
+      a.created_at,
+      s.total_calls,
+      s.uptime,
+      coalesce((
+        select sum(best)
+        from (
+          select max(
+            case w.weight when 'A' then 1.0 when 'B' then 0.4 when 'C' then 0.2 else 0.1 end
+            * case when u.lexeme = t.term then 1.0 else 0.5 end
+          ) as best
+          from terms t
+          cross join lateral unnest(d.document) as u
+          cross join lateral unnest(u.weights) as w (weight)
+          where u.lexeme like t.term || '%'
+          group by t.term
+        ) as scores
+      ), 0) as rank
+    from public.apis a
+    join public.api_search_documents d on d.api_id = a.id
+    left join public.api_stats s on s.api_id = a.id
+    where (not exists (select 1 from terms) or d.document @@ (select tsquery from query))
+      and (p_filters->>'category_id' is null or a.category_id = (p_filters->>'category_id')::uuid)
+      and (p_filters->>'auth_type' is null or a.auth_type = p_filters->>'auth_type')
+  ),
+  shown as (
+    select *
+    from matches m
+    where case
+      when p_filters->>'lifecycle' is not null then m.lifecycle = p_filters->>'lifecycle'
+      else coalesce((p_filters->>'include_retired')::boolean, false) or m.lifecycle <> 'retired'
+    end
+  ),
+  page as (
+    select
+      m.id,
+      m.rank,
+      row_number() over (
+        order by
+          case when coalesce(p_filters->>'sort_by', 'relevance') = 'relevance' then m.rank end desc,
+          case when p_filters->>'sort_by' = 'date' then m.created_at end desc,
+          case when p_filters->>'sort_by' = 'uptime' then m.uptime end desc nulls last,
+          case when p_filters->>'sort_by' = 'name' then m.name end asc,
+          m.total_calls desc nulls last,
+          m.name asc,
+          m.id asc
+      ) as position
+    from shown m
+  )
+  select jsonb_build_object(
+    'results', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('api', public.api_as_json(p.id), 'rank', p.rank)
+        order by p.position
+      )
+      from page p
+      where p.position > p_offset and p.position <= p_offset + p_limit
+    ), '[]'::jsonb),
+    'total', (select count(*) from shown),
+    'hidden_retired', case
+      when p_filters->>'lifecycle' is null and not coalesce((p_filters->>'include_retired')::boolean, false)
+        then (select count(*) from matches) - (select count(*) from shown)
+      else 0
+    end
+  );
+$$;
@@ -0,0 +1,135 @@
+-- Filters for the search box syntax (src/services/search/query.ts): tags
+-- required and excluded, the owning team, the HTTP methods of the current
+-- endpoints and bounds on total calls.
+
+-- The lowercase strings of a JSON array in p_filters, empty when the key
+-- is missing or not an array
+create or replace function public.search_filter_list(p_filters jsonb, p_key text)
+returns text[]
+language sql
+immutable
+as $$
+  select array(
+    select lower(value)
+    from jsonb_array_elements_text(
+      case when jsonb_typeof(p_filters->p_key) = 'array' then p_filters->p_key else '[]'::jsonb end
+    ) as value
+  );
+$$;
+
+-- p_filters: category_id, auth_type, lifecycle, include_retired, tags,
+-- excluded_tags, owner, excluded_owners, methods, excluded_methods,
+-- min_calls, max_calls and sort_by (relevance, popularity, date, name or
+-- uptime). Tags, team names and methods compare ignoring case, and methods
+-- are those of the current version's endpoints. Retired APIs are
+-- left out unless include_retired is true or lifecycle is 'retired';
+-- hidden_retired counts the ones left out. Returns
+-- { results: [{ api, rank }], total, hidden_retired }.
+create or replace function public.search_apis(
+  p_query text,
+  p_filters jsonb default '{}'::jsonb,
+  p_offset integer default 0,
+  p_limit integer default 12
+)
+returns jsonb
+language sql
+stable
+as $$
+  with terms as (
+    select distinct term
+    from regexp_split_to_table(public.search_text(p_query), ' ') as term
+    where term <> ''
+  ),
+  query as (
+    select to_tsquery('simple', string_agg(term || ':*', ' & ')) as tsquery
+    from terms
+  ),
+  matches as (
+    select
+      a.id,
+      a.name,
+      a.lifecycle,
+      a.created_at,
+      s.total_calls,
+      s.uptime,
+      coalesce((
+        select sum(best)
+        from (
+          select max(
+            case w.weight when 'A' then 1.0 when 'B' then 0.4 when 'C' then 0.2 else 0.1 end
+            * case when u.lexeme = t.term then 1.0 else 0.5 end
+          ) as best
+          from terms t
+          cross join lateral unnest(d.document) as u
+          cross join lateral unnest(u.weights) as w (weight)
+          where u.lexeme like t.term || '%'
+          group by t.term
+        ) as scores
+      ), 0) as rank
+    from public.apis a
+    join public.api_search_documents d on d.api_id = a.id
+    left join public.api_stats s on s.api_id = a.id
+    left join public.teams team on team.id = a.team_id
+    cross join lateral (
+      select
+        array(select lower(tag) from unnest(a.tags) as tag) as tags,
+        array(
+          select lower(e.method)
+          from public.api_endpoints e
+          join public.api_versions v on v.id = e.version_id
+          where e.api_id = a.id and v.status = 'current'
+        ) as methods
+    ) as facets
+    where (not exists (select 1 from terms) or d.document @@ (select tsquery from query))
+      and (p_filters->>'category_id' is null or a.category_id = (p_filters->>'category_id')::uuid)
+      and (p_filters->>'auth_type' is null or a.auth_type = p_filters->>'auth_type')
+      and facets.tags @> public.search_filter_list(p_filters, 'tags')
+      and not facets.tags && public.search_filter_list(p_filters, 'excluded_tags')
+      and (p_filters->>'owner' is null or lower(team.name) = lower(p_filters->>'owner'))
+      and (team.name is null or lower(team.name) <> all (public.search_filter_list(p_filters, 'excluded_owners')))
+      and facets.methods @> public.search_filter_list(p_filters, 'methods')
+      and not facets.methods && public.search_filter_list(p_filters, 'excluded_methods')
+      and (p_filters->>'min_calls' is null or coalesce(s.total_calls, 0) >= (p_filters->>'min_calls')::bigint)
+      and (p_filters->>'max_calls' is null or coalesce(s.total_calls, 0) <= (p_filters->>'max_calls')::bigint)
+  ),
+  shown as (
+    select *
+    from matches m
+    where case
+      when p_filters->>'lifecycle' is not null then m.lifecycle = p_filters->>'lifecycle'
+      else coalesce((p_filters->>'include_retired')::boolean, false) or m.lifecycle <> 'retired'
+    end
+  ),
+  page as (
+    select
+      m.id,
+      m.rank,
+      row_number() over (
+        order by
+          case when coalesce(p_filters->>'sort_by', 'relevance') = 'relevance' then m.rank end desc,
+          case when p_filters->>'sort_by' = 'date' then m.created_at end desc,
+          case when p_filters->>'sort_by' = 'uptime' then m.uptime end desc nulls last,
+          case when p_filters->>'sort_by' = 'name' then m.name end asc,
+          m.total_calls desc nulls last,
+          m.name asc,
+          m.id asc
+      ) as position
+    from shown m
+  )
+  select jsonb_build_object(
+    'results', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('api', public.api_as_json(p.id), 'rank', p.rank)
+        order by p.position
+      )
+      from page p
+      where p.position > p_offset and p.position <= p_offset + p_limit
+    ), '[]'::jsonb),
+    'total', (select count(*) from shown),
+    'hidden_retired', case
+      when p_filters->>'lifecycle' is null and not coalesce((p_filters->>'include_retired')::boolean, false)
+        then (select count(*) from matches) - (select count(*) from shown)
+      else 0
+    end
+  );
+$$;
@@ -0,0 +1,160 @@
+-- Incidents count against uptime and alerts notify followers, so only the
+-- owners of the APIs involved and admins write them. Owners declare and
+-- edit incidents through create_incident and update_incident, which check
+-- every affected API and run as the definer; the tables themselves are
+-- only written directly by admins.
+
+drop policy "Anyone can write incidents" on public.incidents;
+drop policy "Anyone can write incident APIs" on public.incident_apis;
+drop policy "Anyone can write incident updates" on public.incident_updates;
+drop policy "Anyone can write alert rules" on public.alert_rules;
+drop policy "Anyone can write alerts" on public.alerts;
+
+-- Admins, or owners of every API of an `affected` list like the one
+-- create_incident takes. An empty list is only for admins.
+create or replace function public.can_edit_affected_apis(p_affected jsonb)
+returns boolean
+language sql
+stable
+as $$
+  select public.has_role('admin') or (
+    jsonb_array_length(coalesce(p_affected, '[]'::jsonb)) > 0
+    and not exists (
+      select 1 from jsonb_array_elements(p_affected) as a
+      where not public.can_edit_api((a->>'api_id')::uuid)
+    )
+  );
+$$;
+
+create or replace function public.can_edit_incident(p_incident_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can_edit_affected_apis(coalesce((
+    select jsonb_agg(jsonb_build_object('api_id', ia.api_id))
+    from public.incident_apis ia
+    where ia.incident_id = p_incident_id
+  ), '[]'::jsonb));
+$$;
+
+create policy "Admins write incidents"
+  on public.incidents for all
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+
+create policy "Admins write incident APIs"
+  on public.incident_apis for all
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+
+create policy "Admins write incident updates"
+  on public.incident_updates for all
+  using (public.has_role('admin')) with check (public.has_role('admin'));
+
+create policy "Owners and admins write alert rules"
+  on public.alert_rules for all
+  using (public.can_edit_api(api_id)) with check (public.can_edit_api(api_id));
+
+create policy "Owners and admins write alerts"
+  on public.alerts for all
+  using (public.can_edit_api(api_id)) with check (public.can_edit_api(api_id));
+
+-- payload: title, severity, affected, message (the first update) and
+-- optional status and started_at
+create or replace function public.create_incident(payload jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_incident_id uuid;
+  initial_status text := coalesce(payload->>'status', 'investigating');
+begin
+  if not public.can_edit_affected_apis(payload->'affected') then
+    raise exception 'Only owners of every affected API and admins can declare this incident'
+      using errcode = '42501';
+  end if;
+
+  insert into public.incidents (title, severity, status, started_at, resolved_at)
+  values (
+    payload->>'title',
+    payload->>'severity',
+    initial_status,
+    coalesce((payload->>'started_at')::timestamptz, now()),
+    case when initial_status = 'resolved' then now() end
+  )
+  returning id into new_incident_id;
+
+  perform public.set_incident_apis(new_incident_id, payload->'affected');
+
+  insert into public.incident_updates (incident_id, status, message)
+  values (new_incident_id, initial_status, payload->>'message');
+
+  perform public.refresh_api_health_stats(ia.api_id)
+  from public.incident_apis ia
+  where ia.incident_id = new_incident_id;
+
+  return public.incident_as_json(new_incident_id);
+end;
+$$;
+
+-- payload: any of title, severity, started_at and affected, plus an
+-- optional `update` ({status, message}) posted on the timeline. The
+-- incident takes the update's status; resolving it sets resolved_at.
+create or replace function public.update_incident(p_incident_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous_api_ids uuid[];
+begin
+  if not public.can_edit_incident(p_incident_id)
+    or (payload ? 'affected' and not public.can_edit_affected_apis(payload->'affected')) then
+    raise exception 'Only owners of every affected API and admins can edit this incident'
+      using errcode = '42501';
+  end if;
+
+  select array_agg(api_id) into previous_api_ids
+  from public.incident_apis
+  where incident_id = p_incident_id;
+
+  update public.incidents set
+    title = coalesce(payload->>'title', title),
+    severity = coalesce(payload->>'severity', severity),
+    started_at = coalesce((payload->>'started_at')::timestamptz, started_at),
+    status = coalesce(payload->'update'->>'status', status),
+    resolved_at = case
+      when not payload ? 'update' then resolved_at
+      when payload->'update'->>'status' = 'resolved' then coalesce(resolved_at, now())
+      else null
+    end,
+    updated_at = now()
+  where id = p_incident_id;
+
+  if not found then
+    raise exception 'Incident % does not exist', p_incident_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'affected' then
+    perform public.set_incident_apis(p_incident_id, payload->'affected');
+  end if;
+
+  if payload ? 'update' then
+    insert into public.incident_updates (incident_id, status, message)
+    values (p_incident_id, payload->'update'->>'status', payload->'update'->>'message');
+  end if;
+
+  perform public.refresh_api_health_stats(api_id)
+  from (
+    select unnest(previous_api_ids) as api_id
+    union
+    select api_id from public.incident_apis where incident_id = p_incident_id
+  ) affected_apis;
+
+  return public.incident_as_json(p_incident_id);
+end;
+$$;
@@ -0,0 +1,10 @@
+-- record_api_calls and refresh_api_health_stats run as the definer and
+-- write usage, stats and key activity for any API. Only the gateway and
+-- the health prober call them, with the service role; create_incident and
+-- update_incident also run as the definer and keep refreshing the stats.
+
+revoke execute on function public.record_api_calls(jsonb) from public, anon, authenticated;
+grant execute on function public.record_api_calls(jsonb) to service_role;
+
+revoke execute on function public.refresh_api_health_stats(uuid) from public, anon, authenticated;
+grant execute on function public.refresh_api_health_stats(uuid) to service_role;
@@ -0,0 +1,73 @@
+-- Follows, notifications and notification preferences now belong to
+-- signed-in users, and each user only reads and writes their own rows.
+-- Rows kept under the anonymous ids browsers used before are dropped.
+
+drop policy "Anyone can manage follows" on public.api_follows;
+drop policy "Anyone can manage notifications" on public.notifications;
+drop policy "Anyone can manage notification preferences" on public.notification_preferences;
+
+delete from public.api_follows where user_id not in (select id from auth.users);
+delete from public.notifications where user_id not in (select id from auth.users);
+delete from public.notification_preferences where user_id not in (select id from auth.users);
+
+create policy "Users manage their follows"
+  on public.api_follows for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Notifications are written by the functions below, for any user; users
+-- read them, mark them as read and delete them
+create policy "Users read their notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users update their notifications"
+  on public.notifications for update
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users delete their notifications"
+  on public.notifications for delete
+  using (user_id = auth.uid());
+
+create policy "Users manage their notification preferences"
+  on public.notification_preferences for all
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- The policies no longer let a user write other users' notifications, so
+-- the functions that notify them run as the definer. Users cannot call
+-- them directly; the triggers and functions that do run as the definer too.
+create or replace function public.notify_api_followers(p_api_id uuid, p_type text, p_data jsonb)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (user_id, type, api_id, data)
+  select f.user_id, p_type, p_api_id, coalesce(p_data, '{}'::jsonb)
+  from public.api_follows f
+  where f.api_id = p_api_id
+    and not exists (
+      select 1 from public.notification_preferences p
+      where p.user_id = f.user_id and p.type = p_type and not p.enabled
+    );
+$$;
+
+create or replace function public.notify_user(p_user_id uuid, p_api_id uuid, p_type text, p_data jsonb)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (user_id, type, api_id, data)
+  select p_user_id, p_type, p_api_id, coalesce(p_data, '{}'::jsonb)
+  where not exists (
+    select 1 from public.notification_preferences p
+    where p.user_id = p_user_id and p.type = p_type and not p.enabled
+  );
+$$;
+
+revoke execute on function public.notify_api_followers(uuid, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.notify_user(uuid, uuid, text, jsonb) from public, anon, authenticated;
+
+alter function public.notify_api_version() security definer set search_path = public;
+alter function public.notify_alert_fired() security definer set search_path = public;
+alter function public.notify_api_deprecation() security definer set search_path = public;
@@ -0,0 +1,13 @@
+-- The portal has no comments on APIs, so nothing ever sent api_comment
+-- notifications. The type is dropped until comments exist.
+
+delete from public.notifications where type = 'api_comment';
+delete from public.notification_preferences where type = 'api_comment';
+
+alter table public.notifications drop constraint notifications_type_check;
+alter table public.notifications add constraint notifications_type_check
+  check (type in ('api_version', 'api_deprecation', 'access_request', 'alert_fired'));
+
+alter table public.notification_preferences drop constraint notification_preferences_type_check;
+alter table public.notification_preferences add constraint notification_preferences_type_check
+  check (type in ('api_version', 'api_deprecation', 'access_request', 'alert_fired'));
@@ -0,0 +1,10 @@
+-- Every tag used by some API, once, for the search box suggestions
+create or replace function public.list_api_tags()
+returns setof text
+language sql
+stable
+as $$
+  select tag
+  from (select distinct unnest(tags) as tag from public.apis) t
+  order by lower(tag), tag;
+$$;
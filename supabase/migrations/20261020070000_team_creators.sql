@@ -0,0 +1,63 @@
+-- Teams remember who created them, so only that user or an admin can add
+-- the first members of a team that has none. Before, any editor could add
+-- themselves to an empty team and then edit it. Teams made from the old
+-- owner names keep created_by empty.
+
+alter table public.teams
+  add column created_by uuid references auth.users (id) on delete set null default auth.uid();
+
+drop policy "Editors and admins can add teams" on public.teams;
+
+create policy "Editors and admins can add teams"
+  on public.teams for insert
+  with check (
+    (public.has_role('editor') or public.has_role('admin'))
+    and created_by is not distinct from auth.uid()
+  );
+
+drop policy "Editors, members and admins can write team members" on public.team_members;
+
+create policy "Members, creators and admins can write team members"
+  on public.team_members for all
+  using (public.is_team_member(team_id) or public.has_role('admin'))
+  with check (
+    public.is_team_member(team_id)
+    or public.has_role('admin')
+    -- The first members of a team that has none yet
+    or (
+      exists (
+        select 1 from public.teams t
+        where t.id = team_members.team_id and t.created_by = auth.uid()
+      )
+      and not exists (select 1 from public.team_members m where m.team_id = team_members.team_id)
+    )
+  );
+
+-- Same as before, plus created_by, which is always the signed-in user and
+-- never taken from the payload
+create or replace function public.create_team(payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  new_team_id uuid;
+begin
+  insert into public.teams (name, description, contact_channels, on_call_rotation, created_by)
+  values (
+    btrim(payload->>'name'),
+    nullif(payload->>'description', ''),
+    coalesce(payload->'contact_channels', '[]'::jsonb),
+    nullif(payload->>'on_call_rotation', ''),
+    auth.uid()
+  )
+  returning id into new_team_id;
+
+  insert into public.team_members (team_id, user_id, name, email, role)
+  select
+    new_team_id, (m->>'user_id')::uuid, m->>'name',
+    nullif(m->>'email', ''), nullif(m->>'role', '')
+  from jsonb_array_elements(coalesce(payload->'members', '[]'::jsonb)) as m;
+
+  return public.team_as_json(new_team_id);
+end;
+$$;
@@ -0,0 +1,53 @@
+-- Everything the public status page needs, in one request: per API, its
+-- daily health rollup since p_since (UTC days, checks during major or
+-- critical incidents count as down, like api_health_daily), its latest
+-- check of the last 24 hours and when its current streak of failed
+-- checks started. Reading the api_health_daily view instead went past
+-- PostgREST's row limit with 90 days of many APIs.
+create or replace function public.api_health_status(p_since date)
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'api_id', a.id,
+    'days', coalesce((
+      select jsonb_agg(to_jsonb(d) order by d.day)
+      from (
+        select
+          c.api_id,
+          (c.checked_at at time zone 'utc')::date as day,
+          count(*)::integer as checks,
+          (count(*) filter (
+            where c.status <> 'down' and not public.incident_downtime(c.api_id, c.checked_at)
+          ))::integer as up_checks,
+          round(avg(c.latency_ms) filter (
+            where c.status <> 'down' and not public.incident_downtime(c.api_id, c.checked_at)
+          ))::integer as avg_latency_ms
+        from public.api_health_checks c
+        where c.api_id = a.id
+          and c.checked_at >= p_since::timestamp at time zone 'utc'
+        group by c.api_id, (c.checked_at at time zone 'utc')::date
+      ) d
+    ), '[]'::jsonb),
+    'latest', l.latest_check,
+    'failing_since', case when l.latest_check->>'status' <> 'up' then (
+      select min(c.checked_at)
+      from public.api_health_checks c
+      where c.api_id = a.id
+        and c.checked_at > coalesce((
+          select max(u.checked_at)
+          from public.api_health_checks u
+          where u.api_id = a.id and u.status = 'up'
+        ), '-infinity')
+    ) end
+  )), '[]'::jsonb)
+  from public.apis a
+  left join lateral (
+    select to_jsonb(c) as latest_check
+    from public.api_health_checks c
+    where c.api_id = a.id and c.checked_at > now() - interval '24 hours'
+    order by c.checked_at desc
+    limit 1
+  ) l on true;
+$$;
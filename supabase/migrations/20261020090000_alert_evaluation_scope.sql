@@ -0,0 +1,49 @@
+-- evaluate_alert_rules runs as the caller. Called by a signed-in user
+-- without an API, it tried to fire alerts for every API, and the alerts
+-- policy rejected the whole call as soon as one API was not theirs. Users
+-- now only evaluate the rules of the APIs they can edit; the service role
+-- and the triggers that run as the definer still evaluate every rule.
+create or replace function public.evaluate_alert_rules(p_api_id uuid default null)
+returns setof public.alerts
+language plpgsql
+as $$
+declare
+  alert_rule public.alert_rules;
+  measured numeric;
+  breached boolean;
+  open_alert_id uuid;
+  fired public.alerts;
+begin
+  for alert_rule in
+    select * from public.alert_rules
+    where enabled
+      and (p_api_id is null or api_id = p_api_id)
+      and (current_user not in ('anon', 'authenticated') or public.can_edit_api(api_id))
+  loop
+    measured := public.measure_alert_rule(alert_rule.api_id, alert_rule.metric, alert_rule.window_days);
+    if measured is null then
+      continue;
+    end if;
+
+    breached := case alert_rule.metric
+      when 'uptime' then measured < alert_rule.threshold
+      when 'p95_latency' then measured > alert_rule.threshold
+      else measured >= alert_rule.threshold
+    end;
+
+    select id into open_alert_id
+    from public.alerts
+    where rule_id = alert_rule.id and status <> 'resolved';
+
+    if breached and open_alert_id is null then
+      insert into public.alerts (rule_id, api_id, metric, threshold, window_days, value)
+      values (alert_rule.id, alert_rule.api_id, alert_rule.metric, alert_rule.threshold, alert_rule.window_days, measured)
+      returning * into fired;
+      return next fired;
+    elsif not breached and open_alert_id is not null then
+      update public.alerts set status = 'resolved', resolved_at = now()
+      where id = open_alert_id;
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- The app refuses to publish breaking changes without a new major version
+-- unless the API's owner overrides it. The override is now recorded on the
+-- version it published, so the changelog shows which breaking changes
+-- were let through on purpose.
+
+alter table public.api_versions
+  add column breaking_allowed boolean not null default false;
+
+-- Same as before, plus payload.allow_breaking, stored on the new version
+create or replace function public.publish_api_version(p_api_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_previous public.api_versions;
+  v_version_id uuid;
+begin
+  select * into v_previous
+  from public.api_versions
+  where api_id = p_api_id and status = 'current';
+
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if coalesce(btrim(payload->>'version'), '') = '' then
+    raise exception 'New versions need a name' using errcode = '23514';
+  end if;
+
+  if exists (
+    select 1 from public.api_versions
+    where api_id = p_api_id and version = btrim(payload->>'version')
+  ) then
+    raise exception 'Version % already exists', btrim(payload->>'version') using errcode = '23505';
+  end if;
+
+  update public.api_versions set status = 'supported' where id = v_previous.id;
+
+  insert into public.api_versions (
+    api_id, version, base_url, auth_type, auth_description, status, breaking_allowed
+  )
+  values (
+    p_api_id,
+    btrim(payload->>'version'),
+    coalesce(nullif(payload->>'base_url', ''), v_previous.base_url),
+    coalesce(payload->>'auth_type', v_previous.auth_type),
+    case
+      when payload ? 'auth_description' then payload->>'auth_description'
+      else v_previous.auth_description
+    end,
+    'current',
+    coalesce((payload->>'allow_breaking')::boolean, false)
+  )
+  returning id into v_version_id;
+
+  if payload ? 'endpoints' then
+    insert into public.api_endpoints (
+      api_id, version_id, path, method, description, parameters, request_body, responses
+    )
+    select
+      p_api_id, v_version_id, e->>'path', e->>'method', e->>'description',
+      coalesce(e->'parameters', '[]'::jsonb),
+      nullif(e->'request_body', 'null'::jsonb),
+      coalesce(e->'responses', '[]'::jsonb)
+    from jsonb_array_elements(payload->'endpoints') as e;
+  else
+    insert into public.api_endpoints (
+      api_id, version_id, path, method, description, parameters, request_body, responses
+    )
+    select p_api_id, v_version_id, path, method, description, parameters, request_body, responses
+    from public.api_endpoints
+    where version_id = v_previous.id
+    order by created_at, id;
+  end if;
+
+  update public.apis a set
+    version = v.version,
+    base_url = v.base_url,
+    auth_type = v.auth_type,
+    auth_description = v.auth_description,
+    updated_at = now()
+  from public.api_versions v
+  where v.id = v_version_id and a.id = p_api_id;
+
+  return public.api_as_json(p_api_id);
+end;
+$$;
@@ -0,0 +1,96 @@
+-- Comments on APIs. Everyone reads them, signed-in users write them and
+-- remove their own; owners and admins can remove any comment of their API.
+-- Each comment notifies the API's owners and followers with api_comment,
+-- the type 20261020050000 dropped while there were no comments.
+
+create table public.api_comments (
+  id uuid primary key default gen_random_uuid(),
+  api_id uuid not null references public.apis (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  author text not null default '',
+  body text not null check (btrim(body) <> '' and char_length(body) <= 2000),
+  created_at timestamptz not null default now()
+);
+
+create index api_comments_api_id_idx on public.api_comments (api_id, created_at);
+
+alter table public.api_comments enable row level security;
+
+create policy "Comments are readable by everyone"
+  on public.api_comments for select
+  using (true);
+
+create policy "Users add their comments"
+  on public.api_comments for insert
+  with check (user_id = auth.uid());
+
+create policy "Authors, owners and admins delete comments"
+  on public.api_comments for delete
+  using (user_id = auth.uid() or public.can_edit_api(api_id));
+
+-- The author is the commenter's name from sign-up, or their email, and is
+-- never taken from the payload
+create or replace function public.set_comment_author()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select coalesce(
+    nullif(u.raw_user_meta_data->>'full_name', ''),
+    nullif(u.raw_user_meta_data->>'name', ''),
+    u.email,
+    ''
+  )
+  into new.author
+  from auth.users u
+  where u.id = new.user_id;
+  return new;
+end;
+$$;
+
+create trigger api_comments_set_author
+  before insert on public.api_comments
+  for each row
+  execute function public.set_comment_author();
+
+alter table public.notifications drop constraint notifications_type_check;
+alter table public.notifications add constraint notifications_type_check
+  check (type in ('api_version', 'api_deprecation', 'access_request', 'alert_fired', 'api_comment'));
+
+alter table public.notification_preferences drop constraint notification_preferences_type_check;
+alter table public.notification_preferences add constraint notification_preferences_type_check
+  check (type in ('api_version', 'api_deprecation', 'access_request', 'alert_fired', 'api_comment'));
+
+-- Owners hear about every comment on their API, followers too; nobody is
+-- notified of their own comment or twice for the same one
+create or replace function public.notify_api_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.notify_user(
+    recipients.user_id,
+    new.api_id,
+    'api_comment',
+    jsonb_build_object('author', new.author, 'excerpt', left(new.body, 140))
+  )
+  from (
+    select r.user_id from public.user_roles r
+    where r.role = 'owner' and r.api_id = new.api_id
+    union
+    select f.user_id from public.api_follows f
+    where f.api_id = new.api_id
+  ) as recipients
+  where recipients.user_id <> new.user_id;
+  return new;
+end;
+$$;
+
+create trigger api_comments_notify
+  after insert on public.api_comments
+  for each row
+  execute function public.notify_api_comment();
@@ -0,0 +1,113 @@
+-- Teams own APIs, so the members of an API's team edit it like its owners.
+-- Who the members are is up to the team's creator and admins: before, any
+-- member could remove or replace every other member. Teams made from the
+-- old owner names have no creator, so only admins manage their members.
+
+create or replace function public.can_edit_api(p_api_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_role('admin')
+    or exists (
+      select 1 from public.user_roles
+      where user_id = auth.uid() and role = 'owner' and api_id = p_api_id
+    )
+    or exists (
+      select 1
+      from public.apis a
+      join public.team_members m on m.team_id = a.team_id
+      where a.id = p_api_id and m.user_id = auth.uid()
+    );
+$$;
+
+create or replace function public.can_manage_team_members(p_team_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_role('admin') or exists (
+    select 1 from public.teams
+    where id = p_team_id and created_by = auth.uid()
+  );
+$$;
+
+drop policy "Members, creators and admins can write team members" on public.team_members;
+
+create policy "Creators and admins can write team members"
+  on public.team_members for all
+  using (public.can_manage_team_members(team_id))
+  with check (public.can_manage_team_members(team_id));
+
+-- The creator keeps the details of their team up to date too, even when
+-- they are not one of its members
+drop policy "Members and admins can update teams" on public.teams;
+
+create policy "Members, creators and admins can update teams"
+  on public.teams for update
+  using (public.is_team_member(id) or public.can_manage_team_members(id))
+  with check (public.is_team_member(id) or public.can_manage_team_members(id));
+
+-- Same as before, but a members list from anyone other than the creator or
+-- an admin is refused instead of being partly dropped by the policies
+create or replace function public.update_team(p_team_id uuid, payload jsonb)
+returns jsonb
+language plpgsql
+as $$
+begin
+  if payload ? 'members' and not public.can_manage_team_members(p_team_id) then
+    raise exception 'Only the team''s creator and admins can change its members'
+      using errcode = '42501';
+  end if;
+
+  update public.teams set
+    name = coalesce(btrim(payload->>'name'), name),
+    description = case
+      when payload ? 'description' then nullif(payload->>'description', '')
+      else description
+    end,
+    contact_channels = coalesce(payload->'contact_channels', contact_channels),
+    on_call_rotation = case
+      when payload ? 'on_call_rotation' then nullif(payload->>'on_call_rotation', '')
+      else on_call_rotation
+    end,
+    updated_at = now()
+  where id = p_team_id;
+
+  if not found then
+    raise exception 'Team % does not exist', p_team_id using errcode = 'P0002';
+  end if;
+
+  if payload ? 'members' then
+    delete from public.team_members
+    where team_id = p_team_id
+      and id not in (
+        select (m->>'id')::uuid
+        from jsonb_array_elements(payload->'members') as m
+        where m->>'id' is not null
+      );
+
+    update public.team_members tm set
+      user_id = (m->>'user_id')::uuid,
+      name = m->>'name',
+      email = nullif(m->>'email', ''),
+      role = nullif(m->>'role', '')
+    from jsonb_array_elements(payload->'members') as m
+    where tm.team_id = p_team_id
+      and tm.id = (m->>'id')::uuid;
+
+    insert into public.team_members (team_id, user_id, name, email, role)
+    select
+      p_team_id, (m->>'user_id')::uuid, m->>'name',
+      nullif(m->>'email', ''), nullif(m->>'role', '')
+    from jsonb_array_elements(payload->'members') as m
+    where m->>'id' is null;
+  end if;
+
+  return public.team_as_json(p_team_id);
+end;
+$$;
@@ -0,0 +1,99 @@
+-- Access can only be requested for APIs that take API keys: the others
+-- never check a key, so an approval would grant nothing. API owners can
+-- also revoke a single key of an application, instead of rejecting its
+-- whole access.
+
+-- Same as before, plus the auth_type check
+create or replace function public.request_api_access(
+  p_api_id uuid,
+  p_application_id uuid,
+  p_message text default null
+)
+returns public.access_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.access_requests;
+  v_auto_approve boolean;
+  v_auth_type text;
+begin
+  if not exists (
+    select 1 from public.applications
+    where id = p_application_id and user_id = auth.uid()
+  ) then
+    raise exception 'Only the owner of an application can request access for it' using errcode = '42501';
+  end if;
+
+  select auth_type into v_auth_type from public.apis where id = p_api_id;
+  if not found then
+    raise exception 'API % does not exist', p_api_id using errcode = 'P0002';
+  end if;
+
+  if v_auth_type <> 'apiKey' then
+    raise exception 'API % does not use API keys', p_api_id using errcode = '22023';
+  end if;
+
+  select * into v_request
+  from public.access_requests
+  where application_id = p_application_id and api_id = p_api_id;
+
+  if found and v_request.status <> 'rejected' then
+    return v_request;
+  end if;
+
+  select coalesce(
+    (select auto_approve from public.api_access_settings where api_id = p_api_id),
+    false
+  ) into v_auto_approve;
+
+  insert into public.access_requests (api_id, application_id, user_id, status, message, decided_at)
+  values (
+    p_api_id,
+    p_application_id,
+    auth.uid(),
+    case when v_auto_approve then 'approved' else 'pending' end,
+    nullif(btrim(p_message), ''),
+    case when v_auto_approve then now() end
+  )
+  on conflict (application_id, api_id) do update set
+    status = excluded.status,
+    message = excluded.message,
+    decided_by = null,
+    decided_at = excluded.decided_at,
+    created_at = now()
+  returning * into v_request;
+
+  return v_request;
+end;
+$$;
+
+-- revoke_api_key is for the application's owner; this one is for the
+-- owners of the key's API and admins. The access request stays approved,
+-- so the application can issue a new key.
+create or replace function public.revoke_api_key_as_owner(p_key_id uuid)
+returns public.api_keys
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key public.api_keys;
+begin
+  select * into v_key from public.api_keys where id = p_key_id;
+  if not found then
+    raise exception 'API key % does not exist', p_key_id using errcode = 'P0002';
+  end if;
+
+  if not public.can_edit_api(v_key.api_id) then
+    raise exception 'Only the API''s owners and admins can revoke its keys' using errcode = '42501';
+  end if;
+
+  update public.api_keys set revoked_at = coalesce(revoked_at, now())
+  where id = p_key_id
+  returning * into v_key;
+
+  return v_key;
+end;
+$$;